@@ -0,0 +1,164 @@
+#!/usr/bin/env node
+
+// ==============================================================================
+// 🛰️ Solar Explorer 3D - Mock Horizons Server
+// ==============================================================================
+// Stands in for https://ssd.jpl.nasa.gov/api/horizons.api by replaying the
+// recorded responses listed in test/fixtures/horizons/manifest.json.
+//
+//   npm run mock:horizons                 # replay on http://localhost:4010
+//   npm run mock:horizons -- --record     # proxy misses to JPL and record them
+//
+// Point the app at it with HORIZONS_API_URL=http://localhost:4010/api/horizons.api
+// ==============================================================================
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const PROJECT_ROOT = path.resolve(__dirname, '..');
+const DEFAULT_FIXTURES_DIR = path.join(PROJECT_ROOT, 'test', 'fixtures', 'horizons');
+const DEFAULT_PORT = 4010;
+const UPSTREAM_URL = 'https://ssd.jpl.nasa.gov/api/horizons.api';
+
+// ==============================================================================
+// SCENARIO MATCHING
+// ==============================================================================
+// Each scenario in manifest.json:
+//   command    - COMMAND parameter without quotes (required)
+//   startTime  - START_TIME prefix, e.g. "2024-01-15" (optional)
+//   status     - HTTP status to answer with (default 200)
+//   headers    - extra response headers, e.g. { "Retry-After": "0" }
+//   fixture    - JSON file with the recorded { signature, result } body
+//   times      - only answer the first N matching requests, then fall through
+//                to the next matching scenario (e.g. one 503 before a success)
+
+/**
+ * Horizons wraps values in single quotes: COMMAND='399'
+ */
+function unquote(value) {
+  return (value ?? '').replace(/^'(.*)'$/, '$1').trim();
+}
+
+function loadManifest(fixturesDir) {
+  const manifestPath = path.join(fixturesDir, 'manifest.json');
+  if (!fs.existsSync(manifestPath)) return { scenarios: [] };
+  return JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+}
+
+function findScenario(scenarios, hits, command, startTime) {
+  return scenarios.find((scenario, index) => {
+    if (scenario.command !== command) return false;
+    if (scenario.startTime && !startTime.startsWith(scenario.startTime)) return false;
+    return scenario.times === undefined || (hits.get(index) ?? 0) < scenario.times;
+  });
+}
+
+// ==============================================================================
+// RECORDING
+// ==============================================================================
+
+function toFixtureName(command, startTime) {
+  const slug = `${command}-${startTime.split(' ')[0] || 'any'}`.replace(/[^a-zA-Z0-9-]+/g, '_');
+  return `recorded-${slug}.json`;
+}
+
+async function recordFromUpstream(fixturesDir, manifest, searchParams, command, startTime) {
+  const response = await fetch(`${UPSTREAM_URL}?${searchParams.toString()}`);
+  const body = await response.text();
+  const fixture = toFixtureName(command, startTime);
+
+  fs.writeFileSync(path.join(fixturesDir, fixture), `${JSON.stringify(JSON.parse(body), null, 2)}\n`);
+  manifest.scenarios.push({
+    command,
+    ...(startTime && { startTime: startTime.split(' ')[0] }),
+    ...(response.status !== 200 && { status: response.status }),
+    fixture,
+  });
+  fs.writeFileSync(path.join(fixturesDir, 'manifest.json'), `${JSON.stringify(manifest, null, 2)}\n`);
+
+  console.log(`[Mock Horizons] Recorded ${command} @ ${startTime || 'any'} -> ${fixture}`);
+  return { status: response.status, body };
+}
+
+// ==============================================================================
+// SERVER
+// ==============================================================================
+
+/**
+ * Start the mock server
+ * @returns {Promise<{ url: string, requests: Array<{ command: string, startTime: string, status: number }>, close: () => Promise<void> }>}
+ */
+export async function startMockHorizonsServer({
+  port = 0,
+  fixturesDir = DEFAULT_FIXTURES_DIR,
+  record = false,
+  quiet = false,
+} = {}) {
+  const manifest = loadManifest(fixturesDir);
+  const hits = new Map(); // scenario index -> times served
+  const requests = [];
+
+  const server = http.createServer(async (req, res) => {
+    const { searchParams } = new URL(req.url ?? '/', 'http://localhost');
+    const command = unquote(searchParams.get('COMMAND'));
+    const startTime = unquote(searchParams.get('START_TIME'));
+
+    const reply = (status, body, headers = {}) => {
+      requests.push({ command, startTime, status });
+      if (!quiet) console.log(`[Mock Horizons] ${command} @ ${startTime || '-'} -> ${status}`);
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(body);
+    };
+
+    const scenario = findScenario(manifest.scenarios, hits, command, startTime);
+
+    if (scenario) {
+      const index = manifest.scenarios.indexOf(scenario);
+      hits.set(index, (hits.get(index) ?? 0) + 1);
+
+      const body = scenario.fixture
+        ? fs.readFileSync(path.join(fixturesDir, scenario.fixture), 'utf-8')
+        : JSON.stringify({ error: `Mock status ${scenario.status}` });
+      reply(scenario.status ?? 200, body, scenario.headers);
+      return;
+    }
+
+    if (record) {
+      try {
+        const recorded = await recordFromUpstream(fixturesDir, manifest, searchParams, command, startTime);
+        reply(recorded.status, recorded.body);
+      } catch (error) {
+        reply(502, JSON.stringify({ error: `Recording failed: ${error.message}` }));
+      }
+      return;
+    }
+
+    // Missing fixture - fail loudly rather than invent data
+    reply(500, JSON.stringify({ error: `No fixture for COMMAND=${command} START_TIME=${startTime}` }));
+  });
+
+  await new Promise(resolve => server.listen(port, '127.0.0.1', resolve));
+  const { port: boundPort } = server.address();
+
+  return {
+    url: `http://127.0.0.1:${boundPort}/api/horizons.api`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+// ==============================================================================
+// CLI
+// ==============================================================================
+
+if (process.argv[1] === __filename) {
+  const record = process.argv.includes('--record');
+  const port = Number(process.env.MOCK_HORIZONS_PORT) || DEFAULT_PORT;
+
+  const { url } = await startMockHorizonsServer({ port, record });
+  console.log(`[Mock Horizons] Listening on ${url}${record ? ' (recording misses)' : ''}`);
+}
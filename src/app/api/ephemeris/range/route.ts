@@ -0,0 +1,355 @@
+/**
+ * Ephemeris Range API Route
+ * GET /api/ephemeris/range
+ *
+ * Query params:
+ * - start: UTC date or timestamp (required)
+ * - stop: UTC date or timestamp (required, after start)
+ * - step: Horizons step size, e.g. '1d', '6h', '1mo' (default: '1d')
+ * - ids: comma-separated body IDs (default: all planets)
+ * - center: frame center - a body ID, or 0 for the solar-system barycenter (default: 10, the Sun)
+ *
+ * Invalid parameters are rejected with a 400 VALIDATION_ERROR (see requestValidation.ts).
+ *
+ * Returns one time series of state vectors per body, fetched with a single
+ * Horizons request per body. Series are read through the per-timestamp cache shared
+ * with GET /api/ephemeris: a body whose every sample is cached skips Horizons, and
+ * each fetched sample on a whole minute is written back. Spacecraft series are
+ * clipped to their mission window (and omitted when it doesn't overlap).
+ *
+ * Bodies Horizons rejects are not propagated: explicitly requested ids get a
+ * 4xx JSON error, bodies from the default set are left out and listed in
+ * meta.upstream.errors.
+ *
+ * Series are re-origined on the center sample by sample, the same way
+ * GET /api/ephemeris does it (see lib/frames.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  fetchBodyEphemerisRange,
+  BODY_IDS,
+  DEFAULT_BODY_IDS,
+  BODY_NAMES,
+  getCenterBodyId,
+  getHorizonsCircuitState,
+  type EphemerisData
+} from '@/services/nasaClient';
+import { isQueryError, toHorizonsError, toQueryErrorResponse } from '@/services/horizonsErrors';
+import { getCachedEphemerisSeries, setCachedEphemerisSeries } from '@/services/cacheService';
+import { toValidationErrorResponse, validateRangeQuery } from '@/services/requestValidation';
+import { propagateBody } from '@/lib/keplerPropagator';
+import { clipToMissionWindow } from '@/lib/spacecraft';
+import {
+  BARYCENTER_CENTER_ID,
+  SUN_CENTER_ID,
+  getCenterChain,
+  getHeliocentricState,
+  reoriginSeries,
+  resolveBarycenterState,
+  type FrameState
+} from '@/lib/frames';
+import type {
+  DataSource,
+  EphemerisRangeResponse,
+  EphemerisSample,
+  EphemerisSeries,
+  UpstreamErrorCode,
+  ValidationIssue
+} from '@/lib/types';
+
+// --- Constants ---
+
+const ALL_PLANET_IDS = DEFAULT_BODY_IDS;
+const DEFAULT_STEP = '1d';
+
+// Keeps a single response (and Horizons output) to a manageable size
+const MAX_SAMPLES_PER_BODY = 1000;
+
+// Horizons step units: minutes, hours, days, months, years
+const STEP_PATTERN = /^(\d+)\s*(m|h|d|mo|y)$/;
+
+const STEP_UNIT_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+// --- Helper Functions ---
+
+interface ParsedStep {
+  count: number;
+  unit: 'm' | 'h' | 'd' | 'mo' | 'y';
+}
+
+function parseStep(step: string): ParsedStep | null {
+  const match = step.trim().match(STEP_PATTERN);
+  if (!match) return null;
+
+  const count = parseInt(match[1], 10);
+  if (count <= 0) return null;
+
+  return { count, unit: match[2] as ParsedStep['unit'] };
+}
+
+/**
+ * Format a parsed step the way Horizons expects it ('1 d', '6 h', '1 mo')
+ */
+function toHorizonsStep(step: ParsedStep): string {
+  return `${step.count} ${step.unit}`;
+}
+
+/**
+ * Enumerate the sample timestamps Horizons will return for the window
+ * Calendar units (months, years) are stepped with UTC date arithmetic
+ */
+function buildSampleTimes(start: Date, stop: Date, step: ParsedStep): string[] {
+  const times: string[] = [];
+  const cursor = new Date(start.getTime());
+
+  while (cursor.getTime() <= stop.getTime() && times.length <= MAX_SAMPLES_PER_BODY) {
+    times.push(cursor.toISOString());
+
+    if (step.unit === 'mo') {
+      cursor.setUTCMonth(cursor.getUTCMonth() + step.count);
+    } else if (step.unit === 'y') {
+      cursor.setUTCFullYear(cursor.getUTCFullYear() + step.count);
+    } else {
+      cursor.setTime(cursor.getTime() + step.count * STEP_UNIT_MS[step.unit]);
+    }
+  }
+
+  return times;
+}
+
+/**
+ * The sample times falling inside a (clipped) window
+ */
+function getSampleTimesWithin(sampleTimes: string[], window: { start: string; stop: string }): string[] {
+  const start = Date.parse(window.start);
+  const stop = Date.parse(window.stop);
+  return sampleTimes.filter(time => Date.parse(time) >= start && Date.parse(time) <= stop);
+}
+
+/**
+ * Propagate a series locally when Horizons can't provide it
+ */
+function getFallbackSamples(bodyId: string, sampleTimes: string[]): EphemerisSample[] {
+  return sampleTimes.flatMap((time): EphemerisSample[] => {
+    const data = propagateBody(bodyId, time);
+    return data
+      ? [{ timestamp: time, position: data.position, velocity: data.velocity }]
+      : [];
+  });
+}
+
+/**
+ * Heliocentric state of a body center at each sample time, from the fetched series
+ */
+function createBodyCenterLookup(center: string, series: EphemerisSeries[]): (time: number) => FrameState | null {
+  const dataByTime = new Map<number, EphemerisData[]>();
+
+  for (const item of series) {
+    for (const sample of item.samples) {
+      const time = Date.parse(sample.timestamp);
+      const data = dataByTime.get(time) ?? [];
+      data.push({
+        bodyId: item.bodyId,
+        name: item.name,
+        position: sample.position,
+        velocity: sample.velocity,
+        timestamp: sample.timestamp,
+        ...(item.centerId && { centerId: item.centerId }),
+      });
+      dataByTime.set(time, data);
+    }
+  }
+
+  return time => getHeliocentricState(center, dataByTime.get(time) ?? []);
+}
+
+/**
+ * Heliocentric state of the barycenter at each sample time
+ * From Horizons' Sun@0 series when available, otherwise estimated from propagated planets
+ */
+async function createBarycenterLookup(
+  start: string,
+  stop: string,
+  horizonsStep: string
+): Promise<(time: number) => FrameState> {
+  const sunByTime = new Map<number, EphemerisSample>();
+
+  try {
+    const samples = await fetchBodyEphemerisRange(SUN_CENTER_ID, start, stop, horizonsStep, BARYCENTER_CENTER_ID);
+    for (const sample of samples) sunByTime.set(Date.parse(sample.timestamp), sample);
+  } catch (error) {
+    console.warn(`[Ephemeris Range API] Barycenter unavailable (${toHorizonsError(error).code}), estimating from planets`);
+  }
+
+  return time => resolveBarycenterState(sunByTime.get(time), new Date(time).toISOString());
+}
+
+function badRequest(issues: ValidationIssue[]) {
+  return NextResponse.json(toValidationErrorResponse(issues), { status: 400 });
+}
+
+// --- Route Handler ---
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+
+  // Validate query parameters
+  const query = validateRangeQuery(searchParams);
+  if (!query.ok) {
+    return badRequest(query.issues);
+  }
+
+  const stepParam = searchParams.get('step') || DEFAULT_STEP;
+  const start = new Date(query.value.start);
+  const stop = new Date(query.value.stop);
+  const requestedIds = query.value.ids;
+  const center = query.value.center;
+
+  const step = parseStep(stepParam);
+  if (!step) {
+    return badRequest([{
+      param: 'step',
+      code: 'INVALID_FORMAT',
+      message: `Invalid step "${stepParam}" - expected e.g. 1d, 6h, 30m, 1mo or 1y`,
+      value: stepParam,
+    }]);
+  }
+
+  const sampleTimes = buildSampleTimes(start, stop, step);
+  if (sampleTimes.length > MAX_SAMPLES_PER_BODY) {
+    return badRequest([{
+      param: 'step',
+      code: 'OUT_OF_RANGE',
+      message: `Range produces more than ${MAX_SAMPLES_PER_BODY} samples per body - use a larger step`,
+      value: stepParam,
+    }]);
+  }
+
+  const bodyIds = requestedIds ?? ALL_PLANET_IDS;
+  const centerChain = getCenterChain(center);
+  const fetchIds = [...new Set([...bodyIds, ...centerChain])];
+  const horizonsStep = toHorizonsStep(step);
+
+  const series: EphemerisSeries[] = [];
+  const upstreamErrors: Record<string, UpstreamErrorCode> = {};
+
+  // Fetch each body sequentially to respect rate limits
+  for (const bodyId of fetchIds) {
+    const name = BODY_NAMES[bodyId] || `Body ${bodyId}`;
+
+    // Sun is at the heliocentric origin - moved with the rest when re-origining
+    if (bodyId === BODY_IDS.SUN) {
+      series.push({
+        bodyId,
+        name,
+        samples: sampleTimes.map(time => ({
+          timestamp: time,
+          position: { x: 0, y: 0, z: 0 },
+          velocity: { x: 0, y: 0, z: 0 },
+        })),
+        source: 'NASA_LIVE',
+      });
+      continue;
+    }
+
+    // Spacecraft are only requested over the part of the window their trajectory covers,
+    // starting on the request's sample grid so their samples line up with every other body's
+    const bodyWindow = clipToMissionWindow(bodyId, start.toISOString(), stop.toISOString());
+    const bodySampleTimes = bodyWindow ? getSampleTimesWithin(sampleTimes, bodyWindow) : [];
+    if (!bodyWindow || bodySampleTimes.length === 0) continue;
+
+    const centerId = getCenterBodyId(bodyId);
+    const frame: { centerId?: string } = centerId !== BODY_IDS.SUN ? { centerId } : {};
+
+    const cachedSamples = await getCachedEphemerisSeries(bodyId, bodySampleTimes);
+    if (cachedSamples) {
+      series.push({ bodyId, name, samples: cachedSamples, source: 'CACHE_HIT', ...frame });
+      continue;
+    }
+
+    let samples: EphemerisSample[] | null = null;
+    try {
+      samples = await fetchBodyEphemerisRange(bodyId, bodySampleTimes[0], bodyWindow.stop, horizonsStep);
+    } catch (caught) {
+      const error = toHorizonsError(caught);
+      upstreamErrors[bodyId] = error.code;
+
+      if (isQueryError(error)) {
+        if (requestedIds?.includes(bodyId)) {
+          const { status, body } = toQueryErrorResponse(error, bodyId);
+          return NextResponse.json(body, { status });
+        }
+        continue;
+      }
+    }
+
+    if (samples && samples.length > 0) {
+      const cachedCount = await setCachedEphemerisSeries(bodyId, name, samples, frame.centerId);
+      console.log(`[Ephemeris Range API] ${name}: ${samples.length} samples, ${cachedCount} cached`);
+      series.push({ bodyId, name, samples, source: 'NASA_LIVE', ...frame });
+    } else {
+      // If NASA API fails for this body, propagate it locally
+      series.push({
+        bodyId,
+        name,
+        samples: getFallbackSamples(bodyId, bodySampleTimes),
+        source: 'FALLBACK_DATASET',
+        ...frame,
+      });
+    }
+  }
+
+  if (centerChain.some(bodyId => !series.some(s => s.bodyId === bodyId))) {
+    return badRequest([{
+      param: 'center',
+      code: 'OUT_OF_RANGE',
+      message: `Frame center ${center} has no positions between ${start.toISOString()} and ${stop.toISOString()}`,
+      value: center,
+    }]);
+  }
+
+  let framedSeries = series;
+  if (center !== SUN_CENTER_ID) {
+    const getCenterState = center === BARYCENTER_CENTER_ID
+      ? await createBarycenterLookup(start.toISOString(), stop.toISOString(), horizonsStep)
+      : createBodyCenterLookup(center, series);
+    framedSeries = reoriginSeries(series, getCenterState);
+  }
+  framedSeries = framedSeries.filter(s => bodyIds.includes(s.bodyId));
+
+  // Report fallback only when no body came from Horizons, a cache hit when none needed a request
+  const bodySeries = framedSeries.filter(s => s.bodyId !== BODY_IDS.SUN);
+  const hasHorizonsBody = bodySeries.some(s => s.source !== 'FALLBACK_DATASET');
+  const hasFallbackBody = bodySeries.some(s => s.source === 'FALLBACK_DATASET');
+  const isCacheHit = bodySeries.length > 0 && bodySeries.every(s => s.source === 'CACHE_HIT');
+
+  let source: DataSource = 'NASA_LIVE';
+  if (hasFallbackBody && !hasHorizonsBody) {
+    source = 'FALLBACK_DATASET';
+  } else if (isCacheHit) {
+    source = 'CACHE_HIT';
+  }
+
+  const response: EphemerisRangeResponse = {
+    data: framedSeries,
+    meta: {
+      source,
+      timestamp: new Date().toISOString(),
+      start: start.toISOString(),
+      stop: stop.toISOString(),
+      step: horizonsStep,
+      center,
+      sampleCount: framedSeries.reduce((total, s) => total + s.samples.length, 0),
+      ...(Object.keys(upstreamErrors).length > 0 && {
+        upstream: { circuit: getHorizonsCircuitState(), errors: upstreamErrors },
+      }),
+    },
+  };
+
+  return NextResponse.json(response);
+}
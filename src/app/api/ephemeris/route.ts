@@ -3,27 +3,64 @@
  * GET /api/ephemeris
  * 
  * Query params:
- * - date: ISO date string (default: today)
- * - ids: comma-separated body IDs (default: all planets)
+ * - date: UTC date or timestamp, e.g. 2024-01-15 or 2024-01-15T13:45:00Z (default: now)
+ *   Timestamps without a zone are read as UTC; everything is truncated to the minute
+ * - ids: comma-separated body IDs (default: the bodies of `set`)
+ * - set: body set served when ids is absent - default (the Sun, planets and major
+ *   moons) or catalog (dwarf planets, asteroids, comets and spacecraft, loaded on demand)
+ * - center: frame center - a body ID, or 0 for the solar-system barycenter (default: 10, the Sun)
  * - force: if 'true', bypass cache and fetch fresh data from NASA
+ *
+ * Invalid parameters (unparseable or out-of-range date, ids or center outside
+ * the body registry, too many ids) are rejected with a 400 VALIDATION_ERROR listing every
+ * issue, before anything is sent to Horizons.
  * 
+ * Bodies Horizons rejects (unknown or ambiguous target, date outside its ephemeris)
+ * are never replaced with fallback data: explicitly requested ids get a 4xx JSON
+ * error (404 for unknown targets, 400 otherwise), bodies from a set are left out
+ * and listed in meta.upstream.errors.
+ *
+ * Vectors are fetched heliocentric and re-origined on the center (see lib/frames.ts),
+ * so the cache is shared by every frame. A body center is fetched alongside the
+ * requested bodies; the barycenter comes from Horizons' Sun@0 vector, estimated
+ * from the planets when that is unavailable. Satellites stay parent-relative.
+ *
  * Response includes meta.source field:
- * - CACHE_HIT: Data from Redis cache
+ * - CACHE_HIT: Data from the ephemeris cache
  * - NASA_LIVE: Fresh data from NASA API
- * - FALLBACK_DATASET: Static fallback data (offline mode)
+ * - FALLBACK_DATASET: Locally propagated Keplerian positions (offline mode)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import {
   fetchBodyEphemeris,
+  getHorizonsCircuitState,
   BODY_IDS,
+  CATALOG_BODY_IDS,
+  DEFAULT_BODY_IDS,
   type EphemerisData
 } from '@/services/nasaClient';
 import {
+  getCachedEphemeris,
   getCachedBulkEphemeris,
-  setCachedBulkEphemeris
+  setCachedBulkEphemeris,
+  setCachedEphemeris
 } from '@/services/cacheService';
-import fallbackData from '@/lib/fallback_planets.json';
+import { isQueryError, toHorizonsError, toQueryErrorResponse } from '@/services/horizonsErrors';
+import { toValidationErrorResponse, validateEphemerisQuery, type BodySet } from '@/services/requestValidation';
+import { propagateBodies, propagateBody } from '@/lib/keplerPropagator';
+import { isWithinMissionWindow } from '@/lib/spacecraft';
+import { createSingleFlight, runSequentially } from '@/lib/singleFlight';
+import {
+  BARYCENTER_CENTER_ID,
+  SUN_CENTER_ID,
+  getCenterChain,
+  getHeliocentricState,
+  reoriginEphemeris,
+  resolveBarycenterState,
+  type FrameState
+} from '@/lib/frames';
+import type { UpstreamErrorCode, UpstreamStatus } from '@/lib/types';
 
 // --- Types ---
 
@@ -34,32 +71,114 @@ interface EphemerisResponse {
   meta: {
     source: DataSource;
     timestamp: string;
-    requestedDate: string;
+    requestedDate: string; // Canonical UTC timestamp, e.g. 2024-01-15T13:45:00Z
+    center: string; // Frame center body id ('10' Sun, '0' barycenter)
     cacheHits?: number;
     cacheMisses?: number;
+    upstream?: UpstreamStatus;
   };
 }
 
 // --- Constants ---
 
-const ALL_PLANET_IDS = Object.values(BODY_IDS);
+const BODY_SET_IDS: Record<BodySet, string[]> = {
+  default: DEFAULT_BODY_IDS,
+  catalog: CATALOG_BODY_IDS,
+};
+
+// Horizons fetches in flight, keyed by `${bodyId}:${timestamp}` and shared by concurrent requests
+const inFlightEphemeris = createSingleFlight<EphemerisData | null>();
 
 // --- Helper Functions ---
 
 /**
  * Get fallback data for specified body IDs
+ * Positions are propagated from orbital elements for the requested time
+ */
+function getFallbackData(bodyIds: string[], time: string): EphemerisData[] {
+  return propagateBodies(bodyIds, time);
+}
+
+/**
+ * Fetch bodies from Horizons one after another, sharing work with concurrent requests
+ */
+function fetchEphemerisCoalesced(
+  bodyIds: string[],
+  time: string
+): Promise<PromiseSettledResult<EphemerisData | null>[]> {
+  return runSequentially(inFlightEphemeris, bodyIds.map(bodyId => ({
+    key: `${bodyId}:${time}`,
+    task: () => fetchBodyEphemeris(bodyId, time),
+  })));
+}
+
+/**
+ * Heliocentric state of the barycenter at a time
+ * Horizons' Sun@0 vector (cached like any other) when available, otherwise estimated
+ * from the planets in the dataset, propagating those it doesn't hold
+ */
+async function getBarycenterState(
+  time: string,
+  data: EphemerisData[],
+  forceRefresh: boolean
+): Promise<FrameState> {
+  if (!forceRefresh) {
+    const cached = await getCachedEphemeris(SUN_CENTER_ID, time, BARYCENTER_CENTER_ID);
+    if (cached) return resolveBarycenterState(cached, time);
+  }
+
+  let sun: EphemerisData | null = null;
+  try {
+    sun = await inFlightEphemeris.run(`${SUN_CENTER_ID}@${BARYCENTER_CENTER_ID}:${time}`, () =>
+      fetchBodyEphemeris(SUN_CENTER_ID, time, BARYCENTER_CENTER_ID)
+    );
+    if (sun) await setCachedEphemeris(SUN_CENTER_ID, time, sun, BARYCENTER_CENTER_ID);
+  } catch (error) {
+    console.warn(`[Ephemeris API] Barycenter unavailable (${toHorizonsError(error).code}), estimating from planets`);
+  }
+
+  return resolveBarycenterState(sun, time, data);
+}
+
+/**
+ * Heliocentric state of the frame center (null when a body center has no position)
+ */
+async function getCenterState(
+  center: string,
+  time: string,
+  data: EphemerisData[],
+  forceRefresh: boolean
+): Promise<FrameState | null> {
+  if (center === BARYCENTER_CENTER_ID) return getBarycenterState(time, data, forceRefresh);
+  return getHeliocentricState(center, data);
+}
+
+function centerUnavailable(center: string, time: string) {
+  return NextResponse.json(toValidationErrorResponse([{
+    param: 'center',
+    code: 'OUT_OF_RANGE',
+    message: `Frame center ${center} has no position at ${time}`,
+    value: center,
+  }]), { status: 400 });
+}
+
+/**
+ * Replacement for a body Horizons failed on
+ * A stored Horizons position (only skipped on force refresh) beats a propagated one
+ * Only called for upstream failures - rejected queries are never replaced
  */
-function getFallbackData(bodyIds: string[]): EphemerisData[] {
-  const now = new Date().toISOString();
-
-  return fallbackData.data
-    .filter(item => bodyIds.includes(item.bodyId))
-    .map(item => ({
-      bodyId: item.bodyId,
-      name: item.name,
-      position: item.position,
-      timestamp: now,
-    }));
+async function getReplacementData(
+  bodyId: string,
+  time: string,
+  forceRefresh: boolean
+): Promise<{ data: EphemerisData; source: 'CACHE_HIT' | 'FALLBACK_DATASET' } | null> {
+  if (forceRefresh) {
+    const cached = await getCachedEphemeris(bodyId, time);
+    if (cached) return { data: cached, source: 'CACHE_HIT' };
+  }
+
+  const propagated = propagateBody(bodyId, time);
+  return propagated ? { data: propagated, source: 'FALLBACK_DATASET' } : null;
 }
 
 // --- Route Handler ---
@@ -67,36 +186,45 @@ function getFallbackData(bodyIds: string[]): EphemerisData[] {
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
 
-  // Parse query parameters
-  const dateParam = searchParams.get('date');
-  const idsParam = searchParams.get('ids');
-  const forceParam = searchParams.get('force');
+  // Validate query parameters
+  const query = validateEphemerisQuery(searchParams);
+  if (!query.ok) {
+    return NextResponse.json(toValidationErrorResponse(query.issues), { status: 400 });
+  }
+
+  const { time: requestedDate, ids: requestedIds, set, center, force: forceRefresh } = query.value;
+  // Spacecraft outside their mission window have no position - leave them out entirely
+  const bodyIds = (requestedIds ?? BODY_SET_IDS[set])
+    .filter(id => isWithinMissionWindow(id, requestedDate));
+  const fetchIds = [...new Set([...bodyIds, ...getCenterChain(center)])];
 
-  const requestedDate = dateParam || new Date().toISOString().split('T')[0];
-  const bodyIds = idsParam
-    ? idsParam.split(',').map(id => id.trim())
-    : ALL_PLANET_IDS;
-  const forceRefresh = forceParam === 'true';
+  // Re-origin the heliocentric dataset and keep only the bodies asked for
+  const toFrame = (data: EphemerisData[], centerState: FrameState) =>
+    reoriginEphemeris(data, centerState).filter(body => bodyIds.includes(body.bodyId));
 
   try {
     // Step 1: Check cache for existing data (skip if force=true)
     let cached: EphemerisData[] = [];
-    let missing: string[] = bodyIds;
+    let missing: string[] = fetchIds;
 
     if (!forceRefresh) {
-      const cacheResult = await getCachedBulkEphemeris(bodyIds, requestedDate);
+      const cacheResult = await getCachedBulkEphemeris(fetchIds, requestedDate);
       cached = cacheResult.cached;
       missing = cacheResult.missing;
     }
 
     // If all data is cached (and not forcing), return immediately
     if (missing.length === 0 && cached.length > 0) {
+      const centerState = await getCenterState(center, requestedDate, cached, forceRefresh);
+      if (!centerState) return centerUnavailable(center, requestedDate);
+
       const response: EphemerisResponse = {
-        data: cached,
+        data: toFrame(cached, centerState),
         meta: {
           source: 'CACHE_HIT',
           timestamp: new Date().toISOString(),
           requestedDate,
+          center,
           cacheHits: cached.length,
           cacheMisses: 0,
         },
@@ -107,57 +235,94 @@ export async function GET(request: NextRequest) {
 
     // Step 2: Fetch missing data from NASA API
     const freshData: EphemerisData[] = [];
-    const bodiesToFetch = missing.length > 0 ? missing : bodyIds;
-
-    for (const bodyId of bodiesToFetch) {
-      // Sun is always at origin
-      if (bodyId === BODY_IDS.SUN) {
-        freshData.push({
-          bodyId: BODY_IDS.SUN,
-          name: 'Sun',
-          position: { x: 0, y: 0, z: 0 },
-          timestamp: new Date().toISOString(),
-        });
+    const bodiesToFetch = missing.length > 0 ? missing : fetchIds;
+
+    // Sun is at the heliocentric origin - moved with the rest when re-origining
+    if (bodiesToFetch.includes(BODY_IDS.SUN)) {
+      freshData.push({
+        bodyId: BODY_IDS.SUN,
+        name: 'Sun',
+        position: { x: 0, y: 0, z: 0 },
+        velocity: { x: 0, y: 0, z: 0 },
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const horizonsIds = bodiesToFetch.filter(bodyId => bodyId !== BODY_IDS.SUN);
+    const results = await fetchEphemerisCoalesced(horizonsIds, requestedDate);
+
+    const liveData: EphemerisData[] = [];
+    const upstreamErrors: Record<string, UpstreamErrorCode> = {};
+    let replacedFromCache = 0;
+    let propagatedCount = 0;
+
+    for (const [index, bodyId] of horizonsIds.entries()) {
+      const result = results[index];
+
+      if (result.status === 'fulfilled') {
+        // null: spacecraft without a trajectory on this date
+        if (result.value) liveData.push(result.value);
         continue;
       }
 
-      const data = await fetchBodyEphemeris(bodyId, requestedDate);
+      const error = toHorizonsError(result.reason);
+      upstreamErrors[bodyId] = error.code;
 
-      if (data) {
-        freshData.push(data);
-      } else {
-        // If NASA API fails for this body, use fallback for it
-        const fallback = getFallbackData([bodyId]);
-        if (fallback.length > 0) {
-          freshData.push(fallback[0]);
+      if (isQueryError(error)) {
+        // The caller asked for this body by id - tell them why it can't be served
+        if (requestedIds?.includes(bodyId)) {
+          const { status, body } = toQueryErrorResponse(error, bodyId);
+          return NextResponse.json(body, { status });
         }
+        continue;
+      }
+
+      const replacement = await getReplacementData(bodyId, requestedDate, forceRefresh);
+      if (!replacement) continue;
+
+      freshData.push(replacement.data);
+      if (replacement.source === 'CACHE_HIT') {
+        replacedFromCache++;
+      } else {
+        propagatedCount++;
       }
     }
 
-    // Step 3: Cache the fresh data
-    if (freshData.length > 0) {
-      await setCachedBulkEphemeris(requestedDate, freshData);
+    freshData.push(...liveData);
+
+    // Step 3: Cache only what Horizons returned - propagated positions are approximations
+    if (liveData.length > 0) {
+      await setCachedBulkEphemeris(requestedDate, liveData);
     }
 
     // Combine cached and fresh data
     const allData = [...cached, ...freshData];
 
+    const centerState = await getCenterState(center, requestedDate, allData, forceRefresh);
+    if (!centerState) return centerUnavailable(center, requestedDate);
+
     // Determine source based on what we used
     let source: DataSource = 'NASA_LIVE';
-    if (cached.length > 0 && freshData.length === 0) {
+    if (liveData.length === 0 && propagatedCount > 0) {
+      source = 'FALLBACK_DATASET';
+    } else if (liveData.length === 0 && (cached.length > 0 || replacedFromCache > 0)) {
       source = 'CACHE_HIT';
-    } else if (cached.length > 0) {
-      source = 'NASA_LIVE'; // Mixed, but primarily live
     }
 
+    const hasUpstreamErrors = Object.keys(upstreamErrors).length > 0;
+
     const response: EphemerisResponse = {
-      data: allData,
+      data: toFrame(allData, centerState),
       meta: {
         source,
         timestamp: new Date().toISOString(),
         requestedDate,
+        center,
         cacheHits: cached.length,
         cacheMisses: missing.length,
+        ...(hasUpstreamErrors && {
+          upstream: { circuit: getHorizonsCircuitState(), errors: upstreamErrors },
+        }),
       },
     };
 
@@ -166,15 +331,20 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     console.error('[Ephemeris API] Error:', error);
 
-    // Step 4: Fall back to static data on complete failure
-    const fallback = getFallbackData(bodyIds);
+    // Step 4: Fall back to propagated positions on complete failure
+    const fallback = getFallbackData(fetchIds, requestedDate);
+    const centerState = center === BARYCENTER_CENTER_ID
+      ? resolveBarycenterState(null, requestedDate, fallback)
+      : getHeliocentricState(center, fallback);
+    if (!centerState) return centerUnavailable(center, requestedDate);
 
     const response: EphemerisResponse = {
-      data: fallback,
+      data: toFrame(fallback, centerState),
       meta: {
         source: 'FALLBACK_DATASET',
         timestamp: new Date().toISOString(),
         requestedDate,
+        center,
       },
     };
 
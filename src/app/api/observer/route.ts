@@ -0,0 +1,172 @@
+/**
+ * Observer API Route
+ * GET /api/observer
+ *
+ * Query params:
+ * - lat, lon: geodetic site latitude and east longitude in degrees (required)
+ * - alt: site altitude in km (default: 0)
+ * - date: UTC date or timestamp (default: now), truncated to the minute
+ * - ids: comma-separated body IDs (default: the Sun, the Moon and the planets)
+ * - force: if 'true', bypass cache and fetch fresh data from NASA
+ *
+ * Returns where each body appears from the site, from one Horizons OBSERVER
+ * table per body: astrometric RA/Dec, azimuth and elevation, apparent magnitude,
+ * illuminated fraction, solar elongation and constellation.
+ *
+ * Invalid parameters are rejected with a 400 VALIDATION_ERROR (see requestValidation.ts).
+ * Bodies Horizons rejects get the same treatment as in GET /api/ephemeris. When
+ * Horizons is unreachable, positions are computed from propagated vectors
+ * (lib/observer.ts) - without magnitude or constellation.
+ *
+ * Response includes meta.source field:
+ * - CACHE_HIT: Data from the observer cache
+ * - NASA_LIVE: Fresh data from NASA API
+ * - FALLBACK_DATASET: Computed from locally propagated positions (offline mode)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchBodyObservation, getHorizonsCircuitState } from '@/services/nasaClient';
+import { getCachedObservation, setCachedObservation } from '@/services/cacheService';
+import { isQueryError, toHorizonsError, toQueryErrorResponse } from '@/services/horizonsErrors';
+import { toValidationErrorResponse, validateObserverQuery } from '@/services/requestValidation';
+import { propagateBodies } from '@/lib/keplerPropagator';
+import { isWithinMissionWindow } from '@/lib/spacecraft';
+import { createSingleFlight, runSequentially } from '@/lib/singleFlight';
+import { OBSERVER_BODY_IDS, getObserverSiteKey, observeBodies } from '@/lib/observer';
+import { PLANET_CONFIG } from '@/lib/textureConfig';
+import type { DataSource, ObserverData, ObserverResponse, ObserverSite, UpstreamErrorCode } from '@/lib/types';
+
+// --- Constants ---
+
+const EARTH_ID = '399';
+
+// Horizons fetches in flight, keyed by body, site and timestamp and shared by concurrent requests
+const inFlightObservations = createSingleFlight<ObserverData | null>();
+
+// --- Helper Functions ---
+
+/**
+ * Fetch observer tables one after another, sharing work with concurrent requests
+ * Keyed on the rounded site, like the cache - requests sharing a cache entry share the fetch
+ */
+function fetchObservationsCoalesced(
+  bodyIds: string[],
+  time: string,
+  site: ObserverSite
+): Promise<PromiseSettledResult<ObserverData | null>[]> {
+  const siteKey = getObserverSiteKey(site);
+  return runSequentially(inFlightObservations, bodyIds.map(bodyId => ({
+    key: `${bodyId}@${siteKey}:${time}`,
+    task: () => fetchBodyObservation(bodyId, time, site),
+  })));
+}
+
+/**
+ * Observer data computed from propagated positions - the Earth and satellite parents come along
+ */
+function getFallbackObservations(bodyIds: string[], time: string, site: ObserverSite): ObserverData[] {
+  const parentIds = bodyIds.flatMap(bodyId => PLANET_CONFIG[bodyId]?.parentId ?? []);
+  const data = propagateBodies([...new Set([...bodyIds, ...parentIds, EARTH_ID])], time);
+  return observeBodies(bodyIds, data, site, Date.parse(time));
+}
+
+// --- Route Handler ---
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+
+  const query = validateObserverQuery(searchParams);
+  if (!query.ok) {
+    return NextResponse.json(toValidationErrorResponse(query.issues), { status: 400 });
+  }
+
+  const { time: requestedDate, site, ids: requestedIds, force: forceRefresh } = query.value;
+  const bodyIds = (requestedIds ?? OBSERVER_BODY_IDS)
+    .filter(id => isWithinMissionWindow(id, requestedDate));
+
+  try {
+    // Step 1: Check cache (skip if force=true)
+    const cached: ObserverData[] = [];
+    let missing = bodyIds;
+
+    if (!forceRefresh) {
+      const hits = await Promise.all(bodyIds.map(bodyId => getCachedObservation(bodyId, requestedDate, site)));
+      cached.push(...hits.filter((hit): hit is ObserverData => hit !== null));
+      missing = bodyIds.filter((_, index) => hits[index] === null);
+    }
+
+    // Step 2: Fetch missing bodies from NASA API
+    const results = await fetchObservationsCoalesced(missing, requestedDate, site);
+
+    const liveData: ObserverData[] = [];
+    const failedIds: string[] = [];
+    const upstreamErrors: Record<string, UpstreamErrorCode> = {};
+
+    for (const [index, bodyId] of missing.entries()) {
+      const result = results[index];
+
+      if (result.status === 'fulfilled') {
+        if (result.value) liveData.push(result.value);
+        continue;
+      }
+
+      const error = toHorizonsError(result.reason);
+      upstreamErrors[bodyId] = error.code;
+
+      if (isQueryError(error)) {
+        if (requestedIds?.includes(bodyId)) {
+          const { status, body } = toQueryErrorResponse(error, bodyId);
+          return NextResponse.json(body, { status });
+        }
+        continue;
+      }
+
+      failedIds.push(bodyId);
+    }
+
+    // Step 3: Cache what Horizons returned, compute the rest locally
+    await Promise.all(liveData.map(data => setCachedObservation(requestedDate, site, data)));
+    const fallbackData = failedIds.length > 0 ? getFallbackObservations(failedIds, requestedDate, site) : [];
+
+    let source: DataSource = 'NASA_LIVE';
+    if (liveData.length === 0 && fallbackData.length > 0) {
+      source = 'FALLBACK_DATASET';
+    } else if (liveData.length === 0 && cached.length > 0) {
+      source = 'CACHE_HIT';
+    }
+
+    // Keep the requested order
+    const allData = [...cached, ...liveData, ...fallbackData];
+    const data = bodyIds.flatMap(bodyId => allData.find(item => item.bodyId === bodyId) ?? []);
+
+    const response: ObserverResponse = {
+      data,
+      meta: {
+        source,
+        timestamp: new Date().toISOString(),
+        requestedDate,
+        site,
+        ...(Object.keys(upstreamErrors).length > 0 && {
+          upstream: { circuit: getHorizonsCircuitState(), errors: upstreamErrors },
+        }),
+      },
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('[Observer API] Error:', error);
+
+    const response: ObserverResponse = {
+      data: getFallbackObservations(bodyIds, requestedDate, site),
+      meta: {
+        source: 'FALLBACK_DATASET',
+        timestamp: new Date().toISOString(),
+        requestedDate,
+        site,
+      },
+    };
+
+    return NextResponse.json(response);
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Physical Data API Route
+ * GET /api/physical
+ *
+ * Query params:
+ * - id: body ID (required)
+ * - force: if 'true', bypass cache and fetch fresh data from NASA
+ *
+ * Returns the physical properties Horizons publishes in the object data header
+ * of a body (GM, mean radius, density, sidereal rotation, obliquity, albedo),
+ * with the surface gravity derived from GM and radius. They change only when a
+ * new solution is published, so they are cached for a month - along with the
+ * negative answers (no physical data, rejected body), which don't change either.
+ *
+ * data is null when Horizons has no physical data for the body (spacecraft) or
+ * can't be reached - the client then keeps its hand-written values. Bodies
+ * Horizons rejects get the same 4xx JSON error as GET /api/ephemeris.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchBodyPhysicalData, getHorizonsCircuitState } from '@/services/nasaClient';
+import { getCachedPhysicalAnswer, setCachedPhysicalAnswer, type PhysicalAnswer } from '@/services/cacheService';
+import { isQueryError, toHorizonsError, toQueryErrorResponse } from '@/services/horizonsErrors';
+import { toValidationErrorResponse, validatePhysicalQuery } from '@/services/requestValidation';
+import { createSingleFlight } from '@/lib/singleFlight';
+import type { DataSource, PhysicalData, PhysicalDataResponse } from '@/lib/types';
+
+// --- Constants ---
+
+// Horizons fetches in flight, keyed by body id and shared by concurrent requests
+const inFlightPhysical = createSingleFlight<PhysicalData | null>();
+
+// --- Helper Functions ---
+
+/**
+ * Response for a Horizons answer, fresh or cached: the data, or the rejected query's 4xx error
+ */
+function answerResponse(answer: PhysicalAnswer, source: DataSource) {
+  if (answer.queryError) {
+    return NextResponse.json(answer.queryError.body, { status: answer.queryError.status });
+  }
+
+  const response: PhysicalDataResponse = {
+    data: answer.data,
+    meta: { source, timestamp: new Date().toISOString() },
+  };
+  return NextResponse.json(response);
+}
+
+// --- Route Handler ---
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+
+  const query = validatePhysicalQuery(searchParams);
+  if (!query.ok) {
+    return NextResponse.json(toValidationErrorResponse(query.issues), { status: 400 });
+  }
+
+  const { id: bodyId, force: forceRefresh } = query.value;
+
+  if (!forceRefresh) {
+    const cached = await getCachedPhysicalAnswer(bodyId);
+    if (cached) return answerResponse(cached, 'CACHE_HIT');
+  }
+
+  try {
+    const answer: PhysicalAnswer = {
+      data: await inFlightPhysical.run(bodyId, () => fetchBodyPhysicalData(bodyId)),
+    };
+    await setCachedPhysicalAnswer(bodyId, answer);
+    return answerResponse(answer, 'NASA_LIVE');
+
+  } catch (error) {
+    const horizonsError = toHorizonsError(error);
+
+    if (isQueryError(horizonsError)) {
+      const answer: PhysicalAnswer = { data: null, queryError: toQueryErrorResponse(horizonsError, bodyId) };
+      await setCachedPhysicalAnswer(bodyId, answer);
+      return answerResponse(answer, 'NASA_LIVE');
+    }
+
+    console.error('[Physical API] Error:', horizonsError.code, horizonsError.message);
+
+    // Nothing to propagate - the client falls back to its own constants
+    const response: PhysicalDataResponse = {
+      data: null,
+      meta: {
+        source: 'FALLBACK_DATASET',
+        timestamp: new Date().toISOString(),
+        upstream: { circuit: getHorizonsCircuitState(), errors: { [bodyId]: horizonsError.code } },
+      },
+    };
+    return NextResponse.json(response);
+  }
+}
@@ -6,10 +6,26 @@ import { Toaster, toast } from 'sonner';
 import { useEphemeris } from '@/hooks/useEphemeris';
 import { useLoadingProgress } from '@/hooks/useLoadingProgress';
 import { useWebGLError } from '@/hooks/useWebGLError';
+import { useTimePlayback } from '@/hooks/useTimePlayback';
+import { useEphemerisRange } from '@/hooks/useEphemerisRange';
+import { useSpacecraftTrajectories } from '@/hooks/useSpacecraftTrajectories';
+import { usePhysicalData } from '@/hooks/usePhysicalData';
+import { useObserver } from '@/hooks/useObserver';
+import { useEventFinder, type EventSearch } from '@/hooks/useEventFinder';
+import { useClosestApproach, type ApproachSearch } from '@/hooks/useClosestApproach';
 import { LoadingScreen } from '@/components/ui/LoadingScreen';
 import { ErrorOverlay } from '@/components/ui/ErrorOverlay';
 import { HUD } from '@/components/ui/HUD';
 import { BODY_IDS } from '@/lib/types';
+import { getNowTimestamp, isWithinSupportedRange, normalizeTimestamp, parseTimestamp, toDatePart, toTimestamp } from '@/lib/time';
+import { DEFAULT_CENTER_ID } from '@/lib/frames';
+import { getSpacecraft } from '@/lib/spacecraft';
+import { DEFAULT_OBSERVER_SITE, OBSERVER_BODY_IDS } from '@/lib/observer';
+import { getLocalDayStart, getRiseSetTable } from '@/lib/riseSet';
+import { createPropagatedSampler, getEventBodyIds, getFramingTarget, type AstronomicalEvent } from '@/lib/events';
+import { ECLIPSE_BODY_IDS, findEclipses, type EclipseEvent } from '@/lib/eclipses';
+import type { ReferencePlane } from '@/lib/coordinates';
+import type { EphemerisData, ObserverSite } from '@/lib/types';
 import type { AppError } from '@/components/ui/ErrorOverlay';
 import type { SelectedPlanet } from '@/components/three/SceneManager';
 import type { ViewMode } from '@/lib/scales';
@@ -21,28 +37,35 @@ const SceneManager = dynamic(
   { ssr: false }
 );
 
-// --- Date Utilities ---
+// --- Constants ---
 
-function getTodayString(): string {
-  return new Date().toISOString().split('T')[0];
-}
+const MS_PER_DAY = 86_400_000;
 
-function isValidDate(dateString: string): boolean {
-  const date = new Date(dateString);
-  if (isNaN(date.getTime())) return false;
+// Eclipse timeline window, from the simulation date
+const ECLIPSE_TIMELINE_DAYS = 731;
 
-  // JPL Horizons limits: 1600-01-01 to 2500-01-01
-  const minDate = new Date('1600-01-01');
-  const maxDate = new Date('2500-01-01');
+// --- Date Utilities ---
 
-  return date >= minDate && date <= maxDate;
+function isValidTime(value: string): boolean {
+  const time = parseTimestamp(value);
+  return time !== null && isWithinSupportedRange(time);
 }
 
 // --- Component ---
 
 export default function Home() {
-  // Current simulation date state
-  const [currentDate, setCurrentDate] = useState<string>(getTodayString());
+  // Current simulation time state (UTC timestamp, minute resolution)
+  const [currentTime, setCurrentTime] = useState<string>(getNowTimestamp);
+
+  // Reference frame: body id the scene is centered on ('10' Sun, '0' barycenter)
+  const [frameCenter, setFrameCenter] = useState<string>(DEFAULT_CENTER_ID);
+
+  // Reference plane the scene is laid out on, and whether its grid is drawn
+  const [referencePlane, setReferencePlane] = useState<ReferencePlane>('ecliptic');
+  const [showReferenceGrid, setShowReferenceGrid] = useState(true);
+
+  // Site on Earth the "Tonight's sky" panel observes from
+  const [observerSite, setObserverSite] = useState<ObserverSite>(DEFAULT_OBSERVER_SITE);
 
   // Use the useEphemeris hook for data fetching with error handling
   const {
@@ -54,7 +77,49 @@ export default function Home() {
     retry,
     retryCount,
     refresh
-  } = useEphemeris({ date: currentDate });
+  } = useEphemeris({ time: currentTime, center: frameCenter });
+
+  // Time playback - the committed time only changes when playback pauses
+  const playback = useTimePlayback({
+    time: currentTime,
+    onPause: (time) => setCurrentTime(time),
+  });
+
+  // Sample window around the playback clock for smooth interpolation
+  const { tracks: interpolationTracks, isLoading: isRangeLoading } = useEphemerisRange({
+    time: playback.simulationTime,
+    rate: playback.rate,
+    center: frameCenter,
+    enabled: playback.isPlaying,
+  });
+
+  // Sun, Moon and planets as seen from the observer site at the simulation time
+  const sky = useObserver({ time: currentTime, site: observerSite });
+
+  // Rise, transit and set over the selected date, computed from the loaded vectors (works offline too)
+  const riseSetRows = useMemo(
+    () => getRiseSetTable(OBSERVER_BODY_IDS, ephemerisData, observerSite, Date.parse(currentTime)),
+    [ephemerisData, observerSite, currentTime]
+  );
+
+  // Conjunctions, oppositions, elongations and stations over a user-chosen range
+  const [eventSearch, setEventSearch] = useState<EventSearch | null>(null);
+  const eventFinder = useEventFinder(eventSearch);
+
+  // Closest approach of two bodies over a user-chosen range
+  const [approachSearch, setApproachSearch] = useState<ApproachSearch | null>(null);
+  const closestApproach = useClosestApproach(approachSearch);
+
+  // Eclipses and transits over the two years from the simulation date, from propagated positions
+  const eclipseWindowStart = Date.parse(toDatePart(currentTime));
+  const eclipseWindowStop = eclipseWindowStart + ECLIPSE_TIMELINE_DAYS * MS_PER_DAY;
+  const eclipses = useMemo(
+    () => findEclipses(createPropagatedSampler(ECLIPSE_BODY_IDS), eclipseWindowStart, eclipseWindowStop),
+    [eclipseWindowStart, eclipseWindowStop]
+  );
+
+  // Time shown in the HUD follows the playback clock while playing (and in live mode)
+  const displayTime = playback.isPlaying ? toTimestamp(playback.simulationTime) : currentTime;
 
   // WebGL error detection
   const { error: webglError, isSupported: isWebGLSupported } = useWebGLError();
@@ -68,6 +133,17 @@ export default function Home() {
   // Selected planet state for HUD
   const [selectedPlanet, setSelectedPlanet] = useState<SelectedPlanet | null>(null);
 
+  // Physical properties from Horizons - spacecraft have none
+  const physicalData = usePhysicalData(
+    selectedPlanet && !getSpacecraft(selectedPlanet.bodyId) ? selectedPlanet.bodyId : null
+  );
+
+  // Full mission paths, fetched for the selected spacecraft first, then those on screen
+  const spacecraftTrajectories = useSpacecraftTrajectories([
+    ...(selectedPlanet ? [selectedPlanet.bodyId] : []),
+    ...ephemerisData.map(body => body.bodyId),
+  ]);
+
   // View mode state: 'didactic' (inflated) or 'realistic' (true scale)
   const [viewMode, setViewMode] = useState<ViewMode>('didactic');
 
@@ -75,6 +151,9 @@ export default function Home() {
   const [travelTarget, setTravelTarget] = useState<{ x: number; y: number; z: number } | null>(null);
   const [travelTargetRadius, setTravelTargetRadius] = useState<number | undefined>(undefined);
 
+  // Bodies of a picked event, framed once their positions at the event time replace the stale data
+  const [pendingEventFocus, setPendingEventFocus] = useState<{ bodyIds: string[]; staleData: EphemerisData[] } | null>(null);
+
   // Get Earth position for distance calculations
   const earthPosition = useMemo(() => {
     const earth = ephemerisData.find(body => body.bodyId === BODY_IDS.EARTH);
@@ -99,20 +178,69 @@ export default function Home() {
   // Only show error overlay for critical errors (not when fallback is working)
   const showErrorOverlay = activeError && (!isFallback || !isWebGLSupported);
 
-  // Handle date change with validation
-  const handleDateChange = (newDate: string) => {
-    if (!isValidDate(newDate)) {
+  // Handle date/time change with validation - accepts a date or a UTC timestamp
+  const handleDateChange = (newTime: string) => {
+    const normalized = normalizeTimestamp(newTime);
+    if (!normalized || !isValidTime(normalized)) {
       toast.error('Data inválida', {
         description: 'A data deve estar entre 1600 e 2500.',
       });
       return;
     }
 
-    setCurrentDate(newDate);
+    setCurrentTime(normalized);
     // Clear selection when date changes
     setSelectedPlanet(null);
 
-    console.log(`[Home] Date changed to: ${newDate}`);
+    console.log(`[Home] Time changed to: ${normalized}`);
+  };
+
+  // Frame a set of bodies from the loaded ephemeris
+  const focusBodies = (bodyIds: string[], data: EphemerisData[]) => {
+    const target = getFramingTarget(bodyIds, data, referencePlane);
+    if (!target) return;
+    setTravelTarget(target.position);
+    setTravelTargetRadius(target.radius);
+    console.log(`[Home] Framing bodies: ${bodyIds.join(', ')}`);
+  };
+
+  if (pendingEventFocus && !isLoading && ephemerisData !== pendingEventFocus.staleData) {
+    setPendingEventFocus(null);
+    focusBodies(pendingEventFocus.bodyIds, ephemerisData);
+  }
+
+  // Jump to a time, then frame the given bodies once their positions there are loaded
+  const jumpToAndFrame = (time: string, bodyIds: string[]) => {
+    if (time === currentTime) {
+      focusBodies(bodyIds, ephemerisData);
+    } else {
+      setPendingEventFocus({ bodyIds, staleData: ephemerisData });
+      handleDateChange(time);
+    }
+  };
+
+  // Handle event picked in the finder
+  const handleEventSelect = (event: AstronomicalEvent) => {
+    jumpToAndFrame(event.time, getEventBodyIds(event));
+    console.log(`[Home] Event selected: ${event.id}`);
+  };
+
+  // Handle eclipse or transit picked in the timeline - shown at its maximum
+  const handleEclipseSelect = (event: EclipseEvent) => {
+    jumpToAndFrame(event.maximum, [event.occulterId, event.targetId]);
+    console.log(`[Home] Eclipse selected: ${event.id}`);
+  };
+
+  // Handle a date picked in the closest-approach result or chart
+  const handleApproachSelect = (time: string, bodyIds: string[]) => {
+    jumpToAndFrame(time, bodyIds);
+    console.log(`[Home] Approach date selected: ${time} (${bodyIds.join(', ')})`);
+  };
+
+  // Handle reference frame change - the scene re-origins on the new center once its data arrives
+  const handleFrameChange = (centerId: string) => {
+    setFrameCenter(centerId);
+    console.log(`[Home] Frame center changed to: ${centerId}`);
   };
 
   // Show toast notifications based on data source
@@ -134,8 +262,8 @@ export default function Home() {
       });
     }
 
-    console.log(`[Home] Ephemeris loaded - Source: ${source}, Bodies: ${ephemerisData.length}, Date: ${currentDate}`);
-  }, [source, isLoading, ephemerisData.length, currentDate]);
+    console.log(`[Home] Ephemeris loaded - Source: ${source}, Bodies: ${ephemerisData.length}, Time: ${currentTime}`);
+  }, [source, isLoading, ephemerisData.length, currentTime]);
 
   // Handle planet selection (single click) - show info only, no travel
   const handlePlanetClick = (planet: SelectedPlanet | null) => {
@@ -195,12 +323,17 @@ export default function Home() {
       {isWebGLSupported && (
         <SceneManager
           ephemerisData={ephemerisData}
+          interpolationTracks={interpolationTracks}
+          simulationTime={playback.isPlaying ? playback.simulationTime : null}
+          spacecraftTrajectories={spacecraftTrajectories}
           onPlanetClick={handlePlanetClick}
           onPlanetDoubleClick={handlePlanetDoubleClick}
           selectedPlanetId={selectedPlanet?.bodyId}
           travelTarget={travelTarget}
           travelTargetRadius={travelTargetRadius}
           viewMode={viewMode}
+          referencePlane={referencePlane}
+          showReferenceGrid={showReferenceGrid}
         />
       )}
 
@@ -209,12 +342,69 @@ export default function Home() {
         <HUD
           selectedPlanet={selectedPlanet}
           earthPosition={earthPosition}
-          currentDate={currentDate}
+          currentTime={displayTime}
+          isLive={playback.isLive}
           onDateChange={handleDateChange}
+          onNow={playback.goLive}
           onRefresh={refresh}
           isFallback={isFallback}
           viewMode={viewMode}
           onToggleViewMode={() => setViewMode(m => m === 'didactic' ? 'realistic' : 'didactic')}
+          playback={{
+            isPlaying: playback.isPlaying,
+            direction: playback.direction,
+            rate: playback.rate,
+            isBuffering: isRangeLoading,
+            onTogglePlay: playback.togglePlay,
+            onToggleDirection: playback.toggleDirection,
+            onRateChange: playback.setRate,
+          }}
+          frame={{
+            centerId: frameCenter,
+            selectedBody: selectedPlanet,
+            onCenterChange: handleFrameChange,
+            plane: referencePlane,
+            onPlaneChange: setReferencePlane,
+            showGrid: showReferenceGrid,
+            onToggleGrid: () => setShowReferenceGrid(show => !show),
+          }}
+          physicalData={physicalData}
+          sky={{
+            observations: sky.data,
+            time: currentTime,
+            site: observerSite,
+            onSiteChange: setObserverSite,
+            isLoading: sky.isLoading,
+            isFallback: sky.source === 'FALLBACK_DATASET',
+          }}
+          riseSet={{
+            rows: riseSetRows,
+            dayStart: getLocalDayStart(Date.parse(currentTime), observerSite.longitude),
+            selectedBodyId: selectedPlanet?.bodyId,
+          }}
+          events={{
+            events: eventFinder.events,
+            currentTime,
+            onSearch: setEventSearch,
+            onSelectEvent: handleEventSelect,
+            isSearching: eventFinder.isSearching,
+            source: eventFinder.source,
+          }}
+          eclipses={{
+            events: eclipses,
+            start: eclipseWindowStart,
+            stop: eclipseWindowStop,
+            currentTime,
+            onSelectEvent: handleEclipseSelect,
+          }}
+          approach={{
+            approach: closestApproach.approach,
+            currentTime,
+            onSearch: setApproachSearch,
+            onSelectTime: handleApproachSelect,
+            isSearching: closestApproach.isSearching,
+            source: closestApproach.source,
+          }}
         />
       )}
     </>
@@ -1,41 +1,89 @@
 'use client';
 
-import { useRef, useState } from 'react';
+import { useRef, useState, ReactNode } from 'react';
 import { useFrame, useThree, ThreeEvent } from '@react-three/fiber';
 import { useTexture, Text, Billboard } from '@react-three/drei';
 import type { Mesh } from 'three';
 import * as THREE from 'three';
 import '../../app/globals.css';
 import { PlanetMarker } from './PlanetMarker';
+import { PlanetRings, type PlanetRingsProps } from './PlanetRings';
 import type { ViewMode } from '@/lib/scales';
+import { getProceduralTexture } from '@/lib/proceduralTexture';
 
 // --- Types ---
 
+export type EclipseRole = 'OCCULTER' | 'TARGET';
+
 interface CelestialBodyProps {
   name: string;
   englishName: string;
   bodyId: string;
   position: [number, number, number];
   radius: number;
+  /** Surface texture ('' when the body ships none - a procedural surface is generated) */
   textureUrl: string;
+  /** Base color of the procedural surface */
+  fallbackColor?: string;
   rotationSpeed?: number;
   onClick?: (bodyId: string) => void;
   onDoubleClick?: (bodyId: string) => void;
   viewMode?: ViewMode;
+  /** Rotation pole as a unit vector in scene axes - tilts the body (and rings) to its equator */
+  poleAxis?: [number, number, number];
+  /** Ring system, radii already in scene units */
+  rings?: PlanetRingsProps;
+  /** Camera distance beyond which the label and marker are hidden (used for satellites) */
+  detailMaxDistance?: number;
+  /** Part in an eclipse under way - the occulter casts the Sun's shadow, the target shows it */
+  eclipseRole?: EclipseRole;
+  /** Bodies rendered in this body's frame (natural satellites) */
+  children?: ReactNode;
 }
 
 // --- Constants ---
 
 const DEFAULT_ROTATION_SPEED = 0.002;
+const DEFAULT_FALLBACK_COLOR = '#888888';
 const LABEL_COLOR = '#a3cffe';
 const MIN_FONT_SIZE = 2;
 const MAX_FONT_SIZE = 100;
 const THROTTLE_FRAMES = 10;
 
+// Eclipse shadow overlay - just above the surface, dark but not black
+const SHADOW_OVERLAY_SCALE = 1.002;
+const SHADOW_OVERLAY_OPACITY = 0.85;
+
 // Marker fade constants
 const MARKER_FADE_START = 500;
 const MARKER_FADE_END = 100;
 
+// --- Surface Materials ---
+
+function TexturedSurfaceMaterial({ textureUrl }: { textureUrl: string }) {
+  const texture = useTexture(textureUrl);
+
+  return (
+    <meshStandardMaterial
+      map={texture}
+      emissive={0x333333}
+      emissiveIntensity={0.05}
+    />
+  );
+}
+
+function ProceduralSurfaceMaterial({ seed, color }: { seed: string; color: string }) {
+  const texture = getProceduralTexture(seed, color);
+
+  return (
+    <meshStandardMaterial
+      map={texture}
+      emissive={0x333333}
+      emissiveIntensity={0.05}
+    />
+  );
+}
+
 // --- Component ---
 
 export function CelestialBody({
@@ -45,19 +93,34 @@ export function CelestialBody({
   position,
   radius,
   textureUrl,
+  fallbackColor = DEFAULT_FALLBACK_COLOR,
   rotationSpeed = DEFAULT_ROTATION_SPEED,
   onClick,
   onDoubleClick,
   viewMode = 'didactic',
+  poleAxis,
+  rings,
+  detailMaxDistance = Infinity,
+  eclipseRole,
+  children,
 }: CelestialBodyProps) {
+  const groupRef = useRef<THREE.Group>(null);
   const meshRef = useRef<Mesh>(null);
-  const texture = useTexture(textureUrl);
   const [fontSize, setFontSize] = useState(5);
   const [markerOpacity, setMarkerOpacity] = useState(0);
   const [isHovered, setIsHovered] = useState(false);
+  const [isDetailVisible, setIsDetailVisible] = useState(detailMaxDistance === Infinity);
   const { camera } = useThree();
 
   const tempVec = useRef(new THREE.Vector3());
+
+  // Local +Y (spin axis) -> rotation pole
+  const poleQuaternion = poleAxis
+    ? new THREE.Quaternion().setFromUnitVectors(
+      new THREE.Vector3(0, 1, 0),
+      new THREE.Vector3(...poleAxis).normalize()
+    )
+    : new THREE.Quaternion();
   const frameCountRef = useRef(0);
 
   // Animation loop
@@ -71,10 +134,19 @@ export function CelestialBody({
     frameCountRef.current++;
     if (frameCountRef.current % THROTTLE_FRAMES !== 0) return;
 
-    // Calculate distance from camera to planet
-    tempVec.current.set(position[0], position[1], position[2]);
+    // Calculate distance from camera to planet (world space - satellites live in their parent's group)
+    if (groupRef.current) {
+      groupRef.current.getWorldPosition(tempVec.current);
+    } else {
+      tempVec.current.set(position[0], position[1], position[2]);
+    }
     const distance = camera.position.distanceTo(tempVec.current);
 
+    const detailVisible = distance < detailMaxDistance;
+    if (detailVisible !== isDetailVisible) {
+      setIsDetailVisible(detailVisible);
+    }
+
     // --- Adaptive Label Font Size ---
     let newFontSize: number;
     if (distance < 100) {
@@ -147,7 +219,7 @@ export function CelestialBody({
   const labelAnchorY = isHovered ? 'bottom' : 'top';
 
   return (
-    <group position={position}>
+    <group ref={groupRef} position={position}>
       {/* Invisible hitbox for interaction - always large enough to click */}
       <mesh
         visible={false}
@@ -160,15 +232,29 @@ export function CelestialBody({
         <meshBasicMaterial transparent opacity={0} />
       </mesh>
 
-      {/* Visible planet mesh */}
-      <mesh ref={meshRef}>
-        <sphereGeometry args={[radius, 64, 64]} />
-        <meshStandardMaterial
-          map={texture}
-          emissive={0x333333}
-          emissiveIntensity={0.05}
-        />
-      </mesh>
+      {/* Equatorial frame: planet spins about its pole, rings lie in its equator */}
+      <group quaternion={poleQuaternion}>
+        {/* Visible planet mesh - casts the Sun's shadow when it is an eclipse's occulter */}
+        <mesh ref={meshRef} castShadow={eclipseRole === 'OCCULTER'}>
+          <sphereGeometry args={[radius, 64, 64]} />
+          {textureUrl ? (
+            <TexturedSurfaceMaterial textureUrl={textureUrl} />
+          ) : (
+            <ProceduralSurfaceMaterial seed={bodyId} color={fallbackColor} />
+          )}
+        </mesh>
+
+        {/* Eclipse shadow on the target - transparent except where the occulter's shadow falls */}
+        {eclipseRole === 'TARGET' && (
+          <mesh receiveShadow>
+            <sphereGeometry args={[radius * SHADOW_OVERLAY_SCALE, 64, 64]} />
+            <shadowMaterial opacity={SHADOW_OVERLAY_OPACITY} />
+          </mesh>
+        )}
+
+        {/* Ring system */}
+        {rings && <PlanetRings {...rings} />}
+      </group>
 
       {/* Hover Ring - white elliptical border around planet */}
       {isHovered && (
@@ -184,26 +270,31 @@ export function CelestialBody({
       )}
 
       {/* LOD Marker - visible in realistic mode when far */}
-      {viewMode === 'realistic' && markerOpacity > 0 && (
+      {viewMode === 'realistic' && markerOpacity > 0 && isDetailVisible && (
         <PlanetMarker opacity={markerOpacity} />
       )}
 
       {/* 3D Text Label - white and above planet on hover */}
-      <Billboard follow lockX={false} lockY={false} lockZ={false}>
-        <Text
-          position={[0, labelYPosition, 0]}
-          fontSize={fontSize}
-          color={labelColor}
-          anchorX="center"
-          anchorY={labelAnchorY as 'top' | 'bottom'}
-          outlineWidth={fontSize * 0.04}
-          outlineColor="#000000"
-          onClick={handleClick}
-          onDoubleClick={handleDoubleClick}
-        >
-          {englishName.toUpperCase()}
-        </Text>
-      </Billboard>
+      {(isDetailVisible || isHovered) && (
+        <Billboard follow lockX={false} lockY={false} lockZ={false}>
+          <Text
+            position={[0, labelYPosition, 0]}
+            fontSize={fontSize}
+            color={labelColor}
+            anchorX="center"
+            anchorY={labelAnchorY as 'top' | 'bottom'}
+            outlineWidth={fontSize * 0.04}
+            outlineColor="#000000"
+            onClick={handleClick}
+            onDoubleClick={handleDoubleClick}
+          >
+            {englishName.toUpperCase()}
+          </Text>
+        </Billboard>
+      )}
+
+      {/* Satellites */}
+      {children}
     </group>
   );
 }
@@ -0,0 +1,264 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+
+// --- Types ---
+
+interface CometTailProps {
+  /** Comet position relative to the Sun (scene units) - the tail points away from it */
+  position: [number, number, number];
+  /** Heliocentric distance in AU - drives tail length and brightness */
+  distanceAU: number;
+  /** Orbital velocity (km/s, scene axes) - the dust tail curves behind the motion */
+  velocity?: { x: number; y: number; z: number };
+  /** Tail size relative to Halley's at the same distance */
+  tailScale?: number;
+}
+
+interface TailLayerProps {
+  length: number;
+  width: number;
+  curvature: number;
+  color: string;
+  opacity: number;
+  particleCount: number;
+  particleSize: number;
+  speed: number;
+}
+
+// --- Constants ---
+
+// Tail length in scene units (M km) at 1 AU, scaled by 1/r² (sublimation follows sunlight)
+const ION_TAIL_LENGTH_AT_1AU = 30;
+const DUST_TAIL_LENGTH_AT_1AU = 20;
+const MAX_TAIL_LENGTH = 100;
+
+// Sublimation switches on inside ~4 AU, fading in from TAIL_FADE_START_AU
+const TAIL_MAX_DISTANCE_AU = 4;
+const TAIL_FADE_START_AU = 3;
+
+const ION_TAIL_COLOR = '#7FB8FF';
+const DUST_TAIL_COLOR = '#FFF1D6';
+
+// --- Shaders ---
+
+// Particles stream from the nucleus (t = 0) to the tail end (t = 1) along local +Y,
+// spreading out as they go. The dust layer bends towards local +X (behind the orbital motion).
+const TAIL_VERTEX_SHADER = /* glsl */ `
+  attribute float aPhase;
+  attribute vec2 aSpread;
+
+  uniform float uTime;
+  uniform float uSpeed;
+  uniform float uLength;
+  uniform float uWidth;
+  uniform float uCurvature;
+  uniform float uSize;
+  uniform float uViewportScale;
+
+  varying float vFade;
+
+  void main() {
+    float t = fract(aPhase + uTime * uSpeed);
+    float spread = uWidth * (0.1 + t);
+    vec3 localPosition = vec3(
+      aSpread.x * spread + uCurvature * t * t * uLength,
+      t * uLength,
+      aSpread.y * spread
+    );
+
+    vFade = (1.0 - t) * smoothstep(0.0, 0.05, t);
+
+    vec4 mvPosition = modelViewMatrix * vec4(localPosition, 1.0);
+    gl_PointSize = uSize * (0.4 + t) * uViewportScale / -mvPosition.z;
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+const TAIL_FRAGMENT_SHADER = /* glsl */ `
+  uniform vec3 uColor;
+  uniform float uOpacity;
+
+  varying float vFade;
+
+  void main() {
+    float d = length(gl_PointCoord - 0.5);
+    if (d > 0.5) discard;
+    float alpha = (1.0 - d * 2.0) * vFade * uOpacity;
+    gl_FragColor = vec4(uColor, alpha);
+  }
+`;
+
+// --- Helper Functions ---
+
+/**
+ * Tail length for a comet at the given heliocentric distance (0 when inactive)
+ */
+export function getTailLength(lengthAt1AU: number, distanceAU: number, tailScale = 1): number {
+  if (distanceAU >= TAIL_MAX_DISTANCE_AU) return 0;
+
+  const fade = distanceAU > TAIL_FADE_START_AU
+    ? (TAIL_MAX_DISTANCE_AU - distanceAU) / (TAIL_MAX_DISTANCE_AU - TAIL_FADE_START_AU)
+    : 1;
+  const length = (lengthAt1AU * tailScale * fade) / Math.max(distanceAU * distanceAU, 0.01);
+
+  return Math.min(length, MAX_TAIL_LENGTH);
+}
+
+/**
+ * Orientation of the tail frame: +Y points away from the Sun, +X trails the orbital motion
+ */
+function getTailQuaternion(
+  position: [number, number, number],
+  velocity?: { x: number; y: number; z: number }
+): THREE.Quaternion {
+  const antiSolar = new THREE.Vector3(...position).normalize();
+
+  // Component of -v perpendicular to the anti-solar direction
+  const trailing = velocity
+    ? new THREE.Vector3(-velocity.x, -velocity.y, -velocity.z)
+    : new THREE.Vector3();
+  trailing.addScaledVector(antiSolar, -trailing.dot(antiSolar));
+
+  if (trailing.lengthSq() < 1e-12) {
+    return new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), antiSolar);
+  }
+
+  trailing.normalize();
+  const third = new THREE.Vector3().crossVectors(trailing, antiSolar);
+  const basis = new THREE.Matrix4().makeBasis(trailing, antiSolar, third);
+
+  return new THREE.Quaternion().setFromRotationMatrix(basis);
+}
+
+/**
+ * Random per-particle phase and lateral offset (unit disc)
+ */
+function createTailGeometry(particleCount: number): THREE.BufferGeometry {
+  const phases = new Float32Array(particleCount);
+  const spreads = new Float32Array(particleCount * 2);
+
+  for (let i = 0; i < particleCount; i++) {
+    phases[i] = Math.random();
+    const angle = Math.random() * Math.PI * 2;
+    const radius = Math.sqrt(Math.random());
+    spreads[i * 2] = Math.cos(angle) * radius;
+    spreads[i * 2 + 1] = Math.sin(angle) * radius;
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  // Positions are computed in the shader - the attribute only sets the vertex count
+  geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(particleCount * 3), 3));
+  geometry.setAttribute('aPhase', new THREE.BufferAttribute(phases, 1));
+  geometry.setAttribute('aSpread', new THREE.BufferAttribute(spreads, 2));
+  return geometry;
+}
+
+// --- Components ---
+
+function TailLayer({
+  length,
+  width,
+  curvature,
+  color,
+  opacity,
+  particleCount,
+  particleSize,
+  speed,
+}: TailLayerProps) {
+  const materialRef = useRef<THREE.ShaderMaterial>(null);
+  const { size, viewport, camera } = useThree();
+
+  const geometry = useMemo(() => createTailGeometry(particleCount), [particleCount]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // Created once - props are pushed into the uniforms every frame so uTime keeps running
+  const [uniforms] = useState(() => ({
+    uTime: { value: 0 },
+    uSpeed: { value: speed },
+    uLength: { value: length },
+    uWidth: { value: width },
+    uCurvature: { value: curvature },
+    uSize: { value: particleSize },
+    uViewportScale: { value: 1 },
+    uColor: { value: new THREE.Color(color) },
+    uOpacity: { value: opacity },
+  }));
+
+  useFrame((_, delta) => {
+    const material = materialRef.current;
+    if (!material) return;
+
+    material.uniforms.uTime.value += delta;
+    material.uniforms.uSpeed.value = speed;
+    material.uniforms.uLength.value = length;
+    material.uniforms.uWidth.value = width;
+    material.uniforms.uCurvature.value = curvature;
+    material.uniforms.uSize.value = particleSize;
+    material.uniforms.uOpacity.value = opacity;
+    (material.uniforms.uColor.value as THREE.Color).set(color);
+
+    // Perspective point size: pixels per world unit at distance 1
+    const fov = (camera as THREE.PerspectiveCamera).fov ?? 45;
+    material.uniforms.uViewportScale.value =
+      (size.height * viewport.dpr * 0.5) / Math.tan(THREE.MathUtils.degToRad(fov / 2));
+  });
+
+  return (
+    <points geometry={geometry} frustumCulled={false}>
+      <shaderMaterial
+        ref={materialRef}
+        vertexShader={TAIL_VERTEX_SHADER}
+        fragmentShader={TAIL_FRAGMENT_SHADER}
+        uniforms={uniforms}
+        transparent
+        depthWrite={false}
+        blending={THREE.AdditiveBlending}
+      />
+    </points>
+  );
+}
+
+/**
+ * Comet tails, rendered in the comet's local frame:
+ * - Ion tail: narrow, blue, straight away from the Sun
+ * - Dust tail: wider, pale yellow, curving behind the orbital motion
+ * Both grow as the comet nears the Sun and vanish beyond ~4 AU.
+ */
+export function CometTail({ position, distanceAU, velocity, tailScale = 1 }: CometTailProps) {
+  const ionLength = getTailLength(ION_TAIL_LENGTH_AT_1AU, distanceAU, tailScale);
+  const dustLength = getTailLength(DUST_TAIL_LENGTH_AT_1AU, distanceAU, tailScale);
+
+  if (ionLength === 0) return null;
+
+  const quaternion = getTailQuaternion(position, velocity);
+  // Brighter close to the Sun
+  const activity = Math.min(1, 1 / distanceAU);
+
+  return (
+    <group quaternion={quaternion}>
+      <TailLayer
+        length={ionLength}
+        width={ionLength * 0.03}
+        curvature={0}
+        color={ION_TAIL_COLOR}
+        opacity={0.35 * activity}
+        particleCount={1500}
+        particleSize={ionLength * 0.02}
+        speed={0.25}
+      />
+      <TailLayer
+        length={dustLength}
+        width={dustLength * 0.12}
+        curvature={0.35}
+        color={DUST_TAIL_COLOR}
+        opacity={0.25 * activity}
+        particleCount={2000}
+        particleSize={dustLength * 0.04}
+        speed={0.08}
+      />
+    </group>
+  );
+}
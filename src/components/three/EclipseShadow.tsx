@@ -0,0 +1,103 @@
+'use client';
+
+import * as THREE from 'three';
+
+// --- Types ---
+
+interface EclipseShadowProps {
+  /** Sun position (scene units) */
+  sunPosition: [number, number, number];
+  /** Where the occulter is drawn, and its drawn radius (scene units) */
+  occulterPosition: [number, number, number];
+  occulterRadius: number;
+  /** How far behind the occulter the cones reach (scene units) - past the target */
+  length: number;
+  /** Cone half-angles (radians) from the true sizes and distances */
+  umbraAngle: number;
+  penumbraAngle: number;
+}
+
+interface ShadowConeProps {
+  startRadius: number;
+  endRadius: number;
+  length: number;
+  color: string;
+  opacity: number;
+}
+
+// --- Constants ---
+
+const UMBRA_COLOR = '#000000';
+const UMBRA_OPACITY = 0.45;
+const PENUMBRA_COLOR = '#1a1a2e';
+const PENUMBRA_OPACITY = 0.15;
+
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+
+// --- Helper Components ---
+
+/**
+ * Open cone along +Y from the occulter (y = 0) to y = length
+ */
+function ShadowCone({ startRadius, endRadius, length, color, opacity }: ShadowConeProps) {
+  return (
+    <mesh position={[0, length / 2, 0]}>
+      {/* CylinderGeometry runs top (+Y) to bottom - the end radius goes on top */}
+      <cylinderGeometry args={[endRadius, startRadius, length, 48, 1, true]} />
+      <meshBasicMaterial
+        color={color}
+        transparent
+        opacity={opacity}
+        depthWrite={false}
+        side={THREE.DoubleSide}
+      />
+    </mesh>
+  );
+}
+
+// --- Component ---
+
+/**
+ * Umbra and penumbra cones cast by a body away from the Sun
+ * The cone angles are physical; the cones start from the drawn body so they
+ * stay attached to it in didactic mode too
+ */
+export function EclipseShadow({
+  sunPosition,
+  occulterPosition,
+  occulterRadius,
+  length,
+  umbraAngle,
+  penumbraAngle,
+}: EclipseShadowProps) {
+  const direction = new THREE.Vector3(
+    occulterPosition[0] - sunPosition[0],
+    occulterPosition[1] - sunPosition[1],
+    occulterPosition[2] - sunPosition[2]
+  ).normalize();
+  const quaternion = new THREE.Quaternion().setFromUnitVectors(Y_AXIS, direction);
+
+  // The umbra converges to its apex - drawn up to it, or cut at the target
+  const umbraLength = Math.min(length, occulterRadius / Math.tan(umbraAngle));
+  const umbraEndRadius = Math.max(0, occulterRadius - umbraLength * Math.tan(umbraAngle));
+  const penumbraEndRadius = occulterRadius + length * Math.tan(penumbraAngle);
+
+  return (
+    <group position={occulterPosition} quaternion={quaternion}>
+      <ShadowCone
+        startRadius={occulterRadius}
+        endRadius={penumbraEndRadius}
+        length={length}
+        color={PENUMBRA_COLOR}
+        opacity={PENUMBRA_OPACITY}
+      />
+      <ShadowCone
+        startRadius={occulterRadius}
+        endRadius={umbraEndRadius}
+        length={umbraLength}
+        color={UMBRA_COLOR}
+        opacity={UMBRA_OPACITY}
+      />
+    </group>
+  );
+}
@@ -5,6 +5,7 @@ import { useFrame } from '@react-three/fiber';
 import { Line } from '@react-three/drei';
 import * as THREE from 'three';
 import { ViewMode, ORBIT_CONFIG } from '@/lib/scales';
+import { getPlaneRotation, type ReferencePlane } from '@/lib/coordinates';
 
 // --- Types ---
 
@@ -23,10 +24,12 @@ interface OrbitLineProps {
   color?: string;
   /** Base opacity value (0-1) - will be modified by viewMode */
   opacity?: number;
-  /** Number of segments to approximate the ellipse */
+  /** Number of segments per sampling pass (the ellipse gets up to twice as many) */
   segments?: number;
   /** View mode affects opacity and line width */
   viewMode?: ViewMode;
+  /** Plane the scene is laid out on - the elements themselves are ecliptic */
+  referencePlane?: ReferencePlane;
 }
 
 // --- Constants ---
@@ -41,6 +44,86 @@ function degToRad(degrees: number): number {
   return degrees * (Math.PI / 180);
 }
 
+// Eccentricities at or above 1 are open orbits - clamp to a very long ellipse
+const MAX_ECCENTRICITY = 0.9999;
+
+// --- Helper: Orbit geometry ---
+
+/**
+ * Heliocentric distance on a Keplerian ellipse: r = a(1 - e²) / (1 + e·cos ν)
+ */
+export function getOrbitRadius(semiMajorAxis: number, eccentricity: number, trueAnomaly: number): number {
+  return (semiMajorAxis * (1 - eccentricity * eccentricity)) / (1 + eccentricity * Math.cos(trueAnomaly));
+}
+
+/**
+ * True anomaly ν for an eccentric anomaly E
+ */
+function eccentricToTrueAnomaly(eccentricAnomaly: number, eccentricity: number): number {
+  return 2 * Math.atan2(
+    Math.sqrt(1 + eccentricity) * Math.sin(eccentricAnomaly / 2),
+    Math.sqrt(1 - eccentricity) * Math.cos(eccentricAnomaly / 2)
+  );
+}
+
+/**
+ * Points of an orbit in its own plane, Sun at the origin and perihelion on +X (Three.js XZ plane)
+ *
+ * Steps evenly spaced in eccentric anomaly (what EllipseCurve does) are fine along the flanks
+ * but far too coarse around perihelion once e approaches 1 - the curve cuts the corner inside
+ * the Sun. Steps evenly spaced in true anomaly are dense at perihelion and sparse elsewhere.
+ * Both sets are merged and ordered by true anomaly, so every part of the ellipse is covered.
+ */
+export function getOrbitPoints(
+  semiMajorAxis: number,
+  eccentricity: number,
+  segments: number = DEFAULT_SEGMENTS
+): THREE.Vector3[] {
+  const e = Math.min(Math.max(eccentricity, 0), MAX_ECCENTRICITY);
+
+  const anomalies: number[] = [];
+  for (let k = 0; k < segments; k++) {
+    const angle = -Math.PI + (2 * Math.PI * k) / segments;
+    anomalies.push(angle); // Uniform in true anomaly
+    if (e > 0) {
+      anomalies.push(eccentricToTrueAnomaly(angle, e)); // Uniform in eccentric anomaly
+    }
+  }
+  anomalies.sort((a, b) => a - b);
+
+  const points = anomalies.map(nu => {
+    const r = getOrbitRadius(semiMajorAxis, e, nu);
+    return new THREE.Vector3(r * Math.cos(nu), 0, r * Math.sin(nu));
+  });
+
+  // Close the loop
+  points.push(points[0].clone());
+  return points;
+}
+
+/**
+ * Euler rotations (outermost first) that place an orbit drawn by getOrbitPoints in the scene:
+ * node (Ω about scene Y), then inclination (i about the line of nodes), then the
+ * argument of perihelion (ω = ϖ - Ω within the orbital plane).
+ * Rotations about ecliptic Z / X map to rotations about scene Y / X with the opposite
+ * sign (the axis swap mirrors handedness), so the angles are negated to match the vectors.
+ */
+export function getOrbitRotations(
+  longAscNode: number,
+  inclination: number,
+  longPerihelion: number
+): {
+  node: [number, number, number];
+  inclination: [number, number, number];
+  perihelion: [number, number, number];
+} {
+  return {
+    node: [0, -degToRad(longAscNode), 0],
+    inclination: [-degToRad(inclination), 0, 0],
+    perihelion: [0, -degToRad(longPerihelion - longAscNode), 0],
+  };
+}
+
 // --- Component ---
 
 /**
@@ -57,6 +140,7 @@ export function OrbitLine({
   opacity = DEFAULT_OPACITY,
   segments = DEFAULT_SEGMENTS,
   viewMode = 'didactic',
+  referencePlane = 'ecliptic',
 }: OrbitLineProps) {
   // Animated opacity state
   const [currentOpacity, setCurrentOpacity] = useState(opacity);
@@ -82,49 +166,29 @@ export function OrbitLine({
     }
   });
 
-  // Generate ellipse points with focal shift
-  const points = useMemo(() => {
-    // 1. Calculate Semi-minor axis (b = a × √(1 - e²))
-    const semiMinor = semiMajorAxis * Math.sqrt(1 - eccentricity * eccentricity);
-
-    // 2. Calculate Focal Shift (c = a × e)
-    const focusOffset = semiMajorAxis * eccentricity;
-
-    // 3. Generate base ellipse curve
-    const curve = new THREE.EllipseCurve(
-      0, 0,
-      semiMajorAxis, semiMinor,
-      0, 2 * Math.PI,
-      false,
-      0
-    );
-
-    const curvePoints = curve.getPoints(segments);
-
-    // 4. Convert to 3D and apply focal shift
-    return curvePoints.map(p => new THREE.Vector3(
-      p.x - focusOffset,
-      0,
-      p.y
-    ));
-  }, [semiMajorAxis, eccentricity, segments]);
+  // Generate ellipse points with the Sun at the focus (origin)
+  const points = useMemo(
+    () => getOrbitPoints(semiMajorAxis, eccentricity, segments),
+    [semiMajorAxis, eccentricity, segments]
+  );
 
-  // 5. Calculate rotation angles
-  const Omega = degToRad(longAscNode);
-  const i = degToRad(inclination);
-  const omega = degToRad(longPerihelion - longAscNode);
+  // Calculate rotation angles
+  const rotations = getOrbitRotations(longAscNode, inclination, longPerihelion);
 
+  // Ecliptic orbit first, then the same plane rotation the vectors get
   return (
-    <group rotation={[0, Omega, 0]}>
-      <group rotation={[i, 0, 0]}>
-        <group rotation={[0, omega, 0]}>
-          <Line
-            points={points}
-            color={color}
-            lineWidth={lineWidth}
-            transparent
-            opacity={currentOpacity}
-          />
+    <group rotation={getPlaneRotation(referencePlane)}>
+      <group rotation={rotations.node}>
+        <group rotation={rotations.inclination}>
+          <group rotation={rotations.perihelion}>
+            <Line
+              points={points}
+              color={color}
+              lineWidth={lineWidth}
+              transparent
+              opacity={currentOpacity}
+            />
+          </group>
         </group>
       </group>
     </group>
@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { useTexture } from '@react-three/drei';
+import * as THREE from 'three';
+
+// --- Types ---
+
+export interface PlanetRingsProps {
+  /** Inner edge radius in scene units */
+  innerRadius: number;
+  /** Outer edge radius in scene units */
+  outerRadius: number;
+  /** Radial ring strip texture (optional - faint rings are drawn as a flat tint) */
+  textureUrl?: string;
+  /** Tint color */
+  color: string;
+  /** Base opacity (0-1) */
+  opacity: number;
+}
+
+// --- Constants ---
+
+const RING_SEGMENTS = 128;
+
+// --- Helper: Ring geometry with radial UVs ---
+
+/**
+ * RingGeometry maps UVs as a flat square; ring textures are radial strips,
+ * so u is remapped to run from the inner (0) to the outer (1) edge
+ */
+function createRingGeometry(innerRadius: number, outerRadius: number): THREE.RingGeometry {
+  const geometry = new THREE.RingGeometry(innerRadius, outerRadius, RING_SEGMENTS, 1);
+  const position = geometry.attributes.position;
+  const uv = geometry.attributes.uv;
+  const vertex = new THREE.Vector3();
+
+  for (let i = 0; i < position.count; i++) {
+    vertex.fromBufferAttribute(position, i);
+    const u = (vertex.length() - innerRadius) / (outerRadius - innerRadius);
+    uv.setXY(i, u, 0.5);
+  }
+  uv.needsUpdate = true;
+
+  return geometry;
+}
+
+// --- Components ---
+
+function TexturedRingMaterial({ textureUrl, color, opacity }: { textureUrl: string; color: string; opacity: number }) {
+  const texture = useTexture(textureUrl);
+
+  return (
+    <meshStandardMaterial
+      map={texture}
+      color={color}
+      transparent
+      opacity={opacity}
+      side={THREE.DoubleSide}
+      depthWrite={false}
+    />
+  );
+}
+
+/**
+ * Renders a planetary ring system in the planet's equatorial plane.
+ * Must be placed inside a group whose local +Y is the planet's rotation pole.
+ */
+export function PlanetRings({
+  innerRadius,
+  outerRadius,
+  textureUrl,
+  color,
+  opacity,
+}: PlanetRingsProps) {
+  const geometry = useMemo(
+    () => createRingGeometry(innerRadius, outerRadius),
+    [innerRadius, outerRadius]
+  );
+
+  // Geometry is rebuilt when the view mode rescales the rings - release the old buffers
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // RingGeometry lies in the XY plane - lay it flat so its normal is the pole (+Y)
+  return (
+    <mesh geometry={geometry} rotation={[-Math.PI / 2, 0, 0]}>
+      {textureUrl ? (
+        <TexturedRingMaterial textureUrl={textureUrl} color={color} opacity={opacity} />
+      ) : (
+        <meshStandardMaterial
+          color={color}
+          transparent
+          opacity={opacity}
+          side={THREE.DoubleSide}
+          depthWrite={false}
+        />
+      )}
+    </mesh>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Billboard, Line, Text } from '@react-three/drei';
+import * as THREE from 'three';
+import { AU_TO_UNIT } from '@/lib/scales';
+import { getPlaneTilt, type ReferencePlane } from '@/lib/coordinates';
+
+// --- Types ---
+
+interface ReferenceGridProps {
+  /** Plane the scene is laid out on - the grid lies in it */
+  plane: ReferencePlane;
+  /** Radius of the equator / ecliptic circles in scene units */
+  radius?: number;
+}
+
+// --- Constants ---
+
+// Beyond Neptune, so the circles read as directions on the sky rather than orbits
+const DEFAULT_RADIUS = 5000;
+
+// Grid rings in AU and the angle between spokes
+const GRID_RING_AU = [1, 2, 5, 10, 20, 30];
+const GRID_SPOKE_DEG = 30;
+const GRID_SEGMENTS = 128;
+
+const GRID_COLOR = '#ffffff';
+const GRID_OPACITY = 0.06;
+const ECLIPTIC_COLOR = '#ffd27f';
+const EQUATOR_COLOR = '#7fd4ff';
+const EQUINOX_COLOR = '#ff9f7f';
+const CIRCLE_OPACITY = 0.35;
+
+// --- Helpers ---
+
+/**
+ * Circle in the scene XZ plane (the reference plane), centered on the origin
+ */
+function getCirclePoints(radius: number, segments: number = GRID_SEGMENTS): THREE.Vector3[] {
+  return Array.from({ length: segments + 1 }, (_, index) => {
+    const angle = (2 * Math.PI * index) / segments;
+    return new THREE.Vector3(radius * Math.cos(angle), 0, radius * Math.sin(angle));
+  });
+}
+
+function GridLabel({ position, color, text, fontSize }: {
+  position: [number, number, number];
+  color: string;
+  text: string;
+  fontSize: number;
+}) {
+  return (
+    <Billboard position={position} follow lockX={false} lockY={false} lockZ={false}>
+      <Text
+        fontSize={fontSize}
+        color={color}
+        anchorX="center"
+        anchorY="bottom"
+        outlineWidth={fontSize * 0.04}
+        outlineColor="#000000"
+      >
+        {text}
+      </Text>
+    </Billboard>
+  );
+}
+
+// --- Component ---
+
+/**
+ * Reference-plane grid (rings in AU, spokes every 30°), the celestial equator and
+ * ecliptic great circles, and the vernal-equinox direction (+X in both planes)
+ */
+export function ReferenceGrid({ plane, radius = DEFAULT_RADIUS }: ReferenceGridProps) {
+  const rings = useMemo(() => GRID_RING_AU.map(au => getCirclePoints(au * AU_TO_UNIT)), []);
+  const circle = useMemo(() => getCirclePoints(radius), [radius]);
+
+  const gridRadius = GRID_RING_AU[GRID_RING_AU.length - 1] * AU_TO_UNIT;
+  const spokes = useMemo(
+    () => Array.from({ length: 360 / GRID_SPOKE_DEG }, (_, index) => {
+      const angle = (index * GRID_SPOKE_DEG * Math.PI) / 180;
+      return [
+        new THREE.Vector3(0, 0, 0),
+        new THREE.Vector3(gridRadius * Math.cos(angle), 0, gridRadius * Math.sin(angle)),
+      ];
+    }),
+    [gridRadius]
+  );
+
+  const fontSize = radius * 0.015;
+
+  return (
+    <group>
+      {/* Grid on the current reference plane */}
+      {rings.map((points, index) => (
+        <Line
+          key={`ring-${GRID_RING_AU[index]}`}
+          points={points}
+          color={GRID_COLOR}
+          lineWidth={1}
+          transparent
+          opacity={GRID_OPACITY}
+        />
+      ))}
+      {spokes.map((points, index) => (
+        <Line
+          key={`spoke-${index}`}
+          points={points}
+          color={GRID_COLOR}
+          lineWidth={1}
+          transparent
+          opacity={GRID_OPACITY}
+        />
+      ))}
+
+      {/* Ecliptic - flat in the ecliptic plane, tilted by the obliquity otherwise */}
+      <group rotation={[getPlaneTilt('ecliptic', plane), 0, 0]}>
+        <Line points={circle} color={ECLIPTIC_COLOR} lineWidth={1} transparent opacity={CIRCLE_OPACITY} />
+        <GridLabel position={[0, 0, radius]} color={ECLIPTIC_COLOR} text="Ecliptic" fontSize={fontSize} />
+      </group>
+
+      {/* Celestial equator */}
+      <group rotation={[getPlaneTilt('equatorial', plane), 0, 0]}>
+        <Line points={circle} color={EQUATOR_COLOR} lineWidth={1} transparent opacity={CIRCLE_OPACITY} />
+        <GridLabel position={[0, 0, -radius]} color={EQUATOR_COLOR} text="Celestial Equator" fontSize={fontSize} />
+      </group>
+
+      {/* Vernal equinox - where the two circles cross */}
+      <Line
+        points={[[0, 0, 0], [radius, 0, 0]]}
+        color={EQUINOX_COLOR}
+        lineWidth={1.5}
+        transparent
+        opacity={CIRCLE_OPACITY}
+        dashed
+        dashSize={radius * 0.02}
+        gapSize={radius * 0.01}
+      />
+      <GridLabel position={[radius, 0, 0]} color={EQUINOX_COLOR} text="♈ Vernal Equinox" fontSize={fontSize} />
+    </group>
+  );
+}
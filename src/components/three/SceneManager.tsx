@@ -6,13 +6,25 @@ import { OrbitControls, Stars } from '@react-three/drei';
 import { EffectComposer, Bloom } from '@react-three/postprocessing';
 import { QualityTierProvider, useQualityTier } from '@/contexts/QualityTierContext';
 import { LoadingScreen } from '@/components/ui/LoadingScreen';
-import { Sun } from './Sun';
-import { CelestialBody } from './CelestialBody';
-import type { EphemerisData } from '@/lib/types';
-import { getPlanetConfig, getTexturePath, TextureTier } from '@/lib/textureConfig';
-import { getDidacticRadius, getRadius, scalePositionFromKm, AU_TO_UNIT, ViewMode } from '@/lib/scales';
+import { Sun, type SunShadowTarget } from './Sun';
+import { CelestialBody, type EclipseRole } from './CelestialBody';
+import type { EphemerisData, EphemerisPosition } from '@/lib/types';
+import { getPlanetConfig, getTexturePath, TextureTier, type PlanetConfig } from '@/lib/textureConfig';
+import { getDidacticRadius, getRadius, scalePositionFromKm, scaleSatelliteOffset, scaleWithBody, AU_TO_UNIT, KM_TO_UNIT, ViewMode } from '@/lib/scales';
+import { equatorialToSceneDirection, getPlaneRotation, toReferencePlane, type ReferencePlane } from '@/lib/coordinates';
+import type { PlanetRingsProps } from './PlanetRings';
+import { CometTail } from './CometTail';
+import { SpacecraftMarker, SpacecraftTrajectory } from './Spacecraft';
+import { isWithinMissionWindow } from '@/lib/spacecraft';
+import type { SpacecraftTrajectories } from '@/hooks/useSpacecraftTrajectories';
 import { CameraController } from '@/hooks/useCameraAnimation';
 import { OrbitLine, getOrbitOpacity } from './OrbitLine';
+import { ReferenceGrid } from './ReferenceGrid';
+import { EclipseShadow } from './EclipseShadow';
+import { getActiveShadows, getShadowConeAngles } from '@/lib/eclipses';
+import { interpolateTrack, type InterpolationTrack } from '@/lib/interpolation';
+import { propagateBody } from '@/lib/keplerPropagator';
+import { heliocentricToFrame } from '@/lib/frames';
 import * as THREE from 'three';
 
 // --- Types ---
@@ -30,23 +42,33 @@ export interface SelectedPlanet {
 interface SceneManagerProps {
   children?: ReactNode;
   ephemerisData?: EphemerisData[];
+  interpolationTracks?: InterpolationTrack[];
+  simulationTime?: number | null; // Epoch ms while playing - positions are interpolated
+  spacecraftTrajectories?: SpacecraftTrajectories;
   onPlanetClick?: (planet: SelectedPlanet | null) => void;
   onPlanetDoubleClick?: (planet: SelectedPlanet) => void;
   selectedPlanetId?: string | null;
   travelTarget?: { x: number; y: number; z: number } | null;
   travelTargetRadius?: number;
   viewMode?: ViewMode;
+  referencePlane?: ReferencePlane;
+  showReferenceGrid?: boolean;
 }
 
 interface SceneContentProps {
   children?: ReactNode;
   ephemerisData?: EphemerisData[];
+  interpolationTracks?: InterpolationTrack[];
+  simulationTime?: number | null; // Epoch ms while playing - positions are interpolated
+  spacecraftTrajectories?: SpacecraftTrajectories;
   onPlanetClick?: (planet: SelectedPlanet | null) => void;
   onPlanetDoubleClick?: (planet: SelectedPlanet) => void;
   selectedPlanetId?: string | null;
   travelTarget?: { x: number; y: number; z: number } | null;
   travelTargetRadius?: number;
   viewMode?: ViewMode;
+  referencePlane?: ReferencePlane;
+  showReferenceGrid?: boolean;
 }
 
 // --- Helper Components ---
@@ -89,14 +111,141 @@ const CAMERA_CONFIG = {
 };
 
 const SUN_BODY_ID = '10';
+const SATELLITE_DETAIL_DISTANCE_FACTOR = 12;
+const ORIGIN: EphemerisPosition = { x: 0, y: 0, z: 0 };
 
 /**
  * Calculates real distance from Sun in million km
- * Since 1 unit = 1M km, this is just the magnitude of the position vector
+ * Since 1 unit = 1M km, this is the length of the offset from the Sun's scene position
  */
-function calculateMillionKmFromSun(position: [number, number, number]): number {
-  const [x, y, z] = position;
-  return Math.sqrt(x * x + y * y + z * z);
+function calculateMillionKmFromSun(
+  position: [number, number, number],
+  sunPosition: [number, number, number]
+): number {
+  return Math.hypot(
+    position[0] - sunPosition[0],
+    position[1] - sunPosition[1],
+    position[2] - sunPosition[2]
+  );
+}
+
+function toSunRelative(
+  position: [number, number, number],
+  sunPosition: [number, number, number]
+): [number, number, number] {
+  return [position[0] - sunPosition[0], position[1] - sunPosition[1], position[2] - sunPosition[2]];
+}
+
+/**
+ * Scene position back to km
+ */
+function toKm(position: [number, number, number]): EphemerisPosition {
+  return { x: position[0] / KM_TO_UNIT, y: position[1] / KM_TO_UNIT, z: position[2] / KM_TO_UNIT };
+}
+
+/**
+ * Satellite labels and markers only appear once the camera is near the parent system,
+ * otherwise they pile up on top of the planet's own label
+ */
+function getSatelliteDetailDistance(localPosition: [number, number, number]): number {
+  const [x, y, z] = localPosition;
+  return Math.sqrt(x * x + y * y + z * z) * SATELLITE_DETAIL_DISTANCE_FACTOR;
+}
+
+/**
+ * Rotation pole in scene axes, from the IAU pole coordinates in PLANET_CONFIG
+ */
+function getPoleAxis(config: PlanetConfig, plane: ReferencePlane): [number, number, number] | undefined {
+  if (config.poleRightAscension === undefined || config.poleDeclination === undefined) {
+    return undefined;
+  }
+  const [x, y, z] = equatorialToSceneDirection(config.poleRightAscension, config.poleDeclination);
+  const pole = toReferencePlane({ x, y, z }, plane);
+  return [pole.x, pole.y, pole.z];
+}
+
+/**
+ * A body's state on the reference plane the scene is laid out on
+ */
+function toPlaneState(
+  state: Pick<EphemerisData, 'position' | 'velocity'>,
+  plane: ReferencePlane
+): Pick<EphemerisData, 'position' | 'velocity'> {
+  return {
+    position: toReferencePlane(state.position, plane),
+    velocity: state.velocity && toReferencePlane(state.velocity, plane),
+  };
+}
+
+/**
+ * Ring radii follow the planet's own scaling so they keep hugging the globe in didactic mode
+ */
+function getRingProps(
+  bodyId: string,
+  config: PlanetConfig,
+  viewMode: ViewMode,
+  tier: TextureTier
+): PlanetRingsProps | undefined {
+  if (!config.rings) return undefined;
+
+  return {
+    innerRadius: scaleWithBody(config.rings.innerRadiusKm, bodyId, config.bodyClass, viewMode),
+    outerRadius: scaleWithBody(config.rings.outerRadiusKm, bodyId, config.bodyClass, viewMode),
+    textureUrl: getTexturePath(bodyId, tier, 'ring') || undefined,
+    color: config.rings.color,
+    opacity: config.rings.opacity,
+  };
+}
+
+/**
+ * Resolves a body's state at the simulation time during playback:
+ * Hermite interpolation between range samples, local propagation outside the sampled window
+ * Propagated positions are heliocentric, so they are shifted by the Sun's position in the frame
+ */
+function resolveBodyState(
+  body: EphemerisData,
+  tracks: InterpolationTrack[] | undefined,
+  simulationTime: number | null | undefined,
+  sunPosition: EphemerisPosition
+): Pick<EphemerisData, 'position' | 'velocity'> {
+  if (simulationTime === null || simulationTime === undefined) {
+    return body;
+  }
+
+  const track = tracks?.find(t => t.bodyId === body.bodyId);
+  const interpolated = track ? interpolateTrack(track, simulationTime) : null;
+  if (interpolated) {
+    return interpolated;
+  }
+
+  const propagated = propagateBody(body.bodyId, new Date(simulationTime).toISOString());
+  if (!propagated) return body;
+
+  // Satellites stay relative to their parent in every frame
+  return propagated.centerId
+    ? propagated
+    : { ...propagated, position: heliocentricToFrame(propagated.position, sunPosition) };
+}
+
+/**
+ * Where the Sun sits in the current frame (the origin when the frame is heliocentric)
+ * Interpolated during playback, otherwise taken from the snapshot - never propagated,
+ * since propagation only knows the heliocentric frame
+ */
+function resolveSunPosition(
+  ephemerisData: EphemerisData[] | undefined,
+  tracks: InterpolationTrack[] | undefined,
+  simulationTime: number | null | undefined
+): EphemerisPosition {
+  const sun = ephemerisData?.find(body => body.bodyId === SUN_BODY_ID);
+  if (!sun) return ORIGIN;
+
+  const track = tracks?.find(t => t.bodyId === SUN_BODY_ID);
+  const interpolated = track && simulationTime !== null && simulationTime !== undefined
+    ? interpolateTrack(track, simulationTime)
+    : null;
+
+  return interpolated?.position ?? sun.position;
 }
 
 // --- Inner Scene Component ---
@@ -104,30 +253,52 @@ function calculateMillionKmFromSun(position: [number, number, number]): number {
 function SceneContent({
   children,
   ephemerisData,
+  interpolationTracks,
+  simulationTime,
+  spacecraftTrajectories,
   onPlanetClick,
   onPlanetDoubleClick,
   selectedPlanetId,
   travelTarget,
   travelTargetRadius,
-  viewMode = 'didactic'
+  viewMode = 'didactic',
+  referencePlane = 'ecliptic',
+  showReferenceGrid = false
 }: SceneContentProps) {
   const { settings, tier } = useQualityTier();
 
+  // Positions are resolved in ecliptic axes, then turned onto the reference plane
+  const sunState = resolveSunPosition(ephemerisData, interpolationTracks, simulationTime);
+  const sunPlanePosition = toReferencePlane(sunState, referencePlane);
+  const sunPosition = scalePositionFromKm(sunPlanePosition.x, sunPlanePosition.y, sunPlanePosition.z);
+
   const planetsToRender = (() => {
     if (!ephemerisData || ephemerisData.length === 0) {
       return [];
     }
 
     return ephemerisData
-      .filter(body => body.bodyId !== SUN_BODY_ID)
+      .filter(body => body.bodyId !== SUN_BODY_ID && !getPlanetConfig(body.bodyId)?.parentId)
       .map(body => {
         const config = getPlanetConfig(body.bodyId);
         if (!config) return null;
 
+        // Spacecraft disappear when playback leaves their mission window
+        if (
+          simulationTime !== null && simulationTime !== undefined &&
+          !isWithinMissionWindow(body.bodyId, simulationTime)
+        ) {
+          return null;
+        }
+
+        const state = toPlaneState(
+          resolveBodyState(body, interpolationTracks, simulationTime, sunState),
+          referencePlane
+        );
         const position = scalePositionFromKm(
-          body.position.x,
-          body.position.y,
-          body.position.z
+          state.position.x,
+          state.position.y,
+          state.position.z
         );
 
         return {
@@ -135,23 +306,132 @@ function SceneContent({
           name: config.name,
           englishName: config.englishName,
           position,
-          velocity: body.velocity,
+          renderPosition: position,
+          velocity: state.velocity,
           radius: getRadius(body.bodyId, config.bodyClass, viewMode),
           texturePath: getTexturePath(body.bodyId, tier as TextureTier),
+          fallbackColor: config.fallbackColor,
           rotationSpeed: config.rotationSpeed,
-          distanceFromSun: calculateMillionKmFromSun(position),
+          distanceFromSun: calculateMillionKmFromSun(position, sunPosition),
           bodyClass: config.bodyClass,
+          poleAxis: getPoleAxis(config, referencePlane),
+          rings: getRingProps(body.bodyId, config, viewMode, tier as TextureTier),
+          tailScale: config.tailScale,
         };
       })
-      .filter(Boolean);
+      .filter(planet => planet !== null);
   })();
 
+  // Natural satellites - vectors are relative to the parent planet, which must be rendered too
+  const satellitesToRender = (() => {
+    if (!ephemerisData || ephemerisData.length === 0) {
+      return [];
+    }
+
+    return ephemerisData
+      .map(body => {
+        const config = getPlanetConfig(body.bodyId);
+        if (!config?.parentId) return null;
+
+        const parent = planetsToRender.find(p => p.bodyId === config.parentId);
+        if (!parent) return null;
+
+        const state = toPlaneState(
+          resolveBodyState(body, interpolationTracks, simulationTime, sunState),
+          referencePlane
+        );
+        const realOffset = scalePositionFromKm(state.position.x, state.position.y, state.position.z);
+        const localPosition = scaleSatelliteOffset(state.position, parent.bodyId, parent.bodyClass, viewMode);
+
+        // True position in the frame (distances, travel) vs. where it is drawn in this view mode
+        const position: [number, number, number] = [
+          parent.position[0] + realOffset[0],
+          parent.position[1] + realOffset[1],
+          parent.position[2] + realOffset[2],
+        ];
+        const renderPosition: [number, number, number] = [
+          parent.renderPosition[0] + localPosition[0],
+          parent.renderPosition[1] + localPosition[1],
+          parent.renderPosition[2] + localPosition[2],
+        ];
+
+        return {
+          bodyId: body.bodyId,
+          parentId: parent.bodyId,
+          name: config.name,
+          englishName: config.englishName,
+          position,
+          renderPosition,
+          localPosition,
+          velocity: state.velocity,
+          radius: getRadius(body.bodyId, config.bodyClass, viewMode),
+          texturePath: getTexturePath(body.bodyId, tier as TextureTier),
+          fallbackColor: config.fallbackColor,
+          rotationSpeed: config.rotationSpeed,
+          distanceFromSun: calculateMillionKmFromSun(position, sunPosition),
+          bodyClass: config.bodyClass,
+        };
+      })
+      .filter(satellite => satellite !== null);
+  })();
+
+  const bodiesToRender = [...planetsToRender, ...satellitesToRender];
+
+  // Eclipses and transits under way - tested on the true positions, drawn from the rendered bodies
+  const eclipseShadows = (() => {
+    const snapshot: EphemerisData[] = [
+      { bodyId: SUN_BODY_ID, name: 'Sun', position: toKm(sunPosition), timestamp: '' },
+      ...bodiesToRender.map(body => ({ bodyId: body.bodyId, name: body.englishName, position: toKm(body.position), timestamp: '' })),
+    ];
+
+    return getActiveShadows(snapshot).flatMap(({ type, occulterId, targetId }) => {
+      const occulter = bodiesToRender.find(body => body.bodyId === occulterId);
+      const target = bodiesToRender.find(body => body.bodyId === targetId);
+      if (!occulter || !target) return [];
+
+      const axis = new THREE.Vector3(...occulter.renderPosition).sub(new THREE.Vector3(...sunPosition));
+      const sunDistanceKm = new THREE.Vector3(...occulter.position).distanceTo(new THREE.Vector3(...sunPosition)) / KM_TO_UNIT;
+      const depth = new THREE.Vector3(...target.renderPosition)
+        .sub(new THREE.Vector3(...occulter.renderPosition))
+        .dot(axis.normalize());
+
+      return [{
+        type,
+        occulter,
+        target,
+        angles: getShadowConeAngles(occulterId, sunDistanceKm),
+        length: Math.max(depth, 0) + target.radius * 2, // Just past the target
+      }];
+    });
+  })();
+
+  // The Sun's light casts real shadows for an eclipse - a transit's are far too small to show
+  const eclipse = eclipseShadows.find(shadow => shadow.type !== 'TRANSIT');
+  const sunShadowTarget: SunShadowTarget | null = eclipse
+    ? {
+      position: [
+        (eclipse.occulter.renderPosition[0] + eclipse.target.renderPosition[0]) / 2,
+        (eclipse.occulter.renderPosition[1] + eclipse.target.renderPosition[1]) / 2,
+        (eclipse.occulter.renderPosition[2] + eclipse.target.renderPosition[2]) / 2,
+      ],
+      extent: new THREE.Vector3(...eclipse.occulter.renderPosition).distanceTo(new THREE.Vector3(...eclipse.target.renderPosition)) / 2
+        + Math.max(eclipse.occulter.radius, eclipse.target.radius) * 1.5,
+    }
+    : null;
+
+  const getEclipseRole = (bodyId: string): EclipseRole | undefined => {
+    if (!eclipse || !settings.shadowsEnabled) return undefined;
+    if (bodyId === eclipse.occulter.bodyId) return 'OCCULTER';
+    if (bodyId === eclipse.target.bodyId) return 'TARGET';
+    return undefined;
+  };
+
   // Handle planet click - lookup by bodyId for reliable matching
   const handlePlanetClick = (bodyId: string) => {
     if (!onPlanetClick) return;
 
     // Find the planet by bodyId (more reliable than name)
-    const planet = planetsToRender.find(p => p?.bodyId === bodyId);
+    const planet = bodiesToRender.find(p => p.bodyId === bodyId);
 
     if (planet) {
       const selected: SelectedPlanet = {
@@ -176,7 +456,7 @@ function SceneContent({
   const handlePlanetDoubleClick = (bodyId: string) => {
     if (!onPlanetDoubleClick) return;
 
-    const planet = planetsToRender.find(p => p?.bodyId === bodyId);
+    const planet = bodiesToRender.find(p => p.bodyId === bodyId);
 
     if (planet) {
       // Always use realistic radius for camera zoom since we switch to realistic mode
@@ -200,12 +480,13 @@ function SceneContent({
     }
   };
 
-  const selectedPlanet = planetsToRender.find(p => p?.bodyId === selectedPlanetId);
+  const selectedPlanet = bodiesToRender.find(p => p.bodyId === selectedPlanetId);
 
   return (
     <Canvas
       camera={CAMERA_CONFIG}
       dpr={settings.devicePixelRatio}
+      shadows={settings.shadowsEnabled && (settings.shadowType === 'soft' ? 'soft' : 'basic')}
       gl={{
         antialias: settings.antialias,
         powerPreference: tier === 'low' ? 'low-power' : 'high-performance',
@@ -254,57 +535,131 @@ function SceneContent({
         zoomSpeed={5}
       />
 
-      {/* Sun at center */}
-      <Sun viewMode={viewMode} />
-
-      {/* Keplerian orbital path lines - ellipses with Sun at focus */}
-      {planetsToRender.map((planet) => {
-        if (!planet) return null;
-        const config = getPlanetConfig(planet.bodyId);
-        if (!config) return null;
-
-        // Calculate semi-major axis from meanDistanceAU (1 AU = 149.6 scene units)
-        const semiMajorAxis = config.meanDistanceAU * AU_TO_UNIT;
-
-        return (
-          <OrbitLine
-            key={`orbit-${planet.bodyId}`}
-            semiMajorAxis={semiMajorAxis}
-            eccentricity={config.eccentricity}
-            inclination={config.orbitalInclination}
-            longAscNode={config.longAscNode}
-            longPerihelion={config.longPerihelion}
-            opacity={getOrbitOpacity(planet.distanceFromSun)}
-            color="#a3cffe"
-            viewMode={viewMode}
-          />
-        );
-      })}
-
-      {/* Dynamically render all planets from ephemeris data */}
-      {planetsToRender.map((planet) => {
-        if (!planet) return null;
-        return (
-          <CelestialBody
-            key={planet.bodyId}
-            bodyId={planet.bodyId}
-            name={planet.name}
-            englishName={planet.englishName}
-            position={planet.position}
-            radius={planet.radius}
-            textureUrl={planet.texturePath}
-            rotationSpeed={planet.rotationSpeed}
-            onClick={handlePlanetClick}
-            onDoubleClick={handlePlanetDoubleClick}
-            viewMode={viewMode}
-          />
-        );
-      })}
+      {/* Reference-plane grid, equator / ecliptic circles and the equinox, around the frame center */}
+      {showReferenceGrid && <ReferenceGrid plane={referencePlane} />}
+
+      {/* Sun - at the origin unless the frame is centered elsewhere */}
+      <Sun position={sunPosition} viewMode={viewMode} shadowTarget={sunShadowTarget} />
+
+      {/* Umbra and penumbra of eclipses and transits under way */}
+      {eclipseShadows.map(shadow => (
+        <EclipseShadow
+          key={`${shadow.occulter.bodyId}-${shadow.target.bodyId}`}
+          sunPosition={sunPosition}
+          occulterPosition={shadow.occulter.renderPosition}
+          occulterRadius={shadow.occulter.radius}
+          length={shadow.length}
+          umbraAngle={shadow.angles.umbra}
+          penumbraAngle={shadow.angles.penumbra}
+        />
+      ))}
+
+      {/* Keplerian orbital path lines - ellipses with Sun at focus, so they follow the Sun */}
+      <group position={sunPosition}>
+        {planetsToRender.map((planet) => {
+          const config = getPlanetConfig(planet.bodyId);
+          if (!config || config.bodyClass === 'SPACECRAFT') return null;
+
+          // Calculate semi-major axis from meanDistanceAU (1 AU = 149.6 scene units)
+          const semiMajorAxis = config.meanDistanceAU * AU_TO_UNIT;
+
+          return (
+            <OrbitLine
+              key={`orbit-${planet.bodyId}`}
+              semiMajorAxis={semiMajorAxis}
+              eccentricity={config.eccentricity}
+              inclination={config.orbitalInclination}
+              longAscNode={config.longAscNode}
+              longPerihelion={config.longPerihelion}
+              opacity={getOrbitOpacity(planet.distanceFromSun)}
+              color="#a3cffe"
+              viewMode={viewMode}
+              referencePlane={referencePlane}
+            />
+          );
+        })}
+      </group>
+
+      {/* Spacecraft - mission trajectory and glyph */}
+      {planetsToRender
+        .filter(planet => planet.bodyClass === 'SPACECRAFT')
+        .map(spacecraft => (
+          <group key={spacecraft.bodyId}>
+            {/* Trajectories are heliocentric ecliptic vectors - drawn around the Sun, on the reference plane */}
+            {spacecraftTrajectories?.[spacecraft.bodyId] && (
+              <group position={sunPosition} rotation={getPlaneRotation(referencePlane)}>
+                <SpacecraftTrajectory
+                  samples={spacecraftTrajectories[spacecraft.bodyId]}
+                  color={spacecraft.fallbackColor}
+                />
+              </group>
+            )}
+            <SpacecraftMarker
+              bodyId={spacecraft.bodyId}
+              englishName={spacecraft.englishName}
+              position={spacecraft.position}
+              radius={spacecraft.radius}
+              color={spacecraft.fallbackColor}
+              onClick={handlePlanetClick}
+              onDoubleClick={handlePlanetDoubleClick}
+            />
+          </group>
+        ))}
+
+      {/* Dynamically render all planets from ephemeris data, with their satellites inside the planet's group */}
+      {planetsToRender.filter(planet => planet.bodyClass !== 'SPACECRAFT').map((planet) => (
+        <CelestialBody
+          key={planet.bodyId}
+          bodyId={planet.bodyId}
+          name={planet.name}
+          englishName={planet.englishName}
+          position={planet.position}
+          radius={planet.radius}
+          textureUrl={planet.texturePath}
+          fallbackColor={planet.fallbackColor}
+          rotationSpeed={planet.rotationSpeed}
+          onClick={handlePlanetClick}
+          onDoubleClick={handlePlanetDoubleClick}
+          viewMode={viewMode}
+          poleAxis={planet.poleAxis}
+          rings={planet.rings}
+          eclipseRole={getEclipseRole(planet.bodyId)}
+        >
+          {planet.bodyClass === 'COMET' && (
+            <CometTail
+              position={toSunRelative(planet.position, sunPosition)}
+              distanceAU={planet.distanceFromSun / AU_TO_UNIT}
+              velocity={planet.velocity}
+              tailScale={planet.tailScale}
+            />
+          )}
+          {satellitesToRender
+            .filter(satellite => satellite.parentId === planet.bodyId)
+            .map(satellite => (
+              <CelestialBody
+                key={satellite.bodyId}
+                bodyId={satellite.bodyId}
+                name={satellite.name}
+                englishName={satellite.englishName}
+                position={satellite.localPosition}
+                radius={satellite.radius}
+                textureUrl={satellite.texturePath}
+                fallbackColor={satellite.fallbackColor}
+                rotationSpeed={satellite.rotationSpeed}
+                onClick={handlePlanetClick}
+                onDoubleClick={handlePlanetDoubleClick}
+                viewMode={viewMode}
+                detailMaxDistance={getSatelliteDetailDistance(satellite.localPosition)}
+                eclipseRole={getEclipseRole(satellite.bodyId)}
+              />
+            ))}
+        </CelestialBody>
+      ))}
 
       {/* Selection Ring */}
       {selectedPlanet && (
         <SelectionRing
-          position={selectedPlanet.position}
+          position={selectedPlanet.renderPosition}
           radius={selectedPlanet.radius}
         />
       )}
@@ -322,12 +677,17 @@ function SceneContent({
 export function SceneManager({
   children,
   ephemerisData,
+  interpolationTracks,
+  simulationTime,
+  spacecraftTrajectories,
   onPlanetClick,
   onPlanetDoubleClick,
   selectedPlanetId,
   travelTarget,
   travelTargetRadius,
-  viewMode = 'didactic'
+  viewMode = 'didactic',
+  referencePlane = 'ecliptic',
+  showReferenceGrid = false
 }: SceneManagerProps) {
   return (
     <QualityTierProvider>
@@ -337,12 +697,17 @@ export function SceneManager({
         <Suspense fallback={<LoadingScreen />}>
           <SceneContent
             ephemerisData={ephemerisData}
+            interpolationTracks={interpolationTracks}
+            simulationTime={simulationTime}
+            spacecraftTrajectories={spacecraftTrajectories}
             onPlanetClick={onPlanetClick}
             onPlanetDoubleClick={onPlanetDoubleClick}
             selectedPlanetId={selectedPlanetId}
             travelTarget={travelTarget}
             travelTargetRadius={travelTargetRadius}
             viewMode={viewMode}
+            referencePlane={referencePlane}
+            showReferenceGrid={showReferenceGrid}
           >
             {children}
           </SceneContent>
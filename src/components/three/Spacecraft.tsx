@@ -0,0 +1,157 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useFrame, useThree, ThreeEvent } from '@react-three/fiber';
+import { Billboard, Line, Text } from '@react-three/drei';
+import * as THREE from 'three';
+import type { EphemerisSample } from '@/lib/types';
+import { scalePositionFromKm } from '@/lib/scales';
+
+// --- Types ---
+
+interface SpacecraftMarkerProps {
+  bodyId: string;
+  englishName: string;
+  position: [number, number, number];
+  /** Glyph radius in scene units when the camera is close */
+  radius: number;
+  color: string;
+  onClick?: (bodyId: string) => void;
+  onDoubleClick?: (bodyId: string) => void;
+}
+
+interface SpacecraftTrajectoryProps {
+  samples: EphemerisSample[];
+  color: string;
+}
+
+// --- Constants ---
+
+// The glyph never shrinks below this fraction of the camera distance (stays a few pixels wide)
+const MIN_SCREEN_FRACTION = 0.006;
+const LABEL_COLOR = '#a3cffe';
+const MIN_FONT_SIZE = 0.5;
+const MAX_FONT_SIZE = 100;
+const THROTTLE_FRAMES = 10;
+const TRAJECTORY_OPACITY = 0.35;
+
+// --- Components ---
+
+/**
+ * Spacecraft glyph - a glowing diamond that keeps a minimum on-screen size, with a label
+ * Spacecraft are metres across, so like PlanetMarker this is a symbol rather than a model
+ */
+export function SpacecraftMarker({
+  bodyId,
+  englishName,
+  position,
+  radius,
+  color,
+  onClick,
+  onDoubleClick,
+}: SpacecraftMarkerProps) {
+  const glyphRef = useRef<THREE.Group>(null);
+  const frameCountRef = useRef(0);
+  const tempVec = useRef(new THREE.Vector3());
+  const [fontSize, setFontSize] = useState(2);
+  const [isHovered, setIsHovered] = useState(false);
+  const camera = useThree((state) => state.camera);
+
+  useFrame(() => {
+    if (!glyphRef.current) return;
+
+    const distance = camera.position.distanceTo(glyphRef.current.getWorldPosition(tempVec.current));
+    const scale = Math.max(radius, distance * MIN_SCREEN_FRACTION);
+    glyphRef.current.scale.setScalar(scale);
+    glyphRef.current.rotation.y += 0.01;
+
+    // Throttled label size
+    frameCountRef.current++;
+    if (frameCountRef.current % THROTTLE_FRAMES !== 0) return;
+
+    const newFontSize = Math.max(MIN_FONT_SIZE, Math.min(MAX_FONT_SIZE, scale * 2));
+    if (Math.abs(newFontSize - fontSize) > fontSize * 0.1) {
+      setFontSize(newFontSize);
+    }
+  });
+
+  const handleClick = (event: ThreeEvent<MouseEvent>) => {
+    event.stopPropagation();
+    onClick?.(bodyId);
+  };
+
+  const handleDoubleClick = (event: ThreeEvent<MouseEvent>) => {
+    event.stopPropagation();
+    onDoubleClick?.(bodyId);
+  };
+
+  return (
+    <group position={position}>
+      {/* Unit-size glyph, scaled every frame; the invisible sphere is the hitbox */}
+      <group ref={glyphRef}>
+        <mesh
+          onClick={handleClick}
+          onDoubleClick={handleDoubleClick}
+          onPointerEnter={() => setIsHovered(true)}
+          onPointerLeave={() => setIsHovered(false)}
+          visible={false}
+        >
+          <sphereGeometry args={[2, 12, 12]} />
+          <meshBasicMaterial transparent opacity={0} />
+        </mesh>
+        <mesh>
+          <octahedronGeometry args={[1, 0]} />
+          <meshBasicMaterial color={isHovered ? '#ffffff' : color} />
+        </mesh>
+        <mesh>
+          <octahedronGeometry args={[1.6, 0]} />
+          <meshBasicMaterial
+            color={color}
+            transparent
+            opacity={0.25}
+            depthWrite={false}
+            blending={THREE.AdditiveBlending}
+            wireframe
+          />
+        </mesh>
+      </group>
+
+      <Billboard follow lockX={false} lockY={false} lockZ={false}>
+        <Text
+          position={[0, -fontSize * 1.2, 0]}
+          fontSize={fontSize}
+          color={isHovered ? '#ffffff' : LABEL_COLOR}
+          anchorX="center"
+          anchorY="top"
+          outlineWidth={fontSize * 0.04}
+          outlineColor="#000000"
+          onClick={handleClick}
+          onDoubleClick={handleDoubleClick}
+        >
+          {englishName.toUpperCase()}
+        </Text>
+      </Billboard>
+    </group>
+  );
+}
+
+/**
+ * Mission trajectory as a polyline through the heliocentric samples
+ */
+export function SpacecraftTrajectory({ samples, color }: SpacecraftTrajectoryProps) {
+  if (samples.length < 2) return null;
+
+  const points = samples.map(sample =>
+    scalePositionFromKm(sample.position.x, sample.position.y, sample.position.z)
+  );
+
+  return (
+    <Line
+      points={points}
+      color={color}
+      lineWidth={1.5}
+      transparent
+      opacity={TRAJECTORY_OPACITY}
+    />
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useRef } from 'react';
+import { useRef, useState } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import { useTexture } from '@react-three/drei';
 import * as THREE from 'three';
@@ -9,19 +9,31 @@ import { getTexturePath, TextureTier } from '@/lib/textureConfig';
 import { useQualityTier } from '@/contexts/QualityTierContext';
 
 interface SunProps {
+  position?: [number, number, number]; // Off the origin in frames not centered on the Sun
   lightIntensity?: number;
   viewMode?: ViewMode;
+  shadowTarget?: SunShadowTarget | null; // Eclipse under way - its occulter's shadow falls on the target
+}
+
+export interface SunShadowTarget {
+  position: [number, number, number]; // Center of the occulter and the eclipsed body (scene units)
+  extent: number; // Radius around it that must stay inside the shadow map
 }
 
 const SUN_BODY_ID = '10';
 const DEFAULT_LIGHT_INTENSITY = 2.5;
+const ORIGIN: [number, number, number] = [0, 0, 0];
+const SHADOW_MAP_SIZE = 2048;
 
 export function Sun({
+  position = ORIGIN,
   lightIntensity = DEFAULT_LIGHT_INTENSITY,
   viewMode = 'didactic',
+  shadowTarget,
 }: SunProps) {
   const meshRef = useRef<THREE.Mesh>(null);
-  const { tier } = useQualityTier();
+  const { tier, settings } = useQualityTier();
+  const [lightTarget] = useState(() => new THREE.Object3D());
   const camera = useThree((state) => state.camera); // Acesso à câmera para calcular distância
 
   // Carregar Textura do Sol
@@ -32,6 +44,17 @@ export function Sun({
   const didacticRadius = getRadius(SUN_BODY_ID, 'STAR', 'didactic'); // ~35u
   const realisticRadius = getRadius(SUN_BODY_ID, 'STAR', 'realistic'); // ~0.7u
 
+  // Eclipse shadows only on tiers that render shadows
+  const castsEclipseShadow = !!shadowTarget && settings.shadowsEnabled;
+  const relativeTargetPosition: [number, number, number] = shadowTarget
+    ? [
+      shadowTarget.position[0] - position[0],
+      shadowTarget.position[1] - position[1],
+      shadowTarget.position[2] - position[2],
+    ]
+    : ORIGIN;
+  const targetDistance = Math.hypot(...relativeTargetPosition);
+
   useFrame((state, delta) => {
     if (!meshRef.current) return;
 
@@ -43,8 +66,12 @@ export function Sun({
     } else {
       // MODO REALISTA (O Truque da Escala Dinâmica)
 
-      // 1. Calcular distância da câmera ao Sol (0,0,0)
-      const distance = camera.position.length();
+      // 1. Calcular distância da câmera ao Sol
+      const distance = Math.hypot(
+        camera.position.x - position[0],
+        camera.position.y - position[1],
+        camera.position.z - position[2]
+      );
 
       // 2. Definir um fator de escala visual
       // "distance / 120" significa: a cada 120 unidades de distância, o sol ganha 1 unidade de tamanho visual.
@@ -66,7 +93,7 @@ export function Sun({
   });
 
   return (
-    <group>
+    <group position={position}>
       {/* SOL VISUAL (A esfera brilhante) 
          Usamos meshBasicMaterial com cor > 1.0 para forçar o Bloom (Brilho Neon)
          sem depender de luzes externas.
@@ -81,7 +108,7 @@ export function Sun({
       </mesh>
 
       {/* LUZ FÍSICA (Iluminação dos planetas)
-         Esta luz ilumina a Terra, Júpiter, etc.
+         Esta luz ilumina a Terra, Júpiter, etc. - acompanha o Sol dentro do grupo
       */}
       <pointLight
         position={[0, 0, 0]}
@@ -90,6 +117,31 @@ export function Sun({
         decay={0}    // Luz não enfraquece no vácuo
         color="#fff0dd"
       />
+
+      {/* SOMBRA DO ECLIPSE - a point light's cube shadow map spreads over the whole sky and
+         can't resolve a shadow a few thousand km across, so an eclipse gets a directional
+         light with its shadow map fitted around the two bodies. It adds no light (intensity 0):
+         only the occulter casts into its map and only the target's ShadowMaterial overlay reads it,
+         so the rest of the scene stays lit by the point light alone. */}
+      {castsEclipseShadow && (
+        <>
+          <primitive object={lightTarget} position={relativeTargetPosition} />
+          <directionalLight
+            position={[0, 0, 0]}
+            target={lightTarget}
+            intensity={0}
+            castShadow
+            shadow-mapSize={[SHADOW_MAP_SIZE, SHADOW_MAP_SIZE]}
+            shadow-bias={-0.0001}
+            shadow-camera-left={-shadowTarget.extent}
+            shadow-camera-right={shadowTarget.extent}
+            shadow-camera-top={shadowTarget.extent}
+            shadow-camera-bottom={-shadowTarget.extent}
+            shadow-camera-near={Math.max(0.001, targetDistance - shadowTarget.extent)}
+            shadow-camera-far={targetDistance + shadowTarget.extent}
+          />
+        </>
+      )}
     </group>
   );
 }
\ No newline at end of file
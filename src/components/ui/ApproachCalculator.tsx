@@ -0,0 +1,268 @@
+'use client';
+
+import { useState, type MouseEvent } from 'react';
+import { toast } from 'sonner';
+import { MAX_APPROACH_SEARCH_DAYS, type ClosestApproach } from '@/lib/closestApproach';
+import { getAllBodyIds, getPlanetConfig } from '@/lib/textureConfig';
+import { isWithinSupportedRange, parseTimestamp, toDatePart, toTimePart, toTimestamp } from '@/lib/time';
+import type { DataSource } from '@/lib/types';
+import type { SampledSearchMethod } from '@/hooks/useSampledSearch';
+import type { ApproachSearch } from '@/hooks/useClosestApproach';
+
+// --- Types ---
+
+export interface ApproachCalculatorProps {
+  approach: ClosestApproach | null;
+  currentTime: string; // Default start of the search, marked on the chart
+  onSearch: (search: ApproachSearch) => void;
+  onSelectTime: (time: string, bodyIds: string[]) => void;
+  isSearching?: boolean;
+  source?: DataSource | null;
+}
+
+// --- Constants ---
+
+const MS_PER_DAY = 86_400_000;
+const DEFAULT_SEARCH_DAYS = 731;
+
+// 1 AU in km
+const AU_TO_KM = 149_597_870.7;
+
+const DEFAULT_BODY_IDS: [string, string] = ['399', '499'];
+
+// Chart drawing area (SVG user units)
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 100;
+const CHART_PADDING = 4;
+
+const METHOD_OPTIONS: { method: SampledSearchMethod; label: string; description: string }[] = [
+  { method: 'HORIZONS', label: 'NASA', description: 'Vectors from JPL Horizons (range endpoint)' },
+  { method: 'PROPAGATOR', label: 'Local', description: 'Keplerian propagator - instant, works offline' },
+];
+
+// --- Helper Functions ---
+
+function getBodyName(bodyId: string): string {
+  return getPlanetConfig(bodyId)?.englishName ?? bodyId;
+}
+
+function formatDistance(km: number): string {
+  if (km < 1e6) return `${Math.round(km).toLocaleString('en-US')} km`;
+  return `${(km / 1e6).toFixed(2)} M km`;
+}
+
+// --- Component ---
+
+export function ApproachCalculator({
+  approach,
+  currentTime,
+  onSearch,
+  onSelectTime,
+  isSearching = false,
+  source,
+}: ApproachCalculatorProps) {
+  const [bodyIds, setBodyIds] = useState<[string, string]>(DEFAULT_BODY_IDS);
+  const [startValue, setStartValue] = useState(() => toDatePart(currentTime));
+  const [stopValue, setStopValue] = useState(() => toDatePart(Date.parse(currentTime) + DEFAULT_SEARCH_DAYS * MS_PER_DAY));
+  const [method, setMethod] = useState<SampledSearchMethod>('HORIZONS');
+  const [hasSearched, setHasSearched] = useState(false);
+
+  const handleSearch = () => {
+    const start = parseTimestamp(startValue);
+    const stop = parseTimestamp(stopValue);
+
+    if (bodyIds[0] === bodyIds[1]) {
+      toast.error('Corpos inválidos', { description: 'Escolha dois corpos diferentes.' });
+      return;
+    }
+    if (start === null || stop === null || !isWithinSupportedRange(start) || !isWithinSupportedRange(stop)) {
+      toast.error('Intervalo inválido', { description: 'As datas devem estar entre 1600 e 2500.' });
+      return;
+    }
+    if (stop <= start || stop - start > MAX_APPROACH_SEARCH_DAYS * MS_PER_DAY) {
+      toast.error('Intervalo inválido', {
+        description: `O fim deve ser posterior ao início, em até ${MAX_APPROACH_SEARCH_DAYS} dias.`,
+      });
+      return;
+    }
+
+    setHasSearched(true);
+    onSearch({ bodyIds, start: toTimestamp(start), stop: toTimestamp(stop), method });
+  };
+
+  const setBodyId = (index: 0 | 1, bodyId: string) => {
+    setBodyIds(ids => (index === 0 ? [bodyId, ids[1]] : [ids[0], bodyId]));
+  };
+
+  const inputClass = 'flex-1 min-w-0 px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-sm font-mono transition-all duration-300 outline-none focus:ring-2 focus:ring-white/10 hover:border-white/20 focus:border-white/30';
+
+  const buttonClass = (isActive: boolean) =>
+    `flex-1 min-w-[70px] px-3 py-1.5 transition-all duration-300 rounded-lg text-[10px] font-bold uppercase tracking-wider backdrop-blur-md border ${isActive
+      ? 'bg-purple-500/30 border-purple-500/50 text-purple-200 shadow-lg shadow-purple-500/20' /* presetButtonActiveStyle */
+      : 'bg-white/5 border-white/10 text-white/40 hover:bg-white/10 hover:border-white/20 hover:text-white/60' /* presetButtonStyle */
+    }`;
+
+  // Distance curve scaled into the chart
+  const chart = (() => {
+    if (!approach || approach.samples.length < 2) return null;
+
+    const start = Date.parse(approach.samples[0].time);
+    const span = Date.parse(approach.samples[approach.samples.length - 1].time) - start;
+    const distances = approach.samples.map(sample => sample.distance);
+    const minDistance = Math.min(...distances, approach.distance);
+    const maxDistance = Math.max(...distances);
+    const distanceSpan = maxDistance - minDistance || 1;
+
+    const toX = (time: number) => ((time - start) / span) * CHART_WIDTH;
+    const toY = (distance: number) =>
+      CHART_PADDING + (1 - (distance - minDistance) / distanceSpan) * (CHART_HEIGHT - 2 * CHART_PADDING);
+    const current = Date.parse(currentTime);
+
+    return {
+      start,
+      span,
+      minDistance,
+      maxDistance,
+      points: approach.samples.map(sample => `${toX(Date.parse(sample.time)).toFixed(1)},${toY(sample.distance).toFixed(1)}`).join(' '),
+      minimum: { x: toX(Date.parse(approach.time)), y: toY(approach.distance) },
+      currentX: current >= start && current <= start + span ? toX(current) : null,
+    };
+  })();
+
+  // Click on the chart - go to that date
+  const handleChartClick = (event: MouseEvent<SVGSVGElement>) => {
+    if (!approach || !chart) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const fraction = (event.clientX - rect.left) / rect.width;
+    onSelectTime(toTimestamp(chart.start + fraction * chart.span), approach.bodyIds);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">{/* containerStyle */}
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-bold text-white/40 uppercase tracking-[0.2em]">{/* labelStyle */}
+          Closest Approach
+        </label>
+        <span className="text-[10px] font-mono text-white/30">
+          {isSearching ? 'Searching…' : hasSearched && source === 'FALLBACK_DATASET' ? 'offline estimate' : ''}
+        </span>
+      </div>
+
+      {/* Body pair */}
+      <div className="flex gap-2 items-center">
+        {([0, 1] as const).map((index) => (
+          <select
+            key={index}
+            value={bodyIds[index]}
+            onChange={(e) => setBodyId(index, e.target.value)}
+            title={index === 0 ? 'First body' : 'Second body'}
+            className={inputClass}
+          >
+            {getAllBodyIds().map((bodyId) => (
+              <option key={bodyId} value={bodyId}>{getBodyName(bodyId)}</option>
+            ))}
+          </select>
+        ))}
+      </div>
+
+      {/* Date range + search button */}
+      <div className="flex gap-2">
+        <input
+          type="date"
+          value={startValue}
+          onChange={(e) => setStartValue(e.target.value)}
+          title="Search from (UTC)"
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={stopValue}
+          onChange={(e) => setStopValue(e.target.value)}
+          title="Search until (UTC)"
+          className={inputClass}
+        />
+        <button
+          className="px-3.5 py-2 bg-blue-500/20 border border-blue-500/30 rounded-xl text-blue-400 hover:bg-blue-500/30 hover:scale-105 active:scale-95 transition-all duration-300 shadow-lg shadow-blue-500/10 disabled:opacity-50"
+          onClick={handleSearch}
+          disabled={isSearching}
+          title="Find the closest approach"
+        >
+          📏
+        </button>
+      </div>
+
+      {/* Position source */}
+      <div className="flex gap-2 flex-wrap">
+        {METHOD_OPTIONS.map((option) => (
+          <button
+            key={option.method}
+            className={buttonClass(method === option.method)}
+            onClick={() => setMethod(option.method)}
+            title={option.description}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Result - minimum distance and the distance curve */}
+      {hasSearched && !isSearching && approach && (
+        <div className="flex flex-col gap-2">
+          <button
+            className="bg-white/5 rounded-lg p-3 border border-white/10 flex flex-col gap-1 text-left transition-colors hover:bg-white/10 hover:border-white/20"
+            onClick={() => onSelectTime(approach.time, approach.bodyIds)}
+            title="Go to this date and frame the bodies"
+          >
+            <span className="text-sm font-semibold text-white">
+              {approach.bodyIds.map(getBodyName).join(' – ')}: {formatDistance(approach.distance)}
+            </span>
+            <span className="text-[10px] font-mono text-white/50">
+              {toDatePart(approach.time)} {toTimePart(approach.time)} UTC · {(approach.distance / AU_TO_KM).toFixed(3)} AU
+            </span>
+          </button>
+
+          {chart && (
+            <div className="flex flex-col gap-1">
+              <div className="flex justify-between text-[10px] font-mono text-white/30">
+                <span>{formatDistance(chart.maxDistance)}</span>
+                <span>min {formatDistance(chart.minDistance)}</span>
+              </div>
+              <svg
+                viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+                className="w-full h-auto bg-white/5 border border-white/10 rounded-lg cursor-crosshair"
+                onClick={handleChartClick}
+              >
+                <title>Distance over time - click to go to a date</title>
+                {chart.currentX !== null && (
+                  <line
+                    x1={chart.currentX}
+                    x2={chart.currentX}
+                    y1={0}
+                    y2={CHART_HEIGHT}
+                    stroke="rgba(255, 255, 255, 0.25)"
+                    strokeDasharray="2 2"
+                  />
+                )}
+                <polyline
+                  points={chart.points}
+                  fill="none"
+                  stroke="#60a5fa"
+                  strokeWidth={1.5}
+                  vectorEffect="non-scaling-stroke"
+                />
+                <circle cx={chart.minimum.x} cy={chart.minimum.y} r={3} fill="#c084fc" />
+              </svg>
+              <div className="flex justify-between text-[10px] font-mono text-white/30">
+                <span>{toDatePart(approach.samples[0].time)}</span>
+                <span>{toDatePart(approach.samples[approach.samples.length - 1].time)}</span>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+      {hasSearched && !isSearching && !approach && (
+        <p className="text-xs text-white/40 italic">No positions for both bodies in this range</p>
+      )}
+    </div>
+  );
+}
@@ -1,64 +1,84 @@
 'use client';
 
 import { useState } from 'react';
+import {
+  combineDateAndTime,
+  getNowTimestamp,
+  getTdbMinusUtcSeconds,
+  isWithinSupportedRange,
+  MAX_DATE,
+  MIN_DATE,
+  parseTimestamp,
+  toDatePart,
+  toTimePart,
+  toTimestamp
+} from '@/lib/time';
 
 // --- Types ---
 
 interface DateSelectorProps {
-  currentDate: string;
-  onDateChange: (date: string) => void;
+  currentTime: string; // UTC timestamp (YYYY-MM-DDTHH:mm:00Z)
+  isLive?: boolean; // Following the wall clock
+  onDateChange: (time: string) => void;
+  onNow?: () => void;
   onRefresh?: () => void;
 }
 
-// --- Constants ---
-
-const MIN_DATE = '1600-01-01';
-const MAX_DATE = '2500-01-01';
-
 // --- Helper Functions ---
 
-function isValidDate(dateString: string): boolean {
-  const date = new Date(dateString);
-  if (isNaN(date.getTime())) return false;
-
-  const minDate = new Date(MIN_DATE);
-  const maxDate = new Date(MAX_DATE);
-
-  return date >= minDate && date <= maxDate;
-}
-
-function addYears(dateString: string, years: number): string {
-  const date = new Date(dateString);
-  date.setFullYear(date.getFullYear() + years);
-  return date.toISOString().split('T')[0];
+function isValidTime(value: string | null): value is string {
+  const time = value ? parseTimestamp(value) : null;
+  return time !== null && isWithinSupportedRange(time);
 }
 
-function getTodayString(): string {
-  return new Date().toISOString().split('T')[0];
+function addYears(timestamp: string, years: number): string {
+  const date = new Date(timestamp);
+  date.setUTCFullYear(date.getUTCFullYear() + years);
+  return toTimestamp(date);
 }
 
 // --- Component ---
 
-export function DateSelector({ currentDate, onDateChange, onRefresh }: DateSelectorProps) {
-  const [inputValue, setInputValue] = useState(currentDate);
+export function DateSelector({ currentTime, isLive = false, onDateChange, onNow, onRefresh }: DateSelectorProps) {
+  const [dateValue, setDateValue] = useState(toDatePart(currentTime));
+  const [timeValue, setTimeValue] = useState(toTimePart(currentTime));
   const [error, setError] = useState<string | null>(null);
-
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setInputValue(value);
-
-    if (value && !isValidDate(value)) {
+  const [syncedTime, setSyncedTime] = useState(currentTime);
+
+  // Follow time changes made outside the inputs (e.g. time playback, live mode)
+  if (currentTime !== syncedTime) {
+    setSyncedTime(currentTime);
+    setDateValue(toDatePart(currentTime));
+    setTimeValue(toTimePart(currentTime));
+    setError(null);
+  }
+
+  const validate = (date: string, time: string) => {
+    if (date && !isValidTime(combineDateAndTime(date, time))) {
       setError(`Date must be between ${MIN_DATE} and ${MAX_DATE}`);
     } else {
       setError(null);
     }
   };
 
+  const handleDateInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDateValue(e.target.value);
+    validate(e.target.value, timeValue);
+  };
+
+  const handleTimeInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setTimeValue(e.target.value);
+    validate(dateValue, e.target.value);
+  };
+
   const handleInputBlur = () => {
-    if (inputValue && isValidDate(inputValue) && inputValue !== currentDate) {
-      onDateChange(inputValue);
-    } else if (!isValidDate(inputValue)) {
-      setInputValue(currentDate);
+    const combined = combineDateAndTime(dateValue, timeValue);
+
+    if (isValidTime(combined)) {
+      if (combined !== currentTime) onDateChange(combined);
+    } else {
+      setDateValue(toDatePart(currentTime));
+      setTimeValue(toTimePart(currentTime));
       setError(null);
     }
   };
@@ -69,52 +89,79 @@ export function DateSelector({ currentDate, onDateChange, onRefresh }: DateSelec
     }
   };
 
-  const handlePreset = (preset: 'today' | '-1year' | '+1year') => {
-    let newDate: string;
+  const handlePreset = (preset: 'now' | '-1year' | '+1year') => {
+    if (preset === 'now' && onNow) {
+      setError(null);
+      onNow();
+      return;
+    }
+
+    let newTime: string;
 
     switch (preset) {
-      case 'today':
-        newDate = getTodayString();
+      case 'now':
+        newTime = getNowTimestamp();
         break;
       case '-1year':
-        newDate = addYears(currentDate, -1);
+        newTime = addYears(currentTime, -1);
         break;
       case '+1year':
-        newDate = addYears(currentDate, 1);
+        newTime = addYears(currentTime, 1);
         break;
     }
 
-    if (isValidDate(newDate)) {
-      setInputValue(newDate);
+    if (isValidTime(newTime)) {
+      setDateValue(toDatePart(newTime));
+      setTimeValue(toTimePart(newTime));
       setError(null);
-      onDateChange(newDate);
+      onDateChange(newTime);
     }
   };
 
-  const today = getTodayString();
-  const isToday = currentDate === today;
+  // Horizons vectors are requested on the UTC scale; TDB is the scale its ephemerides run on
+  const parsedTime = parseTimestamp(currentTime);
+  const tdbOffset = parsedTime === null ? null : getTdbMinusUtcSeconds(parsedTime);
 
   return (
     <div className="flex flex-col gap-3">{/* containerStyle */}
-      <label className="text-[10px] font-bold text-white/40 uppercase tracking-[0.2em]">{/* labelStyle */}
-        Simulation Date
-      </label>
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-bold text-white/40 uppercase tracking-[0.2em]">{/* labelStyle */}
+          Simulation Time
+        </label>
+        <span
+          className="text-[10px] font-mono text-white/30"
+          title="Inputs are UTC. Horizons ephemerides run on TDB (Barycentric Dynamical Time); vectors are requested for the UTC instant."
+        >
+          UTC{tdbOffset !== null && ` · TDB ${tdbOffset >= 0 ? '+' : '−'}${Math.abs(tdbOffset).toFixed(1)} s`}
+        </span>
+      </div>
 
-      {/* Date input + refresh button */}
+      {/* Date + time inputs + refresh button */}
       <div className="flex gap-2">{/* inputContainerStyle */}
         <input
           type="date"
-          value={inputValue}
-          onChange={handleInputChange}
+          value={dateValue}
+          onChange={handleDateInputChange}
           onBlur={handleInputBlur}
           onKeyDown={handleKeyPress}
           min={MIN_DATE}
           max={MAX_DATE}
-          className={`flex-1 px-4 py-2 bg-white/5 border rounded-xl text-sm font-mono transition-all duration-300 outline-none focus:ring-2 focus:ring-white/10 ${error
+          className={`flex-1 min-w-0 px-3 py-2 bg-white/5 border rounded-xl text-sm font-mono transition-all duration-300 outline-none focus:ring-2 focus:ring-white/10 ${error
             ? 'border-red-500/50 shadow-[0_0_10px_rgba(239,68,68,0.2)]' /* inputErrorStyle */
             : 'border-white/10 hover:border-white/20 focus:border-white/30' /* inputStyle */
             }`}
         />
+        <input
+          type="time"
+          value={timeValue}
+          onChange={handleTimeInputChange}
+          onBlur={handleInputBlur}
+          onKeyDown={handleKeyPress}
+          step={60}
+          title="Time of day (UTC)"
+          className="w-[88px] px-2 py-2 bg-white/5 border border-white/10 rounded-xl text-sm font-mono transition-all duration-300 outline-none focus:ring-2 focus:ring-white/10 hover:border-white/20 focus:border-white/30"
+          /* inputStyle */
+        />
         {onRefresh && (
           <button
             className="px-3.5 py-2 bg-blue-500/20 border border-blue-500/30 rounded-xl text-blue-400 hover:bg-blue-500/30 hover:scale-105 active:scale-95 transition-all duration-300 shadow-lg shadow-blue-500/10"
@@ -137,13 +184,14 @@ export function DateSelector({ currentDate, onDateChange, onRefresh }: DateSelec
       {/* Preset buttons */}
       <div className="flex gap-2 flex-wrap">{/* presetsContainerStyle */}
         <button
-          className={`flex-1 min-w-[70px] px-3 py-1.5 transition-all duration-300 rounded-lg text-[10px] font-bold uppercase tracking-wider backdrop-blur-md border ${isToday
+          className={`flex-1 min-w-[70px] px-3 py-1.5 transition-all duration-300 rounded-lg text-[10px] font-bold uppercase tracking-wider backdrop-blur-md border ${isLive
             ? 'bg-purple-500/30 border-purple-500/50 text-purple-200 shadow-lg shadow-purple-500/20' /* presetButtonActiveStyle */
             : 'bg-white/5 border-white/10 text-white/40 hover:bg-white/10 hover:border-white/20 hover:text-white/60' /* presetButtonStyle */
             }`}
-          onClick={() => handlePreset('today')}
+          onClick={() => handlePreset('now')}
+          title="Jump to the current time and keep following it"
         >
-          Today
+          {isLive ? '● Live' : 'Now'}
         </button>
         <button
           className="flex-1 min-w-[70px] px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-[10px] font-bold uppercase tracking-wider text-white/40 hover:bg-white/10 hover:border-white/20 hover:text-white/60 transition-all duration-300"
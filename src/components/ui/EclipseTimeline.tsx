@@ -0,0 +1,108 @@
+'use client';
+
+import type { EclipseEvent } from '@/lib/eclipses';
+import { getPlanetConfig } from '@/lib/textureConfig';
+import { toDatePart, toTimePart } from '@/lib/time';
+
+// --- Types ---
+
+export interface EclipseTimelineProps {
+  events: EclipseEvent[];
+  start: number; // Window covered (epoch ms)
+  stop: number;
+  currentTime: string; // Simulation time - events under way are highlighted
+  onSelectEvent: (event: EclipseEvent) => void;
+}
+
+// --- Constants ---
+
+const TYPE_STYLES: Record<EclipseEvent['type'], { icon: string; label: string; dotClass: string }> = {
+  SOLAR_ECLIPSE: { icon: '🌑', label: 'Solar eclipse', dotClass: 'bg-orange-400' },
+  LUNAR_ECLIPSE: { icon: '🌕', label: 'Lunar eclipse', dotClass: 'bg-red-400' },
+  TRANSIT: { icon: '⚫', label: 'Transit', dotClass: 'bg-blue-400' },
+};
+
+const KIND_LABELS: Record<NonNullable<EclipseEvent['kind']>, string> = {
+  TOTAL: 'Total',
+  ANNULAR: 'Annular',
+  PARTIAL: 'Partial',
+  PENUMBRAL: 'Penumbral',
+};
+
+// --- Helper Functions ---
+
+function getTitle(event: EclipseEvent): string {
+  if (event.type === 'TRANSIT') {
+    return `Transit of ${getPlanetConfig(event.occulterId)?.englishName ?? event.occulterId}`;
+  }
+  const label = TYPE_STYLES[event.type].label;
+  return event.kind ? `${KIND_LABELS[event.kind]} ${label.toLowerCase()}` : label;
+}
+
+function formatDuration(event: EclipseEvent): string {
+  const minutes = Math.round((Date.parse(event.end) - Date.parse(event.start)) / 60_000);
+  return `${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+// --- Component ---
+
+export function EclipseTimeline({ events, start, stop, currentTime, onSelectEvent }: EclipseTimelineProps) {
+  const time = Date.parse(currentTime);
+  const span = stop - start;
+
+  return (
+    <div className="flex flex-col gap-3">{/* containerStyle */}
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-bold text-white/40 uppercase tracking-[0.2em]">{/* labelStyle */}
+          Eclipses &amp; Transits
+        </label>
+        <span className="text-[10px] font-mono text-white/30" title="Computed from propagated positions - times good to a few hours">
+          {toDatePart(start)} → {toDatePart(stop)}
+        </span>
+      </div>
+
+      {/* Timeline strip */}
+      <div className="relative h-3 bg-white/5 border border-white/10 rounded-full">
+        {events.map((event) => (
+          <button
+            key={event.id}
+            className={`absolute top-1/2 w-2 h-2 -mt-1 -ml-1 rounded-full ${TYPE_STYLES[event.type].dotClass} hover:scale-150 transition-transform`}
+            style={{ left: `${((Date.parse(event.maximum) - start) / span) * 100}%` }}
+            onClick={() => onSelectEvent(event)}
+            title={`${getTitle(event)} - ${toDatePart(event.maximum)}`}
+          />
+        ))}
+      </div>
+
+      {/* Upcoming events - click to jump to the maximum */}
+      <div className="flex flex-col gap-2 max-h-72 overflow-y-auto">
+        {events.map((event) => {
+          const isUnderway = time >= Date.parse(event.start) && time <= Date.parse(event.end);
+          return (
+            <button
+              key={event.id}
+              className={`rounded-lg p-3 border flex gap-3 items-start text-left transition-colors ${isUnderway
+                ? 'bg-purple-500/20 border-purple-500/40'
+                : 'bg-white/5 border-white/10 hover:bg-white/10 hover:border-white/20'
+              }`}
+              onClick={() => onSelectEvent(event)}
+              title="Go to the maximum and frame the bodies"
+            >
+              <span className="text-base leading-none">{TYPE_STYLES[event.type].icon}</span>
+              <span className="flex flex-col gap-1 min-w-0">
+                <span className="text-sm font-semibold text-white">{getTitle(event)}</span>
+                <span className="text-[10px] font-mono text-white/50">
+                  {toDatePart(event.maximum)} {toTimePart(event.maximum)} UTC · {formatDuration(event)}
+                </span>
+                {isUnderway && <span className="text-[10px] text-purple-200">Under way</span>}
+              </span>
+            </button>
+          );
+        })}
+        {events.length === 0 && (
+          <p className="text-xs text-white/40 italic">No eclipses or transits in this window</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -42,7 +42,7 @@ const ERROR_MESSAGES: Record<ErrorType, { title: string; description: string; ic
   },
   VALIDATION_ERROR: {
     title: 'Data Validation Error',
-    description: 'The data received from the server was invalid or corrupted.',
+    description: 'The request was rejected, or the data received from the server was invalid.',
     icon: '⚠️',
   },
   TIMEOUT_ERROR: {
@@ -0,0 +1,190 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { MAX_EVENT_SEARCH_DAYS, type AstronomicalEvent } from '@/lib/events';
+import { getPlanetConfig } from '@/lib/textureConfig';
+import { isWithinSupportedRange, parseTimestamp, toDatePart, toTimePart, toTimestamp } from '@/lib/time';
+import type { DataSource } from '@/lib/types';
+import type { EventSearch } from '@/hooks/useEventFinder';
+import type { SampledSearchMethod } from '@/hooks/useSampledSearch';
+
+// --- Types ---
+
+export interface EventFinderProps {
+  events: AstronomicalEvent[];
+  currentTime: string; // Default start of the search
+  onSearch: (search: EventSearch) => void;
+  onSelectEvent: (event: AstronomicalEvent) => void;
+  isSearching?: boolean;
+  source?: DataSource | null;
+}
+
+// --- Constants ---
+
+const MS_PER_DAY = 86_400_000;
+const DEFAULT_SEARCH_DAYS = 365;
+
+const EVENT_ICONS: Record<AstronomicalEvent['type'], string> = {
+  CONJUNCTION: '🤝',
+  OPPOSITION: '☍',
+  GREATEST_ELONGATION: '📐',
+  STATION: '↩️',
+};
+
+const METHOD_OPTIONS: { method: SampledSearchMethod; label: string; description: string }[] = [
+  { method: 'HORIZONS', label: 'NASA', description: 'Daily vectors from JPL Horizons (range endpoint)' },
+  { method: 'PROPAGATOR', label: 'Local', description: 'Keplerian propagator - instant, works offline' },
+];
+
+// --- Helper Functions ---
+
+function getBodyName(bodyId: string): string {
+  return getPlanetConfig(bodyId)?.englishName ?? bodyId;
+}
+
+function describeEvent(event: AstronomicalEvent): { title: string; detail: string } {
+  const names = event.bodyIds.map(getBodyName);
+
+  switch (event.type) {
+    case 'CONJUNCTION':
+      return { title: `${names.join(' – ')} conjunction`, detail: `${event.separation?.toFixed(1)}° apart` };
+    case 'OPPOSITION':
+      return { title: `${names[0]} at opposition`, detail: 'Opposite the Sun, up all night' };
+    case 'GREATEST_ELONGATION':
+      return {
+        title: `${names[0]} greatest elongation`,
+        detail: `${event.separation?.toFixed(1)}° ${event.side === 'EAST' ? 'east of the Sun, evening sky' : 'west of the Sun, morning sky'}`,
+      };
+    case 'STATION':
+      return {
+        title: `${names[0]} stationary`,
+        detail: event.direction === 'RETROGRADE' ? 'Turns retrograde' : 'Resumes direct motion',
+      };
+  }
+}
+
+// --- Component ---
+
+export function EventFinder({
+  events,
+  currentTime,
+  onSearch,
+  onSelectEvent,
+  isSearching = false,
+  source,
+}: EventFinderProps) {
+  const [startValue, setStartValue] = useState(() => toDatePart(currentTime));
+  const [stopValue, setStopValue] = useState(() => toDatePart(Date.parse(currentTime) + DEFAULT_SEARCH_DAYS * MS_PER_DAY));
+  const [method, setMethod] = useState<SampledSearchMethod>('HORIZONS');
+  const [hasSearched, setHasSearched] = useState(false);
+
+  const handleSearch = () => {
+    const start = parseTimestamp(startValue);
+    const stop = parseTimestamp(stopValue);
+
+    if (start === null || stop === null || !isWithinSupportedRange(start) || !isWithinSupportedRange(stop)) {
+      toast.error('Intervalo inválido', { description: 'As datas devem estar entre 1600 e 2500.' });
+      return;
+    }
+    if (stop <= start || stop - start > MAX_EVENT_SEARCH_DAYS * MS_PER_DAY) {
+      toast.error('Intervalo inválido', {
+        description: `O fim deve ser posterior ao início, em até ${MAX_EVENT_SEARCH_DAYS} dias.`,
+      });
+      return;
+    }
+
+    setHasSearched(true);
+    onSearch({ start: toTimestamp(start), stop: toTimestamp(stop), method });
+  };
+
+  const inputClass = 'flex-1 min-w-0 px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-sm font-mono transition-all duration-300 outline-none focus:ring-2 focus:ring-white/10 hover:border-white/20 focus:border-white/30';
+
+  const buttonClass = (isActive: boolean) =>
+    `flex-1 min-w-[70px] px-3 py-1.5 transition-all duration-300 rounded-lg text-[10px] font-bold uppercase tracking-wider backdrop-blur-md border ${isActive
+      ? 'bg-purple-500/30 border-purple-500/50 text-purple-200 shadow-lg shadow-purple-500/20' /* presetButtonActiveStyle */
+      : 'bg-white/5 border-white/10 text-white/40 hover:bg-white/10 hover:border-white/20 hover:text-white/60' /* presetButtonStyle */
+    }`;
+
+  return (
+    <div className="flex flex-col gap-3">{/* containerStyle */}
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-bold text-white/40 uppercase tracking-[0.2em]">{/* labelStyle */}
+          Event Finder
+        </label>
+        <span className="text-[10px] font-mono text-white/30">
+          {isSearching ? 'Searching…' : hasSearched && source === 'FALLBACK_DATASET' ? 'offline estimate' : ''}
+        </span>
+      </div>
+
+      {/* Date range + search button */}
+      <div className="flex gap-2">
+        <input
+          type="date"
+          value={startValue}
+          onChange={(e) => setStartValue(e.target.value)}
+          title="Search from (UTC)"
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={stopValue}
+          onChange={(e) => setStopValue(e.target.value)}
+          title="Search until (UTC)"
+          className={inputClass}
+        />
+        <button
+          className="px-3.5 py-2 bg-blue-500/20 border border-blue-500/30 rounded-xl text-blue-400 hover:bg-blue-500/30 hover:scale-105 active:scale-95 transition-all duration-300 shadow-lg shadow-blue-500/10 disabled:opacity-50"
+          onClick={handleSearch}
+          disabled={isSearching}
+          title="Find events"
+        >
+          🔭
+        </button>
+      </div>
+
+      {/* Position source */}
+      <div className="flex gap-2 flex-wrap">
+        {METHOD_OPTIONS.map((option) => (
+          <button
+            key={option.method}
+            className={buttonClass(method === option.method)}
+            onClick={() => setMethod(option.method)}
+            title={option.description}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Results - click to jump there */}
+      {hasSearched && !isSearching && (
+        <div className="flex flex-col gap-2 max-h-72 overflow-y-auto">
+          {events.map((event) => {
+            const { title, detail } = describeEvent(event);
+            return (
+              <button
+                key={event.id}
+                className="bg-white/5 rounded-lg p-3 border border-white/10 flex gap-3 items-start text-left transition-colors hover:bg-white/10 hover:border-white/20"
+                onClick={() => onSelectEvent(event)}
+                title="Go to this date and frame the bodies"
+              >
+                <span className="text-base leading-none">{EVENT_ICONS[event.type]}</span>
+                <span className="flex flex-col gap-1 min-w-0">
+                  <span className="text-sm font-semibold text-white">{title}</span>
+                  <span className="text-[10px] font-mono text-white/50">
+                    {toDatePart(event.time)} {toTimePart(event.time)} UTC
+                  </span>
+                  <span className="text-[10px] text-white/40">{detail}</span>
+                </span>
+              </button>
+            );
+          })}
+          {events.length === 0 && (
+            <p className="text-xs text-white/40 italic">No events in this range</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { FRAME_PRESETS, getFrameLabel } from '@/lib/frames';
+import { getPlanetConfig } from '@/lib/textureConfig';
+import type { ReferencePlane } from '@/lib/coordinates';
+
+// --- Types ---
+
+export interface FrameSelectorProps {
+  centerId: string;
+  selectedBody?: { bodyId: string; englishName: string } | null;
+  onCenterChange: (centerId: string) => void;
+  plane: ReferencePlane;
+  onPlaneChange: (plane: ReferencePlane) => void;
+  showGrid: boolean;
+  onToggleGrid: () => void;
+}
+
+// --- Constants ---
+
+const PLANE_OPTIONS: { plane: ReferencePlane; label: string; description: string }[] = [
+  { plane: 'ecliptic', label: 'Ecliptic', description: 'J2000 ecliptic - planets orbit close to this plane' },
+  { plane: 'equatorial', label: 'Equatorial', description: "Earth's equator (ICRF) - the plane of right ascension and declination" },
+];
+
+// --- Component ---
+
+export function FrameSelector({
+  centerId,
+  selectedBody,
+  onCenterChange,
+  plane,
+  onPlaneChange,
+  showGrid,
+  onToggleGrid,
+}: FrameSelectorProps) {
+  const centerLabel = getFrameLabel(centerId, getPlanetConfig(centerId)?.englishName);
+
+  // The selected body is offered as a center unless it already is one of the presets
+  const canCenterOnSelection = selectedBody
+    && !FRAME_PRESETS.some(frame => frame.centerId === selectedBody.bodyId);
+  const isSelectionCenter = canCenterOnSelection && selectedBody.bodyId === centerId;
+
+  const buttonClass = (isActive: boolean) =>
+    `flex-1 min-w-[70px] px-3 py-1.5 transition-all duration-300 rounded-lg text-[10px] font-bold uppercase tracking-wider backdrop-blur-md border ${isActive
+      ? 'bg-purple-500/30 border-purple-500/50 text-purple-200 shadow-lg shadow-purple-500/20' /* presetButtonActiveStyle */
+      : 'bg-white/5 border-white/10 text-white/40 hover:bg-white/10 hover:border-white/20 hover:text-white/60' /* presetButtonStyle */
+    }`;
+
+  return (
+    <div className="flex flex-col gap-3">{/* containerStyle */}
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-bold text-white/40 uppercase tracking-[0.2em]">{/* labelStyle */}
+          Reference Frame
+        </label>
+        <span className="text-[10px] font-semibold text-white/30 uppercase tracking-wider">
+          Centered on {centerLabel}
+        </span>
+      </div>
+
+      <div className="flex gap-2 flex-wrap">{/* presetsContainerStyle */}
+        {FRAME_PRESETS.map((frame) => (
+          <button
+            key={frame.centerId}
+            className={buttonClass(centerId === frame.centerId)}
+            onClick={() => onCenterChange(frame.centerId)}
+            title={frame.description}
+          >
+            {frame.label}
+          </button>
+        ))}
+      </div>
+
+      {canCenterOnSelection && (
+        <button
+          className={buttonClass(!!isSelectionCenter)}
+          onClick={() => onCenterChange(selectedBody.bodyId)}
+          title={`Re-origin the scene on ${selectedBody.englishName}`}
+        >
+          ◎ {selectedBody.englishName}
+        </button>
+      )}
+
+      {/* Reference plane + grid */}
+      <div className="flex gap-2 flex-wrap">
+        {PLANE_OPTIONS.map((option) => (
+          <button
+            key={option.plane}
+            className={buttonClass(plane === option.plane)}
+            onClick={() => onPlaneChange(option.plane)}
+            title={option.description}
+          >
+            {option.label}
+          </button>
+        ))}
+        <button
+          className={buttonClass(showGrid)}
+          onClick={onToggleGrid}
+          title={showGrid ? 'Hide reference grid' : 'Show reference grid, equator and ecliptic'}
+        >
+          # Grid
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,15 @@
 import { useState, useEffect } from 'react';
 import { PlanetInfo } from './PlanetInfo';
 import { DateSelector } from './DateSelector';
+import { PlaybackControls, type PlaybackControlsProps } from './PlaybackControls';
+import { FrameSelector, type FrameSelectorProps } from './FrameSelector';
+import { TonightSky, type TonightSkyProps } from './TonightSky';
+import { RiseSetTable, type RiseSetTableProps } from './RiseSetTable';
+import { EventFinder, type EventFinderProps } from './EventFinder';
+import { EclipseTimeline, type EclipseTimelineProps } from './EclipseTimeline';
+import { ApproachCalculator, type ApproachCalculatorProps } from './ApproachCalculator';
 import type { ViewMode } from '@/lib/scales';
+import type { PhysicalData } from '@/lib/types';
 
 // --- Types ---
 
@@ -18,12 +26,22 @@ interface SelectedPlanet {
 interface HUDProps {
   selectedPlanet: SelectedPlanet | null;
   earthPosition?: { x: number; y: number; z: number };
-  currentDate: string;
-  onDateChange: (date: string) => void;
+  currentTime: string; // UTC timestamp
+  isLive?: boolean;
+  onDateChange: (time: string) => void;
+  onNow?: () => void;
   onRefresh?: () => void;
   isFallback?: boolean;
   viewMode?: ViewMode;
   onToggleViewMode?: () => void;
+  playback?: PlaybackControlsProps;
+  frame?: FrameSelectorProps;
+  physicalData?: PhysicalData | null;
+  sky?: TonightSkyProps;
+  riseSet?: RiseSetTableProps; // Rise/transit/set at the observer site - the selected body's row also goes to PlanetInfo
+  events?: EventFinderProps;
+  eclipses?: EclipseTimelineProps;
+  approach?: ApproachCalculatorProps;
 }
 
 // --- Hook for responsive detection ---
@@ -67,14 +85,25 @@ function getPlanetAccentClass(bodyId: string): string {
 export function HUD({
   selectedPlanet,
   earthPosition,
-  currentDate,
+  currentTime,
+  isLive = false,
   onDateChange,
+  onNow,
   onRefresh,
   isFallback = false,
   viewMode = 'didactic',
   onToggleViewMode,
+  playback,
+  frame,
+  physicalData,
+  sky,
+  riseSet,
+  events,
+  eclipses,
+  approach,
 }: HUDProps) {
   const isMobile = useIsMobile();
+  const selectedRiseSet = riseSet?.rows.find(row => row.bodyId === selectedPlanet?.bodyId) ?? null;
   // Start expanded if planet is already selected, otherwise collapsed
   const [isExpanded, setIsExpanded] = useState(() => !!selectedPlanet);
 
@@ -122,18 +151,69 @@ export function HUD({
           <div className="space-y-6 pt-2">
             {/* Date Selector */}
             <DateSelector
-              currentDate={currentDate}
+              currentTime={currentTime}
+              isLive={isLive}
               onDateChange={onDateChange}
+              onNow={onNow}
               onRefresh={onRefresh}
             />
 
+            {/* Time Playback */}
+            {playback && <PlaybackControls {...playback} />}
+
+            {/* Reference Frame */}
+            {frame && <FrameSelector {...frame} />}
+
             <div className="h-px bg-white/10" />
 
             {/* Planet Info */}
             <PlanetInfo
               planet={selectedPlanet}
               earthPosition={earthPosition}
+              currentTime={currentTime}
+              physicalData={physicalData}
+              riseSet={selectedRiseSet}
             />
+
+            {/* Tonight's Sky */}
+            {sky && (
+              <>
+                <div className="h-px bg-white/10" />
+                <TonightSky {...sky} />
+              </>
+            )}
+
+            {/* Rise & Set */}
+            {riseSet && (
+              <>
+                <div className="h-px bg-white/10" />
+                <RiseSetTable {...riseSet} />
+              </>
+            )}
+
+            {/* Event Finder */}
+            {events && (
+              <>
+                <div className="h-px bg-white/10" />
+                <EventFinder {...events} />
+              </>
+            )}
+
+            {/* Eclipses & Transits */}
+            {eclipses && (
+              <>
+                <div className="h-px bg-white/10" />
+                <EclipseTimeline {...eclipses} />
+              </>
+            )}
+
+            {/* Closest Approach */}
+            {approach && (
+              <>
+                <div className="h-px bg-white/10" />
+                <ApproachCalculator {...approach} />
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -175,18 +255,69 @@ export function HUD({
         <div className="space-y-8">
           {/* Date Selector */}
           <DateSelector
-            currentDate={currentDate}
+            currentTime={currentTime}
+            isLive={isLive}
             onDateChange={onDateChange}
+            onNow={onNow}
             onRefresh={onRefresh}
           />
 
+          {/* Time Playback */}
+          {playback && <PlaybackControls {...playback} />}
+
+          {/* Reference Frame */}
+          {frame && <FrameSelector {...frame} />}
+
           <div className="h-px bg-white/5" />
 
           {/* Planet Info */}
           <PlanetInfo
             planet={selectedPlanet}
             earthPosition={earthPosition}
+            currentTime={currentTime}
+            physicalData={physicalData}
+            riseSet={selectedRiseSet}
           />
+
+          {/* Tonight's Sky */}
+          {sky && (
+            <>
+              <div className="h-px bg-white/5" />
+              <TonightSky {...sky} />
+            </>
+          )}
+
+          {/* Rise & Set */}
+          {riseSet && (
+            <>
+              <div className="h-px bg-white/5" />
+              <RiseSetTable {...riseSet} />
+            </>
+          )}
+
+          {/* Event Finder */}
+          {events && (
+            <>
+              <div className="h-px bg-white/5" />
+              <EventFinder {...events} />
+            </>
+          )}
+
+          {/* Eclipses & Transits */}
+          {eclipses && (
+            <>
+              <div className="h-px bg-white/5" />
+              <EclipseTimeline {...eclipses} />
+            </>
+          )}
+
+          {/* Closest Approach */}
+          {approach && (
+            <>
+              <div className="h-px bg-white/5" />
+              <ApproachCalculator {...approach} />
+            </>
+          )}
         </div>
       </div>
 
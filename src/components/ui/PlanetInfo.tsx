@@ -2,6 +2,10 @@
 
 import { PLANET_CONFIG } from '@/lib/textureConfig';
 import { REAL_RADII_KM } from '@/lib/scales';
+import { getMissionPhase, getSpacecraft, type SpacecraftEntry } from '@/lib/spacecraft';
+import { toTimePart } from '@/lib/time';
+import type { RiseTransitSet } from '@/lib/riseSet';
+import type { PhysicalData } from '@/lib/types';
 
 // --- Types ---
 
@@ -16,6 +20,9 @@ interface PlanetData {
 interface PlanetInfoProps {
   planet: PlanetData | null;
   earthPosition?: { x: number; y: number; z: number };
+  currentTime?: string; // UTC timestamp - used for spacecraft mission phase
+  physicalData?: PhysicalData | null; // Horizons object data - preferred over the hand-written config
+  riseSet?: RiseTransitSet | null; // Local times at the observer site, for bodies seen from Earth
 }
 
 // --- Helper Functions ---
@@ -51,6 +58,27 @@ function formatDayLength(hours: number): string {
   return m > 0 ? `${h}h ${m}m` : `${h}h`;
 }
 
+/**
+ * Sidereal rotation period, with the direction for retrograde rotators (negative periods)
+ */
+function formatRotation(hours: number): { value: string; unit: string } {
+  return { value: formatDayLength(Math.abs(hours)), unit: hours < 0 ? 'retrograde' : '' };
+}
+
+function formatOptional(value: number | undefined, decimals: number): string {
+  return value !== undefined ? formatNumber(value, decimals) : '—';
+}
+
+/**
+ * UTC clock time of a rise/transit/set, or why there is none that day
+ */
+function formatEventTime(time: number | null, riseSet: RiseTransitSet): string {
+  if (time !== null) return toTimePart(time);
+  if (riseSet.alwaysUp) return 'Up all day';
+  if (riseSet.neverUp) return 'Not up';
+  return '—';
+}
+
 function calculateVelocityMagnitude(velocity: { x: number; y: number; z: number }): number {
   return Math.sqrt(velocity.x ** 2 + velocity.y ** 2 + velocity.z ** 2);
 }
@@ -61,16 +89,35 @@ const PLANET_ICONS: Record<string, string> = {
   STAR: '☀️',
   PLANET: '🪐',
   DWARF_PLANET: '🌑',
+  ASTEROID: '🪨',
+  COMET: '☄️',
+  MOON: '🌙',
+  SPACECRAFT: '🛰️',
 };
 
+const BODY_CLASS_LABELS: Record<string, string> = {
+  STAR: 'Star',
+  GAS_GIANT: 'Gas Giant',
+  ROCKY_PLANET: 'Rocky',
+  DWARF_PLANET: 'Dwarf Planet',
+  MOON: 'Moon',
+  ASTEROID: 'Asteroid',
+  COMET: 'Comet',
+  SPACECRAFT: 'Spacecraft',
+};
+
+// 1 AU in km
+const AU_TO_KM = 149_597_870.7;
+const MS_PER_DAY = 86_400_000;
+
 // --- Component ---
 
-export function PlanetInfo({ planet, earthPosition }: PlanetInfoProps) {
+export function PlanetInfo({ planet, earthPosition, currentTime, physicalData, riseSet }: PlanetInfoProps) {
   if (!planet) {
     return (
       <div className="text-center py-8 px-4 text-white/50 animate-in fade-in duration-700">
         <div className="text-5xl mb-4 opacity-50">🌍</div>
-        <p>Select a planet to view details</p>
+        <p>Select a planet or moon to view details</p>
       </div>
     );
   }
@@ -78,8 +125,9 @@ export function PlanetInfo({ planet, earthPosition }: PlanetInfoProps) {
   const config = PLANET_CONFIG[planet.bodyId];
   const planetType = config?.type || 'PLANET';
   const orbitalPeriod = config?.orbitalPeriod || 0;
-  const realRadiusKm = REAL_RADII_KM[planet.bodyId] || 0;
+  const realRadiusKm = physicalData?.meanRadiusKm ?? REAL_RADII_KM[planet.bodyId] ?? 0;
   const diameterKm = realRadiusKm * 2;
+  const parentConfig = config?.parentId ? PLANET_CONFIG[config.parentId] : undefined;
 
   // Calculate orbital velocity from NASA API velocity vector
   const orbitalVelocity = planet.velocity
@@ -87,9 +135,12 @@ export function PlanetInfo({ planet, earthPosition }: PlanetInfoProps) {
     : null;
 
   // Fallback: calculate using v = 2πr/T if no API velocity
+  // Satellites orbit their parent, so use the semi-major axis instead of the distance from the Sun
   const fallbackVelocity = (() => {
     if (orbitalVelocity !== null) return null;
-    const orbitalRadius = planet.distanceFromSun * 1e6;
+    const orbitalRadius = parentConfig && config
+      ? config.meanDistanceAU * AU_TO_KM
+      : planet.distanceFromSun * 1e6;
     const orbitalPeriodSeconds = orbitalPeriod * 24 * 60 * 60;
     return orbitalPeriodSeconds > 0
       ? (2 * Math.PI * orbitalRadius) / orbitalPeriodSeconds
@@ -106,31 +157,46 @@ export function PlanetInfo({ planet, earthPosition }: PlanetInfoProps) {
   const planetIcon = PLANET_ICONS[planetType] || '🪐';
   const fallbackColor = config?.fallbackColor || '#666';
 
+  // Spacecraft have no physical or orbital properties - show the mission instead
+  const spacecraft = getSpacecraft(planet.bodyId);
+  if (spacecraft) {
+    return (
+      <div className="flex flex-col gap-4 animate-in fade-in slide-in-from-bottom-2 duration-500">
+        <BodyHeader
+          name={planet.englishName}
+          subtitle={BODY_CLASS_LABELS.SPACECRAFT}
+          icon={planetIcon}
+          color={fallbackColor}
+        />
+        <SpacecraftDetails
+          spacecraft={spacecraft}
+          currentTime={currentTime}
+          distanceFromSunMKm={planet.distanceFromSun}
+          distanceFromEarth={distanceFromEarth}
+          speed={orbitalVelocity}
+        />
+      </div>
+    );
+  }
+
+  // Horizons values win over the hand-written config, which covers what Horizons doesn't publish
+  const surfaceGravity = physicalData?.surfaceGravity ?? config?.surfaceGravity;
+  const rotation = physicalData?.siderealRotationHours !== undefined
+    ? formatRotation(physicalData.siderealRotationHours)
+    : null;
+
   // Gravity relative to Earth
-  const gravityG = config ? (config.surfaceGravity / 9.81).toFixed(2) : null;
+  const gravityG = surfaceGravity !== undefined ? (surfaceGravity / 9.81).toFixed(2) : null;
 
   return (
     <div className="flex flex-col gap-4 animate-in fade-in slide-in-from-bottom-2 duration-500">
       {/* Header */}
-      <div className="flex items-center gap-3 mb-2">
-        <div
-          className="w-12 h-12 rounded-full flex items-center justify-center text-2xl"
-          style={{
-            background: `radial-gradient(circle at 30% 30%, ${fallbackColor}aa, ${fallbackColor})`,
-            boxShadow: `0 0 20px ${fallbackColor}40`,
-          }}
-        >
-          {planetIcon}
-        </div>
-        <div className="flex flex-col">
-          <h2 className="text-2xl font-semibold text-white m-0">
-            {planet.englishName}
-          </h2>
-          <span className="text-sm text-white/50 uppercase tracking-widest">
-            {planetType.replace('_', ' ')}
-          </span>
-        </div>
-      </div>
+      <BodyHeader
+        name={planet.englishName}
+        subtitle={`${planetType.replace('_', ' ')}${parentConfig ? ` of ${parentConfig.englishName}` : ''}`}
+        icon={planetIcon}
+        color={fallbackColor}
+      />
 
       {/* Stats Grid - Original 2x2 layout */}
       <div className="grid grid-cols-2 gap-3">
@@ -158,13 +224,13 @@ export function PlanetInfo({ planet, earthPosition }: PlanetInfoProps) {
         {/* Orbital Period */}
         <StatCard
           label="Orbital Period"
-          value={orbitalPeriod > 0 ? formatNumber(orbitalPeriod, 0) : '—'}
+          value={orbitalPeriod > 0 ? formatNumber(orbitalPeriod, orbitalPeriod < 10 ? 2 : 0) : '—'}
           unit="days"
         />
       </div>
 
       {/* Physical Properties Section */}
-      {config && (
+      {(config || physicalData) && (
         <>
           <h3 className="text-xs text-white/40 uppercase tracking-widest font-semibold mt-2">
             🌍 Physical Properties
@@ -173,30 +239,95 @@ export function PlanetInfo({ planet, earthPosition }: PlanetInfoProps) {
             {/* Surface Gravity */}
             <StatCard
               label="Surface Gravity"
-              value={`${config.surfaceGravity.toFixed(2)}`}
-              unit={`m/s² (${gravityG}g)`}
+              value={surfaceGravity !== undefined ? surfaceGravity.toFixed(2) : '—'}
+              unit={gravityG !== null ? `m/s² (${gravityG}g)` : 'm/s²'}
             />
 
-            {/* Day Length */}
-            <StatCard
-              label="Day Length"
-              value={formatDayLength(config.dayLength)}
-              unit=""
-            />
+            {/* Rotation - sidereal from Horizons, else the hand-written day length */}
+            {rotation ? (
+              <StatCard
+                label="Sidereal Rotation"
+                value={rotation.value}
+                unit={rotation.unit}
+              />
+            ) : (
+              <StatCard
+                label="Day Length"
+                value={config ? formatDayLength(config.dayLength) : '—'}
+                unit=""
+              />
+            )}
 
             {/* Mean Temperature */}
             <StatCard
               label="Temperature"
-              value={`${config.meanTemperature > 0 ? '+' : ''}${config.meanTemperature}`}
+              value={config ? `${config.meanTemperature > 0 ? '+' : ''}${config.meanTemperature}` : '—'}
               unit="°C"
             />
 
             {/* Diameter */}
             <StatCard
               label="Diameter"
-              value={formatNumber(diameterKm, 0)}
+              value={diameterKm > 0 ? formatNumber(diameterKm, 0) : '—'}
               unit="km"
             />
+
+            {/* Horizons-only properties */}
+            {physicalData && (
+              <>
+                <StatCard
+                  label="Density"
+                  value={formatOptional(physicalData.density, 2)}
+                  unit="g/cm³"
+                />
+                <StatCard
+                  label="Axial Tilt"
+                  value={physicalData.obliquityDeg !== undefined ? `${physicalData.obliquityDeg.toFixed(2)}°` : '—'}
+                  unit=""
+                />
+                <StatCard
+                  label="Geometric Albedo"
+                  value={formatOptional(physicalData.geometricAlbedo, 3)}
+                  unit=""
+                />
+                <StatCard
+                  label="GM"
+                  value={formatOptional(physicalData.gm, 1)}
+                  unit="km³/s²"
+                />
+              </>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Rise & Set Section */}
+      {riseSet && (
+        <>
+          <h3 className="text-xs text-white/40 uppercase tracking-widest font-semibold mt-2">
+            🌅 Rise &amp; Set
+          </h3>
+          <div className="grid grid-cols-2 gap-3">
+            <StatCard
+              label="Rise"
+              value={formatEventTime(riseSet.rise, riseSet)}
+              unit={riseSet.rise !== null ? 'UTC' : ''}
+            />
+            <StatCard
+              label="Transit"
+              value={formatEventTime(riseSet.transit, riseSet)}
+              unit={riseSet.transit !== null ? 'UTC' : ''}
+            />
+            <StatCard
+              label="Set"
+              value={formatEventTime(riseSet.set, riseSet)}
+              unit={riseSet.set !== null ? 'UTC' : ''}
+            />
+            <StatCard
+              label="Max Altitude"
+              value={`${riseSet.maxAltitude.toFixed(1)}°`}
+              unit=""
+            />
           </div>
         </>
       )}
@@ -208,12 +339,20 @@ export function PlanetInfo({ planet, earthPosition }: PlanetInfoProps) {
             🛸 Orbital Data
           </h3>
           <div className="grid grid-cols-2 gap-3">
-            {/* Semi-Major Axis */}
-            <StatCard
-              label="Semi-Major Axis"
-              value={formatNumber(config.meanDistanceAU, 3)}
-              unit="AU"
-            />
+            {/* Semi-Major Axis - satellites in km around their parent */}
+            {parentConfig ? (
+              <StatCard
+                label="Semi-Major Axis"
+                value={formatNumber(config.meanDistanceAU * AU_TO_KM, 0)}
+                unit="km"
+              />
+            ) : (
+              <StatCard
+                label="Semi-Major Axis"
+                value={formatNumber(config.meanDistanceAU, 3)}
+                unit="AU"
+              />
+            )}
 
             {/* Eccentricity */}
             <StatCard
@@ -232,7 +371,7 @@ export function PlanetInfo({ planet, earthPosition }: PlanetInfoProps) {
             {/* Body Type */}
             <StatCard
               label="Body Type"
-              value={config.bodyClass === 'GAS_GIANT' ? 'Gas Giant' : 'Rocky'}
+              value={BODY_CLASS_LABELS[config.bodyClass] || 'Rocky'}
               unit=""
             />
           </div>
@@ -242,13 +381,126 @@ export function PlanetInfo({ planet, earthPosition }: PlanetInfoProps) {
       {/* Footer Info */}
       <div className="p-3 bg-white/5 border border-white/5 rounded-lg">
         <p className="text-[10px] text-white/40 italic">
-          High-precision ephemeris data provided by NASA JPL Horizons.
+          High-precision ephemeris{physicalData ? ' and physical' : ''} data provided by NASA JPL Horizons.
         </p>
       </div>
     </div>
   );
 }
 
+function BodyHeader({
+  name,
+  subtitle,
+  icon,
+  color,
+}: {
+  name: string;
+  subtitle: string;
+  icon: string;
+  color: string;
+}) {
+  return (
+    <div className="flex items-center gap-3 mb-2">
+      <div
+        className="w-12 h-12 rounded-full flex items-center justify-center text-2xl"
+        style={{
+          background: `radial-gradient(circle at 30% 30%, ${color}aa, ${color})`,
+          boxShadow: `0 0 20px ${color}40`,
+        }}
+      >
+        {icon}
+      </div>
+      <div className="flex flex-col">
+        <h2 className="text-2xl font-semibold text-white m-0">
+          {name}
+        </h2>
+        <span className="text-sm text-white/50 uppercase tracking-widest">
+          {subtitle}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function SpacecraftDetails({
+  spacecraft,
+  currentTime,
+  distanceFromSunMKm,
+  distanceFromEarth,
+  speed,
+}: {
+  spacecraft: SpacecraftEntry;
+  currentTime?: string;
+  distanceFromSunMKm: number;
+  distanceFromEarth: number | null;
+  speed: number | null;
+}) {
+  const phase = currentTime ? getMissionPhase(spacecraft, currentTime) : undefined;
+  const missionDays = currentTime
+    ? Math.floor((new Date(currentTime).getTime() - new Date(spacecraft.launchDate).getTime()) / MS_PER_DAY)
+    : null;
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        {/* Distance from Sun */}
+        <StatCard
+          label="Distance from Sun"
+          value={formatNumber((distanceFromSunMKm * 1e6) / AU_TO_KM, 2)}
+          unit="AU"
+        />
+
+        {/* Distance from Earth */}
+        <StatCard
+          label="Distance from Earth"
+          value={distanceFromEarth !== null ? formatNumber(distanceFromEarth) : '—'}
+          unit="M km"
+        />
+
+        {/* Heliocentric Speed */}
+        <StatCard
+          label="Heliocentric Speed"
+          value={speed !== null ? formatNumber(speed) : '—'}
+          unit="km/s"
+        />
+
+        {/* Mission Elapsed Time */}
+        <StatCard
+          label="Mission Day"
+          value={missionDays !== null && missionDays >= 0 ? formatNumber(missionDays, 0) : '—'}
+          unit=""
+        />
+      </div>
+
+      <h3 className="text-xs text-white/40 uppercase tracking-widest font-semibold mt-2">
+        🚀 Mission
+      </h3>
+      <div className="grid grid-cols-2 gap-3">
+        {/* Launch Date */}
+        <StatCard
+          label="Launch Date"
+          value={spacecraft.launchDate}
+          unit=""
+        />
+
+        {/* Mission Phase */}
+        <StatCard
+          label="Mission Phase"
+          value={phase?.label ?? '—'}
+          unit=""
+        />
+      </div>
+
+      {/* Footer Info */}
+      <div className="p-3 bg-white/5 border border-white/5 rounded-lg">
+        <p className="text-[10px] text-white/40 italic">
+          Reconstructed trajectory provided by NASA JPL Horizons.
+        </p>
+      </div>
+    </>
+  );
+}
+
 function StatCard({ label, value, unit }: { label: string; value: string; unit: string }) {
   return (
     <div className="bg-white/5 rounded-lg p-3 border border-white/10 group transition-colors hover:bg-white/10 flex flex-col justify-between min-w-0">
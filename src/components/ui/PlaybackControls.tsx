@@ -0,0 +1,85 @@
+'use client';
+
+import { PLAYBACK_RATES, type PlaybackDirection, type PlaybackRate } from '@/hooks/useTimePlayback';
+
+// --- Types ---
+
+export interface PlaybackControlsProps {
+  isPlaying: boolean;
+  direction: PlaybackDirection;
+  rate: PlaybackRate;
+  isBuffering?: boolean;
+  onTogglePlay: () => void;
+  onToggleDirection: () => void;
+  onRateChange: (rate: PlaybackRate) => void;
+}
+
+// --- Constants ---
+
+const RATE_OPTIONS = Object.keys(PLAYBACK_RATES) as PlaybackRate[];
+
+// --- Component ---
+
+export function PlaybackControls({
+  isPlaying,
+  direction,
+  rate,
+  isBuffering = false,
+  onTogglePlay,
+  onToggleDirection,
+  onRateChange,
+}: PlaybackControlsProps) {
+  const isReverse = direction === -1;
+
+  return (
+    <div className="flex flex-col gap-3">{/* containerStyle */}
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-bold text-white/40 uppercase tracking-[0.2em]">{/* labelStyle */}
+          Time Playback
+        </label>
+        {isPlaying && isBuffering && (
+          <span className="text-[10px] font-semibold text-white/30 uppercase tracking-wider animate-pulse">
+            Buffering
+          </span>
+        )}
+      </div>
+
+      {/* Reverse + play/pause */}
+      <div className="flex gap-2">
+        <button
+          className={`px-3.5 py-2 border rounded-xl text-sm transition-all duration-300 active:scale-95 ${isReverse
+            ? 'bg-purple-500/30 border-purple-500/50 text-purple-200 shadow-lg shadow-purple-500/20' /* toggleActiveStyle */
+            : 'bg-white/5 border-white/10 text-white/40 hover:bg-white/10 hover:border-white/20 hover:text-white/60' /* toggleStyle */
+            }`}
+          onClick={onToggleDirection}
+          title={isReverse ? 'Play forward' : 'Play in reverse'}
+        >
+          {isReverse ? '◀' : '▶'}
+        </button>
+        <button
+          className="flex-1 px-4 py-2 bg-blue-500/20 border border-blue-500/30 rounded-xl text-xs font-bold uppercase tracking-wider text-blue-400 hover:bg-blue-500/30 active:scale-95 transition-all duration-300 shadow-lg shadow-blue-500/10"
+          /* buttonStyle */
+          onClick={onTogglePlay}
+        >
+          {isPlaying ? '⏸ Pause' : '⏵ Play'}
+        </button>
+      </div>
+
+      {/* Rate selection */}
+      <div className="flex gap-2 flex-wrap">{/* presetsContainerStyle */}
+        {RATE_OPTIONS.map((option) => (
+          <button
+            key={option}
+            className={`flex-1 min-w-[70px] px-3 py-1.5 transition-all duration-300 rounded-lg text-[10px] font-bold uppercase tracking-wider backdrop-blur-md border ${rate === option
+              ? 'bg-purple-500/30 border-purple-500/50 text-purple-200 shadow-lg shadow-purple-500/20' /* presetButtonActiveStyle */
+              : 'bg-white/5 border-white/10 text-white/40 hover:bg-white/10 hover:border-white/20 hover:text-white/60' /* presetButtonStyle */
+              }`}
+            onClick={() => onRateChange(option)}
+          >
+            {PLAYBACK_RATES[option].label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { getPlanetConfig } from '@/lib/textureConfig';
+import { toDatePart, toTimePart } from '@/lib/time';
+import type { RiseTransitSet } from '@/lib/riseSet';
+
+// --- Types ---
+
+export interface RiseSetTableProps {
+  rows: RiseTransitSet[];
+  dayStart: number; // Local midnight the times are for (epoch ms)
+  selectedBodyId?: string;
+}
+
+// --- Helper Functions ---
+
+function formatTime(time: number | null): string {
+  return time !== null ? toTimePart(time) : '—';
+}
+
+// --- Component ---
+
+export function RiseSetTable({ rows, dayStart, selectedBodyId }: RiseSetTableProps) {
+  if (rows.length === 0) return null;
+
+  // The local day runs past UTC midnight somewhere - date it by its middle
+  const localDate = toDatePart(dayStart + 43_200_000);
+
+  return (
+    <div className="flex flex-col gap-3">{/* containerStyle */}
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-bold text-white/40 uppercase tracking-[0.2em]">{/* labelStyle */}
+          Rise &amp; Set
+        </label>
+        <span className="text-[10px] font-mono text-white/30" title="Local day at the observing site, times in UTC">
+          {localDate} · UTC
+        </span>
+      </div>
+
+      <table className="w-full text-xs font-mono">
+        <thead>
+          <tr className="text-[10px] text-white/40 uppercase tracking-wider">
+            <th className="text-left font-semibold pb-1">Body</th>
+            <th className="text-right font-semibold pb-1">Rise</th>
+            <th className="text-right font-semibold pb-1">Transit</th>
+            <th className="text-right font-semibold pb-1">Set</th>
+            <th className="text-right font-semibold pb-1" title="Maximum altitude">Max</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr
+              key={row.bodyId}
+              className={`border-t border-white/5 ${row.bodyId === selectedBodyId ? 'text-purple-200' : 'text-white/70'} ${row.neverUp ? 'opacity-50' : ''}`}
+            >
+              <td className="py-1.5 font-sans font-semibold">
+                {getPlanetConfig(row.bodyId)?.englishName ?? row.bodyId}
+              </td>
+              {row.alwaysUp || row.neverUp ? (
+                <td colSpan={3} className="py-1.5 text-center text-white/40 font-sans italic">
+                  {row.alwaysUp ? 'Up all day' : 'Not up'}
+                </td>
+              ) : (
+                <>
+                  <td className="py-1.5 text-right">{formatTime(row.rise)}</td>
+                  <td className="py-1.5 text-right">{formatTime(row.transit)}</td>
+                  <td className="py-1.5 text-right">{formatTime(row.set)}</td>
+                </>
+              )}
+              <td className="py-1.5 text-right">{row.maxAltitude.toFixed(0)}°</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { getCompassPoint, getSkyVisibility, type SkyVisibility } from '@/lib/observer';
+import { toTimePart } from '@/lib/time';
+import type { ObserverData, ObserverSite } from '@/lib/types';
+
+// --- Types ---
+
+export interface TonightSkyProps {
+  observations: ObserverData[];
+  time: string; // UTC timestamp the observations are for
+  site: ObserverSite;
+  onSiteChange: (site: ObserverSite) => void;
+  isLoading?: boolean;
+  isFallback?: boolean; // Computed offline - no magnitudes or constellations
+}
+
+// --- Constants ---
+
+const SUN_ID = '10';
+
+const VISIBILITY_LABELS: Record<SkyVisibility, { label: string; className: string }> = {
+  VISIBLE: { label: 'Visible', className: 'bg-green-500/20 border-green-500/30 text-green-300' },
+  NEEDS_TELESCOPE: { label: 'Telescope', className: 'bg-blue-500/20 border-blue-500/30 text-blue-300' },
+  NEAR_SUN: { label: 'Near Sun', className: 'bg-orange-500/20 border-orange-500/30 text-orange-300' },
+  DAYLIGHT: { label: 'Daylight', className: 'bg-yellow-500/10 border-yellow-500/20 text-yellow-300/80' },
+  BELOW_HORIZON: { label: 'Below horizon', className: 'bg-white/5 border-white/10 text-white/40' },
+};
+
+// Best targets first: what can be seen, then what is up, brightest-placed on top
+const VISIBILITY_ORDER: SkyVisibility[] = ['VISIBLE', 'NEEDS_TELESCOPE', 'DAYLIGHT', 'NEAR_SUN', 'BELOW_HORIZON'];
+
+// --- Helper Functions ---
+
+function formatRightAscension(degrees: number): string {
+  const totalMinutes = Math.round((degrees / 15) * 60) % (24 * 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours}h${String(minutes).padStart(2, '0')}m`;
+}
+
+function formatSigned(degrees: number, decimals = 1): string {
+  return `${degrees >= 0 ? '+' : '−'}${Math.abs(degrees).toFixed(decimals)}°`;
+}
+
+function formatCoordinate(degrees: number, positive: string, negative: string): string {
+  return `${Math.abs(degrees).toFixed(2)}°${degrees >= 0 ? positive : negative}`;
+}
+
+function getSkyState(sunElevation: number | undefined): string {
+  if (sunElevation === undefined) return '—';
+  if (sunElevation > 0) return '☀️ Daytime';
+  if (sunElevation > -18) return '🌆 Twilight';
+  return '🌙 Dark sky';
+}
+
+/**
+ * Where the body is relative to the Sun, e.g. "45° from Sun, evening"
+ */
+function describeElongation(observation: ObserverData): string | null {
+  if (observation.elongation === undefined) return null;
+  const side = observation.elongationSide === 'T' ? ', evening' : observation.elongationSide === 'L' ? ', morning' : '';
+  return `${observation.elongation.toFixed(0)}° from Sun${side}`;
+}
+
+// --- Component ---
+
+export function TonightSky({
+  observations,
+  time,
+  site,
+  onSiteChange,
+  isLoading = false,
+  isFallback = false,
+}: TonightSkyProps) {
+  const [latitudeValue, setLatitudeValue] = useState(String(site.latitude));
+  const [longitudeValue, setLongitudeValue] = useState(String(site.longitude));
+  const [syncedSite, setSyncedSite] = useState(site);
+  const [isLocating, setIsLocating] = useState(false);
+
+  // Follow site changes made outside the inputs (geolocation)
+  if (site !== syncedSite) {
+    setSyncedSite(site);
+    setLatitudeValue(String(site.latitude));
+    setLongitudeValue(String(site.longitude));
+  }
+
+  const handleInputBlur = () => {
+    const latitude = Number(latitudeValue);
+    const longitude = Number(longitudeValue);
+    const isValid = latitudeValue.trim() !== '' && longitudeValue.trim() !== ''
+      && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+
+    if (!isValid) {
+      setLatitudeValue(String(site.latitude));
+      setLongitudeValue(String(site.longitude));
+      return;
+    }
+
+    if (latitude !== site.latitude || longitude !== site.longitude) {
+      onSiteChange({ ...site, latitude, longitude });
+    }
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      handleInputBlur();
+    }
+  };
+
+  const handleLocate = () => {
+    if (!navigator.geolocation) {
+      toast.error('Localização indisponível', { description: 'O navegador não oferece geolocalização.' });
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        onSiteChange({
+          latitude: Number(position.coords.latitude.toFixed(4)),
+          longitude: Number(position.coords.longitude.toFixed(4)),
+          altitudeKm: position.coords.altitude !== null ? position.coords.altitude / 1000 : site.altitudeKm,
+        });
+      },
+      (error) => {
+        setIsLocating(false);
+        toast.error('Não foi possível obter sua localização', { description: error.message });
+      }
+    );
+  };
+
+  const sunElevation = observations.find(observation => observation.bodyId === SUN_ID)?.elevation;
+
+  const bodies = observations
+    .filter(observation => observation.bodyId !== SUN_ID)
+    .map(observation => ({
+      observation,
+      visibility: getSkyVisibility(observation, sunElevation ?? 90),
+    }))
+    .sort((a, b) =>
+      VISIBILITY_ORDER.indexOf(a.visibility) - VISIBILITY_ORDER.indexOf(b.visibility)
+      || b.observation.elevation - a.observation.elevation
+    );
+
+  const inputClass = 'flex-1 min-w-0 px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-sm font-mono transition-all duration-300 outline-none focus:ring-2 focus:ring-white/10 hover:border-white/20 focus:border-white/30';
+
+  return (
+    <div className="flex flex-col gap-3">{/* containerStyle */}
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-bold text-white/40 uppercase tracking-[0.2em]">{/* labelStyle */}
+          Tonight&apos;s Sky
+        </label>
+        <span className="text-[10px] font-mono text-white/30" title="Observations are for the simulation time">
+          {isLoading ? 'Loading…' : `${toTimePart(time)} UTC · ${getSkyState(sunElevation)}`}
+        </span>
+      </div>
+
+      {/* Observing site */}
+      <div className="flex gap-2">
+        <input
+          type="number"
+          value={latitudeValue}
+          onChange={(e) => setLatitudeValue(e.target.value)}
+          onBlur={handleInputBlur}
+          onKeyDown={handleKeyPress}
+          min={-90}
+          max={90}
+          step="any"
+          title="Latitude (degrees, north positive)"
+          className={inputClass}
+        />
+        <input
+          type="number"
+          value={longitudeValue}
+          onChange={(e) => setLongitudeValue(e.target.value)}
+          onBlur={handleInputBlur}
+          onKeyDown={handleKeyPress}
+          min={-180}
+          max={180}
+          step="any"
+          title="Longitude (degrees, east positive)"
+          className={inputClass}
+        />
+        <button
+          className="px-3.5 py-2 bg-blue-500/20 border border-blue-500/30 rounded-xl text-blue-400 hover:bg-blue-500/30 hover:scale-105 active:scale-95 transition-all duration-300 shadow-lg shadow-blue-500/10 disabled:opacity-50"
+          onClick={handleLocate}
+          disabled={isLocating}
+          title="Use my location"
+        >
+          📍
+        </button>
+      </div>
+      <span className="text-[10px] text-white/30">
+        From {formatCoordinate(site.latitude, 'N', 'S')} {formatCoordinate(site.longitude, 'E', 'W')}
+        {isFallback && ' · offline estimate'}
+      </span>
+
+      {/* Bodies, best targets first */}
+      <div className="flex flex-col gap-2">
+        {bodies.map(({ observation, visibility }) => {
+          const badge = VISIBILITY_LABELS[visibility];
+          const isUp = observation.elevation >= 0;
+          const details = [
+            observation.constellation,
+            observation.magnitude !== undefined && `mag ${observation.magnitude.toFixed(1)}`,
+            observation.illumination !== undefined && `${observation.illumination.toFixed(0)}% lit`,
+            describeElongation(observation),
+          ].filter(Boolean).join(' · ');
+
+          return (
+            <div
+              key={observation.bodyId}
+              className={`bg-white/5 rounded-lg p-3 border border-white/10 flex flex-col gap-1 ${isUp ? '' : 'opacity-60'}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-semibold text-white">{observation.name}</span>
+                <span className={`px-2 py-0.5 rounded-md border text-[10px] font-bold uppercase tracking-wider ${badge.className}`}>
+                  {badge.label}
+                </span>
+              </div>
+              <div className="text-xs font-mono text-white/70">
+                Alt {formatSigned(observation.elevation, 0)} · Az {observation.azimuth.toFixed(0)}° {getCompassPoint(observation.azimuth)}
+              </div>
+              <div className="text-[10px] font-mono text-white/40">
+                RA {formatRightAscension(observation.rightAscension)} · Dec {formatSigned(observation.declination)}
+              </div>
+              {details && <div className="text-[10px] text-white/40">{details}</div>}
+            </div>
+          );
+        })}
+        {!isLoading && bodies.length === 0 && (
+          <p className="text-xs text-white/40 italic">Sky data unavailable</p>
+        )}
+      </div>
+    </div>
+  );
+}
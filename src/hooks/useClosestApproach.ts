@@ -0,0 +1,49 @@
+/**
+ * useClosestApproach Hook
+ * Finds when two bodies come closest over a date range, with the distance curve,
+ * on Horizons range series or the local propagator
+ */
+
+'use client';
+
+import {
+  findClosestApproach,
+  getApproachBodyIds,
+  getApproachStepDays,
+  type ClosestApproach
+} from '@/lib/closestApproach';
+import { useSampledSearch, type SampledSearch, type SampledSearchOptions } from './useSampledSearch';
+
+// --- Types ---
+
+export interface ApproachSearch extends SampledSearch {
+  bodyIds: [string, string];
+}
+
+// --- Constants ---
+
+// Both bodies (and satellite parents), sampled as the chart is
+const APPROACH_SEARCH: SampledSearchOptions<ApproachSearch, ClosestApproach | null> = {
+  name: 'useClosestApproach',
+  getRange: ({ bodyIds, start, stop }) => ({
+    ids: getApproachBodyIds(...bodyIds),
+    step: `${getApproachStepDays(Date.parse(start), Date.parse(stop))}d`,
+  }),
+  find: (sampler, { bodyIds, start, stop }) =>
+    findClosestApproach(sampler, bodyIds[0], bodyIds[1], Date.parse(start), Date.parse(stop)),
+  describe: approach => approach
+    ? `${approach.bodyIds.join('–')}: ${Math.round(approach.distance)} km at ${approach.time}`
+    : 'No positions for both bodies',
+};
+
+// --- Hook ---
+
+export function useClosestApproach(search: ApproachSearch | null) {
+  const { result, source, isSearching } = useSampledSearch(search, APPROACH_SEARCH);
+
+  return {
+    approach: result,
+    source,
+    isSearching,
+  };
+}
@@ -6,7 +6,17 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import type { EphemerisData, EphemerisResponse, DataSource } from '@/lib/types';
+import type { EphemerisData, EphemerisResponse, DataSource, ValidationErrorResponse } from '@/lib/types';
+import { propagateBodies } from '@/lib/keplerPropagator';
+import { getAllBodyIds } from '@/lib/textureConfig';
+import { getNowTimestamp } from '@/lib/time';
+import {
+  BARYCENTER_CENTER_ID,
+  DEFAULT_CENTER_ID,
+  estimateBarycenterState,
+  getHeliocentricState,
+  reoriginEphemeris
+} from '@/lib/frames';
 
 // --- Types ---
 
@@ -33,19 +43,44 @@ export type EphemerisErrorType =
   | 'UNKNOWN_ERROR';
 
 interface UseEphemerisOptions {
-  date?: string; // YYYY-MM-DD format
+  time?: string; // UTC timestamp (YYYY-MM-DDTHH:mm:00Z) or date
+  center?: string; // Frame center body id, '0' for the barycenter (default: the Sun)
   autoFetch?: boolean;
   timeoutMs?: number;
 }
 
 // --- Constants ---
 
-const DEFAULT_TIMEOUT_MS = 15000;
+// Cold-cache loads fetch the planets and major moons from Horizons one by one (~1s each)
+const DEFAULT_TIMEOUT_MS = 20000;
+// The optional catalogs load once the scene is up - a longer wait doesn't hold anything back
+const CATALOG_TIMEOUT_MS = 30000;
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 1000;
 
+// --- Errors ---
+
+// The API rejected the query (400 VALIDATION_ERROR) - retrying the same request can't help
+class RequestValidationError extends Error {
+  constructor(readonly response: ValidationErrorResponse) {
+    super(response.error);
+    this.name = 'RequestValidationError';
+  }
+}
+
 // --- Helper Functions (outside hook for stability) ---
 
+async function readValidationError(response: Response): Promise<ValidationErrorResponse | null> {
+  if (response.status !== 400) return null;
+
+  try {
+    const body = await response.json();
+    return body?.code === 'VALIDATION_ERROR' ? body as ValidationErrorResponse : null;
+  } catch {
+    return null;
+  }
+}
+
 function validateData(data: EphemerisData[]): EphemerisData[] {
   return data.filter((item) => {
     if (!item.bodyId || !item.name || !item.position) {
@@ -63,12 +98,21 @@ function validateData(data: EphemerisData[]): EphemerisData[] {
   });
 }
 
-async function loadFallbackData(): Promise<EphemerisData[]> {
+async function loadFallbackData(time: string, center: string): Promise<EphemerisData[]> {
   try {
-    const fallback = await import('@/lib/fallback_planets.json');
-    const validated = validateData(fallback.data as EphemerisData[]);
-    console.log(`[useEphemeris] Loaded ${validated.length} bodies from fallback`);
-    return validated;
+    const propagated = propagateBodies(getAllBodyIds(), time);
+    const validated = validateData(propagated);
+    console.log(`[useEphemeris] Propagated ${validated.length} bodies for ${time} from orbital elements`);
+
+    // Propagated positions are heliocentric - move them onto the requested frame
+    const centerState = center === BARYCENTER_CENTER_ID
+      ? estimateBarycenterState(validated)
+      : getHeliocentricState(center, validated);
+    if (!centerState) {
+      console.warn(`[useEphemeris] No fallback position for frame center ${center}, staying heliocentric`);
+      return validated;
+    }
+    return reoriginEphemeris(validated, centerState);
   } catch (error) {
     console.error('[useEphemeris] Failed to load fallback data:', error);
     return [];
@@ -79,7 +123,8 @@ async function loadFallbackData(): Promise<EphemerisData[]> {
 
 export function useEphemeris(options: UseEphemerisOptions = {}) {
   const {
-    date = new Date().toISOString().split('T')[0],
+    time = getNowTimestamp(),
+    center = DEFAULT_CENTER_ID,
     autoFetch = true,
     timeoutMs = DEFAULT_TIMEOUT_MS,
   } = options;
@@ -118,9 +163,11 @@ export function useEphemeris(options: UseEphemerisOptions = {}) {
       }, timeoutMs);
 
       // Build URL with optional force parameter to bypass cache
+      const frameQuery = center !== DEFAULT_CENTER_ID ? `&center=${encodeURIComponent(center)}` : '';
+      const query = `date=${encodeURIComponent(time)}${frameQuery}`;
       const url = forceRefresh
-        ? `/api/ephemeris?date=${date}&force=true`
-        : `/api/ephemeris?date=${date}`;
+        ? `/api/ephemeris?${query}&force=true`
+        : `/api/ephemeris?${query}`;
 
       const response = await fetch(url, {
         signal: abortController.signal,
@@ -129,6 +176,9 @@ export function useEphemeris(options: UseEphemerisOptions = {}) {
       clearTimeout(timeoutId);
 
       if (!response.ok) {
+        const validationError = await readValidationError(response);
+        if (validationError) throw new RequestValidationError(validationError);
+
         throw new Error(`API error: ${response.status} ${response.statusText}`);
       }
 
@@ -160,6 +210,8 @@ export function useEphemeris(options: UseEphemerisOptions = {}) {
       console.log(
         `[useEphemeris] Loaded ${validatedData.length} bodies from ${result.meta.source}`
       );
+
+      fetchCatalog(abortController, query, forceRefresh);
     } catch (error) {
       // Handle abort (user-initiated or timeout)
       if (error instanceof Error && error.name === 'AbortError') {
@@ -187,8 +239,15 @@ export function useEphemeris(options: UseEphemerisOptions = {}) {
       // Determine error type
       let errorType: EphemerisErrorType = 'UNKNOWN_ERROR';
       let canRetry = true;
+      let technicalDetails = error instanceof Error ? error.stack : undefined;
 
-      if (error instanceof TypeError && error.message.includes('fetch')) {
+      if (error instanceof RequestValidationError) {
+        errorType = 'VALIDATION_ERROR';
+        canRetry = false;
+        technicalDetails = error.response.issues
+          .map(issue => `${issue.param}: ${issue.message}`)
+          .join('\n');
+      } else if (error instanceof TypeError && error.message.includes('fetch')) {
         errorType = 'NETWORK_ERROR';
       } else if (error instanceof Error && error.message.includes('API error')) {
         errorType = 'NASA_API_ERROR';
@@ -210,7 +269,7 @@ export function useEphemeris(options: UseEphemerisOptions = {}) {
 
       // Load fallback data
       console.log('[useEphemeris] Loading fallback data due to error');
-      const fallbackData = await loadFallbackData();
+      const fallbackData = await loadFallbackData(time, center);
 
       setState({
         data: fallbackData,
@@ -218,7 +277,7 @@ export function useEphemeris(options: UseEphemerisOptions = {}) {
         error: {
           type: errorType,
           message: error instanceof Error ? error.message : 'Unknown error occurred',
-          technicalDetails: error instanceof Error ? error.stack : undefined,
+          technicalDetails,
           canRetry,
         },
         source: 'FALLBACK_DATASET',
@@ -227,6 +286,41 @@ export function useEphemeris(options: UseEphemerisOptions = {}) {
     }
   };
 
+  // Dwarf planets, asteroids, comets and spacecraft, merged in after the main set
+  // Shares the main request's controller, so a new time or frame cancels it too
+  const fetchCatalog = async (abortController: AbortController, query: string, forceRefresh: boolean) => {
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      abortController.abort();
+    }, CATALOG_TIMEOUT_MS);
+
+    try {
+      const url = `/api/ephemeris?${query}&set=catalog${forceRefresh ? '&force=true' : ''}`;
+      const response = await fetch(url, { signal: abortController.signal });
+
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status} ${response.statusText}`);
+      }
+
+      const result: EphemerisResponse = await response.json();
+      const catalog = validateData(result.data ?? []);
+      const catalogIds = new Set(catalog.map(body => body.bodyId));
+
+      setState((prev) => ({
+        ...prev,
+        data: [...prev.data.filter(body => !catalogIds.has(body.bodyId)), ...catalog],
+      }));
+      console.log(`[useEphemeris] Loaded ${catalog.length} catalog bodies from ${result.meta.source}`);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError' && !timedOut) return;
+      // The scene keeps the main set - catalogs are optional
+      console.warn('[useEphemeris] Failed to load catalog bodies:', error);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  };
+
   // Manual retry function
   const retry = () => {
     retryCountRef.current = 0;
@@ -237,10 +331,10 @@ export function useEphemeris(options: UseEphemerisOptions = {}) {
   const refresh = () => {
     retryCountRef.current = 0;
     console.log('[useEphemeris] Force refreshing - bypassing cache');
-    fetchEphemeris(0, true); // force=true bypasses Redis cache
+    fetchEphemeris(0, true); // force=true bypasses the server cache
   };
 
-  // Auto-fetch on mount and date change
+  // Auto-fetch on mount and time or frame change
   useEffect(() => {
     if (autoFetch) {
       fetchEphemeris(0);
@@ -253,7 +347,7 @@ export function useEphemeris(options: UseEphemerisOptions = {}) {
       }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [autoFetch, date, timeoutMs]);
+  }, [autoFetch, time, center, timeoutMs]);
 
   return {
     ...state,
@@ -0,0 +1,102 @@
+/**
+ * useEphemerisRange Hook
+ * Keeps a window of ephemeris samples around the simulation clock during playback
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { EphemerisRangeResponse } from '@/lib/types';
+import { buildInterpolationTracks, type InterpolationTrack } from '@/lib/interpolation';
+import { MAX_TIME, MIN_TIME, toTimestamp } from '@/lib/time';
+import { DEFAULT_CENTER_ID } from '@/lib/frames';
+import type { PlaybackRate } from './useTimePlayback';
+
+// --- Types ---
+
+interface UseEphemerisRangeOptions {
+  time: number; // Epoch milliseconds
+  rate: PlaybackRate;
+  center?: string; // Frame center body id, '0' for the barycenter
+  enabled: boolean;
+}
+
+interface RangeWindowConfig {
+  step: string; // Horizons step size for the range endpoint
+  halfSpanDays: number; // Window is refetched every halfSpanDays of simulated time
+}
+
+// --- Constants ---
+
+const MS_PER_DAY = 86_400_000;
+
+// Each window spans 3 × halfSpanDays centered on the clock, so there is always
+// at least halfSpanDays of samples ahead in either direction while the next one loads
+const WINDOW_BY_RATE: Record<PlaybackRate, RangeWindowConfig> = {
+  realtime: { step: '1h', halfSpanDays: 1 },
+  day: { step: '1d', halfSpanDays: 30 },
+  month: { step: '5d', halfSpanDays: 365 },
+  year: { step: '1mo', halfSpanDays: 3650 },
+};
+
+// --- Helper Functions ---
+
+function clampTime(time: number): string {
+  return toTimestamp(Math.min(MAX_TIME, Math.max(MIN_TIME, time)));
+}
+
+// --- Hook ---
+
+export function useEphemerisRange({ time, rate, center = DEFAULT_CENTER_ID, enabled }: UseEphemerisRangeOptions) {
+  const [tracks, setTracks] = useState<InterpolationTrack[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { step, halfSpanDays } = WINDOW_BY_RATE[rate];
+  const halfSpanMs = halfSpanDays * MS_PER_DAY;
+  const windowIndex = Math.floor(time / halfSpanMs);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const abortController = new AbortController();
+    const start = clampTime((windowIndex - 1) * halfSpanMs);
+    const stop = clampTime((windowIndex + 2) * halfSpanMs);
+
+    const fetchWindow = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(
+          `/api/ephemeris/range?start=${start}&stop=${stop}&step=${step}&center=${center}`,
+          { signal: abortController.signal }
+        );
+
+        if (!response.ok) {
+          throw new Error(`API error: ${response.status} ${response.statusText}`);
+        }
+
+        const result: EphemerisRangeResponse = await response.json();
+        setTracks(buildInterpolationTracks(result.data));
+        console.log(
+          `[useEphemerisRange] Loaded ${result.meta.sampleCount} samples (${start} → ${stop}, ${result.meta.step}) from ${result.meta.source}`
+        );
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') return;
+        // Playback keeps running on locally propagated positions
+        console.error('[useEphemerisRange] Failed to load range window:', error);
+      } finally {
+        if (!abortController.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchWindow();
+
+    return () => abortController.abort();
+  }, [enabled, windowIndex, halfSpanMs, step, center]);
+
+  return {
+    tracks,
+    isLoading,
+  };
+}
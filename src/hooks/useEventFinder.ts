@@ -0,0 +1,40 @@
+/**
+ * useEventFinder Hook
+ * Searches a date range for conjunctions, oppositions, greatest elongations and stations,
+ * on Horizons range series or the local propagator
+ */
+
+'use client';
+
+import { EVENT_PLANET_IDS, findAstronomicalEvents, type AstronomicalEvent } from '@/lib/events';
+import { useSampledSearch, type SampledSearch, type SampledSearchOptions } from './useSampledSearch';
+
+// --- Types ---
+
+export type EventSearch = SampledSearch;
+
+// --- Constants ---
+
+const EARTH_ID = '399';
+
+// Daily heliocentric series of the Earth and the planets
+const EVENT_SEARCH: SampledSearchOptions<EventSearch, AstronomicalEvent[]> = {
+  name: 'useEventFinder',
+  getRange: () => ({ ids: [EARTH_ID, ...EVENT_PLANET_IDS], step: '1d' }),
+  find: (sampler, { start, stop }) => findAstronomicalEvents(sampler, Date.parse(start), Date.parse(stop)),
+  describe: events => `Found ${events.length} events`,
+};
+
+const NO_EVENTS: AstronomicalEvent[] = [];
+
+// --- Hook ---
+
+export function useEventFinder(search: EventSearch | null) {
+  const { result, source, isSearching } = useSampledSearch(search, EVENT_SEARCH);
+
+  return {
+    events: result ?? NO_EVENTS,
+    source,
+    isSearching,
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * useObserver Hook
+ * Loads where the Sun, Moon and planets appear from an observing site at the simulation time
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { DataSource, ObserverData, ObserverResponse, ObserverSite } from '@/lib/types';
+
+// --- Types ---
+
+interface UseObserverOptions {
+  time: string; // UTC timestamp
+  site: ObserverSite;
+  enabled?: boolean;
+}
+
+// --- Hook ---
+
+export function useObserver({ time, site, enabled = true }: UseObserverOptions) {
+  const [data, setData] = useState<ObserverData[]>([]);
+  const [source, setSource] = useState<DataSource | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { latitude, longitude, altitudeKm } = site;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const abortController = new AbortController();
+
+    const fetchObservations = async () => {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams({
+          lat: String(latitude),
+          lon: String(longitude),
+          alt: String(altitudeKm),
+          date: time,
+        });
+        const response = await fetch(`/api/observer?${params.toString()}`, {
+          signal: abortController.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error(`API error: ${response.status} ${response.statusText}`);
+        }
+
+        const result: ObserverResponse = await response.json();
+        setData(result.data);
+        setSource(result.meta.source);
+        console.log(`[useObserver] Loaded ${result.data.length} bodies for ${time} from ${result.meta.source}`);
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') return;
+        console.error('[useObserver] Failed to load observer data:', error);
+      } finally {
+        if (!abortController.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchObservations();
+
+    return () => abortController.abort();
+  }, [enabled, time, latitude, longitude, altitudeKm]);
+
+  return {
+    data,
+    source,
+    isLoading,
+  };
+}
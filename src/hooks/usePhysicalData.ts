@@ -0,0 +1,65 @@
+/**
+ * usePhysicalData Hook
+ * Loads the Horizons physical properties of the selected body, once per body per session
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { PhysicalData, PhysicalDataResponse } from '@/lib/types';
+
+// --- Hook ---
+
+/**
+ * @param bodyId - Body to load, null when nothing (or a spacecraft) is selected
+ * @returns The body's physical data, null until loaded or when Horizons has none
+ */
+export function usePhysicalData(bodyId: string | null): PhysicalData | null {
+  // Answers per body id - null when Horizons publishes nothing for it or rejects it
+  const [loaded, setLoaded] = useState<Record<string, PhysicalData | null>>({});
+
+  useEffect(() => {
+    if (!bodyId || bodyId in loaded) return;
+
+    const abortController = new AbortController();
+
+    const fetchPhysicalData = async () => {
+      try {
+        const response = await fetch(`/api/physical?id=${encodeURIComponent(bodyId)}`, {
+          signal: abortController.signal,
+        });
+
+        // Horizons rejected the body - as final an answer as no data, so it isn't asked again
+        if (response.status >= 400 && response.status < 500) {
+          setLoaded(previous => ({ ...previous, [bodyId]: null }));
+          console.warn(`[usePhysicalData] No physical data for ${bodyId} (${response.status}), using local values`);
+          return;
+        }
+
+        if (!response.ok) {
+          throw new Error(`API error: ${response.status} ${response.statusText}`);
+        }
+
+        const result: PhysicalDataResponse = await response.json();
+
+        // Horizons unreachable - keep the hand-written values and ask again next time
+        if (result.meta.upstream) {
+          console.warn(`[usePhysicalData] Horizons unavailable for ${bodyId}, using local values`);
+          return;
+        }
+
+        setLoaded(previous => ({ ...previous, [bodyId]: result.data }));
+        console.log(`[usePhysicalData] Loaded ${bodyId} from ${result.meta.source}`);
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') return;
+        console.error(`[usePhysicalData] Failed to load ${bodyId}:`, error);
+      }
+    };
+
+    fetchPhysicalData();
+
+    return () => abortController.abort();
+  }, [bodyId, loaded]);
+
+  return bodyId ? loaded[bodyId] ?? null : null;
+}
@@ -0,0 +1,120 @@
+/**
+ * useSampledSearch Hook
+ * Runs a search over a date range on positions from Horizons range series
+ * (GET /api/ephemeris/range) or the local propagator - shared by the event
+ * finder and the closest-approach calculator
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { DataSource, EphemerisRangeResponse } from '@/lib/types';
+import { createPropagatedSampler, createSeriesSampler, type PositionSampler } from '@/lib/events';
+
+// --- Types ---
+
+export type SampledSearchMethod = 'HORIZONS' | 'PROPAGATOR';
+
+export interface SampledSearch {
+  start: string; // UTC timestamp
+  stop: string;
+  method: SampledSearchMethod;
+}
+
+/**
+ * What a search needs and does - define it once at module level so it stays stable across renders
+ */
+export interface SampledSearchOptions<TSearch extends SampledSearch, TResult> {
+  name: string; // Log prefix
+  getRange: (search: TSearch) => { ids: string[]; step: string }; // Bodies to sample and the Horizons step
+  find: (sampler: PositionSampler, search: TSearch) => TResult;
+  describe: (result: TResult) => string; // Log line
+}
+
+interface SettledSearch<TSearch, TResult> {
+  search: TSearch;
+  result: TResult | null; // Null when the search failed
+  source: DataSource;
+}
+
+// --- Helper Functions ---
+
+/**
+ * Series sampler for a search, one range request for all its bodies
+ */
+async function loadSeriesSampler(
+  search: SampledSearch,
+  ids: string[],
+  step: string,
+  signal: AbortSignal
+): Promise<{ sampler: PositionSampler; source: DataSource }> {
+  const params = new URLSearchParams({
+    start: search.start,
+    stop: search.stop,
+    step,
+    ids: ids.join(','),
+  });
+  const response = await fetch(`/api/ephemeris/range?${params.toString()}`, { signal });
+
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status} ${response.statusText}`);
+  }
+
+  const result: EphemerisRangeResponse = await response.json();
+  return { sampler: createSeriesSampler(result.data), source: result.meta.source };
+}
+
+// --- Hook ---
+
+export function useSampledSearch<TSearch extends SampledSearch, TResult>(
+  search: TSearch | null,
+  options: SampledSearchOptions<TSearch, TResult>
+) {
+  const [settled, setSettled] = useState<SettledSearch<TSearch, TResult> | null>(null);
+
+  useEffect(() => {
+    if (!search) return;
+
+    const abortController = new AbortController();
+    const { name, getRange, find, describe } = options;
+    const { ids, step } = getRange(search);
+
+    const runSearch = async () => {
+      let positions = { sampler: createPropagatedSampler(ids), source: 'FALLBACK_DATASET' as DataSource };
+
+      if (search.method === 'HORIZONS') {
+        try {
+          positions = await loadSeriesSampler(search, ids, step, abortController.signal);
+        } catch (error) {
+          if (error instanceof Error && error.name === 'AbortError') return;
+          // The propagator covers any range - search on it instead
+          console.error(`[${name}] Failed to load range series, using the propagator:`, error);
+        }
+      }
+
+      if (abortController.signal.aborted) return;
+
+      let result: TResult | null = null;
+      try {
+        result = find(positions.sampler, search);
+        console.log(`[${name}] ${describe(result)} (${search.start} → ${search.stop}) from ${positions.source}`);
+      } catch (error) {
+        console.error(`[${name}] Search failed:`, error);
+      }
+      setSettled({ search, result, source: positions.source });
+    };
+
+    runSearch();
+
+    return () => abortController.abort();
+  }, [search, options]);
+
+  // Searching until the current search settles - an aborted one never leaves this stuck
+  const isCurrent = settled !== null && settled.search === search;
+
+  return {
+    result: settled?.result ?? null,
+    source: settled?.source ?? null,
+    isSearching: search !== null && !isCurrent,
+  };
+}
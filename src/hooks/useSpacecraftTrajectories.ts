@@ -0,0 +1,74 @@
+/**
+ * useSpacecraftTrajectories Hook
+ * Loads a spacecraft's full mission trajectory, for drawing its path, once it is
+ * shown or selected - once per spacecraft per session
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { EphemerisRangeResponse, EphemerisSample } from '@/lib/types';
+import { getSpacecraft } from '@/lib/spacecraft';
+
+// --- Types ---
+
+// Heliocentric samples per spacecraft bodyId
+export type SpacecraftTrajectories = Record<string, EphemerisSample[]>;
+
+// --- Hook ---
+
+/**
+ * @param bodyIds - Bodies shown or selected; only the spacecraft among them are loaded, in order
+ * @returns The trajectories loaded so far
+ */
+export function useSpacecraftTrajectories(bodyIds: string[]): SpacecraftTrajectories {
+  // Answers per spacecraft id - null when the trajectory couldn't be loaded
+  const [loaded, setLoaded] = useState<Record<string, EphemerisSample[] | null>>({});
+
+  // One range request at a time - the next spacecraft waits for the previous answer
+  const nextId = bodyIds.find(bodyId => getSpacecraft(bodyId) && !(bodyId in loaded)) ?? null;
+
+  useEffect(() => {
+    const spacecraft = nextId ? getSpacecraft(nextId) : undefined;
+    if (!spacecraft) return;
+
+    const abortController = new AbortController();
+
+    const fetchTrajectory = async () => {
+      let samples: EphemerisSample[] | null = null;
+      try {
+        const params = new URLSearchParams({
+          start: spacecraft.validFrom,
+          stop: spacecraft.validTo,
+          step: spacecraft.trajectoryStep,
+          ids: spacecraft.bodyId,
+        });
+        const response = await fetch(`/api/ephemeris/range?${params.toString()}`, {
+          signal: abortController.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error(`API error: ${response.status} ${response.statusText}`);
+        }
+
+        const result: EphemerisRangeResponse = await response.json();
+        samples = result.data.find(series => series.bodyId === spacecraft.bodyId)?.samples ?? [];
+        console.log(`[useSpacecraftTrajectories] ${spacecraft.englishName}: ${samples.length} samples`);
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') return;
+        // Without a trajectory the spacecraft is still shown, just without its path
+        console.error(`[useSpacecraftTrajectories] Failed to load ${spacecraft.englishName}:`, error);
+      }
+
+      setLoaded(previous => ({ ...previous, [spacecraft.bodyId]: samples }));
+    };
+
+    fetchTrajectory();
+
+    return () => abortController.abort();
+  }, [nextId]);
+
+  return Object.fromEntries(
+    Object.entries(loaded).flatMap(([bodyId, samples]) => samples ? [[bodyId, samples]] : [])
+  );
+}
@@ -0,0 +1,153 @@
+/**
+ * useTimePlayback Hook
+ * Advances the simulation clock in real time (play/pause, reverse, rate)
+ * Live mode locks the clock to the wall clock ("now") until the user takes over
+ */
+
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { MAX_TIME, MIN_TIME, toTimestamp } from '@/lib/time';
+
+// --- Types ---
+
+export type PlaybackRate = 'realtime' | 'day' | 'month' | 'year';
+export type PlaybackDirection = 1 | -1;
+
+interface UseTimePlaybackOptions {
+  time: string; // UTC timestamp - the committed simulation time
+  onPause?: (time: string) => void; // Called with the timestamp playback stopped on
+}
+
+export interface TimePlaybackState {
+  isPlaying: boolean;
+  direction: PlaybackDirection;
+  rate: PlaybackRate;
+  simulationTime: number; // Epoch milliseconds
+  isLive: boolean; // Following the wall clock
+}
+
+// --- Constants ---
+
+export const PLAYBACK_RATES: Record<PlaybackRate, { label: string; daysPerSecond: number }> = {
+  realtime: { label: 'Real time', daysPerSecond: 1 / 86400 },
+  day: { label: '1 day/s', daysPerSecond: 1 },
+  month: { label: '1 month/s', daysPerSecond: 30.44 },
+  year: { label: '1 year/s', daysPerSecond: 365.25 },
+};
+
+const MS_PER_DAY = 86_400_000;
+
+// --- Hook ---
+
+export function useTimePlayback({ time, onPause }: UseTimePlaybackOptions) {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isLive, setIsLive] = useState(false);
+  const [direction, setDirection] = useState<PlaybackDirection>(1);
+  const [rate, setRate] = useState<PlaybackRate>('day');
+  const [simulationTime, setSimulationTime] = useState(() => Date.parse(time));
+  const [syncedTime, setSyncedTime] = useState(time);
+
+  const timeRef = useRef(simulationTime);
+  const onPauseRef = useRef(onPause);
+
+  useEffect(() => {
+    onPauseRef.current = onPause;
+  }, [onPause]);
+
+  // Jump to externally selected times (date/time inputs, presets) unless the clock is already there
+  if (time !== syncedTime) {
+    setSyncedTime(time);
+    if (toTimestamp(simulationTime) !== time) {
+      setSimulationTime(Date.parse(time));
+      setIsLive(false);
+    }
+  }
+
+  useEffect(() => {
+    timeRef.current = simulationTime;
+  }, [simulationTime]);
+
+  // Animation loop - only runs while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const msPerSecond = PLAYBACK_RATES[rate].daysPerSecond * MS_PER_DAY * direction;
+    let frameId = 0;
+    let lastFrame = performance.now();
+
+    const tick = (now: number) => {
+      const deltaSeconds = (now - lastFrame) / 1000;
+      lastFrame = now;
+
+      const next = isLive ? Date.now() : timeRef.current + deltaSeconds * msPerSecond;
+      const clamped = Math.min(MAX_TIME, Math.max(MIN_TIME, next));
+      timeRef.current = clamped;
+      setSimulationTime(clamped);
+
+      // Stop at the edges of the supported date range
+      if (clamped !== next) {
+        setIsPlaying(false);
+        setIsLive(false);
+        onPauseRef.current?.(toTimestamp(clamped));
+        return;
+      }
+
+      frameId = requestAnimationFrame(tick);
+    };
+
+    frameId = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, isLive, rate, direction]);
+
+  const togglePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      setIsLive(false);
+      onPause?.(toTimestamp(timeRef.current));
+      console.log(`[useTimePlayback] Paused at ${toTimestamp(timeRef.current)}`);
+    } else {
+      setIsPlaying(true);
+      console.log(`[useTimePlayback] Playing ${direction > 0 ? 'forward' : 'backward'} at ${PLAYBACK_RATES[rate].label}`);
+    }
+  };
+
+  const toggleDirection = () => {
+    setDirection(d => (d === 1 ? -1 : 1));
+    setIsLive(false);
+  };
+
+  const changeRate = (nextRate: PlaybackRate) => {
+    setRate(nextRate);
+    setIsLive(false);
+  };
+
+  // Jump to the current instant and keep following it at real-time rate
+  const goLive = () => {
+    const now = Date.now();
+    timeRef.current = now;
+    setSimulationTime(now);
+    setRate('realtime');
+    setDirection(1);
+    setIsLive(true);
+    setIsPlaying(true);
+    console.log(`[useTimePlayback] Live at ${toTimestamp(now)}`);
+  };
+
+  const state: TimePlaybackState = {
+    isPlaying,
+    direction,
+    rate,
+    simulationTime,
+    isLive,
+  };
+
+  return {
+    ...state,
+    togglePlay,
+    toggleDirection,
+    setRate: changeRate,
+    goLive,
+  };
+}
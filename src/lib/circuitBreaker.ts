@@ -0,0 +1,72 @@
+/**
+ * Circuit Breaker
+ * Stops calling a failing upstream after repeated failures, then lets a single
+ * trial request through once the cooldown has passed:
+ * CLOSED -(threshold failures)-> OPEN -(cooldown)-> HALF_OPEN -(success)-> CLOSED
+ *                                                            -(failure)-> OPEN
+ */
+
+import type { CircuitState } from './types';
+
+// --- Types ---
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  cooldownMs: number; // Time spent OPEN before a trial request is allowed
+}
+
+export interface CircuitBreaker {
+  /** Whether a request may be sent now (moves OPEN to HALF_OPEN after the cooldown) */
+  canRequest(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+  getState(): CircuitState;
+}
+
+// --- Factory ---
+
+export function createCircuitBreaker({ failureThreshold, cooldownMs }: CircuitBreakerOptions): CircuitBreaker {
+  let state: CircuitState = 'CLOSED';
+  let consecutiveFailures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  const open = () => {
+    state = 'OPEN';
+    openedAt = Date.now();
+    trialInFlight = false;
+  };
+
+  return {
+    canRequest() {
+      if (state === 'OPEN' && Date.now() - openedAt >= cooldownMs) {
+        state = 'HALF_OPEN';
+      }
+      if (state === 'HALF_OPEN') {
+        // Only one trial at a time - everyone else waits for its outcome
+        if (trialInFlight) return false;
+        trialInFlight = true;
+        return true;
+      }
+      return state === 'CLOSED';
+    },
+
+    recordSuccess() {
+      state = 'CLOSED';
+      consecutiveFailures = 0;
+      trialInFlight = false;
+    },
+
+    recordFailure() {
+      consecutiveFailures++;
+      if (state === 'HALF_OPEN' || consecutiveFailures >= failureThreshold) {
+        open();
+      }
+    },
+
+    getState() {
+      if (state === 'OPEN' && Date.now() - openedAt >= cooldownMs) return 'HALF_OPEN';
+      return state;
+    },
+  };
+}
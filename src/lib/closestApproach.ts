@@ -0,0 +1,124 @@
+/**
+ * Closest Approach
+ * Distance between any two bodies over a date range: a regularly sampled
+ * distance curve for charting, and the minimum found by refining every dip in
+ * the curve with a golden-section search. Positions come from a sampler (see
+ * lib/events.ts) - Horizons range series or the local propagator.
+ */
+
+import { getHeliocentricState } from './frames';
+import { findMinimum } from './rootFinding';
+import { calculateDistance, getPlanetConfig } from './textureConfig';
+import { toTimestamp } from './time';
+import type { PositionSampler } from './events';
+import type { EphemerisData } from './types';
+
+// --- Types ---
+
+export interface DistanceSample {
+  time: string; // UTC timestamp
+  distance: number; // km, center to center
+}
+
+export interface ClosestApproach {
+  bodyIds: [string, string];
+  time: string; // UTC timestamp of the minimum, minute resolution
+  distance: number; // km
+  samples: DistanceSample[]; // Distance curve over the whole range, for the chart
+}
+
+// --- Constants ---
+
+const SUN_ID = '10';
+
+const MS_PER_DAY = 86_400_000;
+
+// Ten years - the sampling step stays at a few days, short enough to catch every lunar perigee
+export const MAX_APPROACH_SEARCH_DAYS = 3653;
+
+// The range endpoint's per-body limit (one more than the steps between samples)
+const MAX_APPROACH_SAMPLES = 1000;
+
+// --- Public API ---
+
+/**
+ * Bodies a sampler must provide to place both bodies: each one and, for a satellite, its parent
+ * The Sun is left out - it is the origin of heliocentric data
+ */
+export function getApproachBodyIds(firstId: string, secondId: string): string[] {
+  const ids = [firstId, secondId].flatMap(bodyId => {
+    const parentId = getPlanetConfig(bodyId)?.parentId;
+    return parentId ? [bodyId, parentId] : [bodyId];
+  });
+  return [...new Set(ids)].filter(bodyId => bodyId !== SUN_ID);
+}
+
+/**
+ * Whole days between samples so the range fits in the sample limit
+ */
+export function getApproachStepDays(start: number, stop: number): number {
+  return Math.max(1, Math.ceil((stop - start) / MS_PER_DAY / (MAX_APPROACH_SAMPLES - 1)));
+}
+
+/**
+ * Distance between two bodies in a heliocentric snapshot (km)
+ * Null when either body (or a satellite's parent) is missing
+ */
+export function getDistanceBetween(firstId: string, secondId: string, data: EphemerisData[]): number | null {
+  const first = getHeliocentricState(firstId, data);
+  const second = getHeliocentricState(secondId, data);
+  if (!first || !second) return null;
+
+  return calculateDistance(first.position, second.position);
+}
+
+/**
+ * Smallest distance between two bodies between start and stop (epoch ms), with the distance curve
+ * Null when the sampler can't place both bodies anywhere in the range
+ */
+export function findClosestApproach(
+  sampler: PositionSampler,
+  firstId: string,
+  secondId: string,
+  start: number,
+  stop: number
+): ClosestApproach | null {
+  const distanceAt = (time: number) => getDistanceBetween(firstId, secondId, sampler(time)) ?? Infinity;
+  const stepMs = getApproachStepDays(start, stop) * MS_PER_DAY;
+
+  const times: number[] = [];
+  for (let time = start; time <= stop; time += stepMs) times.push(time);
+  if (times[times.length - 1] < stop) times.push(stop);
+  const distances = times.map(distanceAt);
+
+  // Each local minimum of the curve is refined - the deepest wins
+  let best: { time: number; distance: number } | null = null;
+
+  for (const [index, distance] of distances.entries()) {
+    if (!isFinite(distance)) continue;
+    const previous = distances[index - 1] ?? Infinity;
+    const next = distances[index + 1] ?? Infinity;
+    if (distance > previous || distance > next) continue;
+
+    const time = findMinimum(
+      distanceAt,
+      times[Math.max(0, index - 1)],
+      times[Math.min(times.length - 1, index + 1)]
+    );
+    const refined = Math.min(distanceAt(time), distance);
+    const candidate = refined < distance ? { time, distance: refined } : { time: times[index], distance };
+
+    if (!best || candidate.distance < best.distance) best = candidate;
+  }
+
+  if (!best) return null;
+
+  return {
+    bodyIds: [firstId, secondId],
+    time: toTimestamp(best.time),
+    distance: best.distance,
+    samples: times.flatMap((time, index) =>
+      isFinite(distances[index]) ? [{ time: toTimestamp(time), distance: distances[index] }] : []
+    ),
+  };
+}
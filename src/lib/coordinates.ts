@@ -0,0 +1,90 @@
+/**
+ * Coordinate Utilities
+ * Conversions between astronomical reference frames and Three.js scene axes
+ *
+ * Vectors are always fetched on the J2000 ecliptic. The Earth-equatorial (ICRF)
+ * plane is that same frame turned by the J2000 obliquity about the vernal-equinox
+ * axis (+X in both), which is how Horizons defines its ecliptic - so switching
+ * planes is a single rotation about scene X, applied alike to vectors and geometry.
+ */
+
+import type { EphemerisPosition } from './types';
+
+// --- Types ---
+
+export type ReferencePlane = 'ecliptic' | 'equatorial';
+
+// --- Constants ---
+
+// Mean obliquity of the ecliptic at J2000 (IAU 2006), degrees
+export const OBLIQUITY_J2000_DEG = 23.4392911;
+
+// --- Helper Functions ---
+
+function degToRad(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+/**
+ * Converts a direction given in equatorial coordinates (ICRF right ascension / declination)
+ * into a unit vector in scene axes (ecliptic frame, ecliptic Z -> Three.js Y)
+ * Used for rotation poles published by the IAU
+ */
+export function equatorialToSceneDirection(
+  rightAscensionDeg: number,
+  declinationDeg: number
+): [number, number, number] {
+  const ra = degToRad(rightAscensionDeg);
+  const dec = degToRad(declinationDeg);
+  const eps = degToRad(OBLIQUITY_J2000_DEG);
+
+  // Equatorial unit vector
+  const x = Math.cos(dec) * Math.cos(ra);
+  const y = Math.cos(dec) * Math.sin(ra);
+  const z = Math.sin(dec);
+
+  // Rotate about the vernal equinox axis into the ecliptic frame
+  const yEcl = y * Math.cos(eps) + z * Math.sin(eps);
+  const zEcl = -y * Math.sin(eps) + z * Math.cos(eps);
+
+  return [
+    x,
+    zEcl, // Z in astronomy -> Y in Three.js (up)
+    yEcl, // Y in astronomy -> Z in Three.js
+  ];
+}
+
+/**
+ * Rotation angle about scene X taking scene content laid out on one plane to another
+ */
+export function getPlaneTilt(from: ReferencePlane, to: ReferencePlane): number {
+  if (from === to) return 0;
+  const eps = degToRad(OBLIQUITY_J2000_DEG);
+  return from === 'ecliptic' ? -eps : eps;
+}
+
+/**
+ * Euler rotation of a group holding ecliptic scene content (orbits, trajectories)
+ * Same rotation as toReferencePlane, so geometry and vectors stay consistent
+ */
+export function getPlaneRotation(plane: ReferencePlane): [number, number, number] {
+  return [getPlaneTilt('ecliptic', plane), 0, 0];
+}
+
+/**
+ * Moves a vector in ecliptic scene axes (as parsed from Horizons) onto the reference plane
+ * The plane's pole becomes Three.js Y; X stays on the vernal equinox
+ */
+export function toReferencePlane(vector: EphemerisPosition, plane: ReferencePlane): EphemerisPosition {
+  const angle = getPlaneTilt('ecliptic', plane);
+  if (angle === 0) return vector;
+
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  return {
+    x: vector.x,
+    y: vector.y * cos - vector.z * sin,
+    z: vector.y * sin + vector.z * cos,
+  };
+}
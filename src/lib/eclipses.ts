@@ -0,0 +1,239 @@
+/**
+ * Eclipses and Transits
+ * Solar and lunar eclipses and transits of Mercury and Venus from Sun–body–Earth
+ * geometry: the occulting body casts a shadow cone away from the Sun - a
+ * converging umbra and a diverging penumbra - and an event lasts while the
+ * target body is inside the penumbra. Positions come from a sampler (see
+ * lib/events.ts) scanned at least every half hour, so contacts shorter than
+ * that can be missed. The propagated Moon leaves out the lunar perturbations
+ * and can be off by more than a degree: offline, eclipse times are good to a
+ * few hours and marginal eclipses may come and go.
+ */
+
+import { getHeliocentricState } from './frames';
+import { bisect, findMinimum } from './rootFinding';
+import { REAL_RADII_KM } from './scales';
+import { toTimestamp } from './time';
+import type { PositionSampler } from './events';
+import type { EphemerisData, EphemerisPosition } from './types';
+
+// --- Types ---
+
+export type EclipseType = 'SOLAR_ECLIPSE' | 'LUNAR_ECLIPSE' | 'TRANSIT';
+
+export type EclipseKind = 'TOTAL' | 'ANNULAR' | 'PARTIAL' | 'PENUMBRAL';
+
+export interface EclipseEvent {
+  id: string; // Stable key: type, bodies and time of maximum
+  type: EclipseType;
+  kind?: EclipseKind; // Eclipses only
+  occulterId: string; // Body casting the shadow: the Moon, the Earth, Mercury or Venus
+  targetId: string; // Body the shadow falls on
+  start: string; // UTC timestamps, minute resolution - first and last penumbral contact
+  maximum: string;
+  end: string;
+}
+
+/**
+ * Where a target sits in an occulter's shadow (km)
+ */
+export interface ShadowGeometry {
+  depth: number; // Distance behind the occulter along the shadow axis
+  axisDistance: number; // Target center from the shadow axis
+  penumbraRadius: number; // Cone radii at the target's depth
+  umbraRadius: number; // Negative past the umbra's apex (antumbra - annular eclipses)
+}
+
+// --- Constants ---
+
+const SUN_ID = '10';
+const EARTH_ID = '399';
+const MOON_ID = '301';
+
+// Occulter / target pairs searched, with an upper bound on how fast the target
+// can close in on the shadow (km/s) - far from it, the scan takes longer strides
+const SHADOW_PAIRS: { type: EclipseType; occulterId: string; targetId: string; maxApproachSpeed: number }[] = [
+  { type: 'SOLAR_ECLIPSE', occulterId: MOON_ID, targetId: EARTH_ID, maxApproachSpeed: 1.5 },
+  { type: 'LUNAR_ECLIPSE', occulterId: EARTH_ID, targetId: MOON_ID, maxApproachSpeed: 1.5 },
+  { type: 'TRANSIT', occulterId: '199', targetId: EARTH_ID, maxApproachSpeed: 160 },
+  { type: 'TRANSIT', occulterId: '299', targetId: EARTH_ID, maxApproachSpeed: 80 },
+];
+
+// Bodies a sampler must provide
+export const ECLIPSE_BODY_IDS = [EARTH_ID, MOON_ID, '199', '299'];
+
+// The atmosphere widens the Earth's shadow by about 2% (Danjon)
+const EARTH_SHADOW_ENLARGEMENT = 1.02;
+
+const SCAN_STEP_MS = 30 * 60_000;
+
+// Half-hour bracket halved down to about a second
+const BISECTION_STEPS = 11;
+
+// --- Helper Functions ---
+
+function subtract(a: EphemerisPosition, b: EphemerisPosition): EphemerisPosition {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function dot(a: EphemerisPosition, b: EphemerisPosition): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function length(vector: EphemerisPosition): number {
+  return Math.hypot(vector.x, vector.y, vector.z);
+}
+
+function getShadowRadius(occulterId: string): number {
+  const radius = REAL_RADII_KM[occulterId];
+  return occulterId === EARTH_ID ? radius * EARTH_SHADOW_ENLARGEMENT : radius;
+}
+
+/**
+ * Gap between the target and the penumbra, km - negative while inside it
+ * On the Sun's side of the occulter, the distance to the plane the shadow starts from
+ */
+function getPenumbraMargin(geometry: ShadowGeometry | null, targetId: string): number {
+  if (!geometry) return Infinity;
+
+  const targetRadius = REAL_RADII_KM[targetId];
+  if (geometry.depth <= 0) return Math.max(0, -geometry.depth - targetRadius);
+  return geometry.axisDistance - geometry.penumbraRadius - targetRadius;
+}
+
+function getKind(type: EclipseType, geometry: ShadowGeometry, targetId: string): EclipseKind | undefined {
+  const targetRadius = REAL_RADII_KM[targetId];
+  const { axisDistance, umbraRadius } = geometry;
+
+  switch (type) {
+    case 'SOLAR_ECLIPSE':
+      // Umbra (or antumbra) reaching the Earth's surface makes a central eclipse somewhere
+      if (axisDistance < targetRadius + Math.abs(umbraRadius)) return umbraRadius > 0 ? 'TOTAL' : 'ANNULAR';
+      return 'PARTIAL';
+    case 'LUNAR_ECLIPSE':
+      if (axisDistance < umbraRadius - targetRadius) return 'TOTAL';
+      if (axisDistance < umbraRadius + targetRadius) return 'PARTIAL';
+      return 'PENUMBRAL';
+    case 'TRANSIT':
+      return undefined;
+  }
+}
+
+// --- Public API ---
+
+/**
+ * Shadow of an occulter at a target, from heliocentric positions (km)
+ * Cone half-angles come from the Sun's and the occulter's radii; the small-angle form is plenty here
+ */
+export function getShadowGeometry(
+  sun: EphemerisPosition,
+  occulter: EphemerisPosition,
+  target: EphemerisPosition,
+  occulterRadius: number
+): ShadowGeometry {
+  const sunToOcculter = subtract(occulter, sun);
+  const sunDistance = length(sunToOcculter);
+  const axis = { x: sunToOcculter.x / sunDistance, y: sunToOcculter.y / sunDistance, z: sunToOcculter.z / sunDistance };
+
+  const offset = subtract(target, occulter);
+  const depth = dot(offset, axis);
+  const axisDistance = length(subtract(offset, { x: axis.x * depth, y: axis.y * depth, z: axis.z * depth }));
+  const sunRadius = REAL_RADII_KM[SUN_ID];
+
+  return {
+    depth,
+    axisDistance,
+    penumbraRadius: occulterRadius + depth * (sunRadius + occulterRadius) / sunDistance,
+    umbraRadius: occulterRadius - depth * (sunRadius - occulterRadius) / sunDistance,
+  };
+}
+
+/**
+ * Half-angles (radians) of an occulter's umbra and penumbra cones
+ */
+export function getShadowConeAngles(occulterId: string, sunDistance: number): { umbra: number; penumbra: number } {
+  const sunRadius = REAL_RADII_KM[SUN_ID];
+  const occulterRadius = getShadowRadius(occulterId);
+  return {
+    umbra: Math.asin((sunRadius - occulterRadius) / sunDistance),
+    penumbra: Math.asin((sunRadius + occulterRadius) / sunDistance),
+  };
+}
+
+/**
+ * Shadow geometry of an occulter / target pair in a snapshot, in any frame
+ * (the Sun's entry gives its place; without one the data is taken as heliocentric)
+ * Null when either body is missing
+ */
+export function getSnapshotShadow(data: EphemerisData[], occulterId: string, targetId: string): ShadowGeometry | null {
+  const occulter = getHeliocentricState(occulterId, data);
+  const target = getHeliocentricState(targetId, data);
+  if (!occulter || !target) return null;
+
+  const sun = data.find(body => body.bodyId === SUN_ID)?.position ?? { x: 0, y: 0, z: 0 };
+  return getShadowGeometry(sun, occulter.position, target.position, getShadowRadius(occulterId));
+}
+
+/**
+ * Eclipses and transits under way in a snapshot
+ */
+export function getActiveShadows(data: EphemerisData[]): { type: EclipseType; occulterId: string; targetId: string }[] {
+  return SHADOW_PAIRS
+    .filter(({ occulterId, targetId }) =>
+      getPenumbraMargin(getSnapshotShadow(data, occulterId, targetId), targetId) < 0
+    )
+    .map(({ type, occulterId, targetId }) => ({ type, occulterId, targetId }));
+}
+
+/**
+ * All eclipses and transits with their maximum between start and stop (epoch ms), in time order
+ */
+export function findEclipses(sampler: PositionSampler, start: number, stop: number): EclipseEvent[] {
+  const events: EclipseEvent[] = [];
+
+  for (const { type, occulterId, targetId, maxApproachSpeed } of SHADOW_PAIRS) {
+    const geometryAt = (time: number) => getSnapshotShadow(sampler(time), occulterId, targetId);
+    const marginAt = (time: number) => getPenumbraMargin(geometryAt(time), targetId);
+
+    // No contact can begin sooner than the gap allows at the bounding speed
+    const getStep = (margin: number) =>
+      isFinite(margin) ? Math.max(SCAN_STEP_MS, (margin / maxApproachSpeed) * 1000) : SCAN_STEP_MS;
+
+    let previousTime = start;
+    let previousMargin = marginAt(start);
+    let contactStart: number | null = previousMargin < 0 ? start : null;
+
+    for (let time = start + getStep(previousMargin); previousTime <= stop; time = previousTime + getStep(previousMargin)) {
+      const margin = marginAt(time);
+
+      if (previousMargin >= 0 && margin < 0) {
+        contactStart = bisect(marginAt, previousTime, time, BISECTION_STEPS);
+      } else if (previousMargin < 0 && margin >= 0 && contactStart !== null) {
+        const contactEnd = bisect(marginAt, previousTime, time, BISECTION_STEPS);
+        const maximum = findMinimum(t => geometryAt(t)?.axisDistance ?? Infinity, contactStart, contactEnd);
+        const geometry = geometryAt(maximum);
+
+        if (geometry && maximum >= start && maximum <= stop) {
+          const maximumTimestamp = toTimestamp(maximum);
+          const kind = getKind(type, geometry, targetId);
+          events.push({
+            id: `${type}:${occulterId}-${targetId}:${maximumTimestamp}`,
+            type,
+            ...(kind && { kind }),
+            occulterId,
+            targetId,
+            start: toTimestamp(contactStart),
+            maximum: maximumTimestamp,
+            end: toTimestamp(contactEnd),
+          });
+        }
+        contactStart = null;
+      }
+
+      previousTime = time;
+      previousMargin = margin;
+    }
+  }
+
+  return events.sort((a, b) => Date.parse(a.maximum) - Date.parse(b.maximum));
+}
@@ -0,0 +1,305 @@
+/**
+ * Astronomical Events
+ * Finds planetary conjunctions, oppositions, greatest elongations of Mercury
+ * and Venus, and stations (where a planet's apparent motion turns retrograde
+ * or direct) over a date range. Everything is geocentric, measured along the
+ * ecliptic. Positions come from a sampler - Horizons range series or the local
+ * propagator - scanned once a day, and each event is refined by bisection to
+ * about a minute.
+ */
+
+import { propagateBodies } from './keplerPropagator';
+import { buildInterpolationTracks, interpolateTrack } from './interpolation';
+import { toReferencePlane, type ReferencePlane } from './coordinates';
+import { bisect } from './rootFinding';
+import { scalePositionFromKm } from './scales';
+import { toTimestamp } from './time';
+import type { EphemerisData, EphemerisPosition, EphemerisSeries } from './types';
+
+// --- Types ---
+
+export type AstronomicalEventType = 'CONJUNCTION' | 'OPPOSITION' | 'GREATEST_ELONGATION' | 'STATION';
+
+export interface AstronomicalEvent {
+  id: string; // Stable key: type, bodies and time
+  type: AstronomicalEventType;
+  time: string; // UTC timestamp, minute resolution
+  bodyIds: string[]; // Planets involved
+  separation?: number; // Degrees - between the planets (conjunction) or from the Sun (elongation)
+  side?: 'EAST' | 'WEST'; // Greatest elongation - east of the Sun is the evening sky
+  direction?: 'RETROGRADE' | 'DIRECT'; // Station - the motion that begins
+}
+
+/**
+ * Heliocentric vectors (km, scene axes, ecliptic) of the Earth and the planets at a time,
+ * satellites relative to their parent. Bodies the sampler can't place at that time are left out
+ */
+export type PositionSampler = (time: number) => EphemerisData[];
+
+// --- Constants ---
+
+const SUN_ID = '10';
+const EARTH_ID = '399';
+
+// Planets searched, in order from the Sun
+export const EVENT_PLANET_IDS = ['199', '299', '499', '599', '699', '799', '899'];
+
+const INFERIOR_PLANET_IDS = ['199', '299'];
+const SUPERIOR_PLANET_IDS = ['499', '599', '699', '799', '899'];
+
+// Two years of daily samples - within the range endpoint's per-body limit
+export const MAX_EVENT_SEARCH_DAYS = 731;
+
+const MS_PER_DAY = 86_400_000;
+const SCAN_STEP_MS = MS_PER_DAY;
+
+// Half-width of the central differences behind elongation maxima and stations
+const DERIVATIVE_STEP_MS = 3_600_000;
+
+// A two-day bracket halved down to under a minute
+const BISECTION_STEPS = 12;
+
+// Longitude conjunctions happen all the time - only close ones are worth listing
+const MAX_CONJUNCTION_SEPARATION_DEG = 5;
+
+// Framing radius (scene units) when the bodies nearly coincide
+const MIN_FRAMING_RADIUS = 10;
+
+// --- Helper Functions ---
+
+function radToDeg(radians: number): number {
+  return radians * (180 / Math.PI);
+}
+
+/**
+ * Angle wrapped into (-180, 180]
+ */
+function wrapDegrees(degrees: number): number {
+  const wrapped = degrees % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped <= -180 ? wrapped + 360 : wrapped;
+}
+
+function angleBetween(a: EphemerisPosition, b: EphemerisPosition): number {
+  const dot = a.x * b.x + a.y * b.y + a.z * b.z;
+  const lengths = Math.hypot(a.x, a.y, a.z) * Math.hypot(b.x, b.y, b.z);
+  return radToDeg(Math.acos(Math.min(1, Math.max(-1, dot / lengths))));
+}
+
+/**
+ * Geocentric vectors of the Sun and the planets in a heliocentric snapshot
+ */
+function getGeocentricVectors(data: EphemerisData[]): Map<string, EphemerisPosition> {
+  const vectors = new Map<string, EphemerisPosition>();
+  const earth = data.find(body => body.bodyId === EARTH_ID && !body.centerId);
+  if (!earth) return vectors;
+
+  vectors.set(SUN_ID, { x: -earth.position.x, y: -earth.position.y, z: -earth.position.z });
+  for (const body of data) {
+    if (body.centerId || !EVENT_PLANET_IDS.includes(body.bodyId)) continue;
+    vectors.set(body.bodyId, {
+      x: body.position.x - earth.position.x,
+      y: body.position.y - earth.position.y,
+      z: body.position.z - earth.position.z,
+    });
+  }
+
+  return vectors;
+}
+
+/**
+ * Geocentric ecliptic longitude in degrees - ecliptic Y is the scene's z axis
+ */
+function getLongitude(vector: EphemerisPosition): number {
+  return radToDeg(Math.atan2(vector.z, vector.x));
+}
+
+/**
+ * Sign change of a wrapped angle through zero - not the jump at ±180°
+ */
+function crossesZero(previous: number, current: number): boolean {
+  return Math.sign(previous) !== Math.sign(current) && Math.abs(current - previous) < 180;
+}
+
+function createEvent(event: Omit<AstronomicalEvent, 'id' | 'time'>, time: number): AstronomicalEvent {
+  const timestamp = toTimestamp(time);
+  return { ...event, id: `${event.type}:${event.bodyIds.join('-')}:${timestamp}`, time: timestamp };
+}
+
+// --- Samplers ---
+
+/**
+ * Positions from the local Keplerian propagator - available for any date, offline
+ */
+export function createPropagatedSampler(bodyIds = [EARTH_ID, ...EVENT_PLANET_IDS]): PositionSampler {
+  return time => propagateBodies(bodyIds, new Date(time).toISOString());
+}
+
+/**
+ * Positions interpolated from heliocentric range series (GET /api/ephemeris/range)
+ */
+export function createSeriesSampler(series: EphemerisSeries[]): PositionSampler {
+  const tracks = buildInterpolationTracks(series);
+  const seriesById = new Map(series.map(item => [item.bodyId, item]));
+
+  return time => tracks.flatMap(track => {
+    const state = interpolateTrack(track, time);
+    const item = seriesById.get(track.bodyId);
+    if (!state || !item) return [];
+    return [{
+      bodyId: track.bodyId,
+      name: item.name,
+      position: state.position,
+      velocity: state.velocity,
+      timestamp: new Date(time).toISOString(),
+      ...(item.centerId && { centerId: item.centerId }),
+    }];
+  });
+}
+
+// --- Public API ---
+
+/**
+ * All events between start and stop (epoch ms), in time order
+ */
+export function findAstronomicalEvents(sampler: PositionSampler, start: number, stop: number): AstronomicalEvent[] {
+  const vectorsAt = (time: number) => getGeocentricVectors(sampler(time));
+
+  // Geocentric quantities as functions of time, NaN when a body is missing
+  const longitudeAt = (bodyId: string, time: number) => {
+    const vector = vectorsAt(time).get(bodyId);
+    return vector ? getLongitude(vector) : NaN;
+  };
+  const elongationAt = (bodyId: string, time: number) => {
+    const vectors = vectorsAt(time);
+    const body = vectors.get(bodyId);
+    const sun = vectors.get(SUN_ID);
+    return body && sun ? angleBetween(body, sun) : NaN;
+  };
+  const longitudeRateAt = (bodyId: string, time: number) =>
+    wrapDegrees(longitudeAt(bodyId, time + DERIVATIVE_STEP_MS) - longitudeAt(bodyId, time - DERIVATIVE_STEP_MS));
+  const elongationRateAt = (bodyId: string, time: number) =>
+    elongationAt(bodyId, time + DERIVATIVE_STEP_MS) - elongationAt(bodyId, time - DERIVATIVE_STEP_MS);
+
+  // Daily scan
+  const times: number[] = [];
+  for (let time = start; time <= stop; time += SCAN_STEP_MS) times.push(time);
+  const snapshots = times.map(vectorsAt);
+
+  const events: AstronomicalEvent[] = [];
+
+  for (let index = 1; index < snapshots.length; index++) {
+    const previous = snapshots[index - 1];
+    const current = snapshots[index];
+    const previousTime = times[index - 1];
+    const currentTime = times[index];
+
+    // Conjunctions: equal longitudes, kept when the planets also pass close in latitude
+    for (const [pairIndex, first] of EVENT_PLANET_IDS.entries()) {
+      for (const second of EVENT_PLANET_IDS.slice(pairIndex + 1)) {
+        const [a0, b0, a1, b1] = [previous.get(first), previous.get(second), current.get(first), current.get(second)];
+        if (!a0 || !b0 || !a1 || !b1) continue;
+
+        const difference = (time: number) => wrapDegrees(longitudeAt(first, time) - longitudeAt(second, time));
+        if (!crossesZero(wrapDegrees(getLongitude(a0) - getLongitude(b0)), wrapDegrees(getLongitude(a1) - getLongitude(b1)))) {
+          continue;
+        }
+
+        const time = bisect(difference, previousTime, currentTime, BISECTION_STEPS);
+        const vectors = vectorsAt(time);
+        const separation = angleBetween(vectors.get(first)!, vectors.get(second)!);
+        if (separation <= MAX_CONJUNCTION_SEPARATION_DEG) {
+          events.push(createEvent({ type: 'CONJUNCTION', bodyIds: [first, second], separation }, time));
+        }
+      }
+    }
+
+    // Oppositions: a superior planet 180° from the Sun in longitude
+    for (const bodyId of SUPERIOR_PLANET_IDS) {
+      const [body0, sun0, body1, sun1] = [previous.get(bodyId), previous.get(SUN_ID), current.get(bodyId), current.get(SUN_ID)];
+      if (!body0 || !sun0 || !body1 || !sun1) continue;
+
+      const fromOpposition = (body: EphemerisPosition, sun: EphemerisPosition) =>
+        wrapDegrees(getLongitude(body) - getLongitude(sun) - 180);
+      if (!crossesZero(fromOpposition(body0, sun0), fromOpposition(body1, sun1))) continue;
+
+      const time = bisect(
+        t => wrapDegrees(longitudeAt(bodyId, t) - longitudeAt(SUN_ID, t) - 180),
+        previousTime,
+        currentTime,
+        BISECTION_STEPS
+      );
+      events.push(createEvent({ type: 'OPPOSITION', bodyIds: [bodyId] }, time));
+    }
+
+    if (index === snapshots.length - 1) continue;
+    const next = snapshots[index + 1];
+    const nextTime = times[index + 1];
+
+    // Greatest elongations: the Sun-planet angle peaks
+    for (const bodyId of INFERIOR_PLANET_IDS) {
+      const elongations = [previous, current, next].map(vectors => {
+        const body = vectors.get(bodyId);
+        const sun = vectors.get(SUN_ID);
+        return body && sun ? angleBetween(body, sun) : NaN;
+      });
+      if (!(elongations[1] > elongations[0] && elongations[1] >= elongations[2])) continue;
+
+      const time = bisect(t => elongationRateAt(bodyId, t), previousTime, nextTime, BISECTION_STEPS);
+      const vectors = vectorsAt(time);
+      const side = wrapDegrees(getLongitude(vectors.get(bodyId)!) - getLongitude(vectors.get(SUN_ID)!)) > 0 ? 'EAST' : 'WEST';
+      events.push(createEvent({ type: 'GREATEST_ELONGATION', bodyIds: [bodyId], separation: elongationAt(bodyId, time), side }, time));
+    }
+
+    // Stations: the daily motion in longitude changes sign
+    for (const bodyId of EVENT_PLANET_IDS) {
+      const [body0, body1, body2] = [previous.get(bodyId), current.get(bodyId), next.get(bodyId)];
+      if (!body0 || !body1 || !body2) continue;
+
+      const rateBefore = wrapDegrees(getLongitude(body1) - getLongitude(body0));
+      const rateAfter = wrapDegrees(getLongitude(body2) - getLongitude(body1));
+      if (!(rateBefore > 0 && rateAfter <= 0) && !(rateBefore < 0 && rateAfter >= 0)) continue;
+
+      const time = bisect(t => longitudeRateAt(bodyId, t), previousTime, nextTime, BISECTION_STEPS);
+      events.push(createEvent({ type: 'STATION', bodyIds: [bodyId], direction: rateBefore > 0 ? 'RETROGRADE' : 'DIRECT' }, time));
+    }
+  }
+
+  return events.sort((a, b) => Date.parse(a.time) - Date.parse(b.time));
+}
+
+/**
+ * Bodies to frame for an event: its planets, the Earth they are seen from,
+ * and the Sun for events measured from it
+ */
+export function getEventBodyIds(event: AstronomicalEvent): string[] {
+  const measuredFromSun = event.type === 'OPPOSITION' || event.type === 'GREATEST_ELONGATION';
+  return [...(measuredFromSun ? [SUN_ID] : []), EARTH_ID, ...event.bodyIds];
+}
+
+/**
+ * Camera target and radius that keep the given bodies in view
+ * @param data - The scene's ephemeris (re-origined on the frame center)
+ */
+export function getFramingTarget(
+  bodyIds: string[],
+  data: EphemerisData[],
+  plane: ReferencePlane
+): { position: EphemerisPosition; radius: number } | null {
+  const points = bodyIds.flatMap(bodyId => {
+    const body = data.find(item => item.bodyId === bodyId && !item.centerId);
+    if (!body) return [];
+    const position = toReferencePlane(body.position, plane);
+    const [x, y, z] = scalePositionFromKm(position.x, position.y, position.z);
+    return [{ x, y, z }];
+  });
+  if (points.length === 0) return null;
+
+  const center = {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+    z: points.reduce((sum, point) => sum + point.z, 0) / points.length,
+  };
+  const spread = Math.max(...points.map(point => Math.hypot(point.x - center.x, point.y - center.y, point.z - center.z)));
+
+  return { position: center, radius: Math.max(MIN_FRAMING_RADIUS, spread) };
+}
@@ -0,0 +1,230 @@
+/**
+ * Reference Frames
+ * Vectors are fetched heliocentric (Sun body center) and re-origined on the frame
+ * center the user picks: the Sun, the solar-system barycenter or any body.
+ * Horizons vectors are geometric (VEC_CORR='NONE'), so re-origining is a plain
+ * subtraction and matches what CENTER='500@<center>' would return.
+ */
+
+import { propagateBodies } from './keplerPropagator';
+import { getPlanetConfig } from './textureConfig';
+import type { EphemerisData, EphemerisPosition, EphemerisSeries } from './types';
+
+// --- Types ---
+
+export interface FrameState {
+  position: EphemerisPosition; // km
+  velocity: EphemerisPosition; // km/s
+}
+
+export interface FramePreset {
+  centerId: string;
+  label: string;
+  description: string;
+}
+
+// --- Constants ---
+
+export const SUN_CENTER_ID = '10';
+export const BARYCENTER_CENTER_ID = '0'; // Horizons' solar-system barycenter (@0)
+export const DEFAULT_CENTER_ID = SUN_CENTER_ID;
+
+// Frames offered up front in the HUD - any other body id works as a center too
+export const FRAME_PRESETS: FramePreset[] = [
+  { centerId: SUN_CENTER_ID, label: 'Sun', description: 'Heliocentric' },
+  { centerId: BARYCENTER_CENTER_ID, label: 'Barycenter', description: 'Solar-system barycenter' },
+  { centerId: '399', label: 'Earth', description: 'Geocentric' },
+];
+
+// GM in km³/s² of the Sun and each planet system (DE440) - only used to estimate
+// the barycenter offline, when Horizons can't provide the Sun's barycentric vector
+const SYSTEM_GM: Record<string, number> = {
+  '10': 132_712_440_041.3,
+  '199': 22_031.9,
+  '299': 324_858.6,
+  '399': 403_503.2, // Earth + Moon
+  '499': 42_828.4,
+  '599': 126_712_764.1,
+  '699': 37_940_584.8,
+  '799': 5_794_556.4,
+  '899': 6_836_527.1,
+};
+
+// Planets propagated to estimate the barycenter when Horizons can't provide it
+const BARYCENTER_PLANET_IDS = Object.keys(SYSTEM_GM).filter(bodyId => bodyId !== SUN_CENTER_ID);
+
+const ZERO: EphemerisPosition = { x: 0, y: 0, z: 0 };
+
+// --- Helper Functions ---
+
+function add(a: EphemerisPosition, b: EphemerisPosition): EphemerisPosition {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+function subtract(a: EphemerisPosition, b: EphemerisPosition): EphemerisPosition {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function scale(a: EphemerisPosition, factor: number): EphemerisPosition {
+  return { x: a.x * factor, y: a.y * factor, z: a.z * factor };
+}
+
+/**
+ * Whether a body's vectors are heliocentric (and so move with the frame)
+ * Satellites stay relative to their parent, whatever the frame
+ */
+function isHeliocentric(centerId: string | undefined): boolean {
+  return !centerId || centerId === SUN_CENTER_ID;
+}
+
+// --- Public API ---
+
+/**
+ * Human-readable name of a frame center
+ */
+export function getFrameLabel(centerId: string, bodyName?: string): string {
+  const preset = FRAME_PRESETS.find(frame => frame.centerId === centerId);
+  return preset?.label ?? bodyName ?? `Body ${centerId}`;
+}
+
+/**
+ * Adds states along a satellite -> parent chain (null if any link is missing)
+ */
+export function composeStates(states: (FrameState | null)[]): FrameState | null {
+  if (states.some(state => state === null)) return null;
+
+  return (states as FrameState[]).reduce(
+    (total, state) => ({
+      position: add(total.position, state.position),
+      velocity: add(total.velocity, state.velocity),
+    }),
+    { position: ZERO, velocity: ZERO }
+  );
+}
+
+/**
+ * Heliocentric state of a body in a heliocentric dataset, following satellite centerId links
+ * Null when the body (or one of its parents) is missing
+ */
+export function getHeliocentricState(bodyId: string, data: EphemerisData[]): FrameState | null {
+  if (bodyId === SUN_CENTER_ID) return { position: ZERO, velocity: ZERO };
+
+  const body = data.find(item => item.bodyId === bodyId);
+  if (!body) return null;
+
+  const own: FrameState = { position: body.position, velocity: body.velocity ?? ZERO };
+  if (isHeliocentric(body.centerId)) return own;
+
+  return composeStates([own, getHeliocentricState(body.centerId!, data)]);
+}
+
+/**
+ * Heliocentric barycenter estimated from the Sun and whichever planets the dataset holds
+ * Good to a few thousand km - Horizons' Sun@0 vector is preferred whenever available
+ */
+export function estimateBarycenterState(data: EphemerisData[]): FrameState {
+  let totalGM = SYSTEM_GM[SUN_CENTER_ID];
+  let position = ZERO;
+  let velocity = ZERO;
+
+  for (const [bodyId, gm] of Object.entries(SYSTEM_GM)) {
+    if (bodyId === SUN_CENTER_ID) continue;
+
+    const state = getHeliocentricState(bodyId, data);
+    if (!state) continue;
+
+    totalGM += gm;
+    position = add(position, scale(state.position, gm));
+    velocity = add(velocity, scale(state.velocity, gm));
+  }
+
+  return { position: scale(position, 1 / totalGM), velocity: scale(velocity, 1 / totalGM) };
+}
+
+/**
+ * Bodies whose heliocentric vectors locate a frame center: the center and, for a satellite, its parent
+ */
+export function getCenterChain(center: string): string[] {
+  if (center === SUN_CENTER_ID || center === BARYCENTER_CENTER_ID) return [];
+
+  const parentId = getPlanetConfig(center)?.parentId;
+  return parentId ? [center, parentId] : [center];
+}
+
+/**
+ * Heliocentric state of the barycenter at a time
+ * From Horizons' barycentric Sun vector when there is one, otherwise estimated from the
+ * planets in `data`, propagating those it doesn't hold
+ */
+export function resolveBarycenterState(
+  sunRelativeToBarycenter: { position: EphemerisPosition; velocity?: EphemerisPosition } | null | undefined,
+  time: string,
+  data: EphemerisData[] = []
+): FrameState {
+  if (sunRelativeToBarycenter) {
+    return barycenterFromSunState({
+      position: sunRelativeToBarycenter.position,
+      velocity: sunRelativeToBarycenter.velocity ?? ZERO,
+    });
+  }
+  return estimateBarycenterState([...data, ...propagateBodies(BARYCENTER_PLANET_IDS, time)]);
+}
+
+/**
+ * Heliocentric state of the barycenter from Horizons' barycentric Sun vector
+ */
+export function barycenterFromSunState(sunRelativeToBarycenter: FrameState): FrameState {
+  return {
+    position: scale(sunRelativeToBarycenter.position, -1),
+    velocity: scale(sunRelativeToBarycenter.velocity, -1),
+  };
+}
+
+/**
+ * Move heliocentric data onto a frame centered on `center` (its heliocentric state)
+ * The Sun ends up at -center; satellites keep their parent-relative vectors
+ */
+export function reoriginEphemeris(data: EphemerisData[], center: FrameState): EphemerisData[] {
+  return data.map(body => {
+    if (!isHeliocentric(body.centerId)) return body;
+
+    return {
+      ...body,
+      position: subtract(body.position, center.position),
+      ...(body.velocity && { velocity: subtract(body.velocity, center.velocity) }),
+    };
+  });
+}
+
+/**
+ * Same as reoriginEphemeris, sample by sample
+ * Samples without a center state (outside its sampled window) are dropped
+ */
+export function reoriginSeries(
+  series: EphemerisSeries[],
+  getCenterState: (time: number) => FrameState | null
+): EphemerisSeries[] {
+  return series.map(item => {
+    if (!isHeliocentric(item.centerId)) return item;
+
+    const samples = item.samples.flatMap(sample => {
+      const center = getCenterState(Date.parse(sample.timestamp));
+      if (!center) return [];
+
+      return [{
+        ...sample,
+        position: subtract(sample.position, center.position),
+        ...(sample.velocity && { velocity: subtract(sample.velocity, center.velocity) }),
+      }];
+    });
+
+    return { ...item, samples };
+  });
+}
+
+/**
+ * Moves a heliocentric position into a frame, given where the Sun sits in it
+ */
+export function heliocentricToFrame(position: EphemerisPosition, sunPosition: EphemerisPosition): EphemerisPosition {
+  return add(position, sunPosition);
+}
@@ -0,0 +1,132 @@
+/**
+ * Ephemeris Interpolation
+ * Cubic Hermite interpolation between ephemeris samples, using the sampled
+ * velocity vectors as tangents so planets follow their curved paths
+ */
+import type { EphemerisPosition, EphemerisSeries, EphemerisSample } from './types';
+
+// --- Types ---
+
+/**
+ * A series prepared for repeated lookups (timestamps parsed once, sorted)
+ */
+export interface InterpolationTrack {
+  bodyId: string;
+  times: number[]; // Epoch milliseconds, ascending
+  samples: EphemerisSample[];
+}
+
+export interface InterpolatedState {
+  position: EphemerisPosition; // km
+  velocity: EphemerisPosition; // km/s
+}
+
+// --- Helper Functions ---
+
+/**
+ * Tangent for a sample in km/s - falls back to the chord when the sample has no velocity
+ */
+function getTangent(
+  sample: EphemerisSample,
+  chord: EphemerisPosition,
+  dtSeconds: number
+): EphemerisPosition {
+  if (sample.velocity) return sample.velocity;
+  return {
+    x: chord.x / dtSeconds,
+    y: chord.y / dtSeconds,
+    z: chord.z / dtSeconds,
+  };
+}
+
+/**
+ * Index of the last sample at or before the given time (binary search)
+ */
+function findSegmentIndex(times: number[], time: number): number {
+  let low = 0;
+  let high = times.length - 1;
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (times[mid] <= time) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return low;
+}
+
+// --- Public API ---
+
+/**
+ * Prepare range series for interpolation
+ */
+export function buildInterpolationTracks(series: EphemerisSeries[]): InterpolationTrack[] {
+  return series.map(({ bodyId, samples }) => {
+    const sorted = [...samples].sort(
+      (a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)
+    );
+    return {
+      bodyId,
+      times: sorted.map(sample => Date.parse(sample.timestamp)),
+      samples: sorted,
+    };
+  });
+}
+
+/**
+ * Interpolate a track at the given time (epoch ms)
+ * Returns null when the time lies outside the sampled window
+ */
+export function interpolateTrack(track: InterpolationTrack, time: number): InterpolatedState | null {
+  const { times, samples } = track;
+  if (times.length === 0 || time < times[0] || time > times[times.length - 1]) {
+    return null;
+  }
+
+  const index = Math.min(findSegmentIndex(times, time), times.length - 2);
+
+  // Single sample that matches exactly
+  if (index < 0) {
+    const only = samples[0];
+    return { position: only.position, velocity: only.velocity ?? { x: 0, y: 0, z: 0 } };
+  }
+
+  const p0 = samples[index].position;
+  const p1 = samples[index + 1].position;
+  const dtSeconds = (times[index + 1] - times[index]) / 1000;
+  const chord = { x: p1.x - p0.x, y: p1.y - p0.y, z: p1.z - p0.z };
+  const m0 = getTangent(samples[index], chord, dtSeconds);
+  const m1 = getTangent(samples[index + 1], chord, dtSeconds);
+
+  const s = (time - times[index]) / (times[index + 1] - times[index]);
+  const s2 = s * s;
+  const s3 = s2 * s;
+
+  // Hermite basis functions and their derivatives with respect to s
+  const h00 = 2 * s3 - 3 * s2 + 1;
+  const h10 = s3 - 2 * s2 + s;
+  const h01 = -2 * s3 + 3 * s2;
+  const h11 = s3 - s2;
+
+  const d00 = 6 * s2 - 6 * s;
+  const d10 = 3 * s2 - 4 * s + 1;
+  const d01 = -6 * s2 + 6 * s;
+  const d11 = 3 * s2 - 2 * s;
+
+  const axis = (key: keyof EphemerisPosition) => ({
+    position: h00 * p0[key] + h10 * dtSeconds * m0[key] + h01 * p1[key] + h11 * dtSeconds * m1[key],
+    velocity: (d00 * p0[key] + d10 * dtSeconds * m0[key] + d01 * p1[key] + d11 * dtSeconds * m1[key]) / dtSeconds,
+  });
+
+  const x = axis('x');
+  const y = axis('y');
+  const z = axis('z');
+
+  return {
+    position: { x: x.position, y: y.position, z: z.position },
+    velocity: { x: x.velocity, y: y.velocity, z: z.velocity },
+  };
+}
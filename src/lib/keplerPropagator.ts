@@ -0,0 +1,211 @@
+/**
+ * Keplerian Ephemeris Propagator
+ * Computes approximate state vectors from the orbital elements in PLANET_CONFIG
+ * (heliocentric for planets, parent-relative for satellites)
+ * Used whenever NASA Horizons is unreachable (offline / FALLBACK_DATASET mode)
+ */
+import type { EphemerisData, EphemerisPosition } from './types';
+import { PLANET_CONFIG, type PlanetConfig } from './textureConfig';
+import { getTdbMinusUtcSeconds } from './time';
+
+// --- Constants ---
+
+// 1 AU = 149,597,870.7 km (same value used by nasaClient)
+const AU_TO_KM = 149_597_870.7;
+const AU_PER_DAY_TO_KM_PER_SEC = AU_TO_KM / 86400;
+
+// Julian day of the J2000.0 epoch (2000-01-01 12:00 TT)
+const J2000_JD = 2451545.0;
+const DAYS_PER_CENTURY = 36525;
+
+const KEPLER_TOLERANCE = 1e-10;
+const KEPLER_MAX_ITERATIONS = 30;
+
+// --- Types ---
+
+export interface OrbitalElements {
+  meanMotion: number; // Degrees/day
+  semiMajorAxis: number; // AU
+  eccentricity: number;
+  inclination: number; // Degrees
+  meanLongitude: number; // Degrees
+  longPerihelion: number; // Degrees
+  longAscNode: number; // Degrees
+}
+
+export interface StateVector {
+  position: EphemerisPosition; // km (Three.js axes)
+  velocity: EphemerisPosition; // km/s (Three.js axes)
+}
+
+// --- Helper Functions ---
+
+function degToRad(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+/**
+ * Wraps an angle in radians to the range [-π, π]
+ */
+function normalizeAngle(radians: number): number {
+  const twoPi = 2 * Math.PI;
+  const wrapped = ((radians % twoPi) + twoPi) % twoPi;
+  return wrapped > Math.PI ? wrapped - twoPi : wrapped;
+}
+
+/**
+ * Converts an ISO date (YYYY-MM-DD or full timestamp, UTC) to a Julian day number
+ */
+export function dateToJulianDay(date: string | Date): number {
+  const time = typeof date === 'string' ? new Date(date).getTime() : date.getTime();
+  return time / 86400000 + 2440587.5;
+}
+
+/**
+ * Solves Kepler's equation M = E - e·sin(E) for the eccentric anomaly E (radians)
+ * Newton-Raphson iteration, starting from E = π for high eccentricities
+ */
+export function solveKepler(meanAnomaly: number, eccentricity: number): number {
+  const M = normalizeAngle(meanAnomaly);
+  let E = eccentricity < 0.8 ? M : Math.PI * Math.sign(M || 1);
+
+  for (let i = 0; i < KEPLER_MAX_ITERATIONS; i++) {
+    const delta = (E - eccentricity * Math.sin(E) - M) / (1 - eccentricity * Math.cos(E));
+    E -= delta;
+    if (Math.abs(delta) < KEPLER_TOLERANCE) break;
+  }
+
+  return E;
+}
+
+/**
+ * Returns the osculating elements of a body at the given Julian day
+ * Base values come from PLANET_CONFIG, drifted linearly by centennialRates
+ */
+export function getElementsAtJulianDay(config: PlanetConfig, julianDay: number): OrbitalElements {
+  const T = (julianDay - J2000_JD) / DAYS_PER_CENTURY;
+  const rates = config.centennialRates;
+
+  return {
+    meanMotion: rates.meanLongitude / DAYS_PER_CENTURY,
+    semiMajorAxis: config.meanDistanceAU + rates.semiMajorAxis * T,
+    eccentricity: config.eccentricity + rates.eccentricity * T,
+    inclination: config.orbitalInclination + rates.inclination * T,
+    meanLongitude: config.meanLongitude + rates.meanLongitude * T,
+    longPerihelion: config.longPerihelion + rates.longPerihelion * T,
+    longAscNode: config.longAscNode + rates.longAscNode * T,
+  };
+}
+
+/**
+ * Computes the state vector for a set of orbital elements, relative to the central body
+ * Output uses the same units and axis swap as nasaClient (km, km/s, ecliptic Z -> Three.js Y)
+ */
+export function elementsToStateVector(elements: OrbitalElements): StateVector {
+  const a = elements.semiMajorAxis;
+  const e = elements.eccentricity;
+  const i = degToRad(elements.inclination);
+  const Omega = degToRad(elements.longAscNode);
+  const omega = degToRad(elements.longPerihelion - elements.longAscNode);
+  const M = degToRad(elements.meanLongitude - elements.longPerihelion);
+
+  // 1. Position and velocity in the orbital plane (perihelion along +x')
+  const E = solveKepler(M, e);
+  const cosE = Math.cos(E);
+  const sinE = Math.sin(E);
+  const sqrtOneMinusE2 = Math.sqrt(1 - e * e);
+
+  const xPrime = a * (cosE - e);
+  const yPrime = a * sqrtOneMinusE2 * sinE;
+
+  const meanMotion = degToRad(elements.meanMotion); // rad/day
+  const eDot = meanMotion / (1 - e * cosE);
+  const vxPrime = -a * sinE * eDot;
+  const vyPrime = a * sqrtOneMinusE2 * cosE * eDot;
+
+  // 2. Rotate into the ecliptic frame: Rz(Ω) · Rx(i) · Rz(ω)
+  const cosO = Math.cos(Omega);
+  const sinO = Math.sin(Omega);
+  const cosw = Math.cos(omega);
+  const sinw = Math.sin(omega);
+  const cosi = Math.cos(i);
+  const sini = Math.sin(i);
+
+  const rotate = (px: number, py: number) => ({
+    x: (cosw * cosO - sinw * sinO * cosi) * px + (-sinw * cosO - cosw * sinO * cosi) * py,
+    y: (cosw * sinO + sinw * cosO * cosi) * px + (-sinw * sinO + cosw * cosO * cosi) * py,
+    z: (sinw * sini) * px + (cosw * sini) * py,
+  });
+
+  const r = rotate(xPrime, yPrime); // AU
+  const v = rotate(vxPrime, vyPrime); // AU/day
+
+  // 3. Convert units and swap axes like parseVectorFromResponse
+  return {
+    position: {
+      x: r.x * AU_TO_KM,
+      y: r.z * AU_TO_KM, // Z in astronomy -> Y in Three.js (up)
+      z: r.y * AU_TO_KM, // Y in astronomy -> Z in Three.js
+    },
+    velocity: {
+      x: v.x * AU_PER_DAY_TO_KM_PER_SEC,
+      y: v.z * AU_PER_DAY_TO_KM_PER_SEC, // Z -> Y
+      z: v.y * AU_PER_DAY_TO_KM_PER_SEC, // Y -> Z
+    },
+  };
+}
+
+// --- Public API ---
+
+/**
+ * Propagate a single body to the given UTC date or timestamp
+ * Returns null for bodies with no orbital elements in PLANET_CONFIG
+ * Satellites are returned relative to their parent (centerId)
+ */
+export function propagateBody(bodyId: string, date: string): EphemerisData | null {
+  const config = PLANET_CONFIG[bodyId];
+  if (!config) return null;
+
+  const timestamp = new Date().toISOString();
+
+  // The Sun sits at the origin of the heliocentric frame
+  if (config.type === 'STAR') {
+    return {
+      bodyId,
+      name: config.englishName,
+      position: { x: 0, y: 0, z: 0 },
+      velocity: { x: 0, y: 0, z: 0 },
+      timestamp,
+    };
+  }
+
+  // Without a mean motion there is nothing to propagate
+  if (config.centennialRates.meanLongitude === 0) return null;
+
+  const utcJulianDay = dateToJulianDay(date);
+  if (!isFinite(utcJulianDay)) return null;
+
+  // Element rates run on TDB - shift the UTC instant onto that scale
+  const julianDay = utcJulianDay + getTdbMinusUtcSeconds(new Date(date).getTime()) / 86400;
+
+  const elements = getElementsAtJulianDay(config, julianDay);
+  const { position, velocity } = elementsToStateVector(elements);
+
+  return {
+    bodyId,
+    name: config.englishName,
+    position,
+    velocity,
+    timestamp,
+    ...(config.parentId && { centerId: config.parentId }),
+  };
+}
+
+/**
+ * Propagate several bodies to the given date, skipping unknown IDs
+ */
+export function propagateBodies(bodyIds: string[], date: string): EphemerisData[] {
+  return bodyIds
+    .map(bodyId => propagateBody(bodyId, date))
+    .filter((data): data is EphemerisData => data !== null);
+}
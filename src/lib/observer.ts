@@ -0,0 +1,270 @@
+/**
+ * Observer Geometry
+ * Where bodies appear in the sky from a site on Earth: right ascension and
+ * declination, azimuth and elevation, elongation from the Sun and phase.
+ * Horizons OBSERVER tables are the source of truth; these functions compute the
+ * same quantities from heliocentric vectors when Horizons is unreachable
+ * (FALLBACK_DATASET), good to a fraction of a degree with propagated positions.
+ * Light time, aberration and refraction are ignored.
+ */
+
+import { getHeliocentricState } from './frames';
+import { toReferencePlane } from './coordinates';
+import type { EphemerisData, EphemerisPosition, ObserverData, ObserverSite } from './types';
+
+// --- Types ---
+
+export type SkyVisibility =
+  | 'VISIBLE' // Above the horizon in a dark enough sky
+  | 'NEEDS_TELESCOPE' // Up, but fainter than the naked-eye limit
+  | 'NEAR_SUN' // Lost in the Sun's glare
+  | 'DAYLIGHT' // Up, but the Sun is too
+  | 'BELOW_HORIZON';
+
+// --- Constants ---
+
+// Default site: the Royal Observatory, Greenwich
+export const DEFAULT_OBSERVER_SITE: ObserverSite = {
+  latitude: 51.4769,
+  longitude: -0.0005,
+  altitudeKm: 0.046,
+};
+
+// Bodies listed in the sky panel: the Sun (for the twilight state), the Moon and the planets
+export const OBSERVER_BODY_IDS = ['10', '301', '199', '299', '499', '599', '699', '799', '899'];
+
+const SUN_ID = '10';
+const EARTH_ID = '399';
+
+// WGS-84 equatorial radius - the site is placed on a sphere, a few km off at most
+const EARTH_RADIUS_KM = 6378.137;
+
+const J2000_JD = 2451545.0;
+const DAYS_PER_CENTURY = 36525;
+
+// Sun elevation below which the sky counts as dark (civil twilight ends at -6°)
+const DARK_SKY_SUN_ELEVATION = -6;
+
+// Naked-eye limit, and the Sun's glare radius
+const NAKED_EYE_MAGNITUDE = 6;
+const SUN_GLARE_ELONGATION = 10;
+
+// Never brighter than the naked-eye limit - used when no magnitude is known (offline)
+const TELESCOPIC_BODY_IDS = ['899'];
+
+const COMPASS_POINTS = [
+  'N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
+  'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW',
+];
+
+// --- Helper Functions ---
+
+function degToRad(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+function radToDeg(radians: number): number {
+  return radians * (180 / Math.PI);
+}
+
+function normalizeDegrees(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+function subtract(a: EphemerisPosition, b: EphemerisPosition): EphemerisPosition {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function angleBetween(a: EphemerisPosition, b: EphemerisPosition): number {
+  const dot = a.x * b.x + a.y * b.y + a.z * b.z;
+  const lengths = Math.hypot(a.x, a.y, a.z) * Math.hypot(b.x, b.y, b.z);
+  return radToDeg(Math.acos(Math.min(1, Math.max(-1, dot / lengths))));
+}
+
+/**
+ * Scene-axes ecliptic vector (as parsed from Horizons) -> equatorial x/y/z (z to the celestial pole)
+ */
+function toEquatorialAxes(vector: EphemerisPosition): EphemerisPosition {
+  const rotated = toReferencePlane(vector, 'equatorial');
+  return { x: rotated.x, y: rotated.z, z: rotated.y };
+}
+
+/**
+ * Site position relative to the geocenter, equatorial axes, km
+ */
+function getSiteVector(site: ObserverSite, time: number): EphemerisPosition {
+  const localSidereal = degToRad(getLocalSiderealDeg(time, site.longitude));
+  const latitude = degToRad(site.latitude);
+  const radius = EARTH_RADIUS_KM + site.altitudeKm;
+
+  return {
+    x: radius * Math.cos(latitude) * Math.cos(localSidereal),
+    y: radius * Math.cos(latitude) * Math.sin(localSidereal),
+    z: radius * Math.sin(latitude),
+  };
+}
+
+// --- Public API ---
+
+/**
+ * Key of an observer site for caching and request coalescing
+ * Coordinates are rounded to 1e-4° (about 10 m) and 1 m of altitude
+ */
+export function getObserverSiteKey(site: ObserverSite): string {
+  return `${site.latitude.toFixed(4)},${site.longitude.toFixed(4)},${site.altitudeKm.toFixed(3)}`;
+}
+
+/**
+ * Greenwich mean sidereal time in degrees (IAU 1982, UT1 taken as UTC)
+ */
+export function getGreenwichSiderealDeg(time: number): number {
+  const daysFromJ2000 = time / 86_400_000 + 2440587.5 - J2000_JD;
+  const centuries = daysFromJ2000 / DAYS_PER_CENTURY;
+
+  return normalizeDegrees(
+    280.46061837
+    + 360.98564736629 * daysFromJ2000
+    + 0.000387933 * centuries ** 2
+    - centuries ** 3 / 38_710_000
+  );
+}
+
+export function getLocalSiderealDeg(time: number, longitude: number): number {
+  return normalizeDegrees(getGreenwichSiderealDeg(time) + longitude);
+}
+
+/**
+ * Right ascension and declination (degrees) of an equatorial-axes direction
+ */
+export function toRaDec(vector: EphemerisPosition): { rightAscension: number; declination: number } {
+  const distance = Math.hypot(vector.x, vector.y, vector.z);
+  return {
+    rightAscension: normalizeDegrees(radToDeg(Math.atan2(vector.y, vector.x))),
+    declination: radToDeg(Math.asin(vector.z / distance)),
+  };
+}
+
+/**
+ * Azimuth (from north through east) and elevation of a sky position seen from a site
+ */
+export function toHorizontal(
+  rightAscension: number,
+  declination: number,
+  site: ObserverSite,
+  time: number
+): { azimuth: number; elevation: number } {
+  const hourAngle = degToRad(getLocalSiderealDeg(time, site.longitude) - rightAscension);
+  const dec = degToRad(declination);
+  const lat = degToRad(site.latitude);
+
+  // Unit vector in the local east / north / up frame
+  const east = -Math.cos(dec) * Math.sin(hourAngle);
+  const north = Math.sin(dec) * Math.cos(lat) - Math.cos(dec) * Math.cos(hourAngle) * Math.sin(lat);
+  const up = Math.sin(dec) * Math.sin(lat) + Math.cos(dec) * Math.cos(hourAngle) * Math.cos(lat);
+
+  return {
+    azimuth: normalizeDegrees(radToDeg(Math.atan2(east, north))),
+    elevation: radToDeg(Math.asin(Math.min(1, Math.max(-1, up)))),
+  };
+}
+
+/**
+ * Topocentric sky position of a body from its geocentric vector (km, scene axes, ecliptic)
+ */
+export function getTopocentricPosition(
+  geocentric: EphemerisPosition,
+  site: ObserverSite,
+  time: number
+): { rightAscension: number; declination: number; azimuth: number; elevation: number } {
+  // The site offset matters for the Moon (about 1°)
+  const { rightAscension, declination } = toRaDec(subtract(toEquatorialAxes(geocentric), getSiteVector(site, time)));
+  return { rightAscension, declination, ...toHorizontal(rightAscension, declination, site, time) };
+}
+
+/**
+ * Observer quantities of one body from heliocentric vectors (km, scene axes, ecliptic)
+ * Magnitude and constellation are left out - they come from Horizons only
+ */
+export function observeBody(
+  bodyId: string,
+  name: string,
+  bodyPosition: EphemerisPosition,
+  earthPosition: EphemerisPosition,
+  site: ObserverSite,
+  time: number
+): ObserverData {
+  const siteVector = getSiteVector(site, time);
+
+  // Topocentric directions
+  const toBody = subtract(toEquatorialAxes(subtract(bodyPosition, earthPosition)), siteVector);
+  const toSun = subtract(toEquatorialAxes(subtract({ x: 0, y: 0, z: 0 }, earthPosition)), siteVector);
+
+  const observation: ObserverData = {
+    bodyId,
+    name,
+    ...getTopocentricPosition(subtract(bodyPosition, earthPosition), site, time),
+    timestamp: new Date().toISOString(),
+  };
+
+  if (bodyId === SUN_ID) return { ...observation, elongation: 0, illumination: 100 };
+
+  // Phase angle at the body between the Sun and the observer
+  const phaseAngle = angleBetween(
+    subtract({ x: 0, y: 0, z: 0 }, bodyPosition),
+    subtract(earthPosition, bodyPosition)
+  );
+
+  // East of the Sun (larger right ascension, within half a turn) trails it into the evening sky
+  const sunRightAscension = toRaDec(toSun).rightAscension;
+  const isEast = normalizeDegrees(observation.rightAscension - sunRightAscension) < 180;
+
+  return {
+    ...observation,
+    illumination: ((1 + Math.cos(degToRad(phaseAngle))) / 2) * 100,
+    elongation: angleBetween(toBody, toSun),
+    elongationSide: isEast ? 'T' : 'L',
+  };
+}
+
+/**
+ * Observer quantities for several bodies from a heliocentric dataset (e.g. propagated fallback)
+ * Bodies missing from the dataset, or the dataset without the Earth, are left out
+ */
+export function observeBodies(
+  bodyIds: string[],
+  data: EphemerisData[],
+  site: ObserverSite,
+  time: number
+): ObserverData[] {
+  const earth = getHeliocentricState(EARTH_ID, data);
+  if (!earth) return [];
+
+  return bodyIds.flatMap(bodyId => {
+    const state = getHeliocentricState(bodyId, data);
+    if (!state) return [];
+
+    const name = data.find(body => body.bodyId === bodyId)?.name ?? bodyId;
+    return [observeBody(bodyId, name, state.position, earth.position, site, time)];
+  });
+}
+
+/**
+ * How a body can be seen right now, given the Sun's elevation at the site
+ */
+export function getSkyVisibility(observation: ObserverData, sunElevation: number): SkyVisibility {
+  if (observation.elevation < 0) return 'BELOW_HORIZON';
+  if (observation.elongation !== undefined && observation.elongation < SUN_GLARE_ELONGATION) return 'NEAR_SUN';
+  if (sunElevation > DARK_SKY_SUN_ELEVATION) return 'DAYLIGHT';
+  const isFaint = observation.magnitude !== undefined
+    ? observation.magnitude > NAKED_EYE_MAGNITUDE
+    : TELESCOPIC_BODY_IDS.includes(observation.bodyId);
+  if (isFaint) return 'NEEDS_TELESCOPE';
+  return 'VISIBLE';
+}
+
+/**
+ * 16-point compass direction of an azimuth, e.g. 'ESE'
+ */
+export function getCompassPoint(azimuth: number): string {
+  return COMPASS_POINTS[Math.round(normalizeDegrees(azimuth) / 22.5) % COMPASS_POINTS.length];
+}
@@ -0,0 +1,152 @@
+/**
+ * Procedural Surface Textures
+ * Generates a deterministic cratered surface for bodies that ship no texture file
+ * (dwarf planets, asteroids). Client-side only - draws on a canvas.
+ */
+import * as THREE from 'three';
+
+// --- Constants ---
+
+// Equirectangular 2:1 map
+const TEXTURE_WIDTH = 512;
+const TEXTURE_HEIGHT = 256;
+
+// Noise octaves (grid cells across the map) and their blend strength
+const NOISE_OCTAVES = [
+  { cellsX: 8, cellsY: 4, strength: 0.45 },
+  { cellsX: 32, cellsY: 16, strength: 0.25 },
+  { cellsX: 128, cellsY: 64, strength: 0.12 },
+];
+
+const CRATER_COUNT = 70;
+const MIN_CRATER_RADIUS = 2;
+const MAX_CRATER_RADIUS = 22;
+
+// Generated textures are shared between renders and view modes
+const textureCache = new Map<string, THREE.CanvasTexture>();
+
+// --- Helper Functions ---
+
+/**
+ * FNV-1a hash - turns the body ID into a stable seed
+ */
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32 PRNG - same seed, same surface on every load
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Blends one octave of grey value noise over the map (bilinear upscale of a small random grid)
+ */
+function drawNoiseOctave(
+  context: CanvasRenderingContext2D,
+  random: () => number,
+  cellsX: number,
+  cellsY: number,
+  strength: number
+): void {
+  const grid = document.createElement('canvas');
+  grid.width = cellsX;
+  grid.height = cellsY;
+  const gridContext = grid.getContext('2d');
+  if (!gridContext) return;
+
+  const image = gridContext.createImageData(cellsX, cellsY);
+  for (let i = 0; i < cellsX * cellsY; i++) {
+    const value = Math.floor(random() * 255);
+    image.data[i * 4] = value;
+    image.data[i * 4 + 1] = value;
+    image.data[i * 4 + 2] = value;
+    image.data[i * 4 + 3] = 255;
+  }
+  gridContext.putImageData(image, 0, 0);
+
+  context.save();
+  context.globalCompositeOperation = 'soft-light';
+  context.globalAlpha = strength;
+  context.imageSmoothingEnabled = true;
+  context.drawImage(grid, 0, 0, TEXTURE_WIDTH, TEXTURE_HEIGHT);
+  context.restore();
+}
+
+/**
+ * Draws bowl-shaped craters: dark floor, bright rim
+ * Kept away from the poles, where the equirectangular map stretches them
+ */
+function drawCraters(context: CanvasRenderingContext2D, random: () => number): void {
+  for (let i = 0; i < CRATER_COUNT; i++) {
+    const x = random() * TEXTURE_WIDTH;
+    const y = TEXTURE_HEIGHT * (0.15 + random() * 0.7);
+    const radius = MIN_CRATER_RADIUS + Math.pow(random(), 3) * (MAX_CRATER_RADIUS - MIN_CRATER_RADIUS);
+
+    const floor = context.createRadialGradient(x, y, 0, x, y, radius);
+    floor.addColorStop(0, 'rgba(0, 0, 0, 0.28)');
+    floor.addColorStop(0.8, 'rgba(0, 0, 0, 0.12)');
+    floor.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    context.fillStyle = floor;
+    context.beginPath();
+    context.arc(x, y, radius, 0, Math.PI * 2);
+    context.fill();
+
+    context.strokeStyle = 'rgba(255, 255, 255, 0.12)';
+    context.lineWidth = Math.max(1, radius * 0.15);
+    context.beginPath();
+    context.arc(x, y, radius * 0.9, 0, Math.PI * 2);
+    context.stroke();
+  }
+}
+
+// --- Public API ---
+
+/**
+ * Returns a procedural surface texture for a body, tinted with its fallback color
+ * @param seed - Stable key (the body ID) so each body keeps its own surface
+ */
+export function getProceduralTexture(seed: string, baseColor: string): THREE.CanvasTexture {
+  const cacheKey = `${seed}:${baseColor}`;
+  const cached = textureCache.get(cacheKey);
+  if (cached) return cached;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = TEXTURE_WIDTH;
+  canvas.height = TEXTURE_HEIGHT;
+  const context = canvas.getContext('2d');
+
+  if (context) {
+    const random = createRandom(hashString(seed));
+
+    context.fillStyle = baseColor;
+    context.fillRect(0, 0, TEXTURE_WIDTH, TEXTURE_HEIGHT);
+
+    for (const octave of NOISE_OCTAVES) {
+      drawNoiseOctave(context, random, octave.cellsX, octave.cellsY, octave.strength);
+    }
+    drawCraters(context, random);
+  } else {
+    console.warn('[proceduralTexture] 2D canvas unavailable, using a flat color');
+  }
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.wrapS = THREE.RepeatWrapping;
+  textureCache.set(cacheKey, texture);
+
+  return texture;
+}
@@ -0,0 +1,175 @@
+/**
+ * Rise, Transit and Set
+ * Local rise, culmination and set times of a body over one local day, computed
+ * from the state vectors already loaded for the scene (Horizons or propagated),
+ * so they work offline too. Over a day the body's position relative to the
+ * Earth is extrapolated linearly from the velocities - good to about a minute
+ * for the planets and a few minutes for the Moon.
+ */
+
+import { composeStates, getHeliocentricState, reoriginEphemeris, type FrameState } from './frames';
+import { getLocalSiderealDeg, getTopocentricPosition } from './observer';
+import { bisect } from './rootFinding';
+import type { EphemerisData, EphemerisPosition, ObserverSite } from './types';
+
+// --- Types ---
+
+export interface RiseTransitSet {
+  bodyId: string;
+  rise: number | null; // Epoch milliseconds, null when the body doesn't rise that day
+  transit: number | null; // Upper culmination
+  set: number | null;
+  maxAltitude: number; // Degrees - at transit, or the highest point of the day without one
+  alwaysUp: boolean; // Circumpolar that day
+  neverUp: boolean;
+}
+
+// --- Constants ---
+
+const SUN_ID = '10';
+const MOON_ID = '301';
+const EARTH_ID = '399';
+
+const MS_PER_DAY = 86_400_000;
+
+// Horizon altitude of the center at rise/set: refraction (34'), plus the
+// semi-diameter for the Sun and the Moon (16')
+const STANDARD_ALTITUDE_DEG = -0.5667;
+const DISK_ALTITUDE_DEG = -0.8333;
+
+// Elevation sampled every 10 minutes, crossings refined by bisection to about a second
+const SAMPLE_STEP_MS = 10 * 60_000;
+const BISECTION_STEPS = 10;
+
+// --- Helper Functions ---
+
+function getHorizonAltitude(bodyId: string): number {
+  return bodyId === SUN_ID || bodyId === MOON_ID ? DISK_ALTITUDE_DEG : STANDARD_ALTITUDE_DEG;
+}
+
+/**
+ * Start of the local (mean solar) day containing `time` at a longitude
+ */
+export function getLocalDayStart(time: number, longitude: number): number {
+  const offset = (longitude / 360) * MS_PER_DAY;
+  return Math.floor((time + offset) / MS_PER_DAY) * MS_PER_DAY - offset;
+}
+
+/**
+ * Geocentric position at a time, moving linearly from the snapshot
+ */
+function extrapolate(relative: FrameState, stateTime: number, time: number): EphemerisPosition {
+  const seconds = (time - stateTime) / 1000;
+  return {
+    x: relative.position.x + relative.velocity.x * seconds,
+    y: relative.position.y + relative.velocity.y * seconds,
+    z: relative.position.z + relative.velocity.z * seconds,
+  };
+}
+
+// --- Public API ---
+
+/**
+ * Rise, transit and set of a body over the local day starting at dayStart
+ * @param relative - State of the body relative to the Earth's center at stateTime (km, km/s)
+ */
+export function getRiseTransitSet(
+  bodyId: string,
+  relative: FrameState,
+  stateTime: number,
+  site: ObserverSite,
+  dayStart: number
+): RiseTransitSet {
+  const horizon = getHorizonAltitude(bodyId);
+  const positionAt = (time: number) => getTopocentricPosition(extrapolate(relative, stateTime, time), site, time);
+
+  const altitudeAboveHorizon = (time: number) => positionAt(time).elevation - horizon;
+  // Hour angle in (-180, 180] - zero at the upper culmination
+  const hourAngle = (time: number) => {
+    const angle = (getLocalSiderealDeg(time, site.longitude) - positionAt(time).rightAscension) % 360;
+    return angle > 180 ? angle - 360 : angle <= -180 ? angle + 360 : angle;
+  };
+
+  let rise: number | null = null;
+  let set: number | null = null;
+  let transit: number | null = null;
+
+  let previousTime = dayStart;
+  let previousAltitude = altitudeAboveHorizon(dayStart);
+  let previousHourAngle = hourAngle(dayStart);
+  let highest = previousAltitude;
+  let hasAbove = previousAltitude >= 0;
+  let hasBelow = previousAltitude < 0;
+
+  for (let time = dayStart + SAMPLE_STEP_MS; time <= dayStart + MS_PER_DAY; time += SAMPLE_STEP_MS) {
+    const altitude = altitudeAboveHorizon(time);
+    const angle = hourAngle(time);
+
+    highest = Math.max(highest, altitude);
+    if (altitude >= 0) hasAbove = true;
+    else hasBelow = true;
+
+    if (rise === null && previousAltitude < 0 && altitude >= 0) {
+      rise = Math.round(bisect(altitudeAboveHorizon, previousTime, time, BISECTION_STEPS));
+    }
+    if (set === null && previousAltitude >= 0 && altitude < 0) {
+      set = Math.round(bisect(altitudeAboveHorizon, previousTime, time, BISECTION_STEPS));
+    }
+    // Negative to positive through zero, not the wrap at ±180°
+    if (transit === null && previousHourAngle < 0 && angle >= 0 && angle - previousHourAngle < 180) {
+      transit = Math.round(bisect(hourAngle, previousTime, time, BISECTION_STEPS));
+    }
+
+    previousTime = time;
+    previousAltitude = altitude;
+    previousHourAngle = angle;
+  }
+
+  return {
+    bodyId,
+    rise,
+    transit,
+    set,
+    maxAltitude: transit !== null ? positionAt(transit).elevation : highest + horizon,
+    alwaysUp: !hasBelow,
+    neverUp: !hasAbove,
+  };
+}
+
+/**
+ * Rise, transit and set of several bodies over the local day containing `time`
+ * @param data - Vectors at `time` in any frame (re-origined data is fine - only differences are used)
+ */
+export function getRiseSetTable(
+  bodyIds: string[],
+  data: EphemerisData[],
+  site: ObserverSite,
+  time: number
+): RiseTransitSet[] {
+  // Back to heliocentric, where the Sun is the origin
+  const sun = data.find(body => body.bodyId === SUN_ID);
+  const heliocentric = sun
+    ? reoriginEphemeris(data, {
+      position: sun.position,
+      velocity: sun.velocity ?? { x: 0, y: 0, z: 0 },
+    })
+    : data;
+
+  const earth = getHeliocentricState(EARTH_ID, heliocentric);
+  if (!earth) return [];
+
+  const dayStart = getLocalDayStart(time, site.longitude);
+
+  return bodyIds.flatMap(bodyId => {
+    const state = getHeliocentricState(bodyId, heliocentric);
+    if (!state || bodyId === EARTH_ID) return [];
+
+    // Body relative to the Earth: body - earth
+    const relative = composeStates([state, {
+      position: { x: -earth.position.x, y: -earth.position.y, z: -earth.position.z },
+      velocity: { x: -earth.velocity.x, y: -earth.velocity.y, z: -earth.velocity.z },
+    }])!;
+
+    return [getRiseTransitSet(bodyId, relative, time, site, dayStart)];
+  });
+}
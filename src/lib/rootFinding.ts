@@ -0,0 +1,61 @@
+/**
+ * Root Finding
+ * One-dimensional searches over time shared by the scanners (rise/set, events,
+ * eclipses, closest approach): each scans on a coarse step, then refines a
+ * sign change or a minimum inside the bracket it found.
+ */
+
+// --- Constants ---
+
+const GOLDEN_RATIO_CONJUGATE = (Math.sqrt(5) - 1) / 2;
+
+const DEFAULT_MINIMUM_SEARCH_STEPS = 30;
+
+// --- Public API ---
+
+/**
+ * Time in (start, end] where `f` changes sign, by bisection
+ * Each step halves the bracket - pick `steps` for the resolution needed
+ */
+export function bisect(f: (time: number) => number, start: number, end: number, steps: number): number {
+  let low = start;
+  let high = end;
+  const lowSign = Math.sign(f(low));
+
+  for (let step = 0; step < steps; step++) {
+    const middle = (low + high) / 2;
+    if (Math.sign(f(middle)) === lowSign) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+/**
+ * Time of the minimum of `f` in [start, end], by golden-section search
+ * `f` must have a single minimum in the bracket
+ */
+export function findMinimum(
+  f: (time: number) => number,
+  start: number,
+  end: number,
+  steps = DEFAULT_MINIMUM_SEARCH_STEPS
+): number {
+  let low = start;
+  let high = end;
+
+  for (let step = 0; step < steps; step++) {
+    const left = high - GOLDEN_RATIO_CONJUGATE * (high - low);
+    const right = low + GOLDEN_RATIO_CONJUGATE * (high - low);
+    if (f(left) < f(right)) {
+      high = right;
+    } else {
+      low = left;
+    }
+  }
+
+  return (low + high) / 2;
+}
@@ -2,6 +2,7 @@
  * Scale System Utilities
  * Core Principle: 1 Three.js Unit = 1,000,000 km (1 Million km)
  */
+import { SMALL_BODIES } from './smallBodies';
 
 // Conversion factor: km to Three.js units
 export const KM_TO_UNIT = 1 / 1_000_000;
@@ -17,10 +18,18 @@ export const DIDACTIC_SCALE = {
   GAS_GIANT: 400,
   ROCKY_PLANET: 2000,
   MOON: 3000,
+  ASTEROID: 5000,
+  COMET: 50000, // Nuclei are a few km across - the tail does most of the work
 };
 
 // Planet type classification
-export type BodyClass = 'STAR' | 'GAS_GIANT' | 'ROCKY_PLANET' | 'DWARF_PLANET' | 'MOON';
+export type BodyClass = 'STAR' | 'GAS_GIANT' | 'ROCKY_PLANET' | 'DWARF_PLANET' | 'MOON' | 'ASTEROID' | 'COMET' | 'SPACECRAFT';
+
+// Spacecraft are drawn as glyphs, not to scale - this radius is used for hit-testing, selection and travel
+export const SPACECRAFT_MARKER_RADIUS = {
+  didactic: 1.5,
+  realistic: 0.05,
+};
 
 // Real radii in km (source: NASA)
 export const REAL_RADII_KM: Record<string, number> = {
@@ -33,12 +42,33 @@ export const REAL_RADII_KM: Record<string, number> = {
   '699': 60268,    // Saturn (equatorial)
   '799': 25559,    // Uranus (equatorial)
   '899': 24764,    // Neptune (equatorial)
+  '301': 1737,     // Moon
+  '401': 11,       // Phobos (mean)
+  '402': 6,        // Deimos (mean)
+  '501': 1822,     // Io
+  '502': 1561,     // Europa
+  '503': 2634,     // Ganymede
+  '504': 2410,     // Callisto
+  '606': 2575,     // Titan
+  '801': 1353,     // Triton
+  '999': 1188,     // Pluto
+  // Dwarf planets, asteroids and comet nuclei from the small-body catalog
+  ...Object.fromEntries(SMALL_BODIES.map(body => [body.bodyId, body.radiusKm])),
+};
+
+// Didactic satellite spacing, in parent radii: BASE + FACTOR × √(real distance / parent radius)
+// Keeps inflated moons outside their inflated parent while preserving orbit order
+export const DIDACTIC_SATELLITE_SPREAD = {
+  BASE: 1.5,
+  FACTOR: 0.15,
 };
 
 /**
  * Converts real radius in km to didactic rendering units
  */
 export function getDidacticRadius(bodyId: string, bodyClass: BodyClass): number {
+  if (bodyClass === 'SPACECRAFT') return SPACECRAFT_MARKER_RADIUS.didactic;
+
   const realRadiusKm = REAL_RADII_KM[bodyId] || 1000;
   const baseRadius = realRadiusKm * KM_TO_UNIT;
 
@@ -52,6 +82,10 @@ export function getDidacticRadius(bodyId: string, bodyClass: BodyClass): number
       return baseRadius * DIDACTIC_SCALE.ROCKY_PLANET;
     case 'MOON':
       return baseRadius * DIDACTIC_SCALE.MOON;
+    case 'ASTEROID':
+      return baseRadius * DIDACTIC_SCALE.ASTEROID;
+    case 'COMET':
+      return baseRadius * DIDACTIC_SCALE.COMET;
     default:
       return baseRadius * DIDACTIC_SCALE.ROCKY_PLANET;
   }
@@ -79,7 +113,7 @@ export function unitToMillionKm(units: number): number {
 
 /**
  * View mode determines how planets are scaled:
- * - 'didactic': Planets are inflated (50-3000x) for visibility
+ * - 'didactic': Planets are inflated (50-50000x) for visibility
  * - 'realistic': Planets are true-to-scale (1:1 with distance)
  */
 export type ViewMode = 'didactic' | 'realistic';
@@ -110,6 +144,8 @@ export function getRadius(
   bodyClass: BodyClass,
   mode: ViewMode = 'didactic'
 ): number {
+  if (bodyClass === 'SPACECRAFT') return SPACECRAFT_MARKER_RADIUS[mode];
+
   const realRadiusKm = REAL_RADII_KM[bodyId] || 1000;
   const realisticRadius = realRadiusKm * KM_TO_UNIT;
 
@@ -128,7 +164,54 @@ export function getRadius(
       return realisticRadius * DIDACTIC_SCALE.ROCKY_PLANET;
     case 'MOON':
       return realisticRadius * DIDACTIC_SCALE.MOON;
+    case 'ASTEROID':
+      return realisticRadius * DIDACTIC_SCALE.ASTEROID;
+    case 'COMET':
+      return realisticRadius * DIDACTIC_SCALE.COMET;
     default:
       return realisticRadius * DIDACTIC_SCALE.ROCKY_PLANET;
   }
 }
+
+/**
+ * Scales a satellite's parent-relative position (km) into scene units
+ * - 'realistic': true offset (e.g. Moon at 0.384 units from Earth)
+ * - 'didactic': same direction, distance compressed so the moon clears the inflated parent
+ */
+export function scaleSatelliteOffset(
+  offsetKm: { x: number; y: number; z: number },
+  parentBodyId: string,
+  parentClass: BodyClass,
+  mode: ViewMode = 'didactic'
+): [number, number, number] {
+  const offset = scalePositionFromKm(offsetKm.x, offsetKm.y, offsetKm.z);
+
+  if (mode === 'realistic') {
+    return offset;
+  }
+
+  const distance = Math.sqrt(offset[0] ** 2 + offset[1] ** 2 + offset[2] ** 2);
+  if (distance === 0) return offset;
+
+  const parentRealRadius = getRadius(parentBodyId, parentClass, 'realistic');
+  const parentDidacticRadius = getRadius(parentBodyId, parentClass, 'didactic');
+  const didacticDistance = parentDidacticRadius *
+    (DIDACTIC_SATELLITE_SPREAD.BASE + DIDACTIC_SATELLITE_SPREAD.FACTOR * Math.sqrt(distance / parentRealRadius));
+
+  const factor = didacticDistance / distance;
+  return [offset[0] * factor, offset[1] * factor, offset[2] * factor];
+}
+
+/**
+ * Scales a length attached to a body (e.g. ring radii) by the same factor as the body's radius,
+ * so it stays proportional to the body in both view modes
+ */
+export function scaleWithBody(
+  sizeKm: number,
+  bodyId: string,
+  bodyClass: BodyClass,
+  mode: ViewMode = 'didactic'
+): number {
+  const realRadiusKm = REAL_RADII_KM[bodyId] || 1000;
+  return sizeKm * (getRadius(bodyId, bodyClass, mode) / realRadiusKm);
+}
@@ -0,0 +1,60 @@
+/**
+ * Single-Flight Coalescing
+ * Concurrent callers asking for the same key share one in-flight promise
+ * instead of each starting their own (identical) upstream request
+ */
+
+// --- Types ---
+
+export interface SingleFlight<T> {
+  /** Joins the in-flight promise for the key, or starts one with the task */
+  run(key: string, task: () => Promise<T>): Promise<T>;
+  /** Number of keys currently in flight */
+  size(): number;
+}
+
+// --- Factory ---
+
+export function createSingleFlight<T>(): SingleFlight<T> {
+  const inFlight = new Map<string, Promise<T>>();
+
+  return {
+    run(key, task) {
+      const existing = inFlight.get(key);
+      if (existing) return existing;
+
+      // Forget the key once settled, so later calls fetch (or hit the cache) again
+      const promise = task().finally(() => inFlight.delete(key));
+      inFlight.set(key, promise);
+      return promise;
+    },
+
+    size() {
+      return inFlight.size;
+    },
+  };
+}
+
+/**
+ * Run tasks one after another, sharing work with concurrent callers
+ * Every key is registered up front, so a caller arriving later with overlapping keys
+ * joins those tasks instead of queueing duplicates behind them
+ */
+export function runSequentially<T>(
+  flight: SingleFlight<T>,
+  tasks: { key: string; task: () => Promise<T> }[]
+): Promise<PromiseSettledResult<T>[]> {
+  let previous: Promise<unknown> = Promise.resolve();
+
+  const pending = tasks.map(({ key, task }) => {
+    const after = previous;
+    const promise = flight.run(key, async () => {
+      await after;
+      return task();
+    });
+    previous = promise.catch(() => null);
+    return promise;
+  });
+
+  return Promise.allSettled(pending);
+}
@@ -0,0 +1,307 @@
+/**
+ * Small-Body Catalog
+ * Dwarf planets, numbered asteroids and periodic comets tracked alongside the major bodies
+ * Horizons looks these up with small-body syntax, so each entry carries its own COMMAND
+ */
+
+// --- Types ---
+
+/**
+ * Osculating heliocentric elements at an epoch (ecliptic J2000, as listed by the JPL SBDB)
+ * Approximate values - only used by the offline propagator and for drawing orbit lines
+ */
+export interface SmallBodyElements {
+  epochJD: number; // Julian day (TDB) the elements refer to
+  semiMajorAxis: number; // AU (a)
+  eccentricity: number; // (e)
+  inclination: number; // Degrees (i)
+  longAscNode: number; // Degrees (Ω)
+  argPerihelion: number; // Degrees (ω)
+  meanAnomaly: number; // Degrees at epoch (M)
+}
+
+export interface SmallBodyEntry {
+  bodyId: string; // Horizons SPK-ID (2000000 + asteroid number, 1000000+ for comets)
+  horizonsCommand: string; // Small-body lookup, e.g. '1;' (asteroid number) or 'DES=1P; CAP;' (designation)
+  name: string;
+  englishName: string;
+  type: 'DWARF_PLANET' | 'ASTEROID' | 'COMET';
+  radiusKm: number; // Mean radius
+  fallbackColor: string; // Base color of the procedural texture
+  rotationSpeed: number; // Radians per frame
+  elements: SmallBodyElements;
+  tailScale?: number; // Comets only: tail size relative to Halley's at the same distance
+  // Physical Properties
+  surfaceGravity: number; // m/s²
+  dayLength: number; // Hours (sidereal rotation)
+  meanTemperature: number; // Celsius
+}
+
+// --- Constants ---
+
+const J2000_JD = 2451545.0;
+const DAYS_PER_CENTURY = 36525;
+
+// Gaussian gravitational constant in degrees/day: n = k / a^1.5
+const GAUSSIAN_MEAN_MOTION_DEG = 0.9856076686;
+
+// --- Catalog ---
+
+// Dwarf planets without a major-body ID (Pluto is '999' and lives in PLANET_CONFIG)
+export const DWARF_PLANETS: SmallBodyEntry[] = [
+  {
+    bodyId: '2000001',
+    horizonsCommand: '1;',
+    name: 'Ceres',
+    englishName: 'Ceres',
+    type: 'DWARF_PLANET',
+    radiusKm: 470,
+    fallbackColor: '#8C8A86',
+    rotationSpeed: 0.004,
+    elements: {
+      epochJD: 2459600.5,
+      semiMajorAxis: 2.7675,
+      eccentricity: 0.0785,
+      inclination: 10.588,
+      longAscNode: 80.27,
+      argPerihelion: 73.64,
+      meanAnomaly: 291.38,
+    },
+    surfaceGravity: 0.28,
+    dayLength: 9.07,
+    meanTemperature: -105,
+  },
+  {
+    bodyId: '2136199',
+    horizonsCommand: '136199;',
+    name: 'Éris',
+    englishName: 'Eris',
+    type: 'DWARF_PLANET',
+    radiusKm: 1163,
+    fallbackColor: '#D8D4CE',
+    rotationSpeed: 0.0005,
+    elements: {
+      epochJD: 2459000.5,
+      semiMajorAxis: 67.864,
+      eccentricity: 0.43607,
+      inclination: 44.04,
+      longAscNode: 35.951,
+      argPerihelion: 151.639,
+      meanAnomaly: 205.989,
+    },
+    surfaceGravity: 0.82,
+    dayLength: 378.9,
+    meanTemperature: -231,
+  },
+  {
+    bodyId: '2136108',
+    horizonsCommand: '136108;',
+    name: 'Haumea',
+    englishName: 'Haumea',
+    type: 'DWARF_PLANET',
+    radiusKm: 780,
+    fallbackColor: '#E6E2DC',
+    rotationSpeed: 0.008,
+    elements: {
+      epochJD: 2459000.5,
+      semiMajorAxis: 43.116,
+      eccentricity: 0.19642,
+      inclination: 28.214,
+      longAscNode: 121.797,
+      argPerihelion: 240.888,
+      meanAnomaly: 218.205,
+    },
+    surfaceGravity: 0.401,
+    dayLength: 3.92,
+    meanTemperature: -241,
+  },
+  {
+    bodyId: '2136472',
+    horizonsCommand: '136472;',
+    name: 'Makemake',
+    englishName: 'Makemake',
+    type: 'DWARF_PLANET',
+    radiusKm: 715,
+    fallbackColor: '#B7805B',
+    rotationSpeed: 0.0015,
+    elements: {
+      epochJD: 2459000.5,
+      semiMajorAxis: 45.43,
+      eccentricity: 0.16126,
+      inclination: 28.984,
+      longAscNode: 79.62,
+      argPerihelion: 294.834,
+      meanAnomaly: 165.514,
+    },
+    surfaceGravity: 0.5,
+    dayLength: 22.83,
+    meanTemperature: -239,
+  },
+];
+
+// Numbered asteroids shown in the scene - add an entry here to track another one
+export const NUMBERED_ASTEROIDS: SmallBodyEntry[] = [
+  {
+    bodyId: '2000002',
+    horizonsCommand: '2;',
+    name: 'Palas',
+    englishName: 'Pallas',
+    type: 'ASTEROID',
+    radiusKm: 256,
+    fallbackColor: '#8A8A8A',
+    rotationSpeed: 0.004,
+    elements: {
+      epochJD: 2459600.5,
+      semiMajorAxis: 2.7716,
+      eccentricity: 0.2302,
+      inclination: 34.84,
+      longAscNode: 172.92,
+      argPerihelion: 310.87,
+      meanAnomaly: 211.53,
+    },
+    surfaceGravity: 0.21,
+    dayLength: 7.81,
+    meanTemperature: -109,
+  },
+  {
+    bodyId: '2000004',
+    horizonsCommand: '4;',
+    name: 'Vesta',
+    englishName: 'Vesta',
+    type: 'ASTEROID',
+    radiusKm: 263,
+    fallbackColor: '#A8A097',
+    rotationSpeed: 0.005,
+    elements: {
+      epochJD: 2459600.5,
+      semiMajorAxis: 2.3615,
+      eccentricity: 0.0885,
+      inclination: 7.142,
+      longAscNode: 103.71,
+      argPerihelion: 151.66,
+      meanAnomaly: 6.3,
+    },
+    surfaceGravity: 0.25,
+    dayLength: 5.34,
+    meanTemperature: -103,
+  },
+  {
+    bodyId: '2000010',
+    horizonsCommand: '10;',
+    name: 'Hígia',
+    englishName: 'Hygiea',
+    type: 'ASTEROID',
+    radiusKm: 217,
+    fallbackColor: '#5E5A55',
+    rotationSpeed: 0.003,
+    elements: {
+      epochJD: 2459600.5,
+      semiMajorAxis: 3.1415,
+      eccentricity: 0.1125,
+      inclination: 3.832,
+      longAscNode: 283.2,
+      argPerihelion: 312.3,
+      meanAnomaly: 86.2,
+    },
+    surfaceGravity: 0.091,
+    dayLength: 13.83,
+    meanTemperature: -109,
+  },
+];
+
+// Periodic comets - elements are given at perihelion (M = 0), so the epoch is the perihelion date
+// CAP selects Horizons' orbit solution for the apparition closest to today, NOFRAG skips fragments
+export const PERIODIC_COMETS: SmallBodyEntry[] = [
+  {
+    bodyId: '1000036',
+    horizonsCommand: 'DES=1P; CAP; NOFRAG;',
+    name: 'Cometa Halley',
+    englishName: '1P/Halley',
+    type: 'COMET',
+    radiusKm: 5.5,
+    fallbackColor: '#4A4540',
+    rotationSpeed: 0.002,
+    elements: {
+      epochJD: 2446470.46, // 1986-02-09
+      semiMajorAxis: 17.834,
+      eccentricity: 0.96714,
+      inclination: 162.26,
+      longAscNode: 58.42,
+      argPerihelion: 111.33,
+      meanAnomaly: 0,
+    },
+    tailScale: 1,
+    surfaceGravity: 0.0005,
+    dayLength: 52.8,
+    meanTemperature: -100,
+  },
+  {
+    bodyId: '1000012',
+    horizonsCommand: 'DES=67P; CAP; NOFRAG;',
+    name: 'Cometa Churyumov-Gerasimenko',
+    englishName: '67P/Churyumov-Gerasimenko',
+    type: 'COMET',
+    radiusKm: 2,
+    fallbackColor: '#3F3B38',
+    rotationSpeed: 0.003,
+    elements: {
+      epochJD: 2459520.5, // 2021-11-02
+      semiMajorAxis: 3.4628,
+      eccentricity: 0.641,
+      inclination: 7.04,
+      longAscNode: 50.14,
+      argPerihelion: 12.78,
+      meanAnomaly: 0,
+    },
+    tailScale: 0.25,
+    surfaceGravity: 0.0002,
+    dayLength: 12.4,
+    meanTemperature: -70,
+  },
+];
+
+export const SMALL_BODIES: SmallBodyEntry[] = [...DWARF_PLANETS, ...NUMBERED_ASTEROIDS, ...PERIODIC_COMETS];
+
+// --- Helper Functions ---
+
+/**
+ * Mean motion of a heliocentric orbit in degrees/day (two-body, negligible mass)
+ */
+export function getMeanMotion(semiMajorAxis: number): number {
+  return GAUSSIAN_MEAN_MOTION_DEG / Math.pow(semiMajorAxis, 1.5);
+}
+
+/**
+ * Converts epoch elements into the J2000 mean-longitude form used by PLANET_CONFIG
+ * (L and ϖ at J2000, plus the mean longitude drift in degrees/century)
+ */
+export function getMeanElementsAtJ2000(elements: SmallBodyElements): {
+  meanLongitude: number;
+  longPerihelion: number;
+  meanLongitudeRate: number;
+} {
+  const meanMotion = getMeanMotion(elements.semiMajorAxis);
+  const longPerihelion = elements.longAscNode + elements.argPerihelion;
+  const meanLongitudeAtEpoch = longPerihelion + elements.meanAnomaly;
+  const meanLongitude = meanLongitudeAtEpoch - meanMotion * (elements.epochJD - J2000_JD);
+
+  return {
+    meanLongitude: ((meanLongitude % 360) + 360) % 360,
+    longPerihelion,
+    meanLongitudeRate: meanMotion * DAYS_PER_CENTURY,
+  };
+}
+
+/**
+ * Get the catalog entry for a small body
+ */
+export function getSmallBody(bodyId: string): SmallBodyEntry | undefined {
+  return SMALL_BODIES.find(body => body.bodyId === bodyId);
+}
+
+/**
+ * Get the Horizons COMMAND for a body: small-body syntax from the catalog, the body ID otherwise
+ */
+export function getHorizonsCommand(bodyId: string): string {
+  return getSmallBody(bodyId)?.horizonsCommand ?? bodyId;
+}
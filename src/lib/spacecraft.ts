@@ -0,0 +1,174 @@
+/**
+ * Spacecraft Catalog
+ * Missions tracked as bodies - Horizons serves their reconstructed trajectories under negative IDs
+ * Each trajectory only exists between launch and the end of the published ephemeris
+ */
+
+import { MS_PER_MINUTE } from './time';
+
+// --- Types ---
+
+export interface MissionPhase {
+  startDate: string; // YYYY-MM-DD (UTC) the phase begins
+  label: string;
+}
+
+export interface SpacecraftEntry {
+  bodyId: string; // Horizons spacecraft ID (negative)
+  name: string;
+  englishName: string;
+  launchDate: string; // YYYY-MM-DD (UTC)
+  validFrom: string; // First date Horizons has vectors for (day after launch)
+  validTo: string; // Last date covered by the trajectory file
+  trajectoryStep: string; // Range-endpoint step for the mission polyline (≤ 1000 samples)
+  color: string; // Glyph and trajectory color
+  phases: MissionPhase[]; // Sorted by startDate
+}
+
+// --- Constants ---
+
+const MS_PER_DAY = 86_400_000;
+
+// --- Catalog ---
+
+export const SPACECRAFT: SpacecraftEntry[] = [
+  {
+    bodyId: '-31',
+    name: 'Voyager 1',
+    englishName: 'Voyager 1',
+    launchDate: '1977-09-05',
+    validFrom: '1977-09-06',
+    validTo: '2030-12-31',
+    trajectoryStep: '1mo',
+    color: '#FFD166',
+    phases: [
+      { startDate: '1977-09-05', label: 'Cruise to Jupiter' },
+      { startDate: '1979-03-05', label: 'Jupiter flyby' },
+      { startDate: '1979-04-15', label: 'Cruise to Saturn' },
+      { startDate: '1980-11-12', label: 'Saturn flyby' },
+      { startDate: '1980-12-15', label: 'Heliosphere cruise' },
+      { startDate: '2012-08-25', label: 'Interstellar space' },
+    ],
+  },
+  {
+    bodyId: '-32',
+    name: 'Voyager 2',
+    englishName: 'Voyager 2',
+    launchDate: '1977-08-20',
+    validFrom: '1977-08-21',
+    validTo: '2030-12-31',
+    trajectoryStep: '1mo',
+    color: '#F4A261',
+    phases: [
+      { startDate: '1977-08-20', label: 'Cruise to Jupiter' },
+      { startDate: '1979-07-09', label: 'Jupiter flyby' },
+      { startDate: '1979-08-15', label: 'Cruise to Saturn' },
+      { startDate: '1981-08-25', label: 'Saturn flyby' },
+      { startDate: '1981-09-30', label: 'Cruise to Uranus' },
+      { startDate: '1986-01-24', label: 'Uranus flyby' },
+      { startDate: '1986-02-28', label: 'Cruise to Neptune' },
+      { startDate: '1989-08-25', label: 'Neptune flyby' },
+      { startDate: '1989-10-01', label: 'Heliosphere cruise' },
+      { startDate: '2018-11-05', label: 'Interstellar space' },
+    ],
+  },
+  {
+    bodyId: '-98',
+    name: 'New Horizons',
+    englishName: 'New Horizons',
+    launchDate: '2006-01-19',
+    validFrom: '2006-01-20',
+    validTo: '2029-12-31',
+    trajectoryStep: '15d',
+    color: '#8ECAE6',
+    phases: [
+      { startDate: '2006-01-19', label: 'Cruise to Jupiter' },
+      { startDate: '2007-02-28', label: 'Jupiter gravity assist' },
+      { startDate: '2007-03-15', label: 'Cruise to Pluto' },
+      { startDate: '2015-07-14', label: 'Pluto flyby' },
+      { startDate: '2015-08-15', label: 'Cruise to Arrokoth' },
+      { startDate: '2019-01-01', label: 'Arrokoth flyby' },
+      { startDate: '2019-02-01', label: 'Kuiper Belt extended mission' },
+    ],
+  },
+  {
+    bodyId: '-96',
+    name: 'Parker Solar Probe',
+    englishName: 'Parker Solar Probe',
+    launchDate: '2018-08-12',
+    validFrom: '2018-08-13',
+    validTo: '2029-12-31',
+    trajectoryStep: '5d',
+    color: '#E76F51',
+    phases: [
+      { startDate: '2018-08-12', label: 'Cruise to Venus' },
+      { startDate: '2018-10-03', label: 'Solar encounters (Venus-assisted descent)' },
+      { startDate: '2024-11-06', label: 'Final Venus flyby' },
+      { startDate: '2024-12-24', label: 'Closest solar encounters' },
+    ],
+  },
+];
+
+// --- Helper Functions ---
+
+/**
+ * Get the catalog entry for a spacecraft
+ */
+export function getSpacecraft(bodyId: string): SpacecraftEntry | undefined {
+  return SPACECRAFT.find(spacecraft => spacecraft.bodyId === bodyId);
+}
+
+/**
+ * Last instant of the trajectory: the final minute of validTo, since that whole day is covered
+ */
+function getMissionEnd(spacecraft: SpacecraftEntry): number {
+  return new Date(spacecraft.validTo).getTime() + MS_PER_DAY - MS_PER_MINUTE;
+}
+
+/**
+ * Whether Horizons has a trajectory for the body at the given date
+ * Always true for natural bodies - only spacecraft have a limited window
+ * @param date - ISO date/timestamp or epoch milliseconds
+ */
+export function isWithinMissionWindow(bodyId: string, date: string | number): boolean {
+  const spacecraft = getSpacecraft(bodyId);
+  if (!spacecraft) return true;
+
+  const time = typeof date === 'number' ? date : new Date(date).getTime();
+  return time >= new Date(spacecraft.validFrom).getTime()
+    && time <= getMissionEnd(spacecraft);
+}
+
+/**
+ * Clips a date window to a body's mission window (null when they don't overlap)
+ * Natural bodies are returned unchanged
+ */
+export function clipToMissionWindow(
+  bodyId: string,
+  start: string,
+  stop: string
+): { start: string; stop: string } | null {
+  const spacecraft = getSpacecraft(bodyId);
+  if (!spacecraft) return { start, stop };
+
+  const clippedStart = new Date(start).getTime() < new Date(spacecraft.validFrom).getTime()
+    ? spacecraft.validFrom
+    : start;
+  const missionEnd = getMissionEnd(spacecraft);
+  const clippedStop = new Date(stop).getTime() > missionEnd
+    ? new Date(missionEnd).toISOString()
+    : stop;
+
+  if (new Date(clippedStop).getTime() <= new Date(clippedStart).getTime()) return null;
+  return { start: clippedStart, stop: clippedStop };
+}
+
+/**
+ * Mission phase in effect at the given date (undefined before launch)
+ */
+export function getMissionPhase(spacecraft: SpacecraftEntry, date: string): MissionPhase | undefined {
+  const time = new Date(date).getTime();
+  return [...spacecraft.phases]
+    .reverse()
+    .find(phase => new Date(phase.startDate).getTime() <= time);
+}
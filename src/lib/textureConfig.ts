@@ -3,6 +3,8 @@
  * Maps bodyId to texture paths, visual properties, and orbital data
  */
 import { BodyClass } from './scales';
+import { SMALL_BODIES, getMeanElementsAtJ2000, getMeanMotion, type SmallBodyEntry } from './smallBodies';
+import { SPACECRAFT, type SpacecraftEntry } from './spacecraft';
 
 // --- Types ---
 
@@ -14,13 +16,38 @@ export interface TexturePaths {
   high: string;
 }
 
+/**
+ * Linear change of each Keplerian element per Julian century since J2000
+ * (source: JPL "Approximate Positions of the Planets", valid 1800-2050 AD)
+ */
+export interface OrbitalElementRates {
+  semiMajorAxis: number; // AU/century
+  eccentricity: number; // 1/century
+  inclination: number; // Degrees/century
+  meanLongitude: number; // Degrees/century
+  longPerihelion: number; // Degrees/century
+  longAscNode: number; // Degrees/century
+}
+
+/**
+ * Planetary ring system, sized in km so it scales with the body in every view mode
+ */
+export interface RingConfig {
+  innerRadiusKm: number;
+  outerRadiusKm: number;
+  texturePaths?: TexturePaths; // Radial strip: u runs from inner to outer edge, alpha = density
+  color: string; // Tint (used alone when there is no texture)
+  opacity: number;
+}
+
 export interface PlanetConfig {
   bodyId: string;
   name: string;
   englishName: string;
-  type: 'STAR' | 'PLANET' | 'DWARF_PLANET';
+  type: 'STAR' | 'PLANET' | 'DWARF_PLANET' | 'ASTEROID' | 'COMET' | 'MOON' | 'SPACECRAFT';
   bodyClass: BodyClass;
-  texturePaths: TexturePaths; // Tiered texture paths for adaptive loading
+  parentId?: string; // Planet a satellite orbits (its vectors are relative to this body)
+  texturePaths?: TexturePaths; // Tiered texture paths for adaptive loading (procedural texture if omitted)
   fallbackColor: string;
   radius: number; // Scene units (will be computed dynamically if needed)
   rotationSpeed: number; // Radians per frame
@@ -30,6 +57,13 @@ export interface PlanetConfig {
   eccentricity: number; // Orbital eccentricity (e) - 0=circle, closer to 1=more elliptical
   longAscNode: number; // Longitude of ascending node in degrees (Ω)
   longPerihelion: number; // Longitude of perihelion in degrees (ϖ)
+  meanLongitude: number; // Mean longitude at J2000 epoch in degrees (L)
+  centennialRates: OrbitalElementRates; // Element drift used by the offline propagator
+  // Rotation pole (IAU, J2000 equatorial) - orients the body and its rings to its equator
+  poleRightAscension?: number; // Degrees
+  poleDeclination?: number; // Degrees
+  rings?: RingConfig;
+  tailScale?: number; // Comets: tail size relative to Halley's
   // Physical Properties
   surfaceGravity: number; // m/s² (Earth = 9.81)
   dayLength: number; // Hours for one rotation
@@ -45,6 +79,77 @@ function getTexturePaths(name: string): TexturePaths {
   };
 }
 
+// Bodies without published mean elements (the Sun, most satellites) don't drift
+const NO_ORBITAL_RATES: OrbitalElementRates = {
+  semiMajorAxis: 0,
+  eccentricity: 0,
+  inclination: 0,
+  meanLongitude: 0,
+  longPerihelion: 0,
+  longAscNode: 0,
+};
+
+/**
+ * Build the config of a dwarf planet / asteroid / comet from its small-body catalog entry
+ * No texture files ship for these bodies - they get a procedural surface
+ */
+function createSmallBodyConfig(entry: SmallBodyEntry): PlanetConfig {
+  const { elements } = entry;
+  const { meanLongitude, longPerihelion, meanLongitudeRate } = getMeanElementsAtJ2000(elements);
+
+  return {
+    bodyId: entry.bodyId,
+    name: entry.name,
+    englishName: entry.englishName,
+    type: entry.type,
+    bodyClass: entry.type,
+    fallbackColor: entry.fallbackColor,
+    radius: entry.radiusKm / 500,
+    rotationSpeed: entry.rotationSpeed,
+    orbitalPeriod: Math.round(360 / getMeanMotion(elements.semiMajorAxis)),
+    meanDistanceAU: elements.semiMajorAxis,
+    orbitalInclination: elements.inclination,
+    eccentricity: elements.eccentricity,
+    longAscNode: elements.longAscNode,
+    longPerihelion,
+    meanLongitude,
+    // Two-body motion: only the mean longitude advances
+    centennialRates: { ...NO_ORBITAL_RATES, meanLongitude: meanLongitudeRate },
+    ...(entry.tailScale !== undefined && { tailScale: entry.tailScale }),
+    surfaceGravity: entry.surfaceGravity,
+    dayLength: entry.dayLength,
+    meanTemperature: entry.meanTemperature,
+  };
+}
+
+/**
+ * Registry entry for a spacecraft - no orbit or surface, so the offline propagator skips it
+ * (mission data lives in the spacecraft catalog)
+ */
+function createSpacecraftConfig(entry: SpacecraftEntry): PlanetConfig {
+  return {
+    bodyId: entry.bodyId,
+    name: entry.name,
+    englishName: entry.englishName,
+    type: 'SPACECRAFT',
+    bodyClass: 'SPACECRAFT',
+    fallbackColor: entry.color,
+    radius: 0,
+    rotationSpeed: 0,
+    orbitalPeriod: 0,
+    meanDistanceAU: 0,
+    orbitalInclination: 0,
+    eccentricity: 0,
+    longAscNode: 0,
+    longPerihelion: 0,
+    meanLongitude: 0,
+    centennialRates: NO_ORBITAL_RATES,
+    surfaceGravity: 0,
+    dayLength: 0,
+    meanTemperature: 0,
+  };
+}
+
 // --- Texture Map ---
 // Initial radius values are placeholders, they should be derived from src/lib/scales.ts in the components
 
@@ -65,6 +170,10 @@ export const PLANET_CONFIG: Record<string, PlanetConfig> = {
     eccentricity: 0,
     longAscNode: 0,
     longPerihelion: 0,
+    meanLongitude: 0,
+    centennialRates: NO_ORBITAL_RATES,
+    poleRightAscension: 286.13,
+    poleDeclination: 63.87,
     surfaceGravity: 274,
     dayLength: 609.12,
     meanTemperature: 5500,
@@ -85,6 +194,17 @@ export const PLANET_CONFIG: Record<string, PlanetConfig> = {
     eccentricity: 0.2056,
     longAscNode: 48.33,
     longPerihelion: 77.45,
+    meanLongitude: 252.25,
+    centennialRates: {
+      semiMajorAxis: 0.00000037,
+      eccentricity: 0.00001906,
+      inclination: -0.00594749,
+      meanLongitude: 149472.67411175,
+      longPerihelion: 0.16047689,
+      longAscNode: -0.12534081,
+    },
+    poleRightAscension: 281.01,
+    poleDeclination: 61.42,
     surfaceGravity: 3.7,
     dayLength: 4222.6,
     meanTemperature: 167,
@@ -105,6 +225,17 @@ export const PLANET_CONFIG: Record<string, PlanetConfig> = {
     eccentricity: 0.0068,
     longAscNode: 76.68,
     longPerihelion: 131.53,
+    meanLongitude: 181.98,
+    centennialRates: {
+      semiMajorAxis: 0.0000039,
+      eccentricity: -0.00004107,
+      inclination: -0.0007889,
+      meanLongitude: 58517.81538729,
+      longPerihelion: 0.00268329,
+      longAscNode: -0.27769418,
+    },
+    poleRightAscension: 272.76,
+    poleDeclination: 67.16,
     surfaceGravity: 8.87,
     dayLength: 2802,
     meanTemperature: 464,
@@ -125,6 +256,17 @@ export const PLANET_CONFIG: Record<string, PlanetConfig> = {
     eccentricity: 0.0167,
     longAscNode: 0.0,
     longPerihelion: 102.94,
+    meanLongitude: 100.46,
+    centennialRates: {
+      semiMajorAxis: 0.00000562,
+      eccentricity: -0.00004392,
+      inclination: -0.01294668,
+      meanLongitude: 35999.37244981,
+      longPerihelion: 0.32327364,
+      longAscNode: 0,
+    },
+    poleRightAscension: 0,
+    poleDeclination: 90,
     surfaceGravity: 9.81,
     dayLength: 24,
     meanTemperature: 15,
@@ -145,6 +287,17 @@ export const PLANET_CONFIG: Record<string, PlanetConfig> = {
     eccentricity: 0.0934,
     longAscNode: 49.58,
     longPerihelion: 336.04,
+    meanLongitude: -4.55,
+    centennialRates: {
+      semiMajorAxis: 0.00001847,
+      eccentricity: 0.00007882,
+      inclination: -0.00813131,
+      meanLongitude: 19140.30268499,
+      longPerihelion: 0.44441088,
+      longAscNode: -0.29257343,
+    },
+    poleRightAscension: 317.27,
+    poleDeclination: 54.43,
     surfaceGravity: 3.71,
     dayLength: 24.6,
     meanTemperature: -65,
@@ -165,6 +318,23 @@ export const PLANET_CONFIG: Record<string, PlanetConfig> = {
     eccentricity: 0.0489,
     longAscNode: 100.46,
     longPerihelion: 14.75,
+    meanLongitude: 34.40,
+    centennialRates: {
+      semiMajorAxis: -0.00011607,
+      eccentricity: -0.00013253,
+      inclination: -0.00183714,
+      meanLongitude: 3034.74612775,
+      longPerihelion: 0.21252668,
+      longAscNode: 0.20469106,
+    },
+    poleRightAscension: 268.06,
+    poleDeclination: 64.5,
+    rings: {
+      innerRadiusKm: 92000, // Halo
+      outerRadiusKm: 129000, // Main ring outer edge
+      color: '#8A7A6A',
+      opacity: 0.08,
+    },
     surfaceGravity: 24.79,
     dayLength: 9.9,
     meanTemperature: -110,
@@ -185,6 +355,24 @@ export const PLANET_CONFIG: Record<string, PlanetConfig> = {
     eccentricity: 0.0565,
     longAscNode: 113.66,
     longPerihelion: 92.43,
+    meanLongitude: 49.95,
+    centennialRates: {
+      semiMajorAxis: -0.0012506,
+      eccentricity: -0.00050991,
+      inclination: 0.00193609,
+      meanLongitude: 1222.49362201,
+      longPerihelion: -0.41897216,
+      longAscNode: -0.28867794,
+    },
+    poleRightAscension: 40.59,
+    poleDeclination: 83.54,
+    rings: {
+      innerRadiusKm: 74500, // C ring inner edge
+      outerRadiusKm: 136780, // A ring outer edge
+      texturePaths: getTexturePaths('saturn_ring'),
+      color: '#FFFFFF',
+      opacity: 0.9,
+    },
     surfaceGravity: 10.44,
     dayLength: 10.7,
     meanTemperature: -140,
@@ -205,6 +393,23 @@ export const PLANET_CONFIG: Record<string, PlanetConfig> = {
     eccentricity: 0.0457,
     longAscNode: 74.01,
     longPerihelion: 170.96,
+    meanLongitude: 313.24,
+    centennialRates: {
+      semiMajorAxis: -0.00196176,
+      eccentricity: -0.00004397,
+      inclination: -0.00242939,
+      meanLongitude: 428.48202785,
+      longPerihelion: 0.40805281,
+      longAscNode: 0.04240589,
+    },
+    poleRightAscension: 257.31,
+    poleDeclination: -15.18,
+    rings: {
+      innerRadiusKm: 41837, // Ring 6
+      outerRadiusKm: 51149, // Epsilon ring
+      color: '#9FB2B8',
+      opacity: 0.15,
+    },
     surfaceGravity: 8.87,
     dayLength: 17.2,
     meanTemperature: -195,
@@ -225,24 +430,306 @@ export const PLANET_CONFIG: Record<string, PlanetConfig> = {
     eccentricity: 0.0113,
     longAscNode: 131.78,
     longPerihelion: 44.97,
+    meanLongitude: -55.12,
+    centennialRates: {
+      semiMajorAxis: 0.00026291,
+      eccentricity: 0.00005105,
+      inclination: 0.00035372,
+      meanLongitude: 218.45945325,
+      longPerihelion: -0.32241464,
+      longAscNode: -0.00508664,
+    },
+    poleRightAscension: 299.36,
+    poleDeclination: 43.46,
+    rings: {
+      innerRadiusKm: 41000, // Galle ring
+      outerRadiusKm: 62932, // Adams ring
+      color: '#8090A8',
+      opacity: 0.08,
+    },
     surfaceGravity: 11.15,
     dayLength: 16.1,
     meanTemperature: -200,
   },
+
+  // --- Dwarf Planets, Asteroids & Comets ---
+  // Pluto has a major-body ID and JPL mean elements; the rest come from the small-body catalog
+  '999': {
+    bodyId: '999',
+    name: 'Plutão',
+    englishName: 'Pluto',
+    type: 'DWARF_PLANET',
+    bodyClass: 'DWARF_PLANET',
+    fallbackColor: '#C8B49A',
+    radius: 2.4,
+    rotationSpeed: 0.0005,
+    orbitalPeriod: 90560,
+    meanDistanceAU: 39.482,
+    orbitalInclination: 17.14,
+    eccentricity: 0.2488,
+    longAscNode: 110.3,
+    longPerihelion: 224.07,
+    meanLongitude: 238.93,
+    centennialRates: {
+      semiMajorAxis: -0.00031596,
+      eccentricity: 0.0000517,
+      inclination: 0.00004818,
+      meanLongitude: 145.20780515,
+      longPerihelion: -0.04062942,
+      longAscNode: -0.01183482,
+    },
+    poleRightAscension: 132.99,
+    poleDeclination: -6.16,
+    surfaceGravity: 0.62,
+    dayLength: 153.3,
+    meanTemperature: -229,
+  },
+  ...Object.fromEntries(SMALL_BODIES.map(entry => [entry.bodyId, createSmallBodyConfig(entry)])),
+
+  // --- Spacecraft ---
+  ...Object.fromEntries(SPACECRAFT.map(entry => [entry.bodyId, createSpacecraftConfig(entry)])),
+
+  // --- Natural Satellites ---
+  // Orbital elements are relative to the parent planet: meanDistanceAU is the semi-major
+  // axis around the parent and inclination is to the parent's equator. Only the Moon has
+  // ecliptic mean elements (Meeus) with rates, so it is the only satellite the offline
+  // propagator can place. Only the Moon ships a texture; the others reuse it for now.
+  '301': {
+    bodyId: '301',
+    name: 'Lua',
+    englishName: 'Moon',
+    type: 'MOON',
+    bodyClass: 'MOON',
+    parentId: '399',
+    texturePaths: getTexturePaths('moon'),
+    fallbackColor: '#9E9E9E',
+    radius: 3.5,
+    rotationSpeed: 0.0005,
+    orbitalPeriod: 27.322,
+    meanDistanceAU: 0.00256955,
+    orbitalInclination: 5.145,
+    eccentricity: 0.0549,
+    longAscNode: 125.04,
+    longPerihelion: 83.35,
+    meanLongitude: 218.32,
+    centennialRates: {
+      semiMajorAxis: 0,
+      eccentricity: 0,
+      inclination: 0,
+      meanLongitude: 481267.88123421,
+      longPerihelion: 4069.0137287,
+      longAscNode: -1934.1362891,
+    },
+    surfaceGravity: 1.62,
+    dayLength: 655.7,
+    meanTemperature: -20,
+  },
+  '401': {
+    bodyId: '401',
+    name: 'Fobos',
+    englishName: 'Phobos',
+    type: 'MOON',
+    bodyClass: 'MOON',
+    parentId: '499',
+    texturePaths: getTexturePaths('moon'),
+    fallbackColor: '#7A6A5A',
+    radius: 0.02,
+    rotationSpeed: 0.0005,
+    orbitalPeriod: 0.319,
+    meanDistanceAU: 0.00006268,
+    orbitalInclination: 1.08,
+    eccentricity: 0.0151,
+    longAscNode: 0,
+    longPerihelion: 0,
+    meanLongitude: 0,
+    centennialRates: NO_ORBITAL_RATES,
+    surfaceGravity: 0.0057,
+    dayLength: 7.65,
+    meanTemperature: -40,
+  },
+  '402': {
+    bodyId: '402',
+    name: 'Deimos',
+    englishName: 'Deimos',
+    type: 'MOON',
+    bodyClass: 'MOON',
+    parentId: '499',
+    texturePaths: getTexturePaths('moon'),
+    fallbackColor: '#8B7D6B',
+    radius: 0.01,
+    rotationSpeed: 0.0005,
+    orbitalPeriod: 1.263,
+    meanDistanceAU: 0.00015681,
+    orbitalInclination: 1.79,
+    eccentricity: 0.0002,
+    longAscNode: 0,
+    longPerihelion: 0,
+    meanLongitude: 0,
+    centennialRates: NO_ORBITAL_RATES,
+    surfaceGravity: 0.003,
+    dayLength: 30.3,
+    meanTemperature: -40,
+  },
+  '501': {
+    bodyId: '501',
+    name: 'Io',
+    englishName: 'Io',
+    type: 'MOON',
+    bodyClass: 'MOON',
+    parentId: '599',
+    texturePaths: getTexturePaths('moon'),
+    fallbackColor: '#E8D25A',
+    radius: 3.6,
+    rotationSpeed: 0.0005,
+    orbitalPeriod: 1.769,
+    meanDistanceAU: 0.00281889,
+    orbitalInclination: 0.05,
+    eccentricity: 0.0041,
+    longAscNode: 0,
+    longPerihelion: 0,
+    meanLongitude: 0,
+    centennialRates: NO_ORBITAL_RATES,
+    surfaceGravity: 1.796,
+    dayLength: 42.5,
+    meanTemperature: -143,
+  },
+  '502': {
+    bodyId: '502',
+    name: 'Europa',
+    englishName: 'Europa',
+    type: 'MOON',
+    bodyClass: 'MOON',
+    parentId: '599',
+    texturePaths: getTexturePaths('moon'),
+    fallbackColor: '#C9B79C',
+    radius: 3.1,
+    rotationSpeed: 0.0005,
+    orbitalPeriod: 3.551,
+    meanDistanceAU: 0.00448559,
+    orbitalInclination: 0.47,
+    eccentricity: 0.009,
+    longAscNode: 0,
+    longPerihelion: 0,
+    meanLongitude: 0,
+    centennialRates: NO_ORBITAL_RATES,
+    surfaceGravity: 1.314,
+    dayLength: 85.2,
+    meanTemperature: -160,
+  },
+  '503': {
+    bodyId: '503',
+    name: 'Ganimedes',
+    englishName: 'Ganymede',
+    type: 'MOON',
+    bodyClass: 'MOON',
+    parentId: '599',
+    texturePaths: getTexturePaths('moon'),
+    fallbackColor: '#8F8577',
+    radius: 5.3,
+    rotationSpeed: 0.0005,
+    orbitalPeriod: 7.155,
+    meanDistanceAU: 0.00715528,
+    orbitalInclination: 0.2,
+    eccentricity: 0.0013,
+    longAscNode: 0,
+    longPerihelion: 0,
+    meanLongitude: 0,
+    centennialRates: NO_ORBITAL_RATES,
+    surfaceGravity: 1.428,
+    dayLength: 171.7,
+    meanTemperature: -163,
+  },
+  '504': {
+    bodyId: '504',
+    name: 'Calisto',
+    englishName: 'Callisto',
+    type: 'MOON',
+    bodyClass: 'MOON',
+    parentId: '599',
+    texturePaths: getTexturePaths('moon'),
+    fallbackColor: '#5E5349',
+    radius: 4.8,
+    rotationSpeed: 0.0005,
+    orbitalPeriod: 16.689,
+    meanDistanceAU: 0.01258513,
+    orbitalInclination: 0.19,
+    eccentricity: 0.0074,
+    longAscNode: 0,
+    longPerihelion: 0,
+    meanLongitude: 0,
+    centennialRates: NO_ORBITAL_RATES,
+    surfaceGravity: 1.235,
+    dayLength: 400.5,
+    meanTemperature: -139,
+  },
+  '606': {
+    bodyId: '606',
+    name: 'Titã',
+    englishName: 'Titan',
+    type: 'MOON',
+    bodyClass: 'MOON',
+    parentId: '699',
+    texturePaths: getTexturePaths('moon'),
+    fallbackColor: '#D9A441',
+    radius: 5.1,
+    rotationSpeed: 0.0005,
+    orbitalPeriod: 15.945,
+    meanDistanceAU: 0.00816769,
+    orbitalInclination: 0.35,
+    eccentricity: 0.0288,
+    longAscNode: 0,
+    longPerihelion: 0,
+    meanLongitude: 0,
+    centennialRates: NO_ORBITAL_RATES,
+    surfaceGravity: 1.352,
+    dayLength: 382.7,
+    meanTemperature: -179,
+  },
+  '801': {
+    bodyId: '801',
+    name: 'Tritão',
+    englishName: 'Triton',
+    type: 'MOON',
+    bodyClass: 'MOON',
+    parentId: '899',
+    texturePaths: getTexturePaths('moon'),
+    fallbackColor: '#C7B8B0',
+    radius: 2.7,
+    rotationSpeed: 0.0005,
+    orbitalPeriod: 5.877,
+    meanDistanceAU: 0.00237143,
+    orbitalInclination: 156.9,
+    eccentricity: 1.6e-05,
+    longAscNode: 0,
+    longPerihelion: 0,
+    meanLongitude: 0,
+    centennialRates: NO_ORBITAL_RATES,
+    surfaceGravity: 0.779,
+    dayLength: 141,
+    meanTemperature: -235,
+  },
 };
 
 // --- Helper Functions ---
 
 /**
  * Get texture path for a body based on quality tier
+ * @param layer - 'surface' for the body itself, 'ring' for its ring system ('' if untextured)
  */
-export function getTexturePath(bodyId: string, tier: TextureTier = 'mid'): string {
+export function getTexturePath(
+  bodyId: string,
+  tier: TextureTier = 'mid',
+  layer: 'surface' | 'ring' = 'surface'
+): string {
   const config = PLANET_CONFIG[bodyId];
   if (!config) {
     console.warn(`[textureConfig] No config found for bodyId: ${bodyId}`);
     return '';
   }
-  return config.texturePaths[tier];
+  if (layer === 'ring') {
+    return config.rings?.texturePaths?.[tier] ?? '';
+  }
+  return config.texturePaths?.[tier] ?? '';
 }
 
 /**
@@ -259,6 +746,15 @@ export function getPlanetBodyIds(): string[] {
   return Object.keys(PLANET_CONFIG).filter(id => PLANET_CONFIG[id].type === 'PLANET');
 }
 
+/**
+ * Get natural satellite bodyIds, optionally only those orbiting one parent
+ */
+export function getSatelliteBodyIds(parentId?: string): string[] {
+  return Object.keys(PLANET_CONFIG).filter(id =>
+    PLANET_CONFIG[id].type === 'MOON' && (!parentId || PLANET_CONFIG[id].parentId === parentId)
+  );
+}
+
 /**
  * Get all body IDs including Sun
  */
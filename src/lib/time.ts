@@ -0,0 +1,201 @@
+/**
+ * Simulation Time
+ * The app simulates UTC instants, passed around as ISO timestamps at minute
+ * resolution ("2024-01-15T13:45:00Z"). Plain dates ("2024-01-15") are still
+ * accepted everywhere and mean 00:00 UTC.
+ *
+ * Horizons tabulates vectors in TDB unless asked otherwise, so every request is
+ * made with TIME_TYPE='UT' and its epochs line up with the UI clock. The TDB - UTC
+ * offset below is only needed where we do the conversion ourselves: the Keplerian
+ * fallback (its element rates run on TDB) and the time-scale note in the HUD.
+ */
+
+// --- Constants ---
+
+export const MS_PER_MINUTE = 60_000;
+
+// Span the app simulates - the JPL Horizons limits for the planetary ephemerides
+export const MIN_DATE = '1600-01-01';
+export const MAX_DATE = '2500-01-01';
+export const MIN_TIME = Date.parse(MIN_DATE);
+export const MAX_TIME = Date.parse(MAX_DATE);
+
+const MS_PER_DAY = 86_400_000;
+
+// YYYY-MM-DD, optionally followed by THH:mm[:ss[.sss]] and a zone (Z or ±HH:mm)
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+// TT - TAI, fixed by definition
+const TT_MINUS_TAI_SECONDS = 32.184;
+
+// TAI - UTC from each leap second onward (IERS Bulletin C). Later dates keep the
+// last offset, since leap seconds are only announced six months ahead.
+const LEAP_SECONDS: [effectiveFrom: string, taiMinusUtc: number][] = [
+  ['1972-01-01', 10], ['1972-07-01', 11], ['1973-01-01', 12], ['1974-01-01', 13],
+  ['1975-01-01', 14], ['1976-01-01', 15], ['1977-01-01', 16], ['1978-01-01', 17],
+  ['1979-01-01', 18], ['1980-01-01', 19], ['1981-07-01', 20], ['1982-07-01', 21],
+  ['1983-07-01', 22], ['1985-07-01', 23], ['1988-01-01', 24], ['1990-01-01', 25],
+  ['1991-01-01', 26], ['1992-07-01', 27], ['1993-07-01', 28], ['1994-07-01', 29],
+  ['1996-01-01', 30], ['1997-07-01', 31], ['1999-01-01', 32], ['2006-01-01', 33],
+  ['2009-01-01', 34], ['2012-07-01', 35], ['2015-07-01', 36], ['2017-01-01', 37],
+];
+
+const LEAP_SECONDS_START = Date.parse(LEAP_SECONDS[0][0]);
+
+// --- Helper Functions ---
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * ΔT = TT - UT in seconds before 1972 (Espenak & Meeus polynomials)
+ * Before UTC existed the civil time scale was UT itself
+ */
+function getDeltaTSeconds(time: number): number {
+  const date = new Date(time);
+  const year = date.getUTCFullYear() + (date.getUTCMonth() + 0.5) / 12;
+
+  if (year < 1700) {
+    const t = year - 1600;
+    return 120 - 0.9808 * t - 0.01532 * t ** 2 + t ** 3 / 7129;
+  }
+  if (year < 1800) {
+    const t = year - 1700;
+    return 8.83 + 0.1603 * t - 0.0059285 * t ** 2 + 0.00013336 * t ** 3 - t ** 4 / 1174000;
+  }
+  if (year < 1860) {
+    const t = year - 1800;
+    return 13.72 - 0.332447 * t + 0.0068612 * t ** 2 + 0.0041116 * t ** 3
+      - 0.00037436 * t ** 4 + 0.0000121272 * t ** 5 - 0.0000001699 * t ** 6
+      + 0.000000000875 * t ** 7;
+  }
+  if (year < 1900) {
+    const t = year - 1860;
+    return 7.62 + 0.5737 * t - 0.251754 * t ** 2 + 0.01680668 * t ** 3
+      - 0.0004473624 * t ** 4 + t ** 5 / 233174;
+  }
+  if (year < 1920) {
+    const t = year - 1900;
+    return -2.79 + 1.494119 * t - 0.0598939 * t ** 2 + 0.0061966 * t ** 3 - 0.000197 * t ** 4;
+  }
+  if (year < 1941) {
+    const t = year - 1920;
+    return 21.2 + 0.84493 * t - 0.0761 * t ** 2 + 0.0020936 * t ** 3;
+  }
+  if (year < 1961) {
+    const t = year - 1950;
+    return 29.07 + 0.407 * t - t ** 2 / 233 + t ** 3 / 2547;
+  }
+  const t = year - 1975;
+  return 45.45 + 1.067 * t - t ** 2 / 260 - t ** 3 / 718;
+}
+
+function getTaiMinusUtcSeconds(time: number): number {
+  let offset = LEAP_SECONDS[0][1];
+  for (const [effectiveFrom, taiMinusUtc] of LEAP_SECONDS) {
+    if (time < Date.parse(effectiveFrom)) break;
+    offset = taiMinusUtc;
+  }
+  return offset;
+}
+
+// --- Public API ---
+
+/**
+ * Parses a UTC date or timestamp into epoch milliseconds (null when invalid)
+ * Timestamps without a zone are read as UTC, not local time
+ */
+export function parseTimestamp(value: string): number | null {
+  const trimmed = value.trim();
+  if (!TIMESTAMP_PATTERN.test(trimmed)) return null;
+
+  const hasZone = /(Z|[+-]\d{2}:\d{2})$/.test(trimmed);
+  const isDateOnly = !trimmed.includes('T');
+  const time = Date.parse(isDateOnly || hasZone ? trimmed : `${trimmed}Z`);
+
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Whether an instant falls inside the simulated 1600-2500 span
+ */
+export function isWithinSupportedRange(time: number): boolean {
+  return time >= MIN_TIME && time <= MAX_TIME;
+}
+
+/**
+ * Canonical simulation timestamp, truncated to the minute: "2024-01-15T13:45:00Z"
+ */
+export function toTimestamp(time: number | Date): string {
+  const ms = typeof time === 'number' ? time : time.getTime();
+  const truncated = Math.floor(ms / MS_PER_MINUTE) * MS_PER_MINUTE;
+  return `${new Date(truncated).toISOString().slice(0, 16)}:00Z`;
+}
+
+/**
+ * Canonical timestamp for a user-supplied date or timestamp (null when invalid)
+ */
+export function normalizeTimestamp(value: string): string | null {
+  const time = parseTimestamp(value);
+  return time === null ? null : toTimestamp(time);
+}
+
+/**
+ * The current minute, as a canonical timestamp
+ */
+export function getNowTimestamp(): string {
+  return toTimestamp(Date.now());
+}
+
+/**
+ * UTC calendar date of a timestamp: "2024-01-15"
+ */
+export function toDatePart(timestamp: string | number): string {
+  const time = typeof timestamp === 'number' ? timestamp : parseTimestamp(timestamp) ?? NaN;
+  return isNaN(time) ? '' : new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * UTC time of day of a timestamp: "13:45"
+ */
+export function toTimePart(timestamp: string | number): string {
+  const time = typeof timestamp === 'number' ? timestamp : parseTimestamp(timestamp) ?? NaN;
+  return isNaN(time) ? '' : new Date(time).toISOString().slice(11, 16);
+}
+
+/**
+ * Joins a UTC date ("2024-01-15") and time of day ("13:45") into a canonical timestamp
+ */
+export function combineDateAndTime(date: string, timeOfDay: string): string | null {
+  return normalizeTimestamp(`${date}T${timeOfDay || '00:00'}Z`);
+}
+
+/**
+ * Horizons calendar syntax for START_TIME / STOP_TIME: "2024-01-15 13:45"
+ * Unparseable input is passed through so Horizons can report on it
+ */
+export function toHorizonsTime(value: string): string {
+  const time = parseTimestamp(value);
+  if (time === null) return value;
+
+  const date = new Date(time);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())} `
+    + `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+}
+
+/**
+ * TDB - UTC in seconds at a UTC instant
+ * From 1972: leap seconds + 32.184 s + the ~1.7 ms annual TDB - TT term.
+ * Before 1972: ΔT, since UTC was not yet defined.
+ */
+export function getTdbMinusUtcSeconds(time: number): number {
+  if (time < LEAP_SECONDS_START) return getDeltaTSeconds(time);
+
+  // TDB - TT ≈ 0.001657 s · sin(g), g = Earth's mean anomaly
+  const daysSinceJ2000 = time / MS_PER_DAY + 2440587.5 - 2451545;
+  const meanAnomaly = (357.53 + 0.98560028 * daysSinceJ2000) * (Math.PI / 180);
+  const tdbMinusTt = 0.001657 * Math.sin(meanAnomaly);
+
+  return getTaiMinusUtcSeconds(time) + TT_MINUS_TAI_SECONDS + tdbMinusTt;
+}
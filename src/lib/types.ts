@@ -15,18 +15,164 @@ export interface EphemerisData {
   position: EphemerisPosition;
   velocity?: EphemerisPosition; // km/s from NASA API
   timestamp: string;
+  centerId?: string; // Body the vectors are relative to (satellites use their parent), the frame center if omitted
 }
 
 export type DataSource = 'NASA_LIVE' | 'CACHE_HIT' | 'FALLBACK_DATASET';
 
+// Why a Horizons request produced no data
+export type UpstreamErrorCode =
+  | 'UPSTREAM_TIMEOUT' // No response within the per-request timeout
+  | 'UPSTREAM_RATE_LIMITED' // Still 429 after retrying
+  | 'UPSTREAM_UNAVAILABLE' // 5xx, network failure or any other HTTP error
+  | 'CIRCUIT_OPEN' // Not attempted - too many recent failures
+  | 'TARGET_NOT_FOUND' // Horizons doesn't know the body
+  | 'TARGET_AMBIGUOUS' // The lookup matched several bodies
+  | 'DATE_OUT_OF_RANGE' // The body has no ephemeris at the requested time
+  | 'PARSE_FAILURE'; // Response without a readable vector table
+
+// One of several bodies matching an ambiguous lookup
+export interface HorizonsCandidate {
+  id: string;
+  name: string;
+}
+
+// Body of a 4xx response when Horizons rejected the query itself
+export interface EphemerisErrorResponse {
+  error: string; // Human-readable message
+  code: UpstreamErrorCode;
+  bodyId: string;
+  candidates?: HorizonsCandidate[]; // TARGET_AMBIGUOUS
+  validFrom?: string; // DATE_OUT_OF_RANGE - ISO timestamp of the first available date
+  validTo?: string; // DATE_OUT_OF_RANGE - ISO timestamp of the last available date
+}
+
+export type ValidationIssueCode =
+  | 'INVALID_FORMAT' // Not parseable (date, flag, id list)
+  | 'OUT_OF_RANGE' // Outside the supported 1600-2500 span
+  | 'UNKNOWN_BODY' // Not in the body registry
+  | 'TOO_MANY_IDS'; // More ids than one request may ask for
+
+export interface ValidationIssue {
+  param: string; // Query parameter the issue is about
+  code: ValidationIssueCode;
+  message: string;
+  value?: string; // Offending value (a single id for UNKNOWN_BODY)
+}
+
+// Body of a 400 response when the query parameters fail validation
+export interface ValidationErrorResponse {
+  error: string; // Human-readable summary
+  code: 'VALIDATION_ERROR';
+  issues: ValidationIssue[];
+}
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+// Horizons health as seen by the request - present when any body failed upstream
+export interface UpstreamStatus {
+  circuit: CircuitState;
+  errors: Record<string, UpstreamErrorCode>; // bodyId -> error
+}
+
 export interface EphemerisResponse {
   data: EphemerisData[];
   meta: {
     source: DataSource;
     timestamp: string;
-    requestedDate: string;
+    requestedDate: string; // Canonical UTC timestamp, e.g. 2024-01-15T13:45:00Z
+    center: string; // Frame center body id ('10' Sun, '0' barycenter)
     cacheHits?: number;
     cacheMisses?: number;
+    upstream?: UpstreamStatus;
+  };
+}
+
+export interface EphemerisSample {
+  timestamp: string; // ISO timestamp of the sample (UTC)
+  position: EphemerisPosition;
+  velocity?: EphemerisPosition; // km/s
+}
+
+export interface EphemerisSeries {
+  bodyId: string;
+  name: string;
+  samples: EphemerisSample[];
+  source: DataSource;
+  centerId?: string; // Same meaning as EphemerisData.centerId
+}
+
+export interface EphemerisRangeResponse {
+  data: EphemerisSeries[];
+  meta: {
+    source: DataSource;
+    timestamp: string;
+    start: string;
+    stop: string;
+    step: string;
+    center: string;
+    sampleCount: number;
+    upstream?: UpstreamStatus;
+  };
+}
+
+// Physical properties from the Horizons object data header (OBJ_DATA) - each only when published
+export interface PhysicalProperties {
+  gm?: number; // km³/s²
+  meanRadiusKm?: number; // Volumetric mean radius
+  density?: number; // g/cm³
+  siderealRotationHours?: number; // Negative for retrograde rotation
+  obliquityDeg?: number; // Axial tilt to the orbit
+  geometricAlbedo?: number;
+  surfaceGravity?: number; // m/s², derived from GM and the mean radius
+}
+
+export interface PhysicalData extends PhysicalProperties {
+  bodyId: string;
+  name: string;
+  timestamp: string; // When Horizons was asked
+}
+
+export interface PhysicalDataResponse {
+  data: PhysicalData | null; // null when Horizons publishes nothing for the body or can't be reached
+  meta: {
+    source: DataSource;
+    timestamp: string;
+    upstream?: UpstreamStatus;
+  };
+}
+
+// Site on Earth the sky is observed from (geodetic, WGS-84)
+export interface ObserverSite {
+  latitude: number; // Degrees, north positive
+  longitude: number; // Degrees, east positive
+  altitudeKm: number; // Above the reference ellipsoid
+}
+
+// Where a body appears from a site (Horizons OBSERVER table, or computed offline)
+export interface ObserverData {
+  bodyId: string;
+  name: string;
+  rightAscension: number; // Degrees, ICRF astrometric
+  declination: number; // Degrees
+  azimuth: number; // Degrees from north through east
+  elevation: number; // Degrees above the horizon, airless (no refraction)
+  magnitude?: number; // Apparent visual magnitude
+  illumination?: number; // Illuminated fraction, percent
+  elongation?: number; // Sun-observer-target angle, degrees
+  elongationSide?: 'L' | 'T'; // Leading the Sun (morning sky) or trailing it (evening sky)
+  constellation?: string; // IAU abbreviation, e.g. 'Gem'
+  timestamp: string;
+}
+
+export interface ObserverResponse {
+  data: ObserverData[];
+  meta: {
+    source: DataSource;
+    timestamp: string;
+    requestedDate: string; // Canonical UTC timestamp
+    site: ObserverSite;
+    upstream?: UpstreamStatus;
   };
 }
 
@@ -41,4 +187,20 @@ export const BODY_IDS = {
   SATURN: '699',
   URANUS: '799',
   NEPTUNE: '899',
+  // Natural satellites (Horizons numbering: first digit = parent planet)
+  MOON: '301',
+  PHOBOS: '401',
+  DEIMOS: '402',
+  IO: '501',
+  EUROPA: '502',
+  GANYMEDE: '503',
+  CALLISTO: '504',
+  TITAN: '606',
+  TRITON: '801',
+  // Dwarf planets (Pluto is a major body, the rest are SPK-IDs of numbered minor planets)
+  PLUTO: '999',
+  CERES: '2000001',
+  ERIS: '2136199',
+  HAUMEA: '2136108',
+  MAKEMAKE: '2136472',
 } as const;
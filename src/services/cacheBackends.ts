@@ -0,0 +1,199 @@
+/**
+ * Cache Backends
+ * Key-value stores behind cacheService, selected with the CACHE_BACKEND environment variable:
+ * - memory: in-process LRU (default without Upstash credentials - lost on restart)
+ * - filesystem: one JSON file per key under CACHE_DIR (survives restarts, local dev and CI)
+ * - upstash: Upstash Redis over REST (default when UPSTASH_REDIS_REST_* are set)
+ */
+
+import { constants, promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { Redis } from '@upstash/redis';
+
+// --- Types ---
+
+export type CacheBackendName = 'memory' | 'filesystem' | 'upstash';
+
+export interface CacheBackend {
+  name: CacheBackendName;
+  /** Stored value, or null when missing or expired */
+  get<T>(key: string): Promise<T | null>;
+  /** Stores a JSON-serializable value, expiring after ttlSeconds (null = never) */
+  set<T>(key: string, value: T, ttlSeconds: number | null): Promise<void>;
+  /** Throws when the store is unreachable */
+  ping(): Promise<void>;
+}
+
+interface StoredEntry<T> {
+  value: T;
+  expiresAt: number | null; // Epoch milliseconds, null = never
+}
+
+// --- Constants ---
+
+const DEFAULT_MEMORY_MAX_ENTRIES = 5000;
+const DEFAULT_CACHE_DIR = '.cache/ephemeris';
+
+// --- Helper Functions ---
+
+function getExpiresAt(ttlSeconds: number | null): number | null {
+  return ttlSeconds === null ? null : Date.now() + ttlSeconds * 1000;
+}
+
+function isExpired(entry: StoredEntry<unknown>): boolean {
+  return entry.expiresAt !== null && entry.expiresAt <= Date.now();
+}
+
+// --- Backends ---
+
+/**
+ * In-process LRU - a Map keeps insertion order, so re-inserting on read moves a key to the end
+ */
+export function createMemoryBackend(maxEntries = DEFAULT_MEMORY_MAX_ENTRIES): CacheBackend {
+  const entries = new Map<string, StoredEntry<unknown>>();
+
+  return {
+    name: 'memory',
+
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+
+      entries.delete(key);
+      if (isExpired(entry)) return null;
+
+      entries.set(key, entry);
+      return entry.value as T;
+    },
+
+    async set<T>(key: string, value: T, ttlSeconds: number | null) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: getExpiresAt(ttlSeconds) });
+
+      // Evict least recently used
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey === undefined) break;
+        entries.delete(oldestKey);
+      }
+    },
+
+    async ping() {},
+  };
+}
+
+/**
+ * JSON-on-disk store - one file per key, expired files are removed when read
+ */
+export function createFileSystemBackend(directory = DEFAULT_CACHE_DIR): CacheBackend {
+  const root = path.resolve(directory);
+
+  // Keys contain ':' - encode them into safe file names
+  const getFilePath = (key: string) => path.join(root, `${encodeURIComponent(key)}.json`);
+
+  return {
+    name: 'filesystem',
+
+    async get<T>(key: string) {
+      const filePath = getFilePath(key);
+      let entry: StoredEntry<T>;
+
+      try {
+        entry = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      } catch {
+        // Missing or half-written file - treat as a miss
+        return null;
+      }
+
+      if (isExpired(entry)) {
+        await fs.rm(filePath, { force: true });
+        return null;
+      }
+      return entry.value;
+    },
+
+    async set<T>(key: string, value: T, ttlSeconds: number | null) {
+      const entry: StoredEntry<T> = { value, expiresAt: getExpiresAt(ttlSeconds) };
+      const filePath = getFilePath(key);
+      // Unique per write - concurrent writes of one key must not share a temp file
+      const tempPath = `${filePath}.${randomUUID()}.tmp`;
+
+      // Write then rename, so concurrent readers never see a partial file
+      await fs.mkdir(root, { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(entry), 'utf-8');
+      await fs.rename(tempPath, filePath);
+    },
+
+    async ping() {
+      await fs.mkdir(root, { recursive: true });
+      await fs.access(root, constants.W_OK);
+    },
+  };
+}
+
+/**
+ * Upstash Redis over REST - expiry is handled by Redis itself
+ */
+export function createUpstashBackend(url: string, token: string): CacheBackend {
+  const redis = new Redis({ url, token });
+
+  return {
+    name: 'upstash',
+
+    async get<T>(key: string) {
+      return redis.get<T>(key);
+    },
+
+    async set<T>(key: string, value: T, ttlSeconds: number | null) {
+      if (ttlSeconds === null) {
+        await redis.set(key, value);
+      } else {
+        await redis.set(key, value, { ex: ttlSeconds });
+      }
+    },
+
+    async ping() {
+      await redis.ping();
+    },
+  };
+}
+
+// --- Factory ---
+
+/**
+ * Backend chosen by CACHE_BACKEND
+ * Unset: Upstash when its credentials are configured, the in-memory LRU otherwise.
+ * Upstash requested without credentials falls back to the LRU (logged) instead of disabling caching.
+ */
+export function createCacheBackend(env: NodeJS.ProcessEnv = process.env): CacheBackend {
+  const requested = env.CACHE_BACKEND?.trim().toLowerCase();
+  const upstashUrl = env.UPSTASH_REDIS_REST_URL;
+  const upstashToken = env.UPSTASH_REDIS_REST_TOKEN;
+  const maxEntries = Number(env.CACHE_MEMORY_MAX_ENTRIES) || DEFAULT_MEMORY_MAX_ENTRIES;
+
+  switch (requested) {
+    case 'memory':
+      return createMemoryBackend(maxEntries);
+
+    case 'filesystem':
+      return createFileSystemBackend(env.CACHE_DIR || DEFAULT_CACHE_DIR);
+
+    case 'upstash':
+      if (upstashUrl && upstashToken) {
+        return createUpstashBackend(upstashUrl, upstashToken);
+      }
+      console.error('[Cache] CACHE_BACKEND=upstash but Redis credentials are not configured - using in-memory LRU');
+      return createMemoryBackend(maxEntries);
+
+    case undefined:
+    case '':
+      return upstashUrl && upstashToken
+        ? createUpstashBackend(upstashUrl, upstashToken)
+        : createMemoryBackend(maxEntries);
+
+    default:
+      console.error(`[Cache] Unknown CACHE_BACKEND "${requested}" - using in-memory LRU`);
+      return createMemoryBackend(maxEntries);
+  }
+}
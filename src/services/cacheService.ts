@@ -1,92 +1,124 @@
 /**
- * Redis Cache Service using Upstash
+ * Ephemeris Cache Service
  * Provides caching layer for ephemeris data with TTL strategy
+ * Storage is delegated to the backend selected by CACHE_BACKEND (see cacheBackends.ts)
  */
 
-import { Redis } from '@upstash/redis';
+import { createCacheBackend, type CacheBackend } from './cacheBackends';
+import { MS_PER_MINUTE, parseTimestamp, toTimestamp } from '@/lib/time';
+import { getObserverSiteKey } from '@/lib/observer';
 import type { EphemerisData } from './nasaClient';
+import type { EphemerisErrorResponse, EphemerisSample, ObserverData, ObserverSite, PhysicalData } from '@/lib/types';
+
+// --- Types ---
+
+// What Horizons answered for a body's physical properties - negative answers are kept too
+export interface PhysicalAnswer {
+  data: PhysicalData | null; // null when Horizons publishes nothing or rejected the query
+  queryError?: { status: number; body: EphemerisErrorResponse }; // Rejected query (see toQueryErrorResponse)
+}
 
 // --- Constants ---
 
-// TTL in seconds based on orbital speed
+// TTL in seconds based on the requested time relative to today (null = never expires)
+// A past position never changes, so it is kept forever; only near-present and future
+// dates expire, so they pick up refreshed Horizons solutions.
 const TTL_CONFIG = {
-  // Outer planets move slowly - cache for 24 hours
-  SLOW_PLANETS: 86400, // 24h
-  // Inner planets - cache for 6 hours
-  INNER_PLANETS: 21600, // 6h
-  // Earth/Moon - cache for 1 hour (faster relative motion)
-  FAST_BODIES: 3600, // 1h
-};
-
-// Body IDs by speed category
-const SLOW_PLANET_IDS = ['599', '699', '799', '899']; // Jupiter, Saturn, Uranus, Neptune
-const FAST_BODY_IDS = ['399', '301']; // Earth, Moon
+  // Before the near-present window - immutable
+  PAST: null,
+  // Around today - short, in case the orbit solution was just updated
+  NEAR_PRESENT: 3600, // 1h
+  // Predictions further ahead - medium
+  FUTURE: 86400, // 24h
+} as const;
+
+// Days either side of today (UTC) treated as near-present
+const NEAR_PRESENT_WINDOW_DAYS = 2;
+const MS_PER_DAY = 86_400_000;
+
+// Bump when the shape or meaning of cached entries changes - old entries are then never read again
+// v3: keys are UTC timestamps at minute resolution (v2 keyed dates, with vectors at TDB midnight)
+const CACHE_SCHEMA_VERSION = 3;
 
 // Cache key prefix
 const CACHE_PREFIX = 'ephemeris';
 
-// --- Redis Client Singleton ---
+// Physical properties barely change between Horizons solutions - keep them for a month
+const PHYSICAL_CACHE_PREFIX = 'physical';
+// v2: entries are PhysicalAnswer, so bodies without data or rejected by Horizons are cached as well
+const PHYSICAL_SCHEMA_VERSION = 2;
+const PHYSICAL_TTL = 30 * 86400; // 30 days
 
-let redisClient: Redis | null = null;
+// Observer tables depend on the site as well as the time - same TTLs as the vectors
+const OBSERVER_CACHE_PREFIX = 'observer';
+const OBSERVER_SCHEMA_VERSION = 1;
 
-function getRedisClient(): Redis | null {
-  if (redisClient) return redisClient;
+// --- Backend Singleton ---
 
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+let cacheBackend: CacheBackend | null = null;
 
-  if (!url || !token) {
-    console.warn('[Cache] Redis credentials not configured - caching disabled');
-    return null;
-  }
-
-  try {
-    redisClient = new Redis({ url, token });
-    return redisClient;
-  } catch (error) {
-    console.error('[Cache] Failed to initialize Redis client:', error);
-    return null;
+function getCacheBackend(): CacheBackend {
+  if (!cacheBackend) {
+    cacheBackend = createCacheBackend();
+    console.log(`[Cache] Using ${cacheBackend.name} backend`);
   }
+  return cacheBackend;
 }
 
 // --- Helper Functions ---
 
 /**
  * Generate cache key for ephemeris data
+ * Dates and timestamps are normalized, so "2024-01-15" and "2024-01-15T00:00:00Z" share an entry
+ * Vectors relative to a non-default center (e.g. the Sun from the barycenter) get their own key
+ */
+function getCacheKey(bodyId: string, time: string, centerId?: string): string {
+  const target = centerId ? `${bodyId}@${centerId}` : bodyId;
+  return `${CACHE_PREFIX}:v${CACHE_SCHEMA_VERSION}:${target}:${normalizeKeyTime(time)}`;
+}
+
+/**
+ * Generate cache key for an observer table row - the site is rounded (see getObserverSiteKey)
  */
-function getCacheKey(bodyId: string, date: string): string {
-  return `${CACHE_PREFIX}:${bodyId}:${date}`;
+function getObserverCacheKey(bodyId: string, time: string, site: ObserverSite): string {
+  return `${OBSERVER_CACHE_PREFIX}:v${OBSERVER_SCHEMA_VERSION}:${bodyId}@${getObserverSiteKey(site)}:${normalizeKeyTime(time)}`;
+}
+
+function normalizeKeyTime(time: string): string {
+  const parsed = parseTimestamp(time);
+  return parsed === null ? time : toTimestamp(parsed);
 }
 
 /**
- * Get TTL based on body ID
+ * Get TTL in seconds for a requested date or timestamp, null when the entry never expires
  */
-function getTTL(bodyId: string): number {
-  if (FAST_BODY_IDS.includes(bodyId)) {
-    return TTL_CONFIG.FAST_BODIES;
+export function getTTL(time: string, now = Date.now()): number | null {
+  const todayStart = Math.floor(now / MS_PER_DAY) * MS_PER_DAY;
+  const daysFromToday = ((parseTimestamp(time) ?? now) - todayStart) / MS_PER_DAY;
+
+  if (daysFromToday < -NEAR_PRESENT_WINDOW_DAYS) {
+    return TTL_CONFIG.PAST;
   }
-  if (SLOW_PLANET_IDS.includes(bodyId)) {
-    return TTL_CONFIG.SLOW_PLANETS;
+  if (daysFromToday <= NEAR_PRESENT_WINDOW_DAYS) {
+    return TTL_CONFIG.NEAR_PRESENT;
   }
-  return TTL_CONFIG.INNER_PLANETS;
+  return TTL_CONFIG.FUTURE;
 }
 
 // --- Public API ---
 
 /**
  * Get cached ephemeris data for a single body
- * Returns null if not cached or Redis unavailable
+ * Returns null if not cached or the backend is unavailable
  */
 export async function getCachedEphemeris(
   bodyId: string,
-  date: string
+  time: string,
+  centerId?: string
 ): Promise<EphemerisData | null> {
-  const redis = getRedisClient();
-  if (!redis) return null;
-
   try {
-    const key = getCacheKey(bodyId, date);
-    const cached = await redis.get<EphemerisData>(key);
+    const key = getCacheKey(bodyId, time, centerId);
+    const cached = await getCacheBackend().get<EphemerisData>(key);
     return cached;
   } catch (error) {
     console.error(`[Cache] Error getting cached data for ${bodyId}:`, error);
@@ -99,16 +131,14 @@ export async function getCachedEphemeris(
  */
 export async function setCachedEphemeris(
   bodyId: string,
-  date: string,
-  data: EphemerisData
+  time: string,
+  data: EphemerisData,
+  centerId?: string
 ): Promise<boolean> {
-  const redis = getRedisClient();
-  if (!redis) return false;
-
   try {
-    const key = getCacheKey(bodyId, date);
-    const ttl = getTTL(bodyId);
-    await redis.set(key, data, { ex: ttl });
+    const key = getCacheKey(bodyId, time, centerId);
+    const ttl = getTTL(time);
+    await getCacheBackend().set(key, data, ttl);
     return true;
   } catch (error) {
     console.error(`[Cache] Error caching data for ${bodyId}:`, error);
@@ -122,21 +152,15 @@ export async function setCachedEphemeris(
  */
 export async function getCachedBulkEphemeris(
   bodyIds: string[],
-  date: string
+  time: string
 ): Promise<{ cached: EphemerisData[]; missing: string[] }> {
-  const redis = getRedisClient();
-
-  if (!redis) {
-    return { cached: [], missing: bodyIds };
-  }
-
   const cached: EphemerisData[] = [];
   const missing: string[] = [];
 
   // Check cache for each body
   await Promise.all(
     bodyIds.map(async (bodyId) => {
-      const data = await getCachedEphemeris(bodyId, date);
+      const data = await getCachedEphemeris(bodyId, time);
       if (data) {
         cached.push(data);
       } else {
@@ -152,23 +176,136 @@ export async function getCachedBulkEphemeris(
  * Cache multiple ephemeris records
  */
 export async function setCachedBulkEphemeris(
-  date: string,
+  time: string,
   dataArray: EphemerisData[]
 ): Promise<void> {
   await Promise.all(
-    dataArray.map((data) => setCachedEphemeris(data.bodyId, date, data))
+    dataArray.map((data) => setCachedEphemeris(data.bodyId, time, data))
   );
 }
 
 /**
- * Check if Redis is available
+ * Cache every sample of a time series under its own timestamp key
+ * Only samples falling on a whole minute are stored, since keys have minute resolution
  */
-export async function isCacheAvailable(): Promise<boolean> {
-  const redis = getRedisClient();
-  if (!redis) return false;
+export async function setCachedEphemerisSeries(
+  bodyId: string,
+  name: string,
+  samples: EphemerisSample[],
+  centerId?: string
+): Promise<number> {
+  const minuteSamples = samples.filter(sample => Date.parse(sample.timestamp) % MS_PER_MINUTE === 0);
+
+  const results = await Promise.all(
+    minuteSamples.map((sample) =>
+      setCachedEphemeris(bodyId, sample.timestamp, {
+        bodyId,
+        name,
+        position: sample.position,
+        velocity: sample.velocity,
+        timestamp: new Date().toISOString(),
+        ...(centerId && { centerId }),
+      })
+    )
+  );
+
+  return results.filter(Boolean).length;
+}
+
+/**
+ * Cached time series of a body, one sample per timestamp
+ * Null unless every sample is cached - a partial series is fetched again in full
+ */
+export async function getCachedEphemerisSeries(
+  bodyId: string,
+  times: string[]
+): Promise<EphemerisSample[] | null> {
+  if (times.length === 0 || times.some(time => Date.parse(time) % MS_PER_MINUTE !== 0)) return null;
+
+  // A cold series misses on its first sample - don't look up the rest
+  const [first, ...rest] = times;
+  const firstCached = await getCachedEphemeris(bodyId, first);
+  if (!firstCached) return null;
+
+  const cached = [firstCached, ...await Promise.all(rest.map(time => getCachedEphemeris(bodyId, time)))];
+  const samples: EphemerisSample[] = [];
+
+  for (const [index, data] of cached.entries()) {
+    if (!data) return null;
+    samples.push({ timestamp: times[index], position: data.position, velocity: data.velocity });
+  }
+
+  return samples;
+}
 
+/**
+ * Get the cached physical data answer for a body
+ * Returns null if not cached or the backend is unavailable
+ */
+export async function getCachedPhysicalAnswer(bodyId: string): Promise<PhysicalAnswer | null> {
+  try {
+    const key = `${PHYSICAL_CACHE_PREFIX}:v${PHYSICAL_SCHEMA_VERSION}:${bodyId}`;
+    return await getCacheBackend().get<PhysicalAnswer>(key);
+  } catch (error) {
+    console.error(`[Cache] Error getting physical data for ${bodyId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Cache the physical data answer for a body
+ */
+export async function setCachedPhysicalAnswer(bodyId: string, answer: PhysicalAnswer): Promise<boolean> {
+  try {
+    const key = `${PHYSICAL_CACHE_PREFIX}:v${PHYSICAL_SCHEMA_VERSION}:${bodyId}`;
+    await getCacheBackend().set(key, answer, PHYSICAL_TTL);
+    return true;
+  } catch (error) {
+    console.error(`[Cache] Error caching physical data for ${bodyId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Get a cached observer table row for a body seen from a site
+ * Returns null if not cached or the backend is unavailable
+ */
+export async function getCachedObservation(
+  bodyId: string,
+  time: string,
+  site: ObserverSite
+): Promise<ObserverData | null> {
+  try {
+    return await getCacheBackend().get<ObserverData>(getObserverCacheKey(bodyId, time, site));
+  } catch (error) {
+    console.error(`[Cache] Error getting observer data for ${bodyId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Cache an observer table row for a body seen from a site
+ */
+export async function setCachedObservation(
+  time: string,
+  site: ObserverSite,
+  data: ObserverData
+): Promise<boolean> {
+  try {
+    await getCacheBackend().set(getObserverCacheKey(data.bodyId, time, site), data, getTTL(time));
+    return true;
+  } catch (error) {
+    console.error(`[Cache] Error caching observer data for ${data.bodyId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Check if the cache backend is reachable
+ */
+export async function isCacheAvailable(): Promise<boolean> {
   try {
-    await redis.ping();
+    await getCacheBackend().ping();
     return true;
   } catch {
     return false;
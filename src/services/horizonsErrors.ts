@@ -0,0 +1,194 @@
+/**
+ * Horizons Errors
+ * Typed failures thrown by the Horizons client, so routes can decide
+ * between cached, propagated or no data depending on what went wrong.
+ * Also reads the diagnostics Horizons puts in `result` when it rejects a query.
+ */
+
+import type { EphemerisErrorResponse, HorizonsCandidate, UpstreamErrorCode } from '@/lib/types';
+
+// --- Types ---
+
+export interface HorizonsErrorDetails {
+  candidates?: HorizonsCandidate[];
+  validFrom?: string; // ISO timestamp
+  validTo?: string; // ISO timestamp
+}
+
+// --- Errors ---
+
+export class HorizonsError extends Error {
+  readonly code: UpstreamErrorCode;
+  readonly status?: number; // HTTP status when Horizons answered
+  readonly details: HorizonsErrorDetails;
+
+  constructor(code: UpstreamErrorCode, message: string, status?: number, details: HorizonsErrorDetails = {}) {
+    super(message);
+    this.name = 'HorizonsError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+// --- Constants ---
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// No ephemeris for target "Voyager 1 (spacecraft)" prior to A.D. 1977-SEP-05 14:01:07.2625 UT
+const NO_EPHEMERIS_PATTERN =
+  /No ephemeris for target\s+"([^"]*)"\s+(prior to|after)\s+A\.D\.\s+(\d{4})-([A-Z]{3})-(\d{2})(?:\s+(\d{2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?)?/i;
+
+// Major bodies: "Number of matches =   2. Use ID# to make unique selection."
+// Small bodies: "(2 matches. To SELECT, enter record # (integer), followed by semi-colon.)"
+const MULTIPLE_MATCHES_PATTERN = /Multiple .*match|Number of matches\s*=|\d+\s+matches\.\s+To SELECT/i;
+
+const NOT_FOUND_PATTERN = /No matches found|No such record|Unknown target/i;
+
+// Candidate table separator: "  -------  ---------------------------------- -----------"
+const TABLE_SEPARATOR_PATTERN = /^\s*-{3,}(\s+-{3,})*\s*$/;
+
+// --- Helper Functions ---
+
+/**
+ * Normalize anything thrown while talking to Horizons into a HorizonsError
+ */
+export function toHorizonsError(error: unknown): HorizonsError {
+  if (error instanceof HorizonsError) return error;
+
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return new HorizonsError('UPSTREAM_TIMEOUT', 'Horizons did not respond in time');
+  }
+  if (error instanceof SyntaxError) {
+    return new HorizonsError('PARSE_FAILURE', `Horizons returned invalid JSON: ${error.message}`);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new HorizonsError('UPSTREAM_UNAVAILABLE', `Horizons request failed: ${message}`);
+}
+
+/**
+ * Calendar date from a Horizons diagnostic ("1977-SEP-05 14:01:07") as an ISO timestamp
+ */
+function toISOTimestamp(
+  year: string,
+  month: string,
+  day: string,
+  hours = '0',
+  minutes = '0',
+  seconds = '0'
+): string | undefined {
+  const monthIndex = MONTHS.indexOf(month.toUpperCase());
+  if (monthIndex === -1) return undefined;
+
+  const milliseconds = Date.UTC(
+    Number(year),
+    monthIndex,
+    Number(day),
+    Number(hours),
+    Number(minutes),
+    0,
+    Math.round(parseFloat(seconds) * 1000)
+  );
+  return new Date(milliseconds).toISOString();
+}
+
+/**
+ * Rows of the candidate table listed for an ambiguous lookup
+ * The first column is the ID# (major bodies) or record # (small bodies); the last is the name
+ */
+function parseCandidates(result: string): HorizonsCandidate[] {
+  const lines = result.split('\n');
+  const separatorIndex = lines.findIndex(line => TABLE_SEPARATOR_PATTERN.test(line));
+  if (separatorIndex === -1) return [];
+
+  const candidates: HorizonsCandidate[] = [];
+
+  for (const line of lines.slice(separatorIndex + 1)) {
+    const trimmed = line.trim();
+    if (!trimmed) break;
+
+    const match = trimmed.match(/^(-?\d+)\s+(.*)$/);
+    if (!match) break;
+
+    // Columns are separated by runs of spaces; single spaces belong to names ("Mars Barycenter")
+    const columns = match[2].split(/\s{2,}/).filter(Boolean);
+    candidates.push({ id: match[1], name: columns[columns.length - 1] ?? '' });
+  }
+
+  return candidates;
+}
+
+/**
+ * Recognise a Horizons result that rejects the query instead of listing vectors
+ * Returns null when the text isn't a known diagnostic
+ */
+export function parseHorizonsDiagnostics(result: string, bodyId: string): HorizonsError | null {
+  const noEphemeris = result.match(NO_EPHEMERIS_PATTERN);
+  if (noEphemeris) {
+    const [, target, direction, year, month, day, hours, minutes, seconds] = noEphemeris;
+    const boundary = toISOTimestamp(year, month, day, hours, minutes, seconds);
+    const isBefore = direction.toLowerCase() === 'prior to';
+
+    return new HorizonsError(
+      'DATE_OUT_OF_RANGE',
+      `No ephemeris for ${target || bodyId} ${isBefore ? 'before' : 'after'} ${boundary ?? `${year}-${month}-${day}`}`,
+      undefined,
+      isBefore ? { validFrom: boundary } : { validTo: boundary }
+    );
+  }
+
+  if (MULTIPLE_MATCHES_PATTERN.test(result)) {
+    const candidates = parseCandidates(result);
+    return new HorizonsError(
+      'TARGET_AMBIGUOUS',
+      `"${bodyId}" matches ${candidates.length || 'several'} bodies - use a unique ID`,
+      undefined,
+      { candidates }
+    );
+  }
+
+  if (NOT_FOUND_PATTERN.test(result)) {
+    return new HorizonsError('TARGET_NOT_FOUND', `Horizons has no target for ${bodyId}`);
+  }
+
+  return null;
+}
+
+/**
+ * Whether the error comes from the query itself (unknown or ambiguous body, date outside its ephemeris)
+ * Retrying or substituting data won't fix these - the caller has to change the request
+ */
+export function isQueryError(error: HorizonsError): boolean {
+  return error.code === 'TARGET_NOT_FOUND'
+    || error.code === 'TARGET_AMBIGUOUS'
+    || error.code === 'DATE_OUT_OF_RANGE';
+}
+
+/**
+ * HTTP status and JSON body a route answers with for a query error
+ */
+export function toQueryErrorResponse(
+  error: HorizonsError,
+  bodyId: string
+): { status: number; body: EphemerisErrorResponse } {
+  return {
+    status: error.code === 'TARGET_NOT_FOUND' ? 404 : 400,
+    body: {
+      error: error.message,
+      code: error.code,
+      bodyId,
+      ...error.details,
+    },
+  };
+}
+
+/**
+ * Whether the error says something about Horizons' health (and should count towards the circuit breaker)
+ * A missing target or an unreadable table means Horizons answered fine
+ */
+export function isUpstreamFailure(error: HorizonsError): boolean {
+  return error.code === 'UPSTREAM_TIMEOUT'
+    || error.code === 'UPSTREAM_RATE_LIMITED'
+    || error.code === 'UPSTREAM_UNAVAILABLE';
+}
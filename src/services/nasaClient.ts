@@ -4,6 +4,25 @@
  * Docs: https://ssd-api.jpl.nasa.gov/doc/horizons.html
  */
 
+import { SMALL_BODIES, getHorizonsCommand } from '@/lib/smallBodies';
+import { SPACECRAFT, isWithinMissionWindow } from '@/lib/spacecraft';
+import { createCircuitBreaker } from '@/lib/circuitBreaker';
+import { MS_PER_MINUTE, getNowTimestamp, parseTimestamp, toHorizonsTime, toTimestamp } from '@/lib/time';
+import type {
+  CircuitState,
+  EphemerisSample,
+  ObserverData,
+  ObserverSite,
+  PhysicalData,
+  PhysicalProperties
+} from '@/lib/types';
+import {
+  HorizonsError,
+  isUpstreamFailure,
+  parseHorizonsDiagnostics,
+  toHorizonsError
+} from './horizonsErrors';
+
 // --- Types ---
 
 export interface EphemerisData {
@@ -12,6 +31,7 @@ export interface EphemerisData {
   position: { x: number; y: number; z: number };
   velocity?: { x: number; y: number; z: number }; // km/s
   timestamp: string;
+  centerId?: string; // Body the vectors are relative to (satellites use their parent), Sun if omitted
 }
 
 interface HorizonsResponse {
@@ -32,6 +52,22 @@ export const BODY_IDS = {
   SATURN: '699',
   URANUS: '799',
   NEPTUNE: '899',
+  // Natural satellites (Horizons numbering: first digit = parent planet)
+  MOON: '301',
+  PHOBOS: '401',
+  DEIMOS: '402',
+  IO: '501',
+  EUROPA: '502',
+  GANYMEDE: '503',
+  CALLISTO: '504',
+  TITAN: '606',
+  TRITON: '801',
+  // Dwarf planets (Pluto is a major body, the rest are SPK-IDs of numbered minor planets)
+  PLUTO: '999',
+  CERES: '2000001',
+  ERIS: '2136199',
+  HAUMEA: '2136108',
+  MAKEMAKE: '2136472',
 } as const;
 
 export const BODY_NAMES: Record<string, string> = {
@@ -44,34 +80,103 @@ export const BODY_NAMES: Record<string, string> = {
   '699': 'Saturn',
   '799': 'Uranus',
   '899': 'Neptune',
+  '301': 'Moon',
+  '401': 'Phobos',
+  '402': 'Deimos',
+  '501': 'Io',
+  '502': 'Europa',
+  '503': 'Ganymede',
+  '504': 'Callisto',
+  '606': 'Titan',
+  '801': 'Triton',
+  '999': 'Pluto',
+  ...Object.fromEntries(SMALL_BODIES.map(body => [body.bodyId, body.englishName])),
+  ...Object.fromEntries(SPACECRAFT.map(spacecraft => [spacecraft.bodyId, spacecraft.englishName])),
 };
 
+// Optional catalogs, fetched on demand (set=catalog): dwarf planets, asteroids, comets and spacecraft
+export const CATALOG_BODY_IDS: string[] = [
+  BODY_IDS.PLUTO,
+  ...[...SMALL_BODIES, ...SPACECRAFT].map(body => body.bodyId),
+];
+
+// Bodies fetched when no IDs are requested: the Sun, the planets and their major moons
+export const DEFAULT_BODY_IDS: string[] = Object.values(BODY_IDS)
+  .filter(bodyId => !CATALOG_BODY_IDS.includes(bodyId));
+
+// Sun-centered frame used for planets
+const HELIOCENTRIC_CENTER_ID = '10';
+
 // Scale factor: 1 AU = 149,597,870.7 km
 const AU_TO_KM = 149_597_870.7;
 
-// Horizons API base URL
-const HORIZONS_API_URL = 'https://ssd.jpl.nasa.gov/api/horizons.api';
+// Horizons API base URL - HORIZONS_API_URL overrides it (e.g. the mock server used by the tests)
+const DEFAULT_HORIZONS_API_URL = 'https://ssd.jpl.nasa.gov/api/horizons.api';
 
 // Rate limiting: track last request time
 let lastRequestTime = 0;
 const MIN_REQUEST_INTERVAL_MS = 1000; // 1 second between requests
 
+// Per-attempt timeout - a stalled Horizons request must not hold the route open
+const REQUEST_TIMEOUT_MS = 15_000;
+
+// Retries on 429/503: exponential backoff with full jitter, honoring Retry-After when longer
+const MAX_RETRIES = 3;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 8000;
+const RETRYABLE_STATUSES = [429, 503];
+
+// Stop calling Horizons after repeated failures, try again after a cooldown
+const horizonsCircuit = createCircuitBreaker({
+  failureThreshold: 5,
+  cooldownMs: 60_000,
+});
+
 // --- Helper Functions ---
 
+/**
+ * Get the body a satellite's vectors are requested relative to
+ * Horizons numbers satellites NXX (XX != 99) after their planet N99, e.g. 301 -> 399
+ */
+export function getCenterBodyId(bodyId: string): string {
+  if (/^[1-9]\d\d$/.test(bodyId) && !bodyId.endsWith('99')) {
+    return `${bodyId[0]}99`;
+  }
+  return HELIOCENTRIC_CENTER_ID;
+}
+
+/**
+ * Horizons endpoint - read on every request, so tests can point it at the mock server after import
+ */
+function getHorizonsApiUrl(): string {
+  return process.env.HORIZONS_API_URL || DEFAULT_HORIZONS_API_URL;
+}
+
 /**
  * Wait to respect rate limiting
+ * Each caller reserves the next free slot before waiting, so concurrent callers
+ * are spaced out instead of all waking up together
  */
 async function enforceRateLimit(): Promise<void> {
   const now = Date.now();
-  const timeSinceLastRequest = now - lastRequestTime;
+  const slot = Math.max(now, lastRequestTime + MIN_REQUEST_INTERVAL_MS);
+  lastRequestTime = slot;
 
-  if (timeSinceLastRequest < MIN_REQUEST_INTERVAL_MS) {
-    await new Promise(resolve =>
-      setTimeout(resolve, MIN_REQUEST_INTERVAL_MS - timeSinceLastRequest)
-    );
+  if (slot > now) {
+    await new Promise(resolve => setTimeout(resolve, slot - now));
   }
+}
 
-  lastRequestTime = Date.now();
+/**
+ * Delay before retry number `attempt` (0-based): random in [0, min(max, base * 2^attempt)]
+ */
+function getBackoffDelay(attempt: number, retryAfterHeader: string | null): number {
+  const backoff = Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  const retryAfterSeconds = retryAfterHeader ? Number(retryAfterHeader) : NaN;
+
+  return Number.isFinite(retryAfterSeconds)
+    ? Math.max(backoff, Math.min(retryAfterSeconds * 1000, BACKOFF_MAX_MS))
+    : backoff;
 }
 
 /**
@@ -80,20 +185,80 @@ async function enforceRateLimit(): Promise<void> {
  * 
  * VEC_TABLE='3' format example:
  * $$SOE
- *  2460318.500000000 = A.D. 2024-Jan-15 00:00:00.0000 TDB
+ *  2460318.500000000 = A.D. 2024-Jan-15 00:00:00.0000 UT
  *   X = 9.876543210987654E-01 Y = 2.345678901234567E-01 Z = 1.234567890123456E-04
  *   VX= 1.234567890123456E-02 VY= 5.678901234567890E-02 VZ= 9.012345678901234E-04
  * $$EOE
+ *
+ * Multi-day windows repeat the three-line record once per step.
  */
 interface ParsedVectors {
   position: { x: number; y: number; z: number };
   velocity?: { x: number; y: number; z: number };
 }
 
+interface ParsedVectorRecord extends ParsedVectors {
+  julianDay: number;
+  timestamp: string; // ISO string derived from the record's Julian day
+}
+
 // AU per day to km per second conversion
 const AU_PER_DAY_TO_KM_PER_SEC = AU_TO_KM / 86400;
 
-function parseVectorFromResponse(result: string): ParsedVectors | null {
+// Record header line: "2460318.500000000 = A.D. 2024-Jan-15 00:00:00.0000 UT"
+// With TIME_TYPE='UT' the Julian day is on the UTC scale, so it converts straight to a Date
+const RECORD_HEADER_PATTERN = /^(\d+\.\d+)\s*=\s*A\.D\./;
+
+function julianDayToISOString(julianDay: number): string {
+  return new Date(Math.round((julianDay - 2440587.5) * 86400000)).toISOString();
+}
+
+function parsePositionLine(positionLine: string): ParsedVectors['position'] | null {
+  // Parse position "X = 1.234E-01 Y = 5.678E-02 Z = 9.012E-03" format
+  const xMatch = positionLine.match(/X\s*=\s*([-+]?\d+\.?\d*E?[+-]?\d*)/i);
+  const yMatch = positionLine.match(/Y\s*=\s*([-+]?\d+\.?\d*E?[+-]?\d*)/i);
+  const zMatch = positionLine.match(/Z\s*=\s*([-+]?\d+\.?\d*E?[+-]?\d*)/i);
+
+  if (!xMatch || !yMatch || !zMatch) {
+    console.error('[NASA Client] Could not parse X/Y/Z values from:', positionLine);
+    return null;
+  }
+
+  const xAU = parseFloat(xMatch[1]);
+  const yAU = parseFloat(yMatch[1]);
+  const zAU = parseFloat(zMatch[1]);
+
+  // Convert AU to km for consistent scale system (1 unit = 1M km)
+  return {
+    x: xAU * AU_TO_KM,
+    y: zAU * AU_TO_KM, // Z in astronomy -> Y in Three.js (up)
+    z: yAU * AU_TO_KM, // Y in astronomy -> Z in Three.js
+  };
+}
+
+function parseVelocityLine(velocityLine: string): ParsedVectors['velocity'] {
+  const vxMatch = velocityLine.match(/VX\s*=\s*([-+]?\d+\.?\d*E?[+-]?\d*)/i);
+  const vyMatch = velocityLine.match(/VY\s*=\s*([-+]?\d+\.?\d*E?[+-]?\d*)/i);
+  const vzMatch = velocityLine.match(/VZ\s*=\s*([-+]?\d+\.?\d*E?[+-]?\d*)/i);
+
+  if (!vxMatch || !vyMatch || !vzMatch) return undefined;
+
+  const vxAU = parseFloat(vxMatch[1]);
+  const vyAU = parseFloat(vyMatch[1]);
+  const vzAU = parseFloat(vzMatch[1]);
+
+  // Convert AU/day to km/s and apply same coordinate swap
+  return {
+    x: vxAU * AU_PER_DAY_TO_KM_PER_SEC,
+    y: vzAU * AU_PER_DAY_TO_KM_PER_SEC, // Z -> Y
+    z: vyAU * AU_PER_DAY_TO_KM_PER_SEC, // Y -> Z
+  };
+}
+
+/**
+ * Parse every record between $$SOE and $$EOE into timestamped vectors
+ */
+export function parseVectorRecordsFromResponse(result: string): ParsedVectorRecord[] | null {
   // Look for the data section between $$SOE and $$EOE markers
   const soeIndex = result.indexOf('$$SOE');
   const eoeIndex = result.indexOf('$$EOE');
@@ -111,145 +276,595 @@ function parseVectorFromResponse(result: string): ParsedVectors | null {
     return null;
   }
 
-  // Find the line containing X =, Y =, Z = (position vector format)
-  const positionLine = lines.find(line =>
-    line.includes('X =') && line.includes('Y =') && line.includes('Z =')
-  );
+  const records: ParsedVectorRecord[] = [];
+  let julianDay: number | null = null;
+  let position: ParsedVectors['position'] | null = null;
+
+  for (const line of lines) {
+    const headerMatch = line.match(RECORD_HEADER_PATTERN);
+    if (headerMatch) {
+      // A record without a velocity line (e.g. VEC_TABLE='1') ends where the next one starts
+      if (julianDay !== null && position) {
+        records.push({ julianDay, timestamp: julianDayToISOString(julianDay), position });
+      }
+      julianDay = parseFloat(headerMatch[1]);
+      position = null;
+      continue;
+    }
 
-  // Find the line containing VX=, VY=, VZ= (velocity vector format)
-  const velocityLine = lines.find(line =>
-    line.includes('VX=') && line.includes('VY=') && line.includes('VZ=')
-  );
+    // Position line: X =, Y =, Z =
+    if (line.includes('X =') && line.includes('Y =') && line.includes('Z =')) {
+      position = parsePositionLine(line);
+      if (!position) return null;
+      continue;
+    }
+
+    // Velocity line: VX=, VY=, VZ= - closes the current record
+    if (line.includes('VX=') && line.includes('VY=') && line.includes('VZ=')) {
+      if (julianDay === null || !position) continue;
+
+      records.push({
+        julianDay,
+        timestamp: julianDayToISOString(julianDay),
+        position,
+        velocity: parseVelocityLine(line),
+      });
+      julianDay = null;
+      position = null;
+    }
+  }
 
-  if (!positionLine) {
+  // ...and the last one at the end of the table
+  if (julianDay !== null && position) {
+    records.push({ julianDay, timestamp: julianDayToISOString(julianDay), position });
+  }
+
+  if (records.length === 0) {
     console.error('[NASA Client] Could not find position vector line');
     return null;
   }
 
-  // Parse position "X = 1.234E-01 Y = 5.678E-02 Z = 9.012E-03" format
-  const xMatch = positionLine.match(/X\s*=\s*([-+]?\d+\.?\d*E?[+-]?\d*)/i);
-  const yMatch = positionLine.match(/Y\s*=\s*([-+]?\d+\.?\d*E?[+-]?\d*)/i);
-  const zMatch = positionLine.match(/Z\s*=\s*([-+]?\d+\.?\d*E?[+-]?\d*)/i);
+  return records;
+}
 
-  if (!xMatch || !yMatch || !zMatch) {
-    console.error('[NASA Client] Could not parse X/Y/Z values from:', positionLine);
+/**
+ * Parse the first record of a Horizons vector table
+ */
+export function parseVectorFromResponse(result: string): ParsedVectors | null {
+  const records = parseVectorRecordsFromResponse(result);
+  if (!records) return null;
+
+  const { position, velocity } = records[0];
+
+  if (velocity) {
+    console.log(`[NASA Client] Parsed velocity: VX=${velocity.x.toFixed(2)}, VY=${velocity.y.toFixed(2)}, VZ=${velocity.z.toFixed(2)} km/s`);
+  }
+  console.log(`[NASA Client] Parsed position: X=${position.x / AU_TO_KM}, Y=${position.z / AU_TO_KM}, Z=${position.y / AU_TO_KM} AU`);
+
+  return { position, velocity };
+}
+
+/**
+ * Parse the physical data block Horizons prints with OBJ_DATA='YES'
+ * The block is two columns of "label = value" cells, and the labels vary between bodies:
+ *
+ *  Vol. mean radius (km) = 3389.92+-0.04   Density (g/cm^3)      =  3.933(5+-4)
+ *  Sidereal rot. period  =   24.622962 hr  Sid. rot. rate, rad/s =  0.0000708822
+ *  GM (km^3/s^2)         = 42828.375214    Mass ratio (Sun/Mars) = 3098703.59
+ *
+ * Small bodies use short keys instead: "GM= n.a.   RAD= 469.7   ROTPER= 9.07417"
+ */
+
+// One cell: a label, '=' and a value running up to the next label (two or more spaces ahead)
+const PHYSICAL_CELL_PATTERN = /([A-Za-z][^=]*?)\s*=\s*(.*?)(?=\s{2,}[A-Za-z][^=]*=|$)/g;
+
+// Leading number of a value: "3.933(5+-4)", "~1700", ".090", "-243.0185 d"
+const LEADING_NUMBER_PATTERN = /^[~<>]?\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)/;
+
+// Rotation written out in units: "9h 55m 29.711 s"
+const HMS_PATTERN = /^(\d+)\s*h\s*(\d+)\s*m\s*([\d.]+)\s*s/;
+
+// Gravitational constant in km³/(kg·s²), for bodies that publish a mass but no GM
+const G_KM3_PER_KG_S2 = 6.6743e-20;
+
+interface PhysicalCell {
+  label: string;
+  value: string;
+}
+
+function parsePhysicalCells(result: string): PhysicalCell[] {
+  const cells: PhysicalCell[] = [];
+
+  for (const line of result.split('\n')) {
+    // The object data comes first - stop at the ephemeris itself
+    if (line.startsWith('$$SOE') || /^\s*Ephemeris\s*\//.test(line)) break;
+
+    for (const match of line.matchAll(PHYSICAL_CELL_PATTERN)) {
+      cells.push({ label: match[1].trim(), value: match[2].trim() });
+    }
+  }
+
+  return cells;
+}
+
+function parseLeadingNumber(value: string): number | undefined {
+  const match = value.match(LEADING_NUMBER_PATTERN);
+  if (!match) return undefined;
+
+  const number = parseFloat(match[1]);
+  return isFinite(number) ? number : undefined;
+}
+
+function findCellNumber(cells: PhysicalCell[], ...patterns: RegExp[]): number | undefined {
+  for (const pattern of patterns) {
+    for (const cell of cells) {
+      if (!pattern.test(cell.label)) continue;
+      const number = parseLeadingNumber(cell.value);
+      if (number !== undefined) return number;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Sidereal rotation period in hours, whatever unit the header uses (h, d or s, or h m s)
+ * Negative values (retrograde rotation) keep their sign
+ */
+function parseRotationHours(cells: PhysicalCell[]): number | undefined {
+  const cell = cells.find(candidate =>
+    /(sidereal|sid\.)\s*rot(ation|\.)?\s*period|sidereal day|^rot(ation(al)?|\.)?\s*period|^ROTPER$/i.test(candidate.label)
+    && parseLeadingNumber(candidate.value) !== undefined
+  );
+  if (!cell) return undefined;
+
+  const hms = cell.value.match(HMS_PATTERN);
+  if (hms) {
+    return Number(hms[1]) + Number(hms[2]) / 60 + Number(hms[3]) / 3600;
+  }
+
+  const number = parseLeadingNumber(cell.value)!;
+  const unit = cell.value.replace(LEADING_NUMBER_PATTERN, '').replace(/^\+-[\d.]+/, '').trim().split(/\s+/)[0]
+    || cell.label.match(/[,(]\s*(hr?|d|s)\s*\)?$/i)?.[1]
+    || 'h';
+
+  if (/^d(ays?)?$/i.test(unit)) return number * 24;
+  if (/^s(ec)?$/i.test(unit)) return number / 3600;
+  return number; // hr, h, or unlabelled (ROTPER is in hours)
+}
+
+/**
+ * Mass in kg from "Mass x10^23 (kg) = 6.4171" style cells
+ */
+function parseMassKg(cells: PhysicalCell[]): number | undefined {
+  for (const cell of cells) {
+    const match = cell.label.match(/^Mass\s*,?\s*x\s*10\^(\d+)\s*\(?kg\)?/i);
+    const mantissa = match ? parseLeadingNumber(cell.value) : undefined;
+    if (match && mantissa !== undefined) return mantissa * 10 ** Number(match[1]);
+  }
+  return undefined;
+}
+
+/**
+ * Physical properties from a Horizons object data header (null when none are present)
+ * Surface gravity is derived from GM and the mean radius
+ */
+export function parsePhysicalDataFromResponse(result: string): PhysicalProperties | null {
+  const cells = parsePhysicalCells(result);
+
+  const massKg = parseMassKg(cells);
+  const gm = findCellNumber(cells, /^GM\b(?!.*sigma)/i) ?? (massKg !== undefined ? massKg * G_KM3_PER_KG_S2 : undefined);
+  const meanRadiusKm = findCellNumber(cells, /mean radius/i, /^radius\b/i, /^RAD$/);
+
+  const properties: PhysicalProperties = {
+    ...(gm !== undefined && { gm }),
+    ...(meanRadiusKm !== undefined && { meanRadiusKm }),
+    density: findCellNumber(cells, /density/i),
+    siderealRotationHours: parseRotationHours(cells),
+    obliquityDeg: findCellNumber(cells, /obliquity/i),
+    geometricAlbedo: findCellNumber(cells, /geometric albedo/i, /^ALBEDO$/),
+    ...(gm !== undefined && meanRadiusKm && {
+      surfaceGravity: (gm / meanRadiusKm ** 2) * 1000, // km/s² -> m/s²
+    }),
+  };
+
+  // Drop what the header didn't have
+  const found = Object.fromEntries(
+    Object.entries(properties).filter(([, value]) => value !== undefined)
+  ) as PhysicalProperties;
+
+  return Object.keys(found).length > 0 ? found : null;
+}
+
+/**
+ * Parse the first row of an OBSERVER table requested with CSV_FORMAT='YES' and ANG_FORMAT='DEG'
+ * Columns are found by their header, since they depend on QUANTITIES and the body type:
+ *
+ *  Date__(UT)__HR:MN, , , R.A.___(ICRF), DEC____(ICRF), Azi____(a-app), Elev___(a-app), APmag, S-brt, Illu%, S-O-T,/r, Cnst,
+ * $$SOE
+ *  2024-Mar-01 00:00, , , 317.51234, -17.53210, 35.3125, -51.7960, 1.281, 4.262, 97.3214, 30.8421,/L, Cap,
+ * $$EOE
+ *
+ * The two blank columns flag daylight/twilight and moonlight. Values Horizons can't
+ * compute are printed as "n.a." and left out.
+ */
+type ParsedObservation = Omit<ObserverData, 'bodyId' | 'name' | 'timestamp'>;
+
+const OBSERVER_COLUMNS = {
+  rightAscension: /^R\.A\./,
+  declination: /^DEC/,
+  azimuth: /^Azi/,
+  elevation: /^Elev/,
+  magnitude: /^(APmag|T-mag)/,
+  illumination: /^Illu%/,
+  elongation: /^S-O-T/,
+  elongationSide: /^\/r/,
+  constellation: /^Cnst/,
+};
+
+export function parseObserverFromResponse(result: string): ParsedObservation | null {
+  const soeIndex = result.indexOf('$$SOE');
+  const eoeIndex = result.indexOf('$$EOE');
+  if (soeIndex === -1 || eoeIndex === -1) {
+    console.error('[NASA Client] Could not find SOE/EOE markers in observer table');
     return null;
   }
 
-  const xAU = parseFloat(xMatch[1]);
-  const yAU = parseFloat(yMatch[1]);
-  const zAU = parseFloat(zMatch[1]);
+  const headerLine = result.slice(0, soeIndex).split('\n').find(line => line.includes('Date__(UT)'));
+  const row = result.slice(soeIndex + 5, eoeIndex).split('\n').find(line => line.trim());
+  if (!headerLine || !row) return null;
 
-  // Convert AU to km for consistent scale system (1 unit = 1M km)
-  const position = {
-    x: xAU * AU_TO_KM,
-    y: zAU * AU_TO_KM, // Z in astronomy -> Y in Three.js (up)
-    z: yAU * AU_TO_KM, // Y in astronomy -> Z in Three.js
+  const headers = headerLine.split(',').map(cell => cell.trim());
+  const values = row.split(',').map(cell => cell.trim());
+
+  const getValue = (pattern: RegExp): string | undefined => {
+    const index = headers.findIndex(header => pattern.test(header));
+    const value = index === -1 ? undefined : values[index];
+    return value && value !== 'n.a.' ? value : undefined;
+  };
+  const getNumber = (pattern: RegExp): number | undefined => {
+    const number = parseFloat(getValue(pattern) ?? '');
+    return isFinite(number) ? number : undefined;
   };
 
-  // Parse velocity if available
-  let velocity: { x: number; y: number; z: number } | undefined;
-  if (velocityLine) {
-    const vxMatch = velocityLine.match(/VX\s*=\s*([-+]?\d+\.?\d*E?[+-]?\d*)/i);
-    const vyMatch = velocityLine.match(/VY\s*=\s*([-+]?\d+\.?\d*E?[+-]?\d*)/i);
-    const vzMatch = velocityLine.match(/VZ\s*=\s*([-+]?\d+\.?\d*E?[+-]?\d*)/i);
-
-    if (vxMatch && vyMatch && vzMatch) {
-      const vxAU = parseFloat(vxMatch[1]);
-      const vyAU = parseFloat(vyMatch[1]);
-      const vzAU = parseFloat(vzMatch[1]);
-
-      // Convert AU/day to km/s and apply same coordinate swap
-      velocity = {
-        x: vxAU * AU_PER_DAY_TO_KM_PER_SEC,
-        y: vzAU * AU_PER_DAY_TO_KM_PER_SEC, // Z -> Y
-        z: vyAU * AU_PER_DAY_TO_KM_PER_SEC, // Y -> Z
-      };
-      console.log(`[NASA Client] Parsed velocity: VX=${velocity.x.toFixed(2)}, VY=${velocity.y.toFixed(2)}, VZ=${velocity.z.toFixed(2)} km/s`);
-    }
+  const rightAscension = getNumber(OBSERVER_COLUMNS.rightAscension);
+  const declination = getNumber(OBSERVER_COLUMNS.declination);
+  const azimuth = getNumber(OBSERVER_COLUMNS.azimuth);
+  const elevation = getNumber(OBSERVER_COLUMNS.elevation);
+
+  if (rightAscension === undefined || declination === undefined || azimuth === undefined || elevation === undefined) {
+    console.error('[NASA Client] Could not parse observer coordinates from:', row);
+    return null;
   }
 
-  console.log(`[NASA Client] Parsed position: X=${xAU}, Y=${yAU}, Z=${zAU} AU`);
+  const side = getValue(OBSERVER_COLUMNS.elongationSide)?.replace('/', '');
+  const optional = {
+    magnitude: getNumber(OBSERVER_COLUMNS.magnitude),
+    illumination: getNumber(OBSERVER_COLUMNS.illumination),
+    elongation: getNumber(OBSERVER_COLUMNS.elongation),
+    elongationSide: side === 'L' || side === 'T' ? side : undefined,
+    constellation: getValue(OBSERVER_COLUMNS.constellation),
+  };
 
-  return { position, velocity };
+  return {
+    rightAscension,
+    declination,
+    azimuth,
+    elevation,
+    ...Object.fromEntries(Object.entries(optional).filter(([, value]) => value !== undefined)),
+  };
 }
 
-// --- Main API Functions ---
+/**
+ * Send one Horizons request, retrying 429/503 with backoff
+ * @throws HorizonsError
+ */
+async function requestHorizons(params: URLSearchParams): Promise<HorizonsResponse> {
+  for (let attempt = 0; ; attempt++) {
+    await enforceRateLimit();
+
+    const response = await fetch(`${getHorizonsApiUrl()}?${params.toString()}`, {
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (response.ok) {
+      return (await response.json()) as HorizonsResponse;
+    }
+
+    const retryable = RETRYABLE_STATUSES.includes(response.status);
+    if (!retryable || attempt >= MAX_RETRIES) {
+      throw response.status === 429
+        ? new HorizonsError('UPSTREAM_RATE_LIMITED', `Horizons rate limit hit after ${attempt + 1} attempts`, 429)
+        : new HorizonsError('UPSTREAM_UNAVAILABLE', `Horizons HTTP error: ${response.status}`, response.status);
+    }
+
+    const delay = getBackoffDelay(attempt, response.headers.get('retry-after'));
+    console.warn(`[NASA Client] HTTP ${response.status}, retry ${attempt + 1}/${MAX_RETRIES} in ${Math.round(delay)}ms`);
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+}
 
 /**
- * Fetch ephemeris data for a single celestial body
+ * Send a Horizons request through the circuit breaker and return the raw result text
+ * Results without the expected content are checked for Horizons' rejection diagnostics
+ * @throws HorizonsError - CIRCUIT_OPEN without contacting Horizons when it has been failing
  */
-export async function fetchBodyEphemeris(
+async function requestResult(
   bodyId: string,
-  date?: string
-): Promise<EphemerisData | null> {
-  await enforceRateLimit();
+  params: URLSearchParams,
+  hasContent: (result: string) => boolean
+): Promise<string> {
+  if (!horizonsCircuit.canRequest()) {
+    throw new HorizonsError('CIRCUIT_OPEN', 'Horizons circuit is open after repeated failures');
+  }
 
-  const targetDate = date || new Date().toISOString().split('T')[0];
-  const stopDate = new Date(new Date(targetDate).getTime() + 86400000)
-    .toISOString()
-    .split('T')[0];
+  let data: HorizonsResponse;
+  try {
+    data = await requestHorizons(params);
+  } catch (error) {
+    const horizonsError = toHorizonsError(error);
+    if (isUpstreamFailure(horizonsError)) {
+      horizonsCircuit.recordFailure();
+    } else {
+      horizonsCircuit.recordSuccess();
+    }
+    throw horizonsError;
+  }
+
+  // Horizons answered - whatever the content, it is healthy
+  horizonsCircuit.recordSuccess();
+
+  if (!data.result) {
+    throw new HorizonsError('PARSE_FAILURE', 'No result in Horizons response');
+  }
+  // Rejected queries come back as HTTP 200 with diagnostics instead of the requested data
+  if (!hasContent(data.result)) {
+    const diagnostic = parseHorizonsDiagnostics(data.result, bodyId);
+    if (diagnostic) throw diagnostic;
+  }
+
+  return data.result;
+}
 
+/**
+ * Request a VECTORS table from Horizons and return the raw result text
+ * @throws HorizonsError
+ */
+async function requestVectorTable(
+  bodyId: string,
+  startTime: string,
+  stopTime: string,
+  stepSize: string,
+  centerId = getCenterBodyId(bodyId)
+): Promise<string> {
   const params = new URLSearchParams({
     format: 'json',
-    COMMAND: `'${bodyId}'`,
+    COMMAND: `'${getHorizonsCommand(bodyId)}'`, // Small bodies use their catalog lookup ('1;', 'DES=1P; CAP;')
     OBJ_DATA: 'NO',
     MAKE_EPHEM: 'YES',
     EPHEM_TYPE: 'VECTORS',
-    CENTER: "'500@10'", // Sun-centered
-    START_TIME: `'${targetDate}'`,
-    STOP_TIME: `'${stopDate}'`,
-    STEP_SIZE: "'1 d'",
+    CENTER: `'500@${centerId}'`, // Sun-centered, or parent-centered for satellites, unless overridden
+    START_TIME: `'${toHorizonsTime(startTime)}'`,
+    STOP_TIME: `'${toHorizonsTime(stopTime)}'`,
+    STEP_SIZE: `'${stepSize}'`,
+    TIME_TYPE: "'UT'", // Epochs in UTC like the rest of the app - Horizons defaults to TDB
     VEC_TABLE: "'3'", // Position + Velocity vectors
-    REF_PLANE: 'ECLIPTIC',
+    REF_PLANE: 'ECLIPTIC', // The equatorial view is a rotation of these vectors (lib/coordinates.ts)
     REF_SYSTEM: 'ICRF',
     VEC_CORR: "'NONE'",
     OUT_UNITS: "'AU-D'",
     CSV_FORMAT: 'NO',
   });
 
+  return requestResult(bodyId, params, result => result.includes('$$SOE'));
+}
+
+/**
+ * Request a one-row OBSERVER table for a site on Earth and return the raw result text
+ * @throws HorizonsError
+ */
+async function requestObserverTable(bodyId: string, time: string, site: ObserverSite): Promise<string> {
+  // Horizons needs a stop after the start - one minute later, one step
+  const stopTime = toTimestamp((parseTimestamp(time) ?? Date.now()) + MS_PER_MINUTE);
+
+  const params = new URLSearchParams({
+    format: 'json',
+    COMMAND: `'${getHorizonsCommand(bodyId)}'`,
+    OBJ_DATA: 'NO',
+    MAKE_EPHEM: 'YES',
+    EPHEM_TYPE: 'OBSERVER',
+    CENTER: "'coord@399'",
+    COORD_TYPE: 'GEODETIC',
+    SITE_COORD: `'${site.longitude},${site.latitude},${site.altitudeKm}'`, // E-lon, lat, km
+    START_TIME: `'${toHorizonsTime(time)}'`,
+    STOP_TIME: `'${toHorizonsTime(stopTime)}'`,
+    STEP_SIZE: "'1 m'",
+    // Astrometric RA/Dec, az/el, magnitude, illuminated fraction, elongation, constellation
+    QUANTITIES: "'1,4,9,10,23,29'",
+    ANG_FORMAT: 'DEG',
+    APPARENT: 'AIRLESS',
+    CSV_FORMAT: 'YES',
+  });
+
+  return requestResult(bodyId, params, result => result.includes('$$SOE'));
+}
+
+/**
+ * Request only the object data header (physical properties) - no ephemeris
+ * @throws HorizonsError
+ */
+async function requestObjectData(bodyId: string): Promise<string> {
+  const params = new URLSearchParams({
+    format: 'json',
+    COMMAND: `'${getHorizonsCommand(bodyId)}'`,
+    OBJ_DATA: 'YES',
+    MAKE_EPHEM: 'NO',
+  });
+
+  return requestResult(bodyId, params, result => parsePhysicalDataFromResponse(result) !== null);
+}
+
+/**
+ * Current state of the Horizons circuit breaker
+ */
+export function getHorizonsCircuitState(): CircuitState {
+  return horizonsCircuit.getState();
+}
+
+// --- Main API Functions ---
+
+/**
+ * Fetch ephemeris data for a single celestial body at a UTC date or timestamp (default: now)
+ * Vectors are relative to the Sun (the parent planet for satellites) unless centerId says otherwise,
+ * e.g. '0' for the Sun's position relative to the solar-system barycenter
+ * Returns null for spacecraft outside their mission window
+ * @throws HorizonsError
+ */
+export async function fetchBodyEphemeris(
+  bodyId: string,
+  time?: string,
+  centerId = getCenterBodyId(bodyId)
+): Promise<EphemerisData | null> {
+  const targetTime = time || getNowTimestamp();
+  // Horizons needs a stop after the start - one minute later, one step
+  const stopTime = toTimestamp((parseTimestamp(targetTime) ?? Date.now()) + MS_PER_MINUTE);
+
+  // Spacecraft only have vectors between launch and the end of their trajectory file
+  if (!isWithinMissionWindow(bodyId, targetTime)) {
+    console.log(`[NASA Client] ${bodyId} has no trajectory at ${targetTime}, skipping`);
+    return null;
+  }
+
   try {
-    const response = await fetch(`${HORIZONS_API_URL}?${params.toString()}`);
+    const result = await requestVectorTable(bodyId, targetTime, stopTime, '1 m', centerId);
+    const parsed = parseVectorFromResponse(result);
 
-    if (!response.ok) {
-      console.error(`[NASA Client] HTTP error: ${response.status}`);
-      return null;
+    if (!parsed) {
+      throw new HorizonsError('PARSE_FAILURE', `Could not parse vectors for ${bodyId}`);
     }
 
-    const data: HorizonsResponse = await response.json();
+    return {
+      bodyId,
+      name: BODY_NAMES[bodyId] || `Body ${bodyId}`,
+      position: parsed.position,
+      velocity: parsed.velocity,
+      timestamp: new Date().toISOString(),
+      ...(centerId !== HELIOCENTRIC_CENTER_ID && { centerId }),
+    };
+  } catch (error) {
+    const horizonsError = toHorizonsError(error);
+    console.error(`[NASA Client] ${horizonsError.code} fetching ephemeris for ${bodyId}: ${horizonsError.message}`);
+    throw horizonsError;
+  }
+}
 
-    if (!data.result) {
-      console.error('[NASA Client] No result in response');
-      return null;
+/**
+ * Fetch a time series of state vectors for a single body in one Horizons request
+ * @param stepSize - Horizons step syntax, e.g. '1 d', '6 h', '1 mo'
+ * @param centerId - defaults to the Sun (the parent planet for satellites)
+ * @throws HorizonsError
+ */
+export async function fetchBodyEphemerisRange(
+  bodyId: string,
+  startTime: string,
+  stopTime: string,
+  stepSize: string,
+  centerId = getCenterBodyId(bodyId)
+): Promise<EphemerisSample[]> {
+  try {
+    const result = await requestVectorTable(bodyId, startTime, stopTime, stepSize, centerId);
+    const records = parseVectorRecordsFromResponse(result);
+
+    if (!records) {
+      throw new HorizonsError('PARSE_FAILURE', `Could not parse vectors for ${bodyId}`);
     }
 
-    const parsed = parseVectorFromResponse(data.result);
+    console.log(`[NASA Client] Parsed ${records.length} samples for ${bodyId} (${startTime} → ${stopTime}, ${stepSize})`);
 
-    if (!parsed) {
+    return records.map(record => ({
+      timestamp: record.timestamp,
+      position: record.position,
+      velocity: record.velocity,
+    }));
+  } catch (error) {
+    const horizonsError = toHorizonsError(error);
+    console.error(`[NASA Client] ${horizonsError.code} fetching ephemeris range for ${bodyId}: ${horizonsError.message}`);
+    throw horizonsError;
+  }
+}
+
+/**
+ * Fetch the physical properties Horizons publishes for a body (GM, radius, rotation...)
+ * Returns null when its object data has none (spacecraft, some small bodies)
+ * @throws HorizonsError
+ */
+export async function fetchBodyPhysicalData(bodyId: string): Promise<PhysicalData | null> {
+  try {
+    const result = await requestObjectData(bodyId);
+    const properties = parsePhysicalDataFromResponse(result);
+
+    if (!properties) {
+      console.log(`[NASA Client] No physical data for ${bodyId}`);
       return null;
     }
 
     return {
       bodyId,
       name: BODY_NAMES[bodyId] || `Body ${bodyId}`,
-      position: parsed.position,
-      velocity: parsed.velocity,
+      ...properties,
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    console.error(`[NASA Client] Error fetching ephemeris for ${bodyId}:`, error);
+    const horizonsError = toHorizonsError(error);
+    console.error(`[NASA Client] ${horizonsError.code} fetching physical data for ${bodyId}: ${horizonsError.message}`);
+    throw horizonsError;
+  }
+}
+
+/**
+ * Fetch where a body appears from a site on Earth at a UTC timestamp
+ * Returns null for spacecraft outside their mission window
+ * @throws HorizonsError
+ */
+export async function fetchBodyObservation(
+  bodyId: string,
+  time: string,
+  site: ObserverSite
+): Promise<ObserverData | null> {
+  if (!isWithinMissionWindow(bodyId, time)) {
+    console.log(`[NASA Client] ${bodyId} has no trajectory at ${time}, skipping`);
     return null;
   }
+
+  try {
+    const result = await requestObserverTable(bodyId, time, site);
+    const parsed = parseObserverFromResponse(result);
+
+    if (!parsed) {
+      throw new HorizonsError('PARSE_FAILURE', `Could not parse observer table for ${bodyId}`);
+    }
+
+    return {
+      bodyId,
+      name: BODY_NAMES[bodyId] || `Body ${bodyId}`,
+      ...parsed,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    const horizonsError = toHorizonsError(error);
+    console.error(`[NASA Client] ${horizonsError.code} fetching observer table for ${bodyId}: ${horizonsError.message}`);
+    throw horizonsError;
+  }
 }
 
 /**
  * Fetch ephemeris data for multiple celestial bodies
+ * Bodies Horizons fails on are left out
  */
 export async function fetchAllEphemeris(
   bodyIds?: string[],
-  date?: string
+  time?: string
 ): Promise<EphemerisData[]> {
-  const ids = bodyIds || Object.values(BODY_IDS).filter(id => id !== BODY_IDS.SUN);
+  const ids = bodyIds || DEFAULT_BODY_IDS.filter(id => id !== BODY_IDS.SUN);
   const results: EphemerisData[] = [];
 
   // Add Sun at origin
@@ -264,7 +879,7 @@ export async function fetchAllEphemeris(
   for (const bodyId of ids) {
     if (bodyId === BODY_IDS.SUN) continue;
 
-    const data = await fetchBodyEphemeris(bodyId, date);
+    const data = await fetchBodyEphemeris(bodyId, time).catch(() => null);
     if (data) {
       results.push(data);
     }
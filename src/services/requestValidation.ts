@@ -0,0 +1,313 @@
+/**
+ * Request Validation
+ * Checks the query parameters of the API routes before anything reaches
+ * Horizons: dates and timestamps inside the supported 1600-2500 span, body ids
+ * and frame centers from the registry only (they end up in Horizons COMMAND and
+ * CENTER strings) and a cap on how many ids one request may ask for. Failures
+ * come back as a list of issues that the routes turn into a structured 400.
+ */
+
+import { BODY_NAMES } from './nasaClient';
+import { BARYCENTER_CENTER_ID, DEFAULT_CENTER_ID } from '@/lib/frames';
+import { MAX_DATE, MIN_DATE, isWithinSupportedRange, parseTimestamp, toTimestamp } from '@/lib/time';
+import type { ObserverSite, ValidationErrorResponse, ValidationIssue } from '@/lib/types';
+
+// --- Types ---
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ValidationIssue[] };
+
+export type BodySet = 'default' | 'catalog';
+
+export interface EphemerisQuery {
+  time: string; // Canonical UTC timestamp, now when the date parameter is absent
+  ids: string[] | null; // Explicitly requested ids (deduplicated), null for a body set
+  set: BodySet; // Served when ids is absent: the major bodies or the optional catalogs
+  center: string; // Frame center body id, '0' for the barycenter
+  force: boolean;
+}
+
+export interface RangeQuery {
+  start: number; // Epoch milliseconds
+  stop: number; // Epoch milliseconds, after start
+  ids: string[] | null;
+  center: string;
+}
+
+export interface ObserverQuery {
+  time: string; // Canonical UTC timestamp, now when the date parameter is absent
+  site: ObserverSite;
+  ids: string[] | null;
+  force: boolean;
+}
+
+export interface PhysicalQuery {
+  id: string;
+  force: boolean;
+}
+
+// --- Constants ---
+
+// Every registered body fits in one request; more than that is a malformed or abusive query
+export const MAX_IDS_PER_REQUEST = 50;
+
+const BOOLEAN_VALUES = ['true', 'false'];
+
+// Own keys only - `id in BODY_NAMES` would also accept toString, constructor, __proto__...
+const REGISTERED_BODY_IDS = new Set(Object.keys(BODY_NAMES));
+
+const BODY_SETS: BodySet[] = ['default', 'catalog'];
+
+// Site altitude span in km - from the Dead Sea shore to well above any mountain observatory
+const MIN_SITE_ALTITUDE_KM = -0.5;
+const MAX_SITE_ALTITUDE_KM = 10;
+
+// --- Field Validators ---
+
+/**
+ * A required or optional date/timestamp parameter inside the supported span
+ * Returns epoch milliseconds, or null (with an issue recorded) when invalid
+ */
+function validateTime(param: string, value: string, issues: ValidationIssue[]): number | null {
+  const time = parseTimestamp(value);
+
+  if (time === null) {
+    issues.push({
+      param,
+      code: 'INVALID_FORMAT',
+      message: `${param} must be a date (YYYY-MM-DD) or UTC timestamp (YYYY-MM-DDTHH:mm[:ss]Z)`,
+      value,
+    });
+    return null;
+  }
+
+  if (!isWithinSupportedRange(time)) {
+    issues.push({
+      param,
+      code: 'OUT_OF_RANGE',
+      message: `${param} must be between ${MIN_DATE} and ${MAX_DATE}`,
+      value,
+    });
+    return null;
+  }
+
+  return time;
+}
+
+/**
+ * Comma-separated body ids, each one known to the registry
+ * Blank entries are dropped and duplicates collapsed
+ */
+function validateIds(value: string, issues: ValidationIssue[]): string[] | null {
+  const ids = [...new Set(value.split(',').map(id => id.trim()).filter(Boolean))];
+
+  if (ids.length === 0) {
+    issues.push({ param: 'ids', code: 'INVALID_FORMAT', message: 'ids must list at least one body id', value });
+    return null;
+  }
+
+  if (ids.length > MAX_IDS_PER_REQUEST) {
+    issues.push({
+      param: 'ids',
+      code: 'TOO_MANY_IDS',
+      message: `ids may list at most ${MAX_IDS_PER_REQUEST} bodies (got ${ids.length})`,
+    });
+    return null;
+  }
+
+  const unknown = ids.filter(id => !REGISTERED_BODY_IDS.has(id));
+  for (const id of unknown) {
+    issues.push({ param: 'ids', code: 'UNKNOWN_BODY', message: `Unknown body id "${id}"`, value: id });
+  }
+
+  return unknown.length === 0 ? ids : null;
+}
+
+/**
+ * Frame center: the barycenter or any registered body
+ */
+function validateCenter(value: string, issues: ValidationIssue[]): string | null {
+  const center = value.trim();
+  if (center === BARYCENTER_CENTER_ID || REGISTERED_BODY_IDS.has(center)) return center;
+
+  issues.push({
+    param: 'center',
+    code: 'UNKNOWN_BODY',
+    message: `Unknown frame center "${center}" - use a body id or ${BARYCENTER_CENTER_ID} for the barycenter`,
+    value: center,
+  });
+  return null;
+}
+
+/**
+ * A numeric parameter within [min, max]
+ * Returns the number, or null (with an issue recorded) when invalid
+ */
+function validateNumber(
+  param: string,
+  value: string,
+  min: number,
+  max: number,
+  issues: ValidationIssue[]
+): number | null {
+  const number = value.trim() === '' ? NaN : Number(value);
+
+  if (!isFinite(number)) {
+    issues.push({ param, code: 'INVALID_FORMAT', message: `${param} must be a number`, value });
+    return null;
+  }
+
+  if (number < min || number > max) {
+    issues.push({ param, code: 'OUT_OF_RANGE', message: `${param} must be between ${min} and ${max}`, value });
+    return null;
+  }
+
+  return number;
+}
+
+function validateBoolean(param: string, value: string, issues: ValidationIssue[]): boolean {
+  if (!BOOLEAN_VALUES.includes(value)) {
+    issues.push({ param, code: 'INVALID_FORMAT', message: `${param} must be true or false`, value });
+    return false;
+  }
+  return value === 'true';
+}
+
+function validateBodySet(value: string, issues: ValidationIssue[]): BodySet {
+  const set = BODY_SETS.find(bodySet => bodySet === value);
+  if (set) return set;
+
+  issues.push({ param: 'set', code: 'INVALID_FORMAT', message: `set must be ${BODY_SETS.join(' or ')}`, value });
+  return 'default';
+}
+
+// --- Public API ---
+
+/**
+ * Query of GET /api/ephemeris: date, ids, set, center and force (all optional)
+ */
+export function validateEphemerisQuery(
+  searchParams: URLSearchParams,
+  now = Date.now()
+): ValidationResult<EphemerisQuery> {
+  const issues: ValidationIssue[] = [];
+
+  const dateParam = searchParams.get('date');
+  const idsParam = searchParams.get('ids');
+  const setParam = searchParams.get('set');
+  const centerParam = searchParams.get('center');
+  const forceParam = searchParams.get('force');
+
+  const time = dateParam === null ? now : validateTime('date', dateParam, issues);
+  const ids = idsParam === null ? null : validateIds(idsParam, issues);
+  const set = setParam === null ? 'default' : validateBodySet(setParam, issues);
+  const center = centerParam === null ? DEFAULT_CENTER_ID : validateCenter(centerParam, issues);
+  const force = forceParam === null ? false : validateBoolean('force', forceParam, issues);
+
+  if (issues.length > 0 || time === null || center === null) return { ok: false, issues };
+  return { ok: true, value: { time: toTimestamp(time), ids, set, center, force } };
+}
+
+/**
+ * Query of GET /api/ephemeris/range: start and stop (required), ids and center (optional)
+ * The step is specific to that route and checked there
+ */
+export function validateRangeQuery(searchParams: URLSearchParams): ValidationResult<RangeQuery> {
+  const issues: ValidationIssue[] = [];
+
+  const startParam = searchParams.get('start');
+  const stopParam = searchParams.get('stop');
+  const idsParam = searchParams.get('ids');
+  const centerParam = searchParams.get('center');
+
+  for (const [param, value] of [['start', startParam], ['stop', stopParam]] as const) {
+    if (value === null) {
+      issues.push({ param, code: 'INVALID_FORMAT', message: `${param} is required` });
+    }
+  }
+
+  const start = startParam === null ? null : validateTime('start', startParam, issues);
+  const stop = stopParam === null ? null : validateTime('stop', stopParam, issues);
+  const ids = idsParam === null ? null : validateIds(idsParam, issues);
+  const center = centerParam === null ? DEFAULT_CENTER_ID : validateCenter(centerParam, issues);
+
+  if (start !== null && stop !== null && stop <= start) {
+    issues.push({ param: 'stop', code: 'OUT_OF_RANGE', message: 'stop must be after start', value: stopParam ?? undefined });
+  }
+
+  if (issues.length > 0 || start === null || stop === null || center === null) return { ok: false, issues };
+  return { ok: true, value: { start, stop, ids, center } };
+}
+
+/**
+ * Query of GET /api/observer: lat and lon (required), alt (km), date, ids and force (optional)
+ */
+export function validateObserverQuery(
+  searchParams: URLSearchParams,
+  now = Date.now()
+): ValidationResult<ObserverQuery> {
+  const issues: ValidationIssue[] = [];
+
+  const latParam = searchParams.get('lat');
+  const lonParam = searchParams.get('lon');
+  const altParam = searchParams.get('alt');
+  const dateParam = searchParams.get('date');
+  const idsParam = searchParams.get('ids');
+  const forceParam = searchParams.get('force');
+
+  for (const [param, value] of [['lat', latParam], ['lon', lonParam]] as const) {
+    if (value === null) {
+      issues.push({ param, code: 'INVALID_FORMAT', message: `${param} is required` });
+    }
+  }
+
+  const latitude = latParam === null ? null : validateNumber('lat', latParam, -90, 90, issues);
+  const longitude = lonParam === null ? null : validateNumber('lon', lonParam, -180, 180, issues);
+  const altitudeKm = altParam === null
+    ? 0
+    : validateNumber('alt', altParam, MIN_SITE_ALTITUDE_KM, MAX_SITE_ALTITUDE_KM, issues);
+  const time = dateParam === null ? now : validateTime('date', dateParam, issues);
+  const ids = idsParam === null ? null : validateIds(idsParam, issues);
+  const force = forceParam === null ? false : validateBoolean('force', forceParam, issues);
+
+  if (issues.length > 0 || latitude === null || longitude === null || altitudeKm === null || time === null) {
+    return { ok: false, issues };
+  }
+  return { ok: true, value: { time: toTimestamp(time), site: { latitude, longitude, altitudeKm }, ids, force } };
+}
+
+/**
+ * Query of GET /api/physical: id (required) and force (optional)
+ */
+export function validatePhysicalQuery(searchParams: URLSearchParams): ValidationResult<PhysicalQuery> {
+  const issues: ValidationIssue[] = [];
+
+  const idParam = searchParams.get('id');
+  const forceParam = searchParams.get('force');
+
+  let id: string | null = null;
+  if (idParam === null || idParam.trim() === '') {
+    issues.push({ param: 'id', code: 'INVALID_FORMAT', message: 'id is required' });
+  } else if (REGISTERED_BODY_IDS.has(idParam.trim())) {
+    id = idParam.trim();
+  } else {
+    issues.push({ param: 'id', code: 'UNKNOWN_BODY', message: `Unknown body id "${idParam.trim()}"`, value: idParam.trim() });
+  }
+
+  const force = forceParam === null ? false : validateBoolean('force', forceParam, issues);
+
+  if (issues.length > 0 || id === null) return { ok: false, issues };
+  return { ok: true, value: { id, force } };
+}
+
+/**
+ * JSON body of the 400 answered for failed validation
+ */
+export function toValidationErrorResponse(issues: ValidationIssue[]): ValidationErrorResponse {
+  return {
+    error: issues.length === 1 ? issues[0].message : `${issues.length} invalid query parameters`,
+    code: 'VALIDATION_ERROR',
+    issues,
+  };
+}
@@ -0,0 +1,246 @@
+/**
+ * GET /api/ephemeris end to end: route -> nasaClient -> mock Horizons server,
+ * with the in-memory cache backend
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { startMockHorizonsServer } from '../../scripts/mock-horizons-server.mjs';
+import type { EphemerisErrorResponse, EphemerisResponse, ValidationErrorResponse } from '@/lib/types';
+
+// --- Setup ---
+
+const AU_TO_KM = 149_597_870.7;
+
+type MockServer = Awaited<ReturnType<typeof startMockHorizonsServer>>;
+
+let mockServer: MockServer;
+let GET: typeof import('@/app/api/ephemeris/route').GET;
+
+beforeEach(async () => {
+  mockServer = await startMockHorizonsServer({ quiet: true });
+  vi.stubEnv('HORIZONS_API_URL', mockServer.url);
+  vi.stubEnv('CACHE_BACKEND', 'memory');
+
+  // No jitter - retries happen right away
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+
+  // Fresh modules per test: empty cache, closed circuit, idle rate limiter
+  vi.resetModules();
+  ({ GET } = await import('@/app/api/ephemeris/route'));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await mockServer.close();
+});
+
+async function getEphemeris(query: string) {
+  const response = await GET(new NextRequest(`http://localhost/api/ephemeris?${query}`));
+  return { status: response.status, body: await response.json() };
+}
+
+function countRequests(command: string): number {
+  return mockServer.requests.filter(request => request.command === command).length;
+}
+
+// --- Tests ---
+
+describe('GET /api/ephemeris', () => {
+  it('serves parsed Horizons vectors and answers repeats from the cache', async () => {
+    const first = await getEphemeris('date=2024-01-15&ids=399,499');
+    const body = first.body as EphemerisResponse;
+
+    expect(first.status).toBe(200);
+    expect(body.meta.source).toBe('NASA_LIVE');
+    expect(body.data.map(body => body.bodyId).sort()).toEqual(['399', '499']);
+
+    // Horizons X/Y/Z in AU -> scene x/z/y in km
+    const earth = body.data.find(body => body.bodyId === '399')!;
+    expect(earth.position.x).toBeCloseTo(-3.996637351770921e-1 * AU_TO_KM, 0);
+    expect(earth.position.y).toBeCloseTo(-4.88150614109964e-5 * AU_TO_KM, 0);
+    expect(earth.position.z).toBeCloseTo(8.987491644624633e-1 * AU_TO_KM, 0);
+
+    const second = await getEphemeris('date=2024-01-15&ids=399,499');
+
+    expect((second.body as EphemerisResponse).meta.source).toBe('CACHE_HIT');
+    expect(mockServer.requests).toHaveLength(2);
+  });
+
+  it('requests the UTC minute and shares it between a date and the same timestamp', async () => {
+    await getEphemeris('date=2024-01-15T00:00:30Z&ids=399');
+    const second = await getEphemeris('date=2024-01-15&ids=399');
+
+    expect((second.body as EphemerisResponse).meta.source).toBe('CACHE_HIT');
+    expect((second.body as EphemerisResponse).meta.requestedDate).toBe('2024-01-15T00:00:00Z');
+    expect(mockServer.requests.map(request => request.startTime)).toEqual(['2024-01-15 00:00']);
+  });
+
+  it('coalesces concurrent requests for the same body and date', async () => {
+    const [first, second] = await Promise.all([
+      getEphemeris('date=2024-01-15&ids=399'),
+      getEphemeris('date=2024-01-15&ids=399,499'),
+    ]);
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(countRequests('399')).toBe(1);
+    expect(countRequests('499')).toBe(1);
+  });
+
+  it('retries a 503 and serves the retried response', async () => {
+    const { status, body } = await getEphemeris('date=2024-01-15&ids=699');
+
+    expect(status).toBe(200);
+    expect((body as EphemerisResponse).meta.source).toBe('NASA_LIVE');
+    expect(mockServer.requests.map(request => request.status)).toEqual([503, 200]);
+  });
+
+  it('falls back to propagated positions when Horizons stays rate limited', async () => {
+    const { status, body } = await getEphemeris('date=2024-01-15&ids=599');
+    const response = body as EphemerisResponse;
+
+    expect(status).toBe(200);
+    expect(response.meta.source).toBe('FALLBACK_DATASET');
+    expect(response.meta.upstream?.errors).toEqual({ '599': 'UPSTREAM_RATE_LIMITED' });
+    expect(response.data.map(body => body.bodyId)).toEqual(['599']);
+    // First attempt plus three retries
+    expect(countRequests('599')).toBe(4);
+  });
+
+  it('does not cache propagated fallback positions', async () => {
+    await getEphemeris('date=2024-01-15&ids=599');
+    await getEphemeris('date=2024-01-15&ids=599');
+
+    expect(countRequests('599')).toBe(8);
+  });
+
+  it('falls back when a fixture is missing (HTTP 500)', async () => {
+    const { body } = await getEphemeris('date=2024-01-15&ids=799');
+    const response = body as EphemerisResponse;
+
+    expect(response.meta.source).toBe('FALLBACK_DATASET');
+    expect(response.meta.upstream?.errors).toEqual({ '799': 'UPSTREAM_UNAVAILABLE' });
+  });
+
+  it('answers 404 when Horizons does not know a registered target', async () => {
+    // The fixture stands in for a catalog entry Horizons has dropped or renumbered
+    const { status, body } = await getEphemeris('date=2024-02-01&ids=999');
+    const error = body as EphemerisErrorResponse;
+
+    expect(status).toBe(404);
+    expect(error.code).toBe('TARGET_NOT_FOUND');
+    expect(error.bodyId).toBe('999');
+  });
+
+  it('answers 400 with the candidates when Horizons finds the target ambiguous', async () => {
+    const { status, body } = await getEphemeris('date=2024-02-01&ids=499');
+    const error = body as EphemerisErrorResponse;
+
+    expect(status).toBe(400);
+    expect(error.code).toBe('TARGET_AMBIGUOUS');
+    expect(error.candidates).toEqual([
+      { id: '4', name: 'Mars Barycenter' },
+      { id: '499', name: 'Mars' },
+    ]);
+  });
+
+  it('answers 400 with the valid span for a date outside the trajectory', async () => {
+    const { status, body } = await getEphemeris('date=2030-06-01&ids=-31');
+    const error = body as EphemerisErrorResponse;
+
+    expect(status).toBe(400);
+    expect(error.code).toBe('DATE_OUT_OF_RANGE');
+    expect(error.validTo).toBe('2030-01-01T00:00:00.000Z');
+  });
+
+  describe('frames', () => {
+    it('re-origins on a body center fetched alongside the requested ids', async () => {
+      const heliocentric = (await getEphemeris('date=2024-01-15&ids=399,499')).body as EphemerisResponse;
+      const { status, body } = await getEphemeris('date=2024-01-15&ids=499&center=399');
+      const response = body as EphemerisResponse;
+
+      const earth = heliocentric.data.find(item => item.bodyId === '399')!;
+      const mars = heliocentric.data.find(item => item.bodyId === '499')!;
+
+      expect(status).toBe(200);
+      expect(response.meta.center).toBe('399');
+      expect(response.data.map(item => item.bodyId)).toEqual(['499']);
+      expect(response.data[0].position.x).toBeCloseTo(mars.position.x - earth.position.x, 3);
+      expect(response.data[0].position.z).toBeCloseTo(mars.position.z - earth.position.z, 3);
+      // Both served from the cache filled by the heliocentric request
+      expect(mockServer.requests).toHaveLength(2);
+    });
+
+    it('estimates the barycenter from the planets when Horizons has no Sun@0 vector', async () => {
+      const { status, body } = await getEphemeris('date=2024-01-15&ids=10,399&center=0');
+      const response = body as EphemerisResponse;
+      const sun = response.data.find(item => item.bodyId === '10')!;
+
+      expect(status).toBe(200);
+      expect(response.meta.center).toBe('0');
+      // The Sun wobbles within about two solar radii of the barycenter
+      const offset = Math.hypot(sun.position.x, sun.position.y, sun.position.z);
+      expect(offset).toBeGreaterThan(0);
+      expect(offset).toBeLessThan(2_000_000);
+    });
+
+    it('rejects unknown centers', async () => {
+      const { status, body } = await getEphemeris('date=2024-01-15&ids=399&center=12345');
+
+      expect(status).toBe(400);
+      expect((body as ValidationErrorResponse).issues[0]).toMatchObject({ param: 'center', code: 'UNKNOWN_BODY' });
+      expect(mockServer.requests).toHaveLength(0);
+    });
+  });
+
+  describe('validation', () => {
+    it('rejects ids outside the registry without calling Horizons', async () => {
+      const { status, body } = await getEphemeris('date=2024-01-15&ids=399,mars,12345');
+      const error = body as ValidationErrorResponse;
+
+      expect(status).toBe(400);
+      expect(error.code).toBe('VALIDATION_ERROR');
+      expect(error.issues.map(issue => [issue.code, issue.value])).toEqual([
+        ['UNKNOWN_BODY', 'mars'],
+        ['UNKNOWN_BODY', '12345'],
+      ]);
+      expect(mockServer.requests).toHaveLength(0);
+    });
+
+    it('rejects unknown body sets', async () => {
+      const { status, body } = await getEphemeris('date=2024-01-15&set=comets');
+
+      expect(status).toBe(400);
+      expect((body as ValidationErrorResponse).issues[0]).toMatchObject({ param: 'set', code: 'INVALID_FORMAT' });
+      expect(mockServer.requests).toHaveLength(0);
+    });
+
+    it('rejects malformed and out-of-range dates', async () => {
+      const malformed = await getEphemeris('date=15/01/2024&ids=399');
+      const tooEarly = await getEphemeris('date=1599-12-31&ids=399');
+
+      expect(malformed.status).toBe(400);
+      expect((malformed.body as ValidationErrorResponse).issues[0]).toMatchObject({ param: 'date', code: 'INVALID_FORMAT' });
+      expect(tooEarly.status).toBe(400);
+      expect((tooEarly.body as ValidationErrorResponse).issues[0]).toMatchObject({ param: 'date', code: 'OUT_OF_RANGE' });
+    });
+
+    it('caps the number of ids per request', async () => {
+      const ids = Array.from({ length: 51 }, (_, index) => `399${index}`);
+      const { status, body } = await getEphemeris(`ids=${ids.join(',')}`);
+
+      expect(status).toBe(400);
+      expect((body as ValidationErrorResponse).issues).toEqual([
+        expect.objectContaining({ param: 'ids', code: 'TOO_MANY_IDS' }),
+      ]);
+    });
+
+    it('reports every invalid parameter at once', async () => {
+      const { body } = await getEphemeris('date=tomorrow&ids=nope&force=yes');
+
+      expect((body as ValidationErrorResponse).issues.map(issue => issue.param)).toEqual(['date', 'ids', 'force']);
+    });
+  });
+});
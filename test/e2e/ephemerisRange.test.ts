@@ -0,0 +1,76 @@
+/**
+ * GET /api/ephemeris/range end to end: route -> nasaClient -> mock Horizons server,
+ * with the in-memory cache backend
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { startMockHorizonsServer } from '../../scripts/mock-horizons-server.mjs';
+import type { EphemerisRangeResponse } from '@/lib/types';
+
+// --- Setup ---
+
+const AU_TO_KM = 149_597_870.7;
+
+// Parker Solar Probe - its trajectory starts on 2018-08-13, inside the requested window
+const PARKER_ID = '-96';
+
+type MockServer = Awaited<ReturnType<typeof startMockHorizonsServer>>;
+
+let mockServer: MockServer;
+let GET: typeof import('@/app/api/ephemeris/range/route').GET;
+
+beforeEach(async () => {
+  mockServer = await startMockHorizonsServer({ quiet: true });
+  vi.stubEnv('HORIZONS_API_URL', mockServer.url);
+  vi.stubEnv('CACHE_BACKEND', 'memory');
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+
+  // Fresh modules per test: empty cache, closed circuit, idle rate limiter
+  vi.resetModules();
+  ({ GET } = await import('@/app/api/ephemeris/range/route'));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await mockServer.close();
+});
+
+async function getRange(query: string) {
+  const response = await GET(new NextRequest(`http://localhost/api/ephemeris/range?${query}`));
+  return { status: response.status, body: await response.json() };
+}
+
+// --- Tests ---
+
+describe('GET /api/ephemeris/range', () => {
+  it('samples a clipped spacecraft on the request grid, so a body center can re-origin it', async () => {
+    const { status, body } = await getRange(
+      `start=2018-08-10T12:00Z&stop=2018-08-16T12:00Z&step=1d&ids=${PARKER_ID}&center=399`
+    );
+    const response = body as EphemerisRangeResponse;
+
+    expect(status).toBe(200);
+    expect(response.data.map(series => series.bodyId)).toEqual([PARKER_ID]);
+
+    const [parker] = response.data;
+    expect(parker.source).toBe('NASA_LIVE');
+    expect(parker.samples.map(sample => sample.timestamp)).toEqual([
+      '2018-08-13T12:00:00.000Z',
+      '2018-08-14T12:00:00.000Z',
+      '2018-08-15T12:00:00.000Z',
+      '2018-08-16T12:00:00.000Z',
+    ]);
+
+    // Parker minus Earth on the first shared sample (fixture values in AU, Horizons Y is scene z)
+    expect(parker.samples[0].position.x).toBeCloseTo((0.85 - (0.82 + 3 * 0.0099)) * AU_TO_KM, 0);
+    expect(parker.samples[0].position.z).toBeCloseTo((-0.54 - (-0.59 + 3 * 0.014)) * AU_TO_KM, 0);
+
+    // The spacecraft is only asked for from its first sample inside the mission window
+    expect(mockServer.requests.map(request => [request.command, request.startTime])).toEqual([
+      [PARKER_ID, '2018-08-13 12:00'],
+      ['399', '2018-08-10 12:00'],
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * GET /api/observer end to end: route -> nasaClient -> mock Horizons server,
+ * with the in-memory cache backend
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { startMockHorizonsServer } from '../../scripts/mock-horizons-server.mjs';
+import type { ObserverResponse, ValidationErrorResponse } from '@/lib/types';
+
+// --- Setup ---
+
+const GREENWICH = 'lat=51.4769&lon=-0.0005&alt=0.046';
+
+type MockServer = Awaited<ReturnType<typeof startMockHorizonsServer>>;
+
+let mockServer: MockServer;
+let GET: typeof import('@/app/api/observer/route').GET;
+
+beforeEach(async () => {
+  mockServer = await startMockHorizonsServer({ quiet: true });
+  vi.stubEnv('HORIZONS_API_URL', mockServer.url);
+  vi.stubEnv('CACHE_BACKEND', 'memory');
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+
+  vi.resetModules();
+  ({ GET } = await import('@/app/api/observer/route'));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await mockServer.close();
+});
+
+async function getObserver(query: string) {
+  const response = await GET(new NextRequest(`http://localhost/api/observer?${query}`));
+  return { status: response.status, body: await response.json() };
+}
+
+// --- Tests ---
+
+describe('GET /api/observer', () => {
+  it('serves the parsed observer table and answers repeats from the cache', async () => {
+    const first = await getObserver(`${GREENWICH}&date=2024-03-01&ids=499`);
+    const body = first.body as ObserverResponse;
+
+    expect(first.status).toBe(200);
+    expect(body.meta.source).toBe('NASA_LIVE');
+    expect(body.meta.site).toEqual({ latitude: 51.4769, longitude: -0.0005, altitudeKm: 0.046 });
+    expect(body.data).toEqual([
+      expect.objectContaining({ bodyId: '499', name: 'Mars', constellation: 'Cap', magnitude: 1.261 }),
+    ]);
+
+    const second = await getObserver(`${GREENWICH}&date=2024-03-01&ids=499`);
+
+    expect((second.body as ObserverResponse).meta.source).toBe('CACHE_HIT');
+    expect(mockServer.requests).toHaveLength(1);
+  });
+
+  it('computes the sky from propagated positions when Horizons fails', async () => {
+    const { status, body } = await getObserver(`${GREENWICH}&date=2024-03-01&ids=499,799`);
+    const response = body as ObserverResponse;
+    const uranus = response.data.find(item => item.bodyId === '799')!;
+
+    expect(status).toBe(200);
+    expect(response.meta.upstream?.errors).toEqual({ '799': 'UPSTREAM_UNAVAILABLE' });
+    expect(response.data.map(item => item.bodyId)).toEqual(['499', '799']);
+    // Uranus was in Aries - no magnitude or constellation offline
+    expect(uranus.rightAscension).toBeGreaterThan(40);
+    expect(uranus.rightAscension).toBeLessThan(55);
+    expect(uranus.magnitude).toBeUndefined();
+  });
+
+  it('requires a site inside the valid coordinate span', async () => {
+    const missing = await getObserver('date=2024-03-01');
+    const outOfRange = await getObserver('lat=95&lon=abc');
+
+    expect(missing.status).toBe(400);
+    expect((missing.body as ValidationErrorResponse).issues.map(issue => issue.param)).toEqual(['lat', 'lon']);
+    expect((outOfRange.body as ValidationErrorResponse).issues.map(issue => [issue.param, issue.code])).toEqual([
+      ['lat', 'OUT_OF_RANGE'],
+      ['lon', 'INVALID_FORMAT'],
+    ]);
+    expect(mockServer.requests).toHaveLength(0);
+  });
+});
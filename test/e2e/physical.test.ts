@@ -0,0 +1,98 @@
+/**
+ * GET /api/physical end to end: route -> nasaClient -> mock Horizons server,
+ * with the in-memory cache backend
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { startMockHorizonsServer } from '../../scripts/mock-horizons-server.mjs';
+import type { EphemerisErrorResponse, PhysicalDataResponse, ValidationErrorResponse } from '@/lib/types';
+
+// --- Setup ---
+
+type MockServer = Awaited<ReturnType<typeof startMockHorizonsServer>>;
+
+let mockServer: MockServer;
+let GET: typeof import('@/app/api/physical/route').GET;
+
+beforeEach(async () => {
+  mockServer = await startMockHorizonsServer({ quiet: true });
+  vi.stubEnv('HORIZONS_API_URL', mockServer.url);
+  vi.stubEnv('CACHE_BACKEND', 'memory');
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+
+  vi.resetModules();
+  ({ GET } = await import('@/app/api/physical/route'));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await mockServer.close();
+});
+
+async function getPhysical(query: string) {
+  const response = await GET(new NextRequest(`http://localhost/api/physical?${query}`));
+  return { status: response.status, body: await response.json() };
+}
+
+// --- Tests ---
+
+describe('GET /api/physical', () => {
+  it('serves parsed object data and answers repeats from the cache', async () => {
+    const first = await getPhysical('id=499');
+    const body = first.body as PhysicalDataResponse;
+
+    expect(first.status).toBe(200);
+    expect(body.meta.source).toBe('NASA_LIVE');
+    expect(body.data).toMatchObject({ bodyId: '499', name: 'Mars', meanRadiusKm: 3389.92, obliquityDeg: 25.19 });
+
+    const second = await getPhysical('id=499');
+
+    expect((second.body as PhysicalDataResponse).meta.source).toBe('CACHE_HIT');
+    expect(mockServer.requests).toHaveLength(1);
+  });
+
+  it('caches bodies without physical data like any other answer', async () => {
+    const first = await getPhysical('id=-31');
+    const second = await getPhysical('id=-31');
+
+    expect(first.status).toBe(200);
+    expect((first.body as PhysicalDataResponse).data).toBeNull();
+    expect((second.body as PhysicalDataResponse).meta.source).toBe('CACHE_HIT');
+    expect((second.body as PhysicalDataResponse).data).toBeNull();
+    expect(mockServer.requests).toHaveLength(1);
+  });
+
+  it('caches rejected bodies and answers repeats with the same 4xx error', async () => {
+    const first = await getPhysical('id=999');
+    const second = await getPhysical('id=999');
+
+    expect(first.status).toBe(404);
+    expect((first.body as EphemerisErrorResponse).code).toBe('TARGET_NOT_FOUND');
+    expect(second.status).toBe(404);
+    expect(second.body).toEqual(first.body);
+    expect(mockServer.requests).toHaveLength(1);
+  });
+
+  it('answers null data with the upstream error when Horizons fails', async () => {
+    const { status, body } = await getPhysical('id=799');
+    const response = body as PhysicalDataResponse;
+
+    expect(status).toBe(200);
+    expect(response.data).toBeNull();
+    expect(response.meta.source).toBe('FALLBACK_DATASET');
+    expect(response.meta.upstream?.errors).toEqual({ '799': 'UPSTREAM_UNAVAILABLE' });
+  });
+
+  it('requires a registered id', async () => {
+    const missing = await getPhysical('');
+    const unknown = await getPhysical('id=12345');
+
+    expect(missing.status).toBe(400);
+    expect((missing.body as ValidationErrorResponse).issues[0]).toMatchObject({ param: 'id', code: 'INVALID_FORMAT' });
+    expect(unknown.status).toBe(400);
+    expect((unknown.body as ValidationErrorResponse).issues[0]).toMatchObject({ param: 'id', code: 'UNKNOWN_BODY' });
+    expect(mockServer.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Cache backends: LRU eviction in memory, TTL expiry and concurrent writes on disk,
+ * and backend selection from the environment
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCacheBackend, createFileSystemBackend, createMemoryBackend } from '@/services/cacheBackends';
+
+// --- Helpers ---
+
+function env(variables: Record<string, string>): NodeJS.ProcessEnv {
+  return { NODE_ENV: 'test', ...variables };
+}
+
+// --- Tests ---
+
+describe('memory backend', () => {
+  it('evicts the least recently used entry', async () => {
+    const cache = createMemoryBackend(2);
+    await cache.set('a', 1, null);
+    await cache.set('b', 2, null);
+
+    // Reading 'a' makes 'b' the oldest
+    expect(await cache.get('a')).toBe(1);
+    await cache.set('c', 3, null);
+
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('a')).toBe(1);
+    expect(await cache.get('c')).toBe(3);
+  });
+
+  it('expires entries after their TTL', async () => {
+    vi.useFakeTimers();
+    try {
+      const cache = createMemoryBackend();
+      await cache.set('short', 'value', 60);
+      await cache.set('forever', 'value', null);
+
+      vi.advanceTimersByTime(61_000);
+      expect(await cache.get('short')).toBeNull();
+      expect(await cache.get('forever')).toBe('value');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('filesystem backend', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ephemeris-cache-'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('round-trips values under keys with separators', async () => {
+    const cache = createFileSystemBackend(directory);
+    await cache.set('ephemeris:v3:399:2024-01-15T00:00:00Z', { x: 1 }, null);
+
+    expect(await cache.get('ephemeris:v3:399:2024-01-15T00:00:00Z')).toEqual({ x: 1 });
+    expect(await cache.get('ephemeris:v3:499:2024-01-15T00:00:00Z')).toBeNull();
+  });
+
+  it('expires entries after their TTL and removes the file', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = createFileSystemBackend(directory);
+    await cache.set('short', 'value', 60);
+    expect(await cache.get('short')).toBe('value');
+
+    vi.advanceTimersByTime(61_000);
+    expect(await cache.get('short')).toBeNull();
+    expect(fs.readdirSync(directory)).toEqual([]);
+  });
+
+  it('survives concurrent writes of one key', async () => {
+    const cache = createFileSystemBackend(directory);
+    const values = Array.from({ length: 20 }, (_, index) => ({ index, padding: 'x'.repeat(10_000) }));
+
+    await Promise.all(values.map(value => cache.set('shared', value, null)));
+
+    const stored = await cache.get<{ index: number }>('shared');
+    expect(values.map(value => value.index)).toContain(stored?.index);
+    // No temp files left behind
+    expect(fs.readdirSync(directory)).toEqual([`${encodeURIComponent('shared')}.json`]);
+  });
+});
+
+describe('createCacheBackend', () => {
+  it('picks the backend from the environment', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(createCacheBackend(env({})).name).toBe('memory');
+    expect(createCacheBackend(env({ CACHE_BACKEND: 'filesystem' })).name).toBe('filesystem');
+    expect(createCacheBackend(env({ CACHE_BACKEND: 'upstash' })).name).toBe('memory');
+    expect(createCacheBackend(env({ UPSTASH_REDIS_REST_URL: 'https://example.upstash.io', UPSTASH_REDIS_REST_TOKEN: 't' })).name)
+      .toBe('upstash');
+
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Cache TTL policy: past positions never expire, near-present ones expire within the hour,
+ * future predictions within a day. Time series round-trip through the per-timestamp cache.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getTTL } from '@/services/cacheService';
+import type { EphemerisSample } from '@/lib/types';
+
+// --- Helpers ---
+
+const NOW = Date.parse('2025-06-15T12:00:00Z');
+
+const SERIES_TIMES = ['2024-01-15T00:00:00.000Z', '2024-01-16T00:00:00.000Z', '2024-01-17T00:00:00.000Z'];
+
+function sample(timestamp: string, x: number): EphemerisSample {
+  return { timestamp, position: { x, y: 0, z: 0 }, velocity: { x: 0, y: 1, z: 0 } };
+}
+
+// Fresh module per test, so each one starts on an empty in-memory backend
+async function loadCacheService() {
+  vi.stubEnv('CACHE_BACKEND', 'memory');
+  vi.resetModules();
+  return import('@/services/cacheService');
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+// --- Tests ---
+
+describe('getTTL', () => {
+  it('keeps past positions forever', () => {
+    expect(getTTL('2025-06-12T23:59:00Z', NOW)).toBeNull();
+    expect(getTTL('1969-07-20T20:17:00Z', NOW)).toBeNull();
+  });
+
+  it('expires positions within two days of today after an hour', () => {
+    // The window is counted in whole UTC days from today's start
+    expect(getTTL('2025-06-13T00:00:00Z', NOW)).toBe(3600);
+    expect(getTTL('2025-06-15T12:00:00Z', NOW)).toBe(3600);
+    expect(getTTL('2025-06-17T00:00:00Z', NOW)).toBe(3600);
+  });
+
+  it('expires future predictions after a day', () => {
+    expect(getTTL('2025-06-17T00:01:00Z', NOW)).toBe(86400);
+    expect(getTTL('2030-01-01', NOW)).toBe(86400);
+  });
+
+  it('treats unparseable times as now', () => {
+    expect(getTTL('not a date', NOW)).toBe(3600);
+  });
+});
+
+describe('getCachedEphemerisSeries', () => {
+  it('reads back a series written by setCachedEphemerisSeries', async () => {
+    const cache = await loadCacheService();
+    const samples = SERIES_TIMES.map((time, index) => sample(time, index));
+
+    await cache.setCachedEphemerisSeries('499', 'Mars', samples);
+
+    expect(await cache.getCachedEphemerisSeries('499', SERIES_TIMES)).toEqual(samples);
+  });
+
+  it('misses unless every sample is cached', async () => {
+    const cache = await loadCacheService();
+    await cache.setCachedEphemerisSeries('499', 'Mars', [sample(SERIES_TIMES[0], 0), sample(SERIES_TIMES[2], 2)]);
+
+    expect(await cache.getCachedEphemerisSeries('499', SERIES_TIMES)).toBeNull();
+    expect(await cache.getCachedEphemerisSeries('599', SERIES_TIMES)).toBeNull();
+  });
+
+  it('misses on samples off the whole minute, which are never cached', async () => {
+    const cache = await loadCacheService();
+
+    expect(await cache.getCachedEphemerisSeries('499', ['2024-01-15T00:00:30.000Z'])).toBeNull();
+  });
+});
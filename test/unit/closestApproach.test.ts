@@ -0,0 +1,98 @@
+/**
+ * Closest approach: the 2027 Mars close approach, a lunar perigee through the
+ * satellite's parent, sampling limits, and daily series against the propagator
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  findClosestApproach,
+  getApproachBodyIds,
+  getApproachStepDays,
+  getDistanceBetween,
+} from '@/lib/closestApproach';
+import { createPropagatedSampler, createSeriesSampler } from '@/lib/events';
+import { propagateBodies } from '@/lib/keplerPropagator';
+import type { EphemerisSeries } from '@/lib/types';
+
+// --- Helpers ---
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+function search(firstId: string, secondId: string, start: string, stop: string) {
+  const sampler = createPropagatedSampler(getApproachBodyIds(firstId, secondId));
+  return findClosestApproach(sampler, firstId, secondId, Date.parse(start), Date.parse(stop));
+}
+
+// --- Tests ---
+
+describe('getApproachBodyIds', () => {
+  it('adds satellite parents and leaves out the Sun', () => {
+    expect(getApproachBodyIds('499', '399')).toEqual(['499', '399']);
+    expect(getApproachBodyIds('301', '399')).toEqual(['301', '399']);
+    expect(getApproachBodyIds('10', '501')).toEqual(['501', '599']);
+  });
+});
+
+describe('getApproachStepDays', () => {
+  it('samples daily up to the sample limit, then stretches the step', () => {
+    expect(getApproachStepDays(0, 731 * DAY)).toBe(1);
+    expect(getApproachStepDays(0, 999 * DAY)).toBe(1);
+    expect(getApproachStepDays(0, 1000 * DAY)).toBe(2);
+    expect(getApproachStepDays(0, 3653 * DAY)).toBe(4);
+  });
+});
+
+describe('findClosestApproach', () => {
+  it('finds the Mars close approach of February 2027', () => {
+    const approach = search('499', '399', '2026-01-01T00:00:00Z', '2028-01-01T00:00:00Z');
+
+    // Closest approach 2027-02-20, 101.4 million km
+    expect(approach).not.toBeNull();
+    expect(approach!.bodyIds).toEqual(['499', '399']);
+    expect(Math.abs(Date.parse(approach!.time) - Date.parse('2027-02-20T00:00:00Z'))).toBeLessThan(DAY);
+    expect(approach!.distance / 1e6).toBeCloseTo(101.4, 0);
+
+    // Daily curve over the whole window, never below the minimum
+    expect(approach!.samples).toHaveLength(731);
+    expect(Math.min(...approach!.samples.map(sample => sample.distance))).toBeGreaterThanOrEqual(approach!.distance);
+  });
+
+  it('places satellites through their parent', () => {
+    const approach = search('301', '399', '2025-01-01T00:00:00Z', '2025-02-01T00:00:00Z');
+    const data = propagateBodies(['301', '399'], approach!.time);
+
+    // The propagated Moon keeps a fixed ellipse - perigee at a(1 - e)
+    expect(approach!.distance).toBeGreaterThan(356_000);
+    expect(approach!.distance).toBeLessThan(370_000);
+    expect(getDistanceBetween('301', '399', data)).toBeCloseTo(approach!.distance, -1);
+  });
+
+  it('returns null when a body has no positions', () => {
+    // Spacecraft have no orbital elements - only Horizons can place them
+    expect(search('-31', '399', '2025-01-01T00:00:00Z', '2025-02-01T00:00:00Z')).toBeNull();
+  });
+
+  it('agrees between daily series and the propagator', () => {
+    const start = Date.parse('2025-10-01T00:00:00Z');
+    const stop = Date.parse('2026-03-01T00:00:00Z');
+    const days = Math.round((stop - start) / DAY) + 1;
+
+    const series: EphemerisSeries[] = ['399', '299'].map(bodyId => ({
+      bodyId,
+      name: bodyId,
+      source: 'FALLBACK_DATASET',
+      samples: Array.from({ length: days }, (_, day) => {
+        const timestamp = new Date(start + day * DAY).toISOString();
+        const [body] = propagateBodies([bodyId], timestamp);
+        return { timestamp, position: body.position, velocity: body.velocity };
+      }),
+    }));
+
+    const fromSeries = findClosestApproach(createSeriesSampler(series), '299', '399', start, stop);
+    const fromPropagator = findClosestApproach(createPropagatedSampler(['299', '399']), '299', '399', start, stop);
+
+    expect(Math.abs(Date.parse(fromSeries!.time) - Date.parse(fromPropagator!.time))).toBeLessThan(HOUR);
+    expect(fromSeries!.distance).toBeCloseTo(fromPropagator!.distance, -2);
+  });
+});
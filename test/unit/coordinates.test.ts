@@ -0,0 +1,69 @@
+/**
+ * Reference planes: equatorial directions in scene axes and the ecliptic <-> equatorial turn
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  OBLIQUITY_J2000_DEG,
+  equatorialToSceneDirection,
+  getPlaneTilt,
+  toReferencePlane,
+} from '@/lib/coordinates';
+
+// --- Helpers ---
+
+const DEG = Math.PI / 180;
+
+function expectVectorClose(actual: { x: number; y: number; z: number }, expected: [number, number, number]) {
+  expect(actual.x).toBeCloseTo(expected[0], 12);
+  expect(actual.y).toBeCloseTo(expected[1], 12);
+  expect(actual.z).toBeCloseTo(expected[2], 12);
+}
+
+// --- Tests ---
+
+describe('equatorialToSceneDirection', () => {
+  it('keeps the vernal equinox on +X', () => {
+    const [x, y, z] = equatorialToSceneDirection(0, 0);
+
+    expect(x).toBeCloseTo(1, 12);
+    expect(y).toBeCloseTo(0, 12);
+    expect(z).toBeCloseTo(0, 12);
+  });
+
+  it('tilts the celestial pole away from scene up by the obliquity', () => {
+    const [, y] = equatorialToSceneDirection(0, 90);
+    expect(Math.acos(y) / DEG).toBeCloseTo(OBLIQUITY_J2000_DEG, 9);
+  });
+});
+
+describe('toReferencePlane', () => {
+  it('leaves ecliptic vectors alone on the ecliptic plane', () => {
+    const vector = { x: 1, y: 2, z: 3 };
+    expect(toReferencePlane(vector, 'ecliptic')).toBe(vector);
+  });
+
+  it('turns the celestial pole into scene up on the equatorial plane', () => {
+    const [x, y, z] = equatorialToSceneDirection(0, 90);
+    expectVectorClose(toReferencePlane({ x, y, z }, 'equatorial'), [0, 1, 0]);
+  });
+
+  it('maps RA/Dec directions to equatorial scene axes (x, sin δ, cos δ sin α)', () => {
+    const [ra, dec] = [123.4, -56.7];
+    const [x, y, z] = equatorialToSceneDirection(ra, dec);
+
+    expectVectorClose(toReferencePlane({ x, y, z }, 'equatorial'), [
+      Math.cos(dec * DEG) * Math.cos(ra * DEG),
+      Math.sin(dec * DEG),
+      Math.cos(dec * DEG) * Math.sin(ra * DEG),
+    ]);
+  });
+});
+
+describe('getPlaneTilt', () => {
+  it('is zero within a plane and opposite between them', () => {
+    expect(getPlaneTilt('ecliptic', 'ecliptic')).toBe(0);
+    expect(getPlaneTilt('ecliptic', 'equatorial')).toBeCloseTo(-OBLIQUITY_J2000_DEG * DEG, 12);
+    expect(getPlaneTilt('equatorial', 'ecliptic')).toBe(-getPlaneTilt('ecliptic', 'equatorial'));
+  });
+});
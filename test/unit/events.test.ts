@@ -0,0 +1,124 @@
+/**
+ * Event finder: published dates of the 2024-25 Mars apparition, Venus's
+ * greatest elongations and the 2020 great conjunction, from the propagator
+ * and from sampled series
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  createPropagatedSampler,
+  createSeriesSampler,
+  findAstronomicalEvents,
+  getEventBodyIds,
+  getFramingTarget,
+  type AstronomicalEvent,
+} from '@/lib/events';
+import { propagateBodies } from '@/lib/keplerPropagator';
+import type { EphemerisSeries } from '@/lib/types';
+
+// --- Helpers ---
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+function findEvent(events: AstronomicalEvent[], type: AstronomicalEvent['type'], bodyIds: string[], near: string) {
+  return events.find(event =>
+    event.type === type
+    && event.bodyIds.join() === bodyIds.join()
+    && Math.abs(Date.parse(event.time) - Date.parse(near)) < 2 * DAY
+  );
+}
+
+function expectNear(event: AstronomicalEvent | undefined, time: string, toleranceMs: number) {
+  expect(event).toBeDefined();
+  expect(Math.abs(Date.parse(event!.time) - Date.parse(time))).toBeLessThan(toleranceMs);
+}
+
+// --- Tests ---
+
+describe('findAstronomicalEvents', () => {
+  const events = findAstronomicalEvents(
+    createPropagatedSampler(),
+    Date.parse('2024-12-01T00:00:00Z'),
+    Date.parse('2025-03-01T00:00:00Z')
+  );
+
+  it('finds the Mars opposition and the stations around it', () => {
+    expectNear(findEvent(events, 'OPPOSITION', ['499'], '2025-01-16'), '2025-01-16T02:38:00Z', 3 * HOUR);
+    expect(findEvent(events, 'STATION', ['499'], '2024-12-07')).toMatchObject({ direction: 'RETROGRADE' });
+    expect(findEvent(events, 'STATION', ['499'], '2025-02-24')).toMatchObject({ direction: 'DIRECT' });
+  });
+
+  it("finds Venus's greatest eastern elongation", () => {
+    const elongation = findEvent(events, 'GREATEST_ELONGATION', ['299'], '2025-01-10');
+
+    expectNear(elongation, '2025-01-10T03:00:00Z', 12 * HOUR);
+    expect(elongation).toMatchObject({ side: 'EAST' });
+    expect(elongation!.separation).toBeCloseTo(47.2, 0);
+  });
+
+  it('lists only close conjunctions, in time order', () => {
+    const conjunctions = events.filter(event => event.type === 'CONJUNCTION');
+
+    expect(findEvent(events, 'CONJUNCTION', ['299', '699'], '2025-01-18')).toBeDefined();
+    expect(conjunctions.every(event => event.separation! <= 5)).toBe(true);
+    expect(events.map(event => event.time)).toEqual([...events.map(event => event.time)].sort());
+  });
+
+  it('finds the 2020 great conjunction', () => {
+    const december = findAstronomicalEvents(
+      createPropagatedSampler(),
+      Date.parse('2020-12-15T00:00:00Z'),
+      Date.parse('2020-12-28T00:00:00Z')
+    );
+    const conjunction = findEvent(december, 'CONJUNCTION', ['599', '699'], '2020-12-21');
+
+    expectNear(conjunction, '2020-12-21T13:30:00Z', 12 * HOUR);
+    expect(conjunction!.separation).toBeLessThan(0.2);
+  });
+
+  it('gives the same events from daily series as from the propagator', () => {
+    const start = Date.parse('2025-01-01T00:00:00Z');
+    const stop = Date.parse('2025-02-01T00:00:00Z');
+    const ids = ['399', '199', '299', '499', '599', '699', '799', '899'];
+
+    const series: EphemerisSeries[] = ids.map(bodyId => ({
+      bodyId,
+      name: bodyId,
+      source: 'FALLBACK_DATASET',
+      samples: Array.from({ length: 32 }, (_, day) => {
+        const timestamp = new Date(start + day * DAY).toISOString();
+        const [body] = propagateBodies([bodyId], timestamp);
+        return { timestamp, position: body.position, velocity: body.velocity };
+      }),
+    }));
+
+    const fromSeries = findAstronomicalEvents(createSeriesSampler(series), start, stop);
+    const fromPropagator = findAstronomicalEvents(createPropagatedSampler(), start, stop);
+
+    expect(fromSeries.map(event => event.id.split(':').slice(0, 2).join(':')))
+      .toEqual(fromPropagator.map(event => event.id.split(':').slice(0, 2).join(':')));
+    for (const [index, event] of fromSeries.entries()) {
+      expect(Math.abs(Date.parse(event.time) - Date.parse(fromPropagator[index].time))).toBeLessThan(HOUR);
+    }
+  });
+});
+
+describe('getFramingTarget', () => {
+  it('centers on the Sun, the Earth and the planet at an opposition', () => {
+    const data = propagateBodies(['10', '399', '499'], '2025-01-16T02:38:00Z');
+    const opposition: AstronomicalEvent = { id: 'o', type: 'OPPOSITION', time: '2025-01-16T02:38:00Z', bodyIds: ['499'] };
+
+    const bodyIds = getEventBodyIds(opposition);
+    const target = getFramingTarget(bodyIds, data, 'ecliptic');
+
+    expect(bodyIds).toEqual(['10', '399', '499']);
+    // Sun, Earth and Mars in line - the centroid sits between the Sun and Mars, ~70M km out
+    expect(Math.hypot(target!.position.x, target!.position.y, target!.position.z)).toBeGreaterThan(50);
+    expect(target!.radius).toBeGreaterThan(100);
+  });
+
+  it('has nothing to frame without data', () => {
+    expect(getFramingTarget(['499'], [], 'ecliptic')).toBeNull();
+  });
+});
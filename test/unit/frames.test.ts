@@ -0,0 +1,134 @@
+/**
+ * Reference frames: heliocentric chains, barycenter estimate and re-origining
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  barycenterFromSunState,
+  estimateBarycenterState,
+  getCenterChain,
+  getHeliocentricState,
+  reoriginEphemeris,
+  reoriginSeries,
+  resolveBarycenterState,
+} from '@/lib/frames';
+import type { EphemerisData, EphemerisSeries } from '@/lib/types';
+
+// --- Helpers ---
+
+function body(bodyId: string, x: number, centerId?: string): EphemerisData {
+  return {
+    bodyId,
+    name: `Body ${bodyId}`,
+    position: { x, y: 0, z: 0 },
+    velocity: { x: 0, y: 0, z: x / 1000 },
+    timestamp: '2024-01-15T00:00:00Z',
+    ...(centerId && { centerId }),
+  };
+}
+
+const SUN = body('10', 0);
+const EARTH = body('399', 150e6);
+const MOON = body('301', 384_400, '399');
+const JUPITER = body('599', 778e6);
+
+// --- Tests ---
+
+describe('getHeliocentricState', () => {
+  it('puts the Sun at the origin', () => {
+    expect(getHeliocentricState('10', [])!.position).toEqual({ x: 0, y: 0, z: 0 });
+  });
+
+  it('adds a satellite to its parent', () => {
+    const moon = getHeliocentricState('301', [SUN, EARTH, MOON])!;
+
+    expect(moon.position.x).toBeCloseTo(150e6 + 384_400, 3);
+    expect(moon.velocity.z).toBeCloseTo(150e3 + 384.4, 6);
+  });
+
+  it('returns null when the body or its parent is missing', () => {
+    expect(getHeliocentricState('499', [SUN, EARTH])).toBeNull();
+    expect(getHeliocentricState('301', [SUN, MOON])).toBeNull();
+  });
+});
+
+describe('barycenter', () => {
+  it('lies just outside the Sun, towards Jupiter', () => {
+    const barycenter = estimateBarycenterState([SUN, JUPITER]);
+
+    // GM ratio Jupiter/Sun ≈ 1/1047 -> ≈ 743,000 km from the Sun's center
+    expect(barycenter.position.x).toBeGreaterThan(700_000);
+    expect(barycenter.position.x).toBeLessThan(800_000);
+  });
+
+  it('is the opposite of the Sun seen from the barycenter', () => {
+    const state = barycenterFromSunState({
+      position: { x: -1e6, y: 2e4, z: 3e5 },
+      velocity: { x: 0.01, y: 0, z: -0.002 },
+    });
+
+    expect(state.position).toEqual({ x: 1e6, y: -2e4, z: -3e5 });
+    expect(state.velocity).toEqual({ x: -0.01, y: -0, z: 0.002 });
+  });
+
+  it('prefers the Sun vector and otherwise estimates from propagated planets', () => {
+    const fromSun = resolveBarycenterState({ position: { x: -1e6, y: 0, z: 0 } }, '2024-01-15T00:00:00Z');
+    expect(fromSun).toEqual({ position: { x: 1e6, y: -0, z: -0 }, velocity: { x: -0, y: -0, z: -0 } });
+
+    // Within the Sun's reach of the center - mostly Jupiter's pull
+    const estimated = resolveBarycenterState(null, '2024-01-15T00:00:00Z');
+    const distance = Math.hypot(estimated.position.x, estimated.position.y, estimated.position.z);
+    expect(distance).toBeGreaterThan(100_000);
+    expect(distance).toBeLessThan(2_000_000);
+
+    // Planets in the dataset win over propagated ones
+    const fromData = resolveBarycenterState(null, '2024-01-15T00:00:00Z', [JUPITER]);
+    expect(fromData).not.toEqual(estimated);
+  });
+});
+
+describe('getCenterChain', () => {
+  it('needs the center and, for a satellite, its parent', () => {
+    expect(getCenterChain('10')).toEqual([]);
+    expect(getCenterChain('0')).toEqual([]);
+    expect(getCenterChain('499')).toEqual(['499']);
+    expect(getCenterChain('301')).toEqual(['301', '399']);
+  });
+});
+
+describe('reoriginEphemeris', () => {
+  it('centers the frame on a body and moves the Sun to minus its position', () => {
+    const center = getHeliocentricState('399', [SUN, EARTH, JUPITER])!;
+    const framed = reoriginEphemeris([SUN, EARTH, MOON, JUPITER], center);
+    const byId = Object.fromEntries(framed.map(item => [item.bodyId, item]));
+
+    expect(byId['399'].position.x).toBe(0);
+    expect(byId['10'].position.x).toBe(-150e6);
+    expect(byId['599'].position.x).toBe(778e6 - 150e6);
+    // Satellites keep their parent-relative vectors
+    expect(byId['301']).toBe(MOON);
+  });
+});
+
+describe('reoriginSeries', () => {
+  it('shifts each sample by the center at its time and drops unmatched samples', () => {
+    const series: EphemerisSeries[] = [{
+      bodyId: '499',
+      name: 'Mars',
+      source: 'NASA_LIVE',
+      samples: [
+        { timestamp: '2024-01-15T00:00:00.000Z', position: { x: 10, y: 0, z: 0 } },
+        { timestamp: '2024-01-16T00:00:00.000Z', position: { x: 20, y: 0, z: 0 } },
+      ],
+    }];
+
+    const centerAt = Date.parse('2024-01-15T00:00:00Z');
+    const [framed] = reoriginSeries(series, time => time === centerAt
+      ? { position: { x: 4, y: 0, z: 0 }, velocity: { x: 0, y: 0, z: 0 } }
+      : null);
+
+    expect(framed.samples).toEqual([
+      { timestamp: '2024-01-15T00:00:00.000Z', position: { x: 6, y: 0, z: 0 } },
+    ]);
+  });
+});
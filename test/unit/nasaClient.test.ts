@@ -0,0 +1,187 @@
+/**
+ * Horizons vector-table parsing: AU -> km, AU/day -> km/s and the ecliptic -> scene axis swap,
+ * the physical data header printed with OBJ_DATA and OBSERVER tables
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  parseObserverFromResponse,
+  parsePhysicalDataFromResponse,
+  parseVectorFromResponse,
+  parseVectorRecordsFromResponse,
+} from '@/services/nasaClient';
+
+// --- Helpers ---
+
+const AU_TO_KM = 149_597_870.7;
+const AU_PER_DAY_TO_KM_PER_SEC = AU_TO_KM / 86400;
+const FIXTURES_DIR = path.resolve(__dirname, '../fixtures/horizons');
+
+function loadResult(fixture: string): string {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, fixture), 'utf-8')).result;
+}
+
+function vectorTable(records: string): string {
+  return `Target body name: Test\n*******\n$$SOE\n${records}\n$$EOE\n*******`;
+}
+
+// --- Tests ---
+
+describe('parseVectorFromResponse', () => {
+  it('converts AU to km and swaps ecliptic Y/Z into scene Z/Y', () => {
+    const parsed = parseVectorFromResponse(vectorTable([
+      '2451545.000000000 = A.D. 2000-Jan-01 12:00:00.0000 TDB',
+      ' X = 1.000000000000000E+00 Y = 2.000000000000000E+00 Z =-3.000000000000000E+00',
+      ' VX= 1.000000000000000E-02 VY=-2.000000000000000E-02 VZ= 5.000000000000000E-03',
+    ].join('\n')));
+
+    expect(parsed).not.toBeNull();
+    expect(parsed!.position.x).toBeCloseTo(AU_TO_KM, 3);
+    expect(parsed!.position.y).toBeCloseTo(-3 * AU_TO_KM, 3); // Ecliptic Z is scene up
+    expect(parsed!.position.z).toBeCloseTo(2 * AU_TO_KM, 3);
+
+    expect(parsed!.velocity!.x).toBeCloseTo(0.01 * AU_PER_DAY_TO_KM_PER_SEC, 9);
+    expect(parsed!.velocity!.y).toBeCloseTo(0.005 * AU_PER_DAY_TO_KM_PER_SEC, 9);
+    expect(parsed!.velocity!.z).toBeCloseTo(-0.02 * AU_PER_DAY_TO_KM_PER_SEC, 9);
+  });
+
+  it('maps the recorded Earth vectors for 2024-01-15 to scene coordinates', () => {
+    const parsed = parseVectorFromResponse(loadResult('earth-2024-01-15.json'))!;
+
+    expect(parsed.position.x).toBeCloseTo(-3.996637351770921e-1 * AU_TO_KM, 0);
+    expect(parsed.position.y).toBeCloseTo(-4.88150614109964e-5 * AU_TO_KM, 0);
+    expect(parsed.position.z).toBeCloseTo(8.987491644624633e-1 * AU_TO_KM, 0);
+
+    // ~1 AU from the Sun, moving at ~30 km/s
+    const distanceAU = Math.hypot(parsed.position.x, parsed.position.y, parsed.position.z) / AU_TO_KM;
+    const speed = Math.hypot(parsed.velocity!.x, parsed.velocity!.y, parsed.velocity!.z);
+    expect(distanceAU).toBeCloseTo(0.9836, 3);
+    expect(speed).toBeCloseTo(30.29, 1);
+  });
+
+  it('returns null without the $$SOE/$$EOE markers', () => {
+    expect(parseVectorFromResponse(loadResult('no-such-record.json'))).toBeNull();
+  });
+});
+
+describe('parseVectorRecordsFromResponse', () => {
+  it('reads every record with its TDB timestamp', () => {
+    const records = parseVectorRecordsFromResponse(loadResult('mars-2024-01-15.json'))!;
+
+    expect(records.map(record => record.timestamp)).toEqual([
+      '2024-01-15T00:00:00.000Z',
+      '2024-01-16T00:00:00.000Z',
+    ]);
+    expect(records[0].julianDay).toBe(2460324.5);
+  });
+
+  it('accepts position-only records (VEC_TABLE=1)', () => {
+    const records = parseVectorRecordsFromResponse(vectorTable([
+      '2451545.000000000 = A.D. 2000-Jan-01 12:00:00.0000 TDB',
+      ' X = 1.0E+00 Y = 0.0E+00 Z = 0.0E+00',
+      '2451546.000000000 = A.D. 2000-Jan-02 12:00:00.0000 TDB',
+      ' X = 0.0E+00 Y = 1.0E+00 Z = 0.0E+00',
+    ].join('\n')))!;
+
+    expect(records).toHaveLength(2);
+    expect(records[0].position.x).toBeCloseTo(AU_TO_KM, 3);
+    expect(records[1].position.z).toBeCloseTo(AU_TO_KM, 3);
+    expect(records.every(record => record.velocity === undefined)).toBe(true);
+  });
+});
+
+describe('parsePhysicalDataFromResponse', () => {
+  it('reads a major-body header, skipping 1-sigma and look-alike labels', () => {
+    const physical = parsePhysicalDataFromResponse(loadResult('mars-physical.json'))!;
+
+    expect(physical).toEqual({
+      gm: 42828.375214,
+      meanRadiusKm: 3389.92,
+      density: 3.933,
+      siderealRotationHours: 24.622962,
+      obliquityDeg: 25.19,
+      geometricAlbedo: 0.15,
+      surfaceGravity: expect.any(Number),
+    });
+    expect(physical.surfaceGravity).toBeCloseTo(3.727, 3);
+  });
+
+  it('reads the short keys of small bodies', () => {
+    const physical = parsePhysicalDataFromResponse([
+      '  Asteroid physical parameters (km, seconds, rotational period in hours):',
+      '   GM= 62.6284             RAD= 469.7              ROTPER= 9.07417',
+      '   H= 3.34                 G= .120                 B-V= .713',
+      '                           ALBEDO= .090            STYP= C',
+    ].join('\n'))!;
+
+    expect(physical).toMatchObject({ gm: 62.6284, meanRadiusKm: 469.7, siderealRotationHours: 9.07417, geometricAlbedo: 0.09 });
+    expect(physical.surfaceGravity).toBeCloseTo(0.284, 3);
+  });
+
+  it('converts rotation periods given in h m s and in (retrograde) days', () => {
+    const jupiter = parsePhysicalDataFromResponse(
+      '  Sid. rot. period (III)=  9h 55m 29.711 s  Sid. rot. rate (rad/s)= 0.00017585'
+    );
+    const venus = parsePhysicalDataFromResponse(
+      '  Sidereal rot. period  =  -243.018484 d   Sid. rot. rate, rad/s = -0.00000029924'
+    );
+
+    expect(jupiter?.siderealRotationHours).toBeCloseTo(9.92492, 5);
+    expect(venus?.siderealRotationHours).toBeCloseTo(-243.018484 * 24, 3);
+  });
+
+  it('derives GM from the mass when no GM is published, and ignores n.a.', () => {
+    const physical = parsePhysicalDataFromResponse([
+      '  Mean radius (km)      =  252.1          Density (g/cm^3)      =  1.609',
+      '  Mass x10^20 (kg)      =  1.08022        GM (km^3/s^2)         =  n.a.',
+    ].join('\n'))!;
+
+    expect(physical.gm).toBeCloseTo(7.2097, 3);
+    expect(physical.meanRadiusKm).toBe(252.1);
+  });
+
+  it('returns null for headers without physical data (spacecraft, vector tables)', () => {
+    expect(parsePhysicalDataFromResponse(loadResult('mars-2024-01-15.json'))).toBeNull();
+    expect(parsePhysicalDataFromResponse('Target body name: Voyager 1 (spacecraft) (-31)')).toBeNull();
+  });
+});
+
+describe('parseObserverFromResponse', () => {
+  it('reads the first row of a CSV observer table by column header', () => {
+    expect(parseObserverFromResponse(loadResult('mars-observer-2024-03-01.json'))).toEqual({
+      rightAscension: 315.36537,
+      declination: -18.048,
+      azimuth: 38.37234,
+      elevation: -51.599245,
+      magnitude: 1.261,
+      illumination: 97.21789,
+      elongation: 27.9878,
+      elongationSide: 'L',
+      constellation: 'Cap',
+    });
+  });
+
+  it('leaves out n.a. values and columns that were not requested', () => {
+    const observation = parseObserverFromResponse([
+      ' Date__(UT)__HR:MN, , , R.A.___(ICRF), DEC____(ICRF), Azi____(a-app), Elev___(a-app), T-mag, N-mag, S-O-T,/r,',
+      '$$SOE',
+      ' 2024-Mar-01 00:00, ,m, 10.5, 20.25, 120.0, 15.5, n.a., n.a., 45.1,/T,',
+      '$$EOE',
+    ].join('\n'));
+
+    expect(observation).toEqual({
+      rightAscension: 10.5,
+      declination: 20.25,
+      azimuth: 120,
+      elevation: 15.5,
+      elongation: 45.1,
+      elongationSide: 'T',
+    });
+  });
+
+  it('returns null without the $$SOE/$$EOE markers', () => {
+    expect(parseObserverFromResponse('No ephemeris for target')).toBeNull();
+  });
+});
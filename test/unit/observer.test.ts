@@ -0,0 +1,136 @@
+/**
+ * Observer geometry: sidereal time, horizontal coordinates and the offline sky computed
+ * from propagated positions
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_OBSERVER_SITE,
+  getCompassPoint,
+  getGreenwichSiderealDeg,
+  getLocalSiderealDeg,
+  getObserverSiteKey,
+  getSkyVisibility,
+  observeBodies,
+  toHorizontal,
+} from '@/lib/observer';
+import { propagateBodies } from '@/lib/keplerPropagator';
+import type { ObserverData } from '@/lib/types';
+
+// --- Helpers ---
+
+const GREENWICH = DEFAULT_OBSERVER_SITE;
+
+function observeOffline(bodyIds: string[], timestamp: string): ObserverData[] {
+  return observeBodies(bodyIds, propagateBodies([...bodyIds, '399'], timestamp), GREENWICH, Date.parse(timestamp));
+}
+
+function observation(overrides: Partial<ObserverData>): ObserverData {
+  return {
+    bodyId: '499',
+    name: 'Mars',
+    rightAscension: 0,
+    declination: 0,
+    azimuth: 180,
+    elevation: 30,
+    elongation: 90,
+    timestamp: '2024-01-15T00:00:00Z',
+    ...overrides,
+  };
+}
+
+// --- Tests ---
+
+describe('sidereal time', () => {
+  it('matches the IAU 1982 value at J2000.0', () => {
+    expect(getGreenwichSiderealDeg(Date.parse('2000-01-01T12:00:00Z'))).toBeCloseTo(280.46061837, 6);
+  });
+
+  it('adds the east longitude', () => {
+    const time = Date.parse('2024-01-15T00:00:00Z');
+    expect(getLocalSiderealDeg(time, 90)).toBeCloseTo((getGreenwichSiderealDeg(time) + 90) % 360, 9);
+  });
+});
+
+describe('toHorizontal', () => {
+  it('puts the celestial pole due north at the latitude', () => {
+    const { azimuth, elevation } = toHorizontal(0, 90, GREENWICH, Date.parse('2024-01-15T00:00:00Z'));
+
+    expect(elevation).toBeCloseTo(GREENWICH.latitude, 6);
+    expect(azimuth).toBeCloseTo(0, 6);
+  });
+
+  it('puts a star on the meridian at the zenith when its declination is the latitude', () => {
+    const time = Date.parse('2024-01-15T00:00:00Z');
+    const meridian = getLocalSiderealDeg(time, GREENWICH.longitude);
+
+    expect(toHorizontal(meridian, GREENWICH.latitude, GREENWICH, time).elevation).toBeCloseTo(90, 4);
+    // An hour angle of 6h (west of the meridian) on the equator sets due west
+    expect(toHorizontal(meridian - 90, 0, GREENWICH, time)).toMatchObject({
+      azimuth: expect.closeTo(270, 4),
+      elevation: expect.closeTo(0, 4),
+    });
+  });
+});
+
+describe('observeBodies (offline)', () => {
+  it('finds the Sun at the vernal equinox on the March equinox, culminating at 90° - latitude', () => {
+    const [equinox] = observeOffline(['10'], '2024-03-20T03:06:00Z');
+    const [noon] = observeOffline(['10'], '2024-03-20T12:07:00Z');
+
+    expect(Math.min(equinox.rightAscension, 360 - equinox.rightAscension)).toBeLessThan(0.5);
+    expect(equinox.declination).toBeCloseTo(0, 0);
+    expect(noon.elevation).toBeCloseTo(90 - GREENWICH.latitude, 0);
+    expect(noon.azimuth).toBeCloseTo(180, -1);
+  });
+
+  it('sees a full Moon opposite the Sun, fully lit', () => {
+    const [moon] = observeOffline(['301'], '2024-03-25T07:00:00Z');
+
+    expect(moon.elongation).toBeGreaterThan(170);
+    expect(moon.illumination).toBeGreaterThan(98);
+  });
+
+  it('tells morning from evening planets', () => {
+    // Venus was a morning star in January 2024 and an evening star in January 2025
+    const [morning] = observeOffline(['299'], '2024-01-15T00:00:00Z');
+    const [evening] = observeOffline(['299'], '2025-01-15T00:00:00Z');
+
+    expect(morning.elongationSide).toBe('L');
+    expect(evening.elongationSide).toBe('T');
+  });
+});
+
+describe('getSkyVisibility', () => {
+  it('needs the body up, away from the Sun and the sky dark', () => {
+    expect(getSkyVisibility(observation({}), -20)).toBe('VISIBLE');
+    expect(getSkyVisibility(observation({ elevation: -5 }), -20)).toBe('BELOW_HORIZON');
+    expect(getSkyVisibility(observation({ elongation: 4 }), -20)).toBe('NEAR_SUN');
+    expect(getSkyVisibility(observation({}), 10)).toBe('DAYLIGHT');
+    expect(getSkyVisibility(observation({ magnitude: 7.8 }), -20)).toBe('NEEDS_TELESCOPE');
+  });
+
+  it('treats Neptune as telescopic when no magnitude is known', () => {
+    expect(getSkyVisibility(observation({ bodyId: '899' }), -20)).toBe('NEEDS_TELESCOPE');
+  });
+});
+
+describe('getCompassPoint', () => {
+  it('rounds to the nearest of 16 points', () => {
+    expect(getCompassPoint(0)).toBe('N');
+    expect(getCompassPoint(359)).toBe('N');
+    expect(getCompassPoint(112.5)).toBe('ESE');
+    expect(getCompassPoint(270)).toBe('W');
+  });
+});
+
+describe('getObserverSiteKey', () => {
+  it('rounds sites about 10 m apart onto one key', () => {
+    const site = { latitude: -23.55052, longitude: -46.63331, altitudeKm: 0.76 };
+
+    expect(getObserverSiteKey(site)).toBe('-23.5505,-46.6333,0.760');
+    expect(getObserverSiteKey({ ...site, latitude: -23.550521 })).toBe(getObserverSiteKey(site));
+    expect(getObserverSiteKey({ ...site, latitude: -23.5507 })).not.toBe(getObserverSiteKey(site));
+  });
+});
+
@@ -0,0 +1,191 @@
+/**
+ * OrbitLine geometry: focal ellipse, orientation in the scene and distance-based opacity
+ */
+
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import {
+  getOrbitOpacity,
+  getOrbitPoints,
+  getOrbitRadius,
+  getOrbitRotations,
+} from '@/components/three/OrbitLine';
+import { getPlaneRotation, toReferencePlane, type ReferencePlane } from '@/lib/coordinates';
+
+// --- Helpers ---
+
+const DEG = Math.PI / 180;
+
+// [a (scene units), e] - near-circular, Mars-like, Mercury-like and Halley-like
+const ORBITS: [number, number][] = [
+  [149.6, 0.0167],
+  [228.0, 0.0934],
+  [57.9, 0.2056],
+  [2668, 0.96714],
+];
+
+/**
+ * Heliocentric position on an orbit from the textbook formula (ecliptic X/Y/Z),
+ * mapped to scene axes the same way the Horizons vectors are (x, Z, Y)
+ */
+function expectedScenePosition(
+  a: number,
+  e: number,
+  inclination: number,
+  longAscNode: number,
+  longPerihelion: number,
+  trueAnomaly: number
+): THREE.Vector3 {
+  const r = (a * (1 - e * e)) / (1 + e * Math.cos(trueAnomaly));
+  const node = longAscNode * DEG;
+  const i = inclination * DEG;
+  const u = (longPerihelion - longAscNode) * DEG + trueAnomaly; // Argument of latitude
+
+  const x = r * (Math.cos(node) * Math.cos(u) - Math.sin(node) * Math.sin(u) * Math.cos(i));
+  const y = r * (Math.sin(node) * Math.cos(u) + Math.cos(node) * Math.sin(u) * Math.cos(i));
+  const z = r * Math.sin(u) * Math.sin(i);
+
+  return new THREE.Vector3(x, z, y);
+}
+
+/**
+ * Applies the OrbitLine group hierarchy to a point drawn in the orbital plane
+ */
+function toScene(
+  point: THREE.Vector3,
+  longAscNode: number,
+  inclination: number,
+  longPerihelion: number,
+  plane: ReferencePlane = 'ecliptic'
+) {
+  const rotations = getOrbitRotations(longAscNode, inclination, longPerihelion);
+  const referencePlane = new THREE.Object3D();
+  const node = new THREE.Object3D();
+  const tilt = new THREE.Object3D();
+  const perihelion = new THREE.Object3D();
+
+  referencePlane.rotation.set(...getPlaneRotation(plane));
+  node.rotation.set(...rotations.node);
+  tilt.rotation.set(...rotations.inclination);
+  perihelion.rotation.set(...rotations.perihelion);
+  referencePlane.add(node);
+  node.add(tilt);
+  tilt.add(perihelion);
+  referencePlane.updateMatrixWorld(true);
+
+  return point.clone().applyMatrix4(perihelion.matrixWorld);
+}
+
+// --- Tests ---
+
+describe('getOrbitRadius', () => {
+  it.each(ORBITS)('puts perihelion at a(1 - e) and aphelion at a(1 + e) (a=%f, e=%f)', (a, e) => {
+    expect(getOrbitRadius(a, e, 0)).toBeCloseTo(a * (1 - e), 9);
+    expect(getOrbitRadius(a, e, Math.PI)).toBeCloseTo(a * (1 + e), 9);
+  });
+
+  it('is the semi-latus rectum a(1 - e²) at ν = 90°', () => {
+    expect(getOrbitRadius(228, 0.0934, Math.PI / 2)).toBeCloseTo(228 * (1 - 0.0934 ** 2), 9);
+  });
+});
+
+describe('getOrbitPoints', () => {
+  it.each(ORBITS)('lies on r = a(1 - e²) / (1 + e cos ν) with the Sun at the focus (a=%f, e=%f)', (a, e) => {
+    const points = getOrbitPoints(a, e, 64);
+
+    for (const point of points) {
+      const trueAnomaly = Math.atan2(point.z, point.x);
+      const r = Math.hypot(point.x, point.z);
+
+      expect(point.y).toBe(0);
+      expect(r / getOrbitRadius(a, e, trueAnomaly)).toBeCloseTo(1, 9);
+    }
+  });
+
+  it('places perihelion on +X, offset from the ellipse center by the focal distance ae', () => {
+    const [a, e] = [228, 0.0934];
+    const points = getOrbitPoints(a, e, 64);
+    const xs = points.map(point => point.x);
+
+    expect(Math.max(...xs)).toBeCloseTo(a * (1 - e), 6);
+    expect(Math.min(...xs)).toBeCloseTo(-a * (1 + e), 6);
+    // Center of the ellipse sits at -ae
+    expect((Math.max(...xs) + Math.min(...xs)) / 2).toBeCloseTo(-a * e, 6);
+  });
+
+  it('closes the loop', () => {
+    const points = getOrbitPoints(149.6, 0.0167, 32);
+    expect(points[points.length - 1].equals(points[0])).toBe(true);
+  });
+
+  it('never cuts inside perihelion for very eccentric orbits', () => {
+    const [a, e] = [2668, 0.96714];
+    const perihelion = a * (1 - e);
+    const nearest = Math.min(...getOrbitPoints(a, e, 128).map(point => point.length()));
+
+    expect(nearest).toBeGreaterThanOrEqual(perihelion * 0.999999);
+    expect(nearest).toBeLessThan(perihelion * 1.01);
+  });
+});
+
+describe('getOrbitRotations', () => {
+  // [i, Ω, ϖ] - Mars (J2000), a retrograde orbit (Halley) and a steep one (Pallas)
+  const ELEMENTS: [number, number, number][] = [
+    [1.85, 49.58, 336.04],
+    [162.26, 58.42, 169.75],
+    [34.84, 172.92, 123.79],
+  ];
+
+  it.each(ELEMENTS)('orients the orbit like the ephemeris vectors (i=%f, Ω=%f, ϖ=%f)', (i, node, perihelion) => {
+    const [a, e] = [228, 0.3];
+
+    for (const trueAnomaly of [0, 0.7, Math.PI / 2, 2.5, -1.2]) {
+      const r = getOrbitRadius(a, e, trueAnomaly);
+      const inPlane = new THREE.Vector3(r * Math.cos(trueAnomaly), 0, r * Math.sin(trueAnomaly));
+
+      const actual = toScene(inPlane, node, i, perihelion);
+      const expected = expectedScenePosition(a, e, i, node, perihelion, trueAnomaly);
+
+      expect(actual.distanceTo(expected)).toBeLessThan(1e-9 * a);
+    }
+  });
+});
+
+describe('reference plane', () => {
+  it('turns orbits onto the equatorial plane exactly like the ephemeris vectors', () => {
+    const [a, e, i, node, perihelion] = [228, 0.3, 1.85, 49.58, 336.04];
+
+    for (const trueAnomaly of [0, 1.1, Math.PI, -2]) {
+      const r = getOrbitRadius(a, e, trueAnomaly);
+      const inPlane = new THREE.Vector3(r * Math.cos(trueAnomaly), 0, r * Math.sin(trueAnomaly));
+
+      const actual = toScene(inPlane, node, i, perihelion, 'equatorial');
+      const ecliptic = expectedScenePosition(a, e, i, node, perihelion, trueAnomaly);
+      const expected = toReferencePlane(ecliptic, 'equatorial');
+
+      expect(actual.distanceTo(new THREE.Vector3(expected.x, expected.y, expected.z))).toBeLessThan(1e-9 * a);
+    }
+  });
+});
+
+describe('getOrbitOpacity', () => {
+  it('is brightest at or inside 50 M km and faintest at or beyond 5000 M km', () => {
+    expect(getOrbitOpacity(10)).toBeCloseTo(0.15, 9);
+    expect(getOrbitOpacity(50)).toBeCloseTo(0.15, 9);
+    expect(getOrbitOpacity(5000)).toBeCloseTo(0.04, 9);
+    expect(getOrbitOpacity(20000)).toBeCloseTo(0.04, 9);
+  });
+
+  it('falls off logarithmically - halfway at the geometric mean (500 M km)', () => {
+    expect(getOrbitOpacity(500)).toBeCloseTo(0.095, 9);
+  });
+
+  it('decreases monotonically with distance', () => {
+    const distances = [58, 108, 150, 228, 778, 1430, 2870, 4500];
+    const opacities = distances.map(getOrbitOpacity);
+
+    opacities.slice(1).forEach((opacity, index) => {
+      expect(opacity).toBeLessThan(opacities[index]);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Request validation: only ids from the body registry reach Horizons, never names
+ * every JavaScript object inherits
+ */
+
+import { describe, expect, it } from 'vitest';
+import { validateEphemerisQuery, validatePhysicalQuery } from '@/services/requestValidation';
+
+// --- Helpers ---
+
+const INHERITED_NAMES = ['toString', 'constructor', '__proto__'];
+
+function params(query: Record<string, string>): URLSearchParams {
+  return new URLSearchParams(query);
+}
+
+// --- Tests ---
+
+describe('validateEphemerisQuery', () => {
+  it('accepts registered ids and centers', () => {
+    const result = validateEphemerisQuery(params({ date: '2024-01-15', ids: '399,301', center: '0' }));
+
+    expect(result).toMatchObject({ ok: true, value: { ids: ['399', '301'], center: '0' } });
+  });
+
+  it('rejects inherited object properties as ids', () => {
+    const result = validateEphemerisQuery(params({ date: '2024-01-15', ids: INHERITED_NAMES.join(',') }));
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.issues.map(issue => [issue.code, issue.value])).toEqual(
+      INHERITED_NAMES.map(name => ['UNKNOWN_BODY', name])
+    );
+  });
+
+  it('rejects inherited object properties as centers', () => {
+    for (const center of INHERITED_NAMES) {
+      const result = validateEphemerisQuery(params({ date: '2024-01-15', ids: '399', center }));
+
+      expect(result.ok).toBe(false);
+      if (result.ok) continue;
+      expect(result.issues).toEqual([expect.objectContaining({ param: 'center', code: 'UNKNOWN_BODY' })]);
+    }
+  });
+});
+
+describe('validatePhysicalQuery', () => {
+  it('accepts a registered id', () => {
+    expect(validatePhysicalQuery(params({ id: '499' }))).toEqual({ ok: true, value: { id: '499', force: false } });
+  });
+
+  it('rejects inherited object properties', () => {
+    for (const id of INHERITED_NAMES) {
+      const result = validatePhysicalQuery(params({ id }));
+
+      expect(result.ok).toBe(false);
+      if (result.ok) continue;
+      expect(result.issues).toEqual([expect.objectContaining({ param: 'id', code: 'UNKNOWN_BODY', value: id })]);
+    }
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Rise, transit and set from state vectors: the Sun at Greenwich around the equinox,
+ * polar day and night, and local day boundaries
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getLocalDayStart, getRiseSetTable } from '@/lib/riseSet';
+import { DEFAULT_OBSERVER_SITE } from '@/lib/observer';
+import { propagateBodies } from '@/lib/keplerPropagator';
+import { reoriginEphemeris } from '@/lib/frames';
+import type { ObserverSite } from '@/lib/types';
+
+// --- Helpers ---
+
+const MINUTE = 60_000;
+
+function getSunTimes(timestamp: string, site: ObserverSite = DEFAULT_OBSERVER_SITE) {
+  const data = propagateBodies(['10', '399'], timestamp);
+  return getRiseSetTable(['10'], data, site, Date.parse(timestamp))[0];
+}
+
+// --- Tests ---
+
+describe('getRiseSetTable', () => {
+  it('matches the published Greenwich sunrise and sunset on the March equinox', () => {
+    const sun = getSunTimes('2024-03-20T09:00:00Z');
+
+    // HM Nautical Almanac Office: 06:02 / 18:14 GMT
+    expect(Math.abs(sun.rise! - Date.parse('2024-03-20T06:02:00Z'))).toBeLessThan(3 * MINUTE);
+    expect(Math.abs(sun.set! - Date.parse('2024-03-20T18:14:00Z'))).toBeLessThan(3 * MINUTE);
+    expect(Math.abs(sun.transit! - Date.parse('2024-03-20T12:07:30Z'))).toBeLessThan(2 * MINUTE);
+    expect(sun.maxAltitude).toBeCloseTo(90 - DEFAULT_OBSERVER_SITE.latitude, 0);
+  });
+
+  it('gives the same answer in any frame', () => {
+    const timestamp = '2024-03-20T09:00:00Z';
+    const data = propagateBodies(['10', '399', '499'], timestamp);
+    const earth = data.find(body => body.bodyId === '399')!;
+    const geocentric = reoriginEphemeris(data, { position: earth.position, velocity: earth.velocity! });
+
+    const heliocentricTimes = getRiseSetTable(['10', '499'], data, DEFAULT_OBSERVER_SITE, Date.parse(timestamp));
+    const geocentricTimes = getRiseSetTable(['10', '499'], geocentric, DEFAULT_OBSERVER_SITE, Date.parse(timestamp));
+
+    expect(geocentricTimes).toEqual(heliocentricTimes);
+  });
+
+  it('flags the midnight Sun and the polar night', () => {
+    const svalbard = { latitude: 78.2, longitude: 15.6, altitudeKm: 0 };
+
+    expect(getSunTimes('2024-06-21T12:00:00Z', svalbard)).toMatchObject({ alwaysUp: true, rise: null, set: null });
+    expect(getSunTimes('2024-12-21T12:00:00Z', svalbard)).toMatchObject({ neverUp: true, rise: null, set: null });
+  });
+});
+
+describe('getLocalDayStart', () => {
+  it('starts the day at local mean midnight', () => {
+    const time = Date.parse('2024-03-20T02:00:00Z');
+
+    expect(getLocalDayStart(time, 0)).toBe(Date.parse('2024-03-20T00:00:00Z'));
+    // 90°W is six hours behind - still the 19th there
+    expect(getLocalDayStart(time, -90)).toBe(Date.parse('2024-03-19T06:00:00Z'));
+  });
+});
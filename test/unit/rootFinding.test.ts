@@ -0,0 +1,25 @@
+/**
+ * Root finding: sign changes by bisection and minima by golden-section search
+ */
+
+import { describe, expect, it } from 'vitest';
+import { bisect, findMinimum } from '@/lib/rootFinding';
+
+describe('bisect', () => {
+  it('narrows the bracket down to the sign change', () => {
+    expect(bisect(t => t - 3.3, 0, 10, 20)).toBeCloseTo(3.3, 4);
+    expect(bisect(t => 3.3 - t, 0, 10, 20)).toBeCloseTo(3.3, 4);
+  });
+
+  it('halves the bracket once per step', () => {
+    // After two steps the root lies in [2.5, 5] - the midpoint is returned
+    expect(bisect(t => t - 3.3, 0, 10, 2)).toBe(3.75);
+  });
+});
+
+describe('findMinimum', () => {
+  it('finds the minimum of a single dip', () => {
+    expect(findMinimum(t => (t - 7.25) ** 2, 0, 10)).toBeCloseTo(7.25, 4);
+    expect(findMinimum(t => Math.cos(t), 2, 5)).toBeCloseTo(Math.PI, 4);
+  });
+});
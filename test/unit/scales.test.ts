@@ -0,0 +1,112 @@
+/**
+ * Scale system: true-scale radii and the didactic multipliers per body class
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  DIDACTIC_SCALE,
+  REAL_RADII_KM,
+  SPACECRAFT_MARKER_RADIUS,
+  getDidacticRadius,
+  getRadius,
+  scalePositionFromKm,
+  type BodyClass,
+} from '@/lib/scales';
+import { PLANET_CONFIG } from '@/lib/textureConfig';
+
+// --- Tests ---
+
+describe('getRadius (realistic)', () => {
+  it('converts real radii at 1 unit = 1M km', () => {
+    expect(getRadius('10', 'STAR', 'realistic')).toBeCloseTo(0.696, 9);
+    expect(getRadius('399', 'ROCKY_PLANET', 'realistic')).toBeCloseTo(0.006371, 9);
+    expect(getRadius('599', 'GAS_GIANT', 'realistic')).toBeCloseTo(0.071492, 9);
+  });
+
+  it('keeps true size ratios between bodies', () => {
+    const earth = getRadius('399', 'ROCKY_PLANET', 'realistic');
+
+    expect(getRadius('10', 'STAR', 'realistic') / earth).toBeCloseTo(696000 / 6371, 9);
+    expect(getRadius('301', 'MOON', 'realistic') / earth).toBeCloseTo(1737 / 6371, 9);
+  });
+
+  it('assumes 1000 km for unknown bodies', () => {
+    expect(getRadius('123456', 'ROCKY_PLANET', 'realistic')).toBeCloseTo(0.001, 9);
+  });
+});
+
+describe('getRadius (didactic)', () => {
+  // [bodyId, class, expected multiplier]
+  const CASES: [string, BodyClass, number][] = [
+    ['10', 'STAR', DIDACTIC_SCALE.SUN],
+    ['599', 'GAS_GIANT', DIDACTIC_SCALE.GAS_GIANT],
+    ['399', 'ROCKY_PLANET', DIDACTIC_SCALE.ROCKY_PLANET],
+    ['999', 'DWARF_PLANET', DIDACTIC_SCALE.ROCKY_PLANET],
+    ['301', 'MOON', DIDACTIC_SCALE.MOON],
+    ['2000004', 'ASTEROID', DIDACTIC_SCALE.ASTEROID],
+    ['1000036', 'COMET', DIDACTIC_SCALE.COMET],
+  ];
+
+  it.each(CASES)('inflates %s (%s) by %i over true scale', (bodyId, bodyClass, multiplier) => {
+    const ratio = getRadius(bodyId, bodyClass, 'didactic') / getRadius(bodyId, bodyClass, 'realistic');
+    expect(ratio).toBeCloseTo(multiplier, 9);
+  });
+
+  it('uses the documented multipliers', () => {
+    expect(DIDACTIC_SCALE).toEqual({
+      SUN: 50,
+      GAS_GIANT: 400,
+      ROCKY_PLANET: 2000,
+      MOON: 3000,
+      ASTEROID: 5000,
+      COMET: 50000,
+    });
+  });
+
+  it('keeps Jupiter larger than Earth, and the Sun larger than Jupiter', () => {
+    const sun = getRadius('10', 'STAR');
+    const jupiter = getRadius('599', 'GAS_GIANT');
+    const earth = getRadius('399', 'ROCKY_PLANET');
+
+    expect(jupiter / earth).toBeCloseTo((71492 * 400) / (6371 * 2000), 9);
+    expect(sun).toBeGreaterThan(jupiter);
+    expect(jupiter).toBeGreaterThan(earth);
+  });
+
+  it('defaults to didactic mode', () => {
+    expect(getRadius('399', 'ROCKY_PLANET')).toBe(getRadius('399', 'ROCKY_PLANET', 'didactic'));
+  });
+});
+
+describe('getDidacticRadius', () => {
+  it('matches getRadius in didactic mode for every configured body', () => {
+    for (const [bodyId, config] of Object.entries(PLANET_CONFIG)) {
+      expect(getDidacticRadius(bodyId, config.bodyClass)).toBe(getRadius(bodyId, config.bodyClass, 'didactic'));
+    }
+  });
+
+  it('has a real radius for every configured natural body', () => {
+    for (const [bodyId, config] of Object.entries(PLANET_CONFIG)) {
+      if (config.bodyClass === 'SPACECRAFT') continue;
+      expect(REAL_RADII_KM[bodyId], bodyId).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('spacecraft markers', () => {
+  it('use fixed glyph radii instead of physical sizes', () => {
+    expect(getRadius('-31', 'SPACECRAFT', 'didactic')).toBe(SPACECRAFT_MARKER_RADIUS.didactic);
+    expect(getRadius('-31', 'SPACECRAFT', 'realistic')).toBe(SPACECRAFT_MARKER_RADIUS.realistic);
+    expect(getDidacticRadius('-31', 'SPACECRAFT')).toBe(SPACECRAFT_MARKER_RADIUS.didactic);
+  });
+});
+
+describe('scalePositionFromKm', () => {
+  it('maps km to scene units without reordering axes', () => {
+    const [x, y, z] = scalePositionFromKm(149_597_870.7, -2_000_000, 500_000);
+
+    expect(x).toBeCloseTo(149.5978707, 9);
+    expect(y).toBeCloseTo(-2, 9);
+    expect(z).toBeCloseTo(0.5, 9);
+  });
+});
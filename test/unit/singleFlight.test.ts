@@ -0,0 +1,40 @@
+/**
+ * Single-flight coalescing: shared in-flight promises and sequential runs
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createSingleFlight, runSequentially } from '@/lib/singleFlight';
+
+describe('runSequentially', () => {
+  it('shares overlapping keys with a concurrent caller', async () => {
+    const flight = createSingleFlight<string>();
+    const started: string[] = [];
+
+    const task = (key: string) => async () => {
+      started.push(key);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return key;
+    };
+
+    const [first, second] = await Promise.all([
+      runSequentially(flight, ['a', 'b'].map(key => ({ key, task: task(key) }))),
+      runSequentially(flight, ['b', 'c'].map(key => ({ key, task: task(key) }))),
+    ]);
+
+    expect(first.map(result => result.status === 'fulfilled' && result.value)).toEqual(['a', 'b']);
+    expect(second.map(result => result.status === 'fulfilled' && result.value)).toEqual(['b', 'c']);
+    // 'b' ran once, for both callers
+    expect(started.filter(key => key === 'b')).toHaveLength(1);
+    expect(flight.size()).toBe(0);
+  });
+
+  it('keeps going after a failed task', async () => {
+    const flight = createSingleFlight<number>();
+    const results = await runSequentially(flight, [
+      { key: 'fails', task: () => Promise.reject(new Error('upstream')) },
+      { key: 'works', task: () => Promise.resolve(2) },
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'fulfilled']);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Spacecraft mission windows: both ends inclusive, the last covered day included in full
+ */
+
+import { describe, expect, it } from 'vitest';
+import { clipToMissionWindow, isWithinMissionWindow } from '@/lib/spacecraft';
+
+// --- Helpers ---
+
+// Voyager 1: validFrom 1977-09-06, validTo 2030-12-31
+const VOYAGER_1_ID = '-31';
+
+// --- Tests ---
+
+describe('isWithinMissionWindow', () => {
+  it('includes the first and the whole last covered day', () => {
+    expect(isWithinMissionWindow(VOYAGER_1_ID, '1977-09-06T00:00:00Z')).toBe(true);
+    expect(isWithinMissionWindow(VOYAGER_1_ID, '2030-12-31T00:00:00Z')).toBe(true);
+    expect(isWithinMissionWindow(VOYAGER_1_ID, '2030-12-31T23:59:00Z')).toBe(true);
+  });
+
+  it('excludes times outside the window', () => {
+    expect(isWithinMissionWindow(VOYAGER_1_ID, '1977-09-05T23:59:00Z')).toBe(false);
+    expect(isWithinMissionWindow(VOYAGER_1_ID, '2031-01-01T00:00:00Z')).toBe(false);
+    expect(isWithinMissionWindow(VOYAGER_1_ID, Date.parse('2031-01-01T00:00:00Z'))).toBe(false);
+  });
+
+  it('always includes natural bodies', () => {
+    expect(isWithinMissionWindow('399', '1600-01-01T00:00:00Z')).toBe(true);
+  });
+});
+
+describe('clipToMissionWindow', () => {
+  it('clips to the last minute of the last covered day', () => {
+    expect(clipToMissionWindow(VOYAGER_1_ID, '2030-12-01T00:00:00.000Z', '2031-02-01T00:00:00.000Z')).toEqual({
+      start: '2030-12-01T00:00:00.000Z',
+      stop: '2030-12-31T23:59:00.000Z',
+    });
+  });
+
+  it('returns null when the windows do not overlap', () => {
+    expect(clipToMissionWindow(VOYAGER_1_ID, '2031-01-01T00:00:00.000Z', '2031-02-01T00:00:00.000Z')).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Simulation time: UTC timestamp parsing, Horizons formatting and TDB - UTC
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  combineDateAndTime,
+  getTdbMinusUtcSeconds,
+  normalizeTimestamp,
+  parseTimestamp,
+  toDatePart,
+  toHorizonsTime,
+  toTimePart,
+  toTimestamp,
+} from '@/lib/time';
+
+// --- Tests ---
+
+describe('parseTimestamp', () => {
+  it('reads plain dates as 00:00 UTC', () => {
+    expect(parseTimestamp('2024-01-15')).toBe(Date.UTC(2024, 0, 15));
+  });
+
+  it('reads timestamps without a zone as UTC', () => {
+    expect(parseTimestamp('2024-01-15T13:45')).toBe(Date.UTC(2024, 0, 15, 13, 45));
+    expect(parseTimestamp('2024-01-15T13:45:30')).toBe(Date.UTC(2024, 0, 15, 13, 45, 30));
+  });
+
+  it('honors explicit zones', () => {
+    expect(parseTimestamp('2024-01-15T13:45:00Z')).toBe(Date.UTC(2024, 0, 15, 13, 45));
+    expect(parseTimestamp('2024-01-15T13:45:00+02:00')).toBe(Date.UTC(2024, 0, 15, 11, 45));
+  });
+
+  it('rejects anything else', () => {
+    expect(parseTimestamp('yesterday')).toBeNull();
+    expect(parseTimestamp('2024-13-45')).toBeNull();
+    expect(parseTimestamp('15/01/2024')).toBeNull();
+    expect(parseTimestamp('')).toBeNull();
+  });
+});
+
+describe('canonical timestamps', () => {
+  it('truncates to the minute', () => {
+    expect(toTimestamp(Date.UTC(2024, 0, 15, 13, 45, 59, 999))).toBe('2024-01-15T13:45:00Z');
+  });
+
+  it('normalizes dates and timestamps to the same key', () => {
+    expect(normalizeTimestamp('2024-01-15')).toBe('2024-01-15T00:00:00Z');
+    expect(normalizeTimestamp('2024-01-15T00:00:00.000Z')).toBe('2024-01-15T00:00:00Z');
+    expect(normalizeTimestamp('not a date')).toBeNull();
+  });
+
+  it('splits into date and time of day, and joins them back', () => {
+    expect(toDatePart('2024-01-15T13:45:00Z')).toBe('2024-01-15');
+    expect(toTimePart('2024-01-15T13:45:00Z')).toBe('13:45');
+    expect(combineDateAndTime('2024-01-15', '13:45')).toBe('2024-01-15T13:45:00Z');
+    expect(combineDateAndTime('2024-01-15', '')).toBe('2024-01-15T00:00:00Z');
+  });
+});
+
+describe('toHorizonsTime', () => {
+  it('formats UTC instants in Horizons calendar syntax', () => {
+    expect(toHorizonsTime('2024-01-15T13:45:00Z')).toBe('2024-01-15 13:45');
+    expect(toHorizonsTime('2024-01-15')).toBe('2024-01-15 00:00');
+  });
+
+  it('passes unparseable input through', () => {
+    expect(toHorizonsTime('JD2460324.5')).toBe('JD2460324.5');
+  });
+});
+
+describe('getTdbMinusUtcSeconds', () => {
+  it('adds leap seconds and 32.184 s from 1972 on', () => {
+    expect(getTdbMinusUtcSeconds(Date.UTC(1972, 0, 2))).toBeCloseTo(42.184, 2);
+    expect(getTdbMinusUtcSeconds(Date.UTC(2016, 11, 31))).toBeCloseTo(68.184, 2);
+    expect(getTdbMinusUtcSeconds(Date.UTC(2024, 0, 15))).toBeCloseTo(69.184, 2);
+  });
+
+  it('keeps the last leap second offset for future dates', () => {
+    expect(getTdbMinusUtcSeconds(Date.UTC(2300, 0, 1))).toBeCloseTo(69.184, 2);
+  });
+
+  it('uses ΔT before UTC existed', () => {
+    // Espenak & Meeus: ΔT ≈ 29 s in 1950, ≈ 13.7 s in 1800, ≈ 120 s in 1600
+    expect(getTdbMinusUtcSeconds(Date.UTC(1950, 0, 1))).toBeCloseTo(29, 0);
+    expect(getTdbMinusUtcSeconds(Date.UTC(1800, 0, 1))).toBeCloseTo(13.7, 0);
+    expect(getTdbMinusUtcSeconds(Date.UTC(1600, 0, 1))).toBeCloseTo(120, 0);
+  });
+
+  it('joins the leap second era without a large jump', () => {
+    const before = getTdbMinusUtcSeconds(Date.UTC(1971, 11, 31));
+    const after = getTdbMinusUtcSeconds(Date.UTC(1972, 0, 1));
+
+    expect(Math.abs(after - before)).toBeLessThan(1);
+  });
+});